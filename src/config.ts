@@ -4,6 +4,15 @@
  *
  * Environment variables expected (see .env.example to be added later):
  * - NEWS_API_KEY (required for Event Registry requests)
+ * - NEWS_API_RECORD_DIR (optional; save raw EventRegistry responses as fixtures)
+ * - NEWS_API_REPLAY_DIR (optional; answer EventRegistry calls from fixtures, no network or key needed)
+ * - NEWS_API_RETRIES (default: 3; retries per EventRegistry request after a 429, 5xx or timeout)
+ * - NEWS_API_RETRY_BASE_MS (default: 500; exponential backoff base, with full jitter)
+ * - NEWS_API_RETRY_MAX_MS (default: 10000; longest single wait; a longer Retry-After gives up instead)
+ * - SOURCE_URI_CACHE_PATH (optional; default data/source-uri-cache.json)
+ * - SOURCE_URI_TTL_DAYS (default: 30; resolved source URIs are looked up again after this; pinned URIs never expire)
+ * - SOURCE_URI_MIN_CONFIDENCE (default: 0.75; suggestSourcesFast matches below this are reported as ambiguous, not queried)
+ * - SOURCE_REGISTRY_PATH (optional; editable source registry, default data/source-registry.json)
  * - TRANSPORT=stdio|http (default: stdio)
  * - PORT (default: 3000 for http transport)
  * - PG_URI (optional)
@@ -14,23 +23,63 @@
  * - PINECONE_INDEX (optional)
  * - RATE_LIMIT_DAILY_REQUESTS (optional)
  * - RATE_LIMIT_PER_SECOND (optional)
- * - BACKFILL_PAGE_CAP_PER_DAY (default: 2)
- * - BACKFILL_MODE=full|sampled (default: full)
+ * - BACKFILL_PAGE_CAP_PER_DAY (default: 2; pages per query)
+ * - FETCH_STRATEGY=pooled|perSource|perLeaning (default: pooled; how sources are split into article searches)
+ * - BACKFILL_MODE=full|sampled (default: full; sampled fetches a single page per day)
+ * - BACKFILL_PROGRESS_PATH (optional; default data/backfill-progress.json)
+ * - BASELINE_DAYS (default: 30; trailing days used for novelty/volShock baselines)
+ * - BASELINE_REFETCH=1|0 (default: 0; fetch baseline days missing from the score store)
+ * - ANOMALY_Z_THRESHOLD (default: 2.5)
+ * - ANOMALY_WINDOW_DAYS (default: 30; rolling history for z-scores)
+ * - SCORE_STORE=file|postgres|memory|none (default: postgres when PG_URI is set, else file)
+ * - SCORE_STORE_PATH (optional; file backend location, default data/daily-scores.json)
+ * - BUDGET_STORE=file|redis|memory (default: redis when REDIS_URL is set, else file; token and request budget counters)
+ * - BUDGET_STORE_PATH (optional; file backend location, default data/budget.json)
+ * - ARTICLE_CACHE=file|redis|memory|none (default: redis when REDIS_URL is set, else file; EventRegistry page cache behind an in-memory LRU)
+ * - ARTICLE_CACHE_DIR (optional; file backend location, default data/article-cache/)
+ * - ARTICLE_CACHE_MEMORY_ENTRIES (default: 500; pages kept in the in-process LRU)
+ * - ARTICLE_CACHE_OPEN_TTL_SECONDS (default: 600; lifetime of pages for ranges that include today or recent days)
+ * - ARTICLE_CACHE_SETTLE_HOURS (default: 24; hours after a UTC day closes before its pages are cached for good)
+ * - LEXICON_PACK (default: investor-default; relevance/sentiment lexicon pack id)
+ * - LEXICON_DIR (optional; directory of JSON/YAML lexicon packs, default lexicons/)
+ * - DEDUP_ENABLED=1|0 (default: 1; collapse syndicated near-duplicate headlines before scoring)
+ * - DEDUP_SIMILARITY (default: 0.6; title shingle Jaccard similarity that counts as the same story)
+ * - SPECTRUM_MODE=three|five (default: three; report per-leaning results over left/center/right or the five-point spectrum)
  */
 
 import { config } from 'dotenv';
+import type { SpectrumMode } from './types.js';
 
 // Load environment variables from .env file
 config();
 
 export type Transport = 'stdio' | 'http';
 
+export type ScoreStoreBackend = 'file' | 'postgres' | 'memory' | 'none';
+
+export type BudgetStoreBackend = 'file' | 'redis' | 'memory';
+
+export type ArticleCacheBackend = 'file' | 'redis' | 'memory' | 'none';
+
+export type FetchStrategy = 'pooled' | 'perSource' | 'perLeaning';
+
 export interface AppConfig {
   transport: Transport;
   port: number;
   httpHost: string;
   newsApiKey: string;
   newsApiBaseUrl: string;
+  newsApiRecordDir?: string;
+  newsApiReplayDir?: string;
+  newsApiRetry: {
+    retries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+  };
+  sourceUriCachePath?: string;
+  sourceUriTtlDays: number;
+  sourceUriMinConfidence: number;
+  sourceRegistryPath?: string;
   allowedHosts: string[];
   allowedOrigins: string[];
   logLevel: string;
@@ -46,10 +95,44 @@ export interface AppConfig {
     dailyRequestsCap?: number;
     perSecondCap?: number;
   };
+  fetchStrategy: FetchStrategy;
   backfill: {
     pageCapPerDay: number;
     mode: 'full' | 'sampled';
+    progressPath?: string;
+  };
+  baseline: {
+    days: number;
+    refetchMissing: boolean;
+  };
+  anomaly: {
+    zThreshold: number;
+    windowDays: number;
+  };
+  scoreStore: {
+    backend: ScoreStoreBackend;
+    path?: string;
+  };
+  budgetStore: {
+    backend: BudgetStoreBackend;
+    path?: string;
+  };
+  articleCache: {
+    backend: ArticleCacheBackend;
+    dir?: string;
+    memoryEntries: number;
+    openTtlSeconds: number;
+    settleHours: number;
+  };
+  lexicon: {
+    pack: string;
+    dir?: string;
   };
+  dedup: {
+    enabled: boolean;
+    similarity: number;
+  };
+  spectrumMode: SpectrumMode;
   tokenBudget?: {
     monthlyTokens: number;
     softCapPct: number;
@@ -64,6 +147,37 @@ function parseNumber(value: string | undefined): number | undefined {
   return Number.isFinite(n) ? n : undefined;
 }
 
+function parseFetchStrategy(value: string | undefined): FetchStrategy {
+  const normalized = value?.trim().toLowerCase();
+  if (normalized === 'persource') return 'perSource';
+  if (normalized === 'perleaning') return 'perLeaning';
+  return 'pooled';
+}
+
+function parseScoreStoreBackend(value: string | undefined, pgUri: string | undefined): ScoreStoreBackend {
+  const normalized = value?.trim().toLowerCase();
+  if (normalized === 'file' || normalized === 'postgres' || normalized === 'memory' || normalized === 'none') {
+    return normalized;
+  }
+  return pgUri ? 'postgres' : 'file';
+}
+
+function parseBudgetStoreBackend(value: string | undefined, redisUrl: string | undefined): BudgetStoreBackend {
+  const normalized = value?.trim().toLowerCase();
+  if (normalized === 'file' || normalized === 'redis' || normalized === 'memory') {
+    return normalized;
+  }
+  return redisUrl ? 'redis' : 'file';
+}
+
+function parseArticleCacheBackend(value: string | undefined, redisUrl: string | undefined): ArticleCacheBackend {
+  const normalized = value?.trim().toLowerCase();
+  if (normalized === 'file' || normalized === 'redis' || normalized === 'memory' || normalized === 'none') {
+    return normalized;
+  }
+  return redisUrl ? 'redis' : 'file';
+}
+
 export function getConfig(): AppConfig {
   const transport: Transport = process.env.TRANSPORT === 'http' ? 'http' : 'stdio';
   const port = Number(process.env.PORT || 3000);
@@ -71,6 +185,17 @@ export function getConfig(): AppConfig {
   const newsApiKey = process.env.NEWS_API_KEY || '';
   const newsApiBaseUrl =
     process.env.NEWS_API_BASE_URL?.trim() || 'https://eventregistry.org/api/v1/';
+  const newsApiRecordDir = process.env.NEWS_API_RECORD_DIR?.trim() || undefined;
+  const newsApiReplayDir = process.env.NEWS_API_REPLAY_DIR?.trim() || undefined;
+  const newsApiRetry = {
+    retries: Math.max(0, Math.floor(parseNumber(process.env.NEWS_API_RETRIES) ?? 3)),
+    baseDelayMs: Math.max(0, parseNumber(process.env.NEWS_API_RETRY_BASE_MS) ?? 500),
+    maxDelayMs: Math.max(0, parseNumber(process.env.NEWS_API_RETRY_MAX_MS) ?? 10_000),
+  };
+  const sourceUriCachePath = process.env.SOURCE_URI_CACHE_PATH?.trim() || undefined;
+  const sourceUriTtlDays = Math.max(0, parseNumber(process.env.SOURCE_URI_TTL_DAYS) ?? 30);
+  const sourceUriMinConfidence = Math.min(1, Math.max(0, parseNumber(process.env.SOURCE_URI_MIN_CONFIDENCE) ?? 0.75));
+  const sourceRegistryPath = process.env.SOURCE_REGISTRY_PATH?.trim() || undefined;
   const allowedHosts = (process.env.ALLOWED_HOSTS ?? '')
     .split(',')
     .map((h) => h.trim())
@@ -99,11 +224,57 @@ export function getConfig(): AppConfig {
     perSecondCap: parseNumber(process.env.RATE_LIMIT_PER_SECOND),
   };
 
+  const fetchStrategy = parseFetchStrategy(process.env.FETCH_STRATEGY);
+
   const backfill = {
     pageCapPerDay: Number(process.env.BACKFILL_PAGE_CAP_PER_DAY || 2),
     mode: (process.env.BACKFILL_MODE === 'sampled' ? 'sampled' : 'full') as 'full' | 'sampled',
+    progressPath: process.env.BACKFILL_PROGRESS_PATH?.trim() || undefined,
   };
 
+  const baseline = {
+    days: Number(process.env.BASELINE_DAYS || 30),
+    refetchMissing:
+      process.env.BASELINE_REFETCH === '1' ||
+      process.env.BASELINE_REFETCH?.toLowerCase() === 'true' ||
+      false,
+  };
+
+  const anomaly = {
+    zThreshold: Number(process.env.ANOMALY_Z_THRESHOLD || 2.5),
+    windowDays: Number(process.env.ANOMALY_WINDOW_DAYS || 30),
+  };
+
+  const scoreStore = {
+    backend: parseScoreStoreBackend(process.env.SCORE_STORE, pgUri),
+    path: process.env.SCORE_STORE_PATH?.trim() || undefined,
+  };
+
+  const budgetStore = {
+    backend: parseBudgetStoreBackend(process.env.BUDGET_STORE, redisUrl),
+    path: process.env.BUDGET_STORE_PATH?.trim() || undefined,
+  };
+
+  const articleCache = {
+    backend: parseArticleCacheBackend(process.env.ARTICLE_CACHE, redisUrl),
+    dir: process.env.ARTICLE_CACHE_DIR?.trim() || undefined,
+    memoryEntries: Math.max(0, Math.floor(parseNumber(process.env.ARTICLE_CACHE_MEMORY_ENTRIES) ?? 500)),
+    openTtlSeconds: Math.max(0, parseNumber(process.env.ARTICLE_CACHE_OPEN_TTL_SECONDS) ?? 600),
+    settleHours: Math.max(0, parseNumber(process.env.ARTICLE_CACHE_SETTLE_HOURS) ?? 24),
+  };
+
+  const lexicon = {
+    pack: process.env.LEXICON_PACK?.trim() || 'investor-default',
+    dir: process.env.LEXICON_DIR?.trim() || undefined,
+  };
+
+  const dedup = {
+    enabled: !(process.env.DEDUP_ENABLED === '0' || process.env.DEDUP_ENABLED?.toLowerCase() === 'false'),
+    similarity: Math.min(1, Math.max(0.05, parseNumber(process.env.DEDUP_SIMILARITY) ?? 0.6)),
+  };
+
+  const spectrumMode: SpectrumMode = process.env.SPECTRUM_MODE?.trim().toLowerCase() === 'five' ? 'five' : 'three';
+
   const tokenBudget = {
     monthlyTokens: Number(process.env.BUDGET_MONTHLY_TOKENS || 50000),
     softCapPct: Number(process.env.BUDGET_SOFT_CAP_PCT || 80),
@@ -120,6 +291,13 @@ export function getConfig(): AppConfig {
     httpHost,
     newsApiKey,
     newsApiBaseUrl,
+    newsApiRecordDir,
+    newsApiReplayDir,
+    newsApiRetry,
+    sourceUriCachePath,
+    sourceUriTtlDays,
+    sourceUriMinConfidence,
+    sourceRegistryPath,
     allowedHosts,
     allowedOrigins,
     logLevel,
@@ -127,17 +305,26 @@ export function getConfig(): AppConfig {
     redisUrl,
     pinecone,
     rateLimits,
+    fetchStrategy,
     backfill,
+    baseline,
+    anomaly,
+    scoreStore,
+    budgetStore,
+    articleCache,
+    lexicon,
+    dedup,
+    spectrumMode,
     tokenBudget,
   };
 }
 
 /**
  * Optional guard to assert required vars for specific runtime modes.
- * Currently we only require NEWS_API_KEY; future phases may assert PG/REDIS when those features are enabled.
+ * Currently we only require NEWS_API_KEY (unless replaying fixtures); future phases may assert PG/REDIS when those features are enabled.
  */
 export function assertRequiredConfig(cfg: AppConfig) {
-  if (!cfg.newsApiKey) {
+  if (!cfg.newsApiKey && !cfg.newsApiReplayDir) {
     throw new Error('NEWS_API_KEY environment variable is required');
   }
 }
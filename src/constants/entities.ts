@@ -0,0 +1,60 @@
+import { SP500_CONSTITUENTS } from './sp500.js';
+
+/**
+ * Entity dictionary for headline attribution: every S&P 500 constituent (see sp500.ts for the snapshot date), a few
+ * widely covered non-members, central banks and market-moving people.
+ * `names` are matched case-insensitively on word boundaries (see matcher.ts); tickers are matched in `$TICKER`,
+ * exchange-prefixed ("NASDAQ: NVDA") and Reuters-style ("(NVDA.O)") forms, or bare when unambiguous.
+ * Names that are (or stem to) everyday words ("Target", "Visa", "Delta", "Lowe's") are listed only in their
+ * corporate form.
+ * Keep sorted by type, then ticker.
+ */
+
+export type EntityType = 'company' | 'central_bank' | 'person' | 'ticker';
+
+export interface EntityDefinition {
+  id: string; // ticker for companies, kebab-case slug otherwise
+  name: string;
+  type: EntityType;
+  ticker?: string;
+  names: string[];
+}
+
+const company = (ticker: string, name: string, ...names: string[]): EntityDefinition => ({
+  id: ticker,
+  name,
+  type: 'company',
+  ticker,
+  names: names.length ? names : [name],
+});
+
+// Widely covered companies outside the index
+const NON_INDEX_COMPANIES: EntityDefinition[] = [company('AAL', 'American Airlines')];
+
+export const ENTITIES: EntityDefinition[] = [
+  ...[...SP500_CONSTITUENTS.map((row) => company(...row)), ...NON_INDEX_COMPANIES].sort((a, b) =>
+    a.id.localeCompare(b.id),
+  ),
+
+  { id: 'bank-of-england', name: 'Bank of England', type: 'central_bank', names: ['Bank of England', 'BoE'] },
+  { id: 'bank-of-japan', name: 'Bank of Japan', type: 'central_bank', names: ['Bank of Japan', 'BoJ'] },
+  { id: 'ecb', name: 'European Central Bank', type: 'central_bank', names: ['European Central Bank', 'ECB'] },
+  { id: 'federal-reserve', name: 'Federal Reserve', type: 'central_bank', names: ['Federal Reserve', 'Fed', 'FOMC'] },
+  { id: 'pboc', name: "People's Bank of China", type: 'central_bank', names: ["People's Bank of China", 'PBOC'] },
+
+  { id: 'christine-lagarde', name: 'Christine Lagarde', type: 'person', names: ['Christine Lagarde', 'Lagarde'] },
+  { id: 'elon-musk', name: 'Elon Musk', type: 'person', names: ['Elon Musk', 'Musk'] },
+  { id: 'jamie-dimon', name: 'Jamie Dimon', type: 'person', names: ['Jamie Dimon', 'Dimon'] },
+  { id: 'jensen-huang', name: 'Jensen Huang', type: 'person', names: ['Jensen Huang'] },
+  { id: 'jerome-powell', name: 'Jerome Powell', type: 'person', names: ['Jerome Powell', 'Powell'] },
+  { id: 'tim-cook', name: 'Tim Cook', type: 'person', names: ['Tim Cook'] },
+  { id: 'warren-buffett', name: 'Warren Buffett', type: 'person', names: ['Warren Buffett', 'Buffett'] },
+];
+
+// Dictionary tickers that are everyday words or acronyms in uppercase headlines; only matched as $TICKER or with an exchange
+export const AMBIGUOUS_TICKERS = new Set([
+  'ALL', 'AMP', 'APA', 'ARE', 'BALL', 'BEN', 'BRO', 'CAT', 'CMS', 'CNC', 'COO', 'COST', 'DAY', 'DE', 'DIS', 'DOC',
+  'DOW', 'EXE', 'FANG', 'FAST', 'GEN', 'GIS', 'HAL', 'HAS', 'HD', 'HUM', 'ICE', 'KEY', 'KEYS', 'KIM', 'LEN', 'LOW',
+  'MA', 'MAR', 'MAS', 'MET', 'MO', 'MS', 'NOW', 'PEG', 'PG', 'PM', 'POOL', 'PSA', 'REG', 'TAP', 'TECH', 'TEL', 'TXT',
+  'UPS', 'USB', 'WAT', 'WELL', 'YUM',
+]);
@@ -0,0 +1,70 @@
+/**
+ * Investor lexicon for weighted term scoring.
+ * Positive terms increase score, negative terms decrease.
+ * Serves as the sentiment weights of the built-in investor-default lexicon pack.
+ */
+export const INVESTOR_LEXICON: Record<string, number> = {
+  // Strong positive (+2)
+  'bull market': 2,
+  'bullish': 2,
+  'record high': 2,
+  'outperform': 2,
+  'breakthrough': 2,
+  'innovation': 2,
+  'growth': 2,
+  'expansion': 2,
+  'rally': 2,
+  'surge': 2,
+  'record profit': 2,
+  'beat expectations': 2,
+  'strong demand': 2,
+  'market leader': 2,
+  'competitive advantage': 2,
+
+  // Moderate positive (+1)
+  'investment': 1,
+  'dividend': 1,
+  'profit': 1,
+  'earnings': 1,
+  'partnership': 1,
+  'acquisition': 1,
+  'opportunity': 1,
+  'recovery': 1,
+  'stability': 1,
+  'stable': 1,
+  'guidance': 1,
+  'momentum': 1,
+
+  // Strong negative (-2)
+  'bear market': -2,
+  'bearish': -2,
+  'crash': -2,
+  'recession': -2,
+  'bankruptcy': -2,
+  'default': -2,
+  'crisis': -2,
+  'collapse': -2,
+  'investigation': -2,
+  'fraud': -2,
+  'lawsuit': -2,
+  'downgrade': -2,
+  'miss expectations': -2,
+  'weak demand': -2,
+  'market correction': -2,
+
+  // Moderate negative (-1)
+  'volatility': -1,
+  'volatile': -1,
+  'uncertainty': -1,
+  'uncertain': -1,
+  'risk': -1,
+  'concern': -1,
+  'warning': -1,
+  'caution': -1,
+  'slowdown': -1,
+  'decline': -1,
+  'loss': -1,
+  'debt': -1,
+  'regulatory': -1,
+  'inflation': -1,
+};
@@ -1,114 +1,113 @@
-import type { PoliticalLeaning } from '../types.js';
+import type { PoliticalLeaning, SpectrumBucket, SpectrumLeaning, SpectrumMode } from '../types.js';
 
 /**
- * Preferred US-based sources spanning political perspectives.
- * We prefer using NewsAPI's source.id slugs here.
- * Constraint: US-only intake. Do not include non-US outlets.
+ * Built-in source registry: preferred US-based sources spanning political perspectives.
+ * Ids are NewsAPI-style source.id slugs. This is the seed for the editable registry (see services/sourceRegistry.ts);
+ * once the registry file exists, it is the source of truth and these entries are not consulted.
  */
 
-export const PREFERRED_SOURCE_IDS = [
+export type SourceCategory = 'business' | 'general';
+
+export interface BuiltinSource {
+  id: string;
+  name: string;
+  spectrum: SpectrumLeaning;
+  category: SourceCategory;
+  aliases?: string[]; // alternate outlet titles seen in EventRegistry results
+}
+
+export const BUILTIN_SOURCES: readonly BuiltinSource[] = [
   // Center/Mainstream
-  'associated-press',
-  'bloomberg',
-  'usa-today',
-  'the-wall-street-journal',
-  'marketwatch',
+  { id: 'associated-press', name: 'Associated Press', spectrum: 'center', category: 'general', aliases: ['AP', 'AP News'] },
+  { id: 'bloomberg', name: 'Bloomberg', spectrum: 'center', category: 'business', aliases: ['Bloomberg Business'] },
+  { id: 'usa-today', name: 'USA Today', spectrum: 'center', category: 'general' },
+  { id: 'the-wall-street-journal', name: 'The Wall Street Journal', spectrum: 'center', category: 'business', aliases: ['WSJ', 'Wall Street Journal'] },
+  { id: 'marketwatch', name: 'MarketWatch', spectrum: 'center', category: 'business' },
 
   // Center-Left
-  'the-washington-post',
-  'cnn',
-  'nbc-news',
-  'abc-news',
-  'cbs-news',
-  'time',
-  'business-insider',
-  'politico',
+  { id: 'the-washington-post', name: 'The Washington Post', spectrum: 'center-left', category: 'general', aliases: ['Washington Post'] },
+  { id: 'cnn', name: 'CNN', spectrum: 'center-left', category: 'general' },
+  { id: 'nbc-news', name: 'NBC News', spectrum: 'center-left', category: 'general' },
+  { id: 'abc-news', name: 'ABC News', spectrum: 'center-left', category: 'general' },
+  { id: 'cbs-news', name: 'CBS News', spectrum: 'center-left', category: 'general' },
+  { id: 'time', name: 'Time', spectrum: 'center-left', category: 'general' },
+  { id: 'business-insider', name: 'Business Insider', spectrum: 'center-left', category: 'business' },
+  { id: 'politico', name: 'Politico', spectrum: 'center-left', category: 'general' },
 
   // Center-Right
-  'fox-news',
-  'fox-business',
-  'the-hill',
-  'national-review',
-  'washington-examiner',
+  { id: 'fox-news', name: 'Fox News', spectrum: 'center-right', category: 'general' },
+  { id: 'fox-business', name: 'Fox Business', spectrum: 'center-right', category: 'business' },
+  { id: 'the-hill', name: 'The Hill', spectrum: 'center-right', category: 'general' },
+  { id: 'national-review', name: 'National Review', spectrum: 'center-right', category: 'general' },
+  { id: 'washington-examiner', name: 'Washington Examiner', spectrum: 'center-right', category: 'general' },
 
   // Progressive
-  'vice-news',
-  'huffpost',
-  'vox',
-  'the-atlantic',
-  'mother-jones',
+  { id: 'vice-news', name: 'Vice News', spectrum: 'progressive', category: 'general', aliases: ['VICE'] },
+  { id: 'huffpost', name: 'HuffPost', spectrum: 'progressive', category: 'general', aliases: ['Huffington Post'] },
+  { id: 'vox', name: 'Vox', spectrum: 'progressive', category: 'general' },
+  { id: 'the-atlantic', name: 'The Atlantic', spectrum: 'progressive', category: 'general' },
+  { id: 'mother-jones', name: 'Mother Jones', spectrum: 'progressive', category: 'general' },
 
   // Conservative
-  'newsmax',
-  'washington-times',
-  'breitbart-news',
-  'the-american-conservative',
+  { id: 'newsmax', name: 'Newsmax', spectrum: 'conservative', category: 'general' },
+  { id: 'washington-times', name: 'The Washington Times', spectrum: 'conservative', category: 'general' },
+  { id: 'breitbart-news', name: 'Breitbart News', spectrum: 'conservative', category: 'general', aliases: ['Breitbart'] },
+  { id: 'the-american-conservative', name: 'The American Conservative', spectrum: 'conservative', category: 'general' },
 
   // Business/Economic Focus
-  'fortune',
-  'cnbc',
-] as const;
+  { id: 'fortune', name: 'Fortune', spectrum: 'center', category: 'business' },
+  { id: 'cnbc', name: 'CNBC', spectrum: 'center', category: 'business' },
+];
 
-export type PreferredSourceId = typeof PREFERRED_SOURCE_IDS[number];
+export const PREFERRED_SOURCE_IDS: readonly string[] = BUILTIN_SOURCES.map((source) => source.id);
 
 export const PREFERRED_SOURCES_CSV = PREFERRED_SOURCE_IDS.join(',');
 
+export const POLITICAL_LEANINGS: readonly PoliticalLeaning[] = ['left', 'center', 'right'];
+
+export const SPECTRUM_LEANINGS: readonly SpectrumLeaning[] = [
+  'progressive',
+  'center-left',
+  'center',
+  'center-right',
+  'conservative',
+];
+
 /**
- * Static mapping of source ids to political leaning.
- * These are heuristic groupings and can be refined over time.
- * Where a source is ambiguous, prefer 'center'.
+ * Collapse the five-point spectrum onto the three leanings used for scoring.
+ * Center-left outlets group with the left and center-right with the right, as the original static table did.
  */
-export const SOURCE_CATEGORIZATION: Record<PoliticalLeaning, readonly PreferredSourceId[]> = {
-  left: [
-    'the-washington-post',
-    'cnn',
-    'nbc-news',
-    'abc-news',
-    'cbs-news',
-    'time',
-    'business-insider',
-    'politico',
-    'vice-news',
-    'huffpost',
-    'vox',
-    'the-atlantic',
-    'mother-jones',
-  ],
-  center: [
-    'associated-press',
-    'bloomberg',
-    'usa-today',
-    'the-wall-street-journal',
-    'marketwatch',
-    'fortune',
-    'cnbc',
-  ],
-  right: [
-    'fox-news',
-    'fox-business',
-    'the-hill',
-    'national-review',
-    'washington-examiner',
-    'newsmax',
-    'washington-times',
-    'breitbart-news',
-    'the-american-conservative',
-  ],
-} as const;
+export function spectrumToLeaning(spectrum: SpectrumLeaning): PoliticalLeaning {
+  if (spectrum === 'progressive' || spectrum === 'center-left') return 'left';
+  if (spectrum === 'conservative' || spectrum === 'center-right') return 'right';
+  return 'center';
+}
 
 /**
- * For quick membership checks and categorization lookups.
+ * Per-leaning result keys for a spectrum mode, left to right.
  */
-export const PREFERRED_SOURCE_SET = new Set<string>(PREFERRED_SOURCE_IDS as readonly string[]);
+export function spectrumBuckets(mode: SpectrumMode): readonly SpectrumBucket[] {
+  return mode === 'five' ? SPECTRUM_LEANINGS : POLITICAL_LEANINGS;
+}
 
 /**
- * Resolve a political leaning given a normalized source id (kebab case).
- * Defaults to 'center' if the source is not explicitly listed.
+ * Built-in leaning tables, for quick reference. Runtime lookups go through the registry.
  */
-export function leaningForSourceId(id?: string | null): PoliticalLeaning {
-  if (!id) return 'center';
-  if ((SOURCE_CATEGORIZATION.left as readonly string[]).includes(id)) return 'left';
-  if ((SOURCE_CATEGORIZATION.right as readonly string[]).includes(id)) return 'right';
-  // default fallback
-  return 'center';
-}
+export const SOURCE_CATEGORIZATION: Record<PoliticalLeaning, readonly string[]> = {
+  left: BUILTIN_SOURCES.filter((s) => spectrumToLeaning(s.spectrum) === 'left').map((s) => s.id),
+  center: BUILTIN_SOURCES.filter((s) => spectrumToLeaning(s.spectrum) === 'center').map((s) => s.id),
+  right: BUILTIN_SOURCES.filter((s) => spectrumToLeaning(s.spectrum) === 'right').map((s) => s.id),
+};
+
+export const SOURCE_SPECTRUM_CATEGORIZATION: Record<SpectrumLeaning, readonly string[]> = {
+  progressive: BUILTIN_SOURCES.filter((s) => s.spectrum === 'progressive').map((s) => s.id),
+  'center-left': BUILTIN_SOURCES.filter((s) => s.spectrum === 'center-left').map((s) => s.id),
+  center: BUILTIN_SOURCES.filter((s) => s.spectrum === 'center').map((s) => s.id),
+  'center-right': BUILTIN_SOURCES.filter((s) => s.spectrum === 'center-right').map((s) => s.id),
+  conservative: BUILTIN_SOURCES.filter((s) => s.spectrum === 'conservative').map((s) => s.id),
+};
+
+/**
+ * For quick membership checks and categorization lookups.
+ */
+export const PREFERRED_SOURCE_SET = new Set<string>(PREFERRED_SOURCE_IDS);
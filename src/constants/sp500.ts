@@ -0,0 +1,514 @@
+/**
+ * S&P 500 constituents as of SP500_AS_OF, one row per company (dual share classes list the primary ticker).
+ * Rows are [ticker, display name, ...headline names]; without headline names the display name is matched.
+ * Headline names follow the rules in entities.ts: a name that is (or stems to) an everyday word or a common surname
+ * ("Carrier", "Pool", "Travelers", "Domino's") is listed only in its corporate form.
+ * To refresh, apply the index changes published since SP500_AS_OF and bump the date. Keep sorted by ticker.
+ */
+
+export const SP500_AS_OF = '2025-06-30';
+
+export type ConstituentRow = readonly [ticker: string, name: string, ...names: string[]];
+
+export const SP500_CONSTITUENTS: readonly ConstituentRow[] = [
+  ['A', 'Agilent Technologies', 'Agilent Technologies', 'Agilent'],
+  ['AAPL', 'Apple'],
+  ['ABBV', 'AbbVie'],
+  ['ABNB', 'Airbnb'],
+  ['ABT', 'Abbott Laboratories', 'Abbott Laboratories', 'Abbott'],
+  ['ACGL', 'Arch Capital Group', 'Arch Capital'],
+  ['ACN', 'Accenture'],
+  ['ADBE', 'Adobe'],
+  ['ADI', 'Analog Devices'],
+  ['ADM', 'Archer-Daniels-Midland', 'Archer-Daniels-Midland', 'Archer Daniels Midland'],
+  ['ADP', 'Automatic Data Processing', 'Automatic Data Processing', 'ADP'],
+  ['ADSK', 'Autodesk'],
+  ['AEE', 'Ameren'],
+  ['AEP', 'American Electric Power'],
+  ['AES', 'AES Corporation', 'AES Corp', 'AES Corporation'],
+  ['AFL', 'Aflac'],
+  ['AIG', 'American International Group', 'American International Group', 'AIG'],
+  ['AIZ', 'Assurant'],
+  ['AJG', 'Arthur J. Gallagher', 'Arthur J. Gallagher', 'Arthur J Gallagher'],
+  ['AKAM', 'Akamai Technologies', 'Akamai'],
+  ['ALB', 'Albemarle'],
+  ['ALGN', 'Align Technology'],
+  ['ALL', 'Allstate'],
+  ['ALLE', 'Allegion'],
+  ['AMAT', 'Applied Materials'],
+  ['AMCR', 'Amcor'],
+  ['AMD', 'Advanced Micro Devices', 'Advanced Micro Devices', 'AMD'],
+  ['AME', 'Ametek'],
+  ['AMGN', 'Amgen'],
+  ['AMP', 'Ameriprise Financial', 'Ameriprise'],
+  ['AMT', 'American Tower'],
+  ['AMZN', 'Amazon'],
+  ['ANET', 'Arista Networks'],
+  ['ANSS', 'Ansys'],
+  ['AON', 'Aon'],
+  ['AOS', 'A. O. Smith', 'A. O. Smith', 'A.O. Smith', 'AO Smith'],
+  ['APA', 'APA Corporation', 'APA Corp', 'APA Corporation', 'Apache Corp'],
+  ['APD', 'Air Products and Chemicals', 'Air Products'],
+  ['APH', 'Amphenol'],
+  ['APO', 'Apollo Global Management', 'Apollo Global Management', 'Apollo Global'],
+  ['APTV', 'Aptiv'],
+  ['ARE', 'Alexandria Real Estate Equities', 'Alexandria Real Estate'],
+  ['ATO', 'Atmos Energy'],
+  ['AVB', 'AvalonBay Communities', 'AvalonBay'],
+  ['AVGO', 'Broadcom'],
+  ['AVY', 'Avery Dennison'],
+  ['AWK', 'American Water Works', 'American Water Works', 'American Water'],
+  ['AXON', 'Axon Enterprise'],
+  ['AXP', 'American Express', 'American Express', 'Amex'],
+  ['AZO', 'AutoZone'],
+  ['BA', 'Boeing'],
+  ['BAC', 'Bank of America', 'Bank of America', 'BofA'],
+  ['BALL', 'Ball Corporation', 'Ball Corp', 'Ball Corporation'],
+  ['BAX', 'Baxter International', 'Baxter International', 'Baxter'],
+  ['BBY', 'Best Buy'],
+  ['BDX', 'Becton Dickinson', 'Becton Dickinson', 'Becton, Dickinson'],
+  ['BEN', 'Franklin Resources', 'Franklin Resources', 'Franklin Templeton'],
+  ['BF.B', 'Brown-Forman'],
+  ['BG', 'Bunge Global', 'Bunge'],
+  ['BIIB', 'Biogen'],
+  ['BK', 'BNY Mellon', 'BNY Mellon', 'Bank of New York Mellon', 'BNY'],
+  ['BKNG', 'Booking Holdings', 'Booking Holdings', 'Booking.com'],
+  ['BKR', 'Baker Hughes'],
+  ['BLDR', 'Builders FirstSource'],
+  ['BLK', 'BlackRock'],
+  ['BMY', 'Bristol Myers Squibb', 'Bristol Myers Squibb', 'Bristol-Myers Squibb', 'Bristol Myers'],
+  ['BR', 'Broadridge Financial Solutions', 'Broadridge'],
+  ['BRK.B', 'Berkshire Hathaway', 'Berkshire Hathaway', 'Berkshire'],
+  ['BRO', 'Brown & Brown'],
+  ['BSX', 'Boston Scientific'],
+  ['BX', 'Blackstone'],
+  ['BXP', 'BXP', 'BXP Inc', 'Boston Properties'],
+  ['C', 'Citigroup', 'Citigroup', 'Citi'],
+  ['CAG', 'Conagra Brands', 'Conagra'],
+  ['CAH', 'Cardinal Health'],
+  ['CARR', 'Carrier Global'],
+  ['CAT', 'Caterpillar'],
+  ['CB', 'Chubb'],
+  ['CBOE', 'Cboe Global Markets', 'Cboe Global Markets', 'Cboe'],
+  ['CBRE', 'CBRE Group', 'CBRE'],
+  ['CCI', 'Crown Castle'],
+  ['CCL', 'Carnival Corporation', 'Carnival Corp', 'Carnival Corporation', 'Carnival Cruise'],
+  ['CDNS', 'Cadence Design Systems', 'Cadence Design Systems', 'Cadence Design'],
+  ['CDW', 'CDW Corporation', 'CDW'],
+  ['CEG', 'Constellation Energy'],
+  ['CF', 'CF Industries'],
+  ['CFG', 'Citizens Financial Group', 'Citizens Financial'],
+  ['CHD', 'Church & Dwight'],
+  ['CHRW', 'C.H. Robinson', 'C.H. Robinson', 'CH Robinson'],
+  ['CHTR', 'Charter Communications'],
+  ['CI', 'Cigna'],
+  ['CINF', 'Cincinnati Financial'],
+  ['CL', 'Colgate-Palmolive', 'Colgate-Palmolive', 'Colgate'],
+  ['CLX', 'Clorox'],
+  ['CMCSA', 'Comcast'],
+  ['CME', 'CME Group', 'CME Group', 'CME'],
+  ['CMG', 'Chipotle Mexican Grill', 'Chipotle Mexican Grill', 'Chipotle'],
+  ['CMI', 'Cummins'],
+  ['CMS', 'CMS Energy'],
+  ['CNC', 'Centene'],
+  ['CNP', 'CenterPoint Energy'],
+  ['COF', 'Capital One'],
+  ['COIN', 'Coinbase'],
+  ['COO', 'Cooper Companies', 'Cooper Companies', 'CooperCompanies'],
+  ['COP', 'ConocoPhillips'],
+  ['COR', 'Cencora'],
+  ['COST', 'Costco'],
+  ['CPAY', 'Corpay'],
+  ['CPB', "Campbell's Company", "Campbell's Company", 'Campbell Soup'],
+  ['CPRT', 'Copart'],
+  ['CPT', 'Camden Property Trust'],
+  ['CRL', 'Charles River Laboratories', 'Charles River Laboratories', 'Charles River Labs'],
+  ['CRM', 'Salesforce'],
+  ['CRWD', 'CrowdStrike'],
+  ['CSCO', 'Cisco'],
+  ['CSGP', 'CoStar Group', 'CoStar'],
+  ['CSX', 'CSX'],
+  ['CTAS', 'Cintas'],
+  ['CTRA', 'Coterra Energy', 'Coterra'],
+  ['CTSH', 'Cognizant'],
+  ['CTVA', 'Corteva'],
+  ['CVS', 'CVS Health', 'CVS Health', 'CVS'],
+  ['CVX', 'Chevron'],
+  ['CZR', 'Caesars Entertainment'],
+  ['D', 'Dominion Energy'],
+  ['DAL', 'Delta Air Lines', 'Delta Air Lines', 'Delta Airlines'],
+  ['DASH', 'DoorDash'],
+  ['DAY', 'Dayforce'],
+  ['DD', 'DuPont'],
+  ['DE', 'Deere & Company', 'Deere', 'John Deere'],
+  ['DECK', 'Deckers Brands', 'Deckers Brands', 'Deckers Outdoor'],
+  ['DELL', 'Dell Technologies', 'Dell Technologies', 'Dell'],
+  ['DG', 'Dollar General'],
+  ['DGX', 'Quest Diagnostics'],
+  ['DHI', 'D.R. Horton', 'D.R. Horton', 'DR Horton'],
+  ['DHR', 'Danaher'],
+  ['DIS', 'Walt Disney', 'Walt Disney', 'Disney'],
+  ['DLR', 'Digital Realty'],
+  ['DLTR', 'Dollar Tree'],
+  ['DOC', 'Healthpeak Properties', 'Healthpeak'],
+  ['DOV', 'Dover Corporation', 'Dover Corp', 'Dover Corporation'],
+  ['DOW', 'Dow Inc', 'Dow Inc', 'Dow Chemical'], // bare "Dow" is the index
+  ['DPZ', "Domino's Pizza"],
+  ['DRI', 'Darden Restaurants', 'Darden Restaurants', 'Darden'],
+  ['DTE', 'DTE Energy'],
+  ['DUK', 'Duke Energy'],
+  ['DVA', 'DaVita'],
+  ['DVN', 'Devon Energy'],
+  ['DXCM', 'Dexcom'],
+  ['EA', 'Electronic Arts'],
+  ['EBAY', 'eBay'],
+  ['ECL', 'Ecolab'],
+  ['ED', 'Consolidated Edison', 'Consolidated Edison', 'Con Edison', 'ConEd'],
+  ['EFX', 'Equifax'],
+  ['EG', 'Everest Group'],
+  ['EIX', 'Edison International'],
+  ['EL', 'Estée Lauder', 'Estee Lauder'], // the matcher's tokens are ASCII
+  ['ELV', 'Elevance Health', 'Elevance Health', 'Elevance'],
+  ['EMN', 'Eastman Chemical'],
+  ['EMR', 'Emerson Electric'],
+  ['ENPH', 'Enphase Energy', 'Enphase Energy', 'Enphase'],
+  ['EOG', 'EOG Resources'],
+  ['EPAM', 'EPAM Systems', 'EPAM'],
+  ['EQIX', 'Equinix'],
+  ['EQR', 'Equity Residential'],
+  ['EQT', 'EQT Corporation', 'EQT Corp', 'EQT Corporation'],
+  ['ERIE', 'Erie Indemnity'],
+  ['ES', 'Eversource Energy', 'Eversource'],
+  ['ESS', 'Essex Property Trust'],
+  ['ETN', 'Eaton'],
+  ['ETR', 'Entergy'],
+  ['EVRG', 'Evergy'],
+  ['EW', 'Edwards Lifesciences'],
+  ['EXC', 'Exelon'],
+  ['EXE', 'Expand Energy'],
+  ['EXPD', 'Expeditors International', 'Expeditors International', 'Expeditors'],
+  ['EXPE', 'Expedia Group', 'Expedia'],
+  ['EXR', 'Extra Space Storage'],
+  ['F', 'Ford Motor', 'Ford Motor', 'Ford'],
+  ['FANG', 'Diamondback Energy'],
+  ['FAST', 'Fastenal'],
+  ['FCX', 'Freeport-McMoRan', 'Freeport-McMoRan', 'Freeport McMoRan'],
+  ['FDS', 'FactSet'],
+  ['FDX', 'FedEx'],
+  ['FE', 'FirstEnergy'],
+  ['FFIV', 'F5', 'F5 Inc', 'F5 Networks'],
+  ['FI', 'Fiserv'],
+  ['FICO', 'Fair Isaac', 'Fair Isaac', 'FICO'],
+  ['FIS', 'Fidelity National Information Services', 'Fidelity National Information Services', 'FIS'],
+  ['FITB', 'Fifth Third Bancorp', 'Fifth Third'],
+  ['FOXA', 'Fox Corporation', 'Fox Corp', 'Fox Corporation'], // "Fox News" is a source, not the company
+  ['FRT', 'Federal Realty Investment Trust', 'Federal Realty'],
+  ['FSLR', 'First Solar'],
+  ['FTNT', 'Fortinet'],
+  ['FTV', 'Fortive'],
+  ['GD', 'General Dynamics'],
+  ['GDDY', 'GoDaddy'],
+  ['GE', 'GE Aerospace', 'GE Aerospace', 'General Electric'],
+  ['GEHC', 'GE HealthCare'],
+  ['GEN', 'Gen Digital'],
+  ['GEV', 'GE Vernova'],
+  ['GILD', 'Gilead Sciences', 'Gilead Sciences', 'Gilead'],
+  ['GIS', 'General Mills'],
+  ['GL', 'Globe Life'],
+  ['GLW', 'Corning'],
+  ['GM', 'General Motors', 'General Motors', 'GM'],
+  ['GNRC', 'Generac'],
+  ['GOOGL', 'Alphabet', 'Alphabet', 'Google'],
+  ['GPC', 'Genuine Parts'],
+  ['GPN', 'Global Payments', 'Global Payments Inc'],
+  ['GRMN', 'Garmin'],
+  ['GS', 'Goldman Sachs', 'Goldman Sachs', 'Goldman'],
+  ['GWW', 'W.W. Grainger', 'W.W. Grainger', 'WW Grainger', 'Grainger'],
+  ['HAL', 'Halliburton'],
+  ['HAS', 'Hasbro'],
+  ['HBAN', 'Huntington Bancshares'],
+  ['HCA', 'HCA Healthcare', 'HCA Healthcare', 'HCA'],
+  ['HD', 'Home Depot'],
+  ['HES', 'Hess Corporation', 'Hess Corp', 'Hess Corporation'],
+  ['HIG', 'The Hartford', 'The Hartford', 'Hartford Financial'],
+  ['HII', 'Huntington Ingalls Industries', 'Huntington Ingalls'],
+  ['HLT', 'Hilton Worldwide', 'Hilton Worldwide', 'Hilton Hotels'],
+  ['HOLX', 'Hologic'],
+  ['HON', 'Honeywell'],
+  ['HPE', 'Hewlett Packard Enterprise', 'Hewlett Packard Enterprise', 'HPE'],
+  ['HPQ', 'HP Inc', 'HP Inc'],
+  ['HRL', 'Hormel Foods', 'Hormel Foods', 'Hormel'],
+  ['HSIC', 'Henry Schein'],
+  ['HST', 'Host Hotels & Resorts', 'Host Hotels'],
+  ['HSY', 'Hershey'],
+  ['HUBB', 'Hubbell'],
+  ['HUM', 'Humana'],
+  ['HWM', 'Howmet Aerospace', 'Howmet'],
+  ['IBM', 'IBM'],
+  ['ICE', 'Intercontinental Exchange'],
+  ['IDXX', 'Idexx Laboratories', 'Idexx'],
+  ['IEX', 'IDEX Corporation', 'IDEX'],
+  ['IFF', 'International Flavors & Fragrances'],
+  ['INCY', 'Incyte'],
+  ['INTC', 'Intel'],
+  ['INTU', 'Intuit'],
+  ['INVH', 'Invitation Homes'],
+  ['IP', 'International Paper'],
+  ['IPG', 'Interpublic Group', 'Interpublic'],
+  ['IQV', 'IQVIA'],
+  ['IR', 'Ingersoll Rand'],
+  ['IRM', 'Iron Mountain'],
+  ['ISRG', 'Intuitive Surgical'],
+  ['IT', 'Gartner'],
+  ['ITW', 'Illinois Tool Works'],
+  ['IVZ', 'Invesco'],
+  ['J', 'Jacobs Solutions', 'Jacobs Solutions', 'Jacobs Engineering'],
+  ['JBHT', 'J.B. Hunt', 'J.B. Hunt', 'JB Hunt'],
+  ['JBL', 'Jabil'],
+  ['JCI', 'Johnson Controls'],
+  ['JKHY', 'Jack Henry & Associates', 'Jack Henry'],
+  ['JNJ', 'Johnson & Johnson'],
+  ['JNPR', 'Juniper Networks'],
+  ['JPM', 'JPMorgan Chase', 'JPMorgan Chase', 'JPMorgan', 'JP Morgan'],
+  ['K', 'Kellanova'],
+  ['KDP', 'Keurig Dr Pepper'],
+  ['KEY', 'KeyCorp'],
+  ['KEYS', 'Keysight Technologies', 'Keysight'],
+  ['KHC', 'Kraft Heinz'],
+  ['KIM', 'Kimco Realty', 'Kimco'],
+  ['KKR', 'KKR'],
+  ['KLAC', 'KLA', 'KLA Corp', 'KLA Corporation'],
+  ['KMB', 'Kimberly-Clark'],
+  ['KMI', 'Kinder Morgan'],
+  ['KMX', 'CarMax'],
+  ['KO', 'Coca-Cola'],
+  ['KR', 'Kroger'],
+  ['KVUE', 'Kenvue'],
+  ['L', 'Loews Corporation', 'Loews Corp', 'Loews Corporation'],
+  ['LDOS', 'Leidos'],
+  ['LEN', 'Lennar'],
+  ['LH', 'Labcorp'],
+  ['LHX', 'L3Harris'],
+  ['LII', 'Lennox International', 'Lennox'],
+  ['LIN', 'Linde'],
+  ['LKQ', 'LKQ Corporation', 'LKQ'],
+  ['LLY', 'Eli Lilly', 'Eli Lilly', 'Lilly'],
+  ['LMT', 'Lockheed Martin', 'Lockheed Martin', 'Lockheed'],
+  ['LNT', 'Alliant Energy'],
+  ['LOW', "Lowe's", "Lowe's Companies", "Lowe's Cos"], // bare "Lowe's" stems to "low"
+  ['LRCX', 'Lam Research'],
+  ['LULU', 'Lululemon'],
+  ['LUV', 'Southwest Airlines'],
+  ['LVS', 'Las Vegas Sands'],
+  ['LW', 'Lamb Weston'],
+  ['LYB', 'LyondellBasell'],
+  ['LYV', 'Live Nation Entertainment', 'Live Nation'],
+  ['MA', 'Mastercard'],
+  ['MAA', 'Mid-America Apartment Communities', 'Mid-America Apartment'],
+  ['MAR', 'Marriott International', 'Marriott'],
+  ['MAS', 'Masco'],
+  ['MCD', "McDonald's"],
+  ['MCHP', 'Microchip Technology'],
+  ['MCK', 'McKesson'],
+  ['MCO', "Moody's", "Moody's Corp", "Moody's Ratings", "Moody's Investors Service"],
+  ['MDLZ', 'Mondelez International', 'Mondelez'],
+  ['MDT', 'Medtronic'],
+  ['MET', 'MetLife'],
+  ['META', 'Meta Platforms', 'Meta Platforms', 'Meta', 'Facebook'],
+  ['MGM', 'MGM Resorts', 'MGM Resorts', 'MGM'],
+  ['MHK', 'Mohawk Industries'],
+  ['MKC', 'McCormick & Company', 'McCormick & Company', 'McCormick & Co'],
+  ['MKTX', 'MarketAxess'],
+  ['MLM', 'Martin Marietta Materials', 'Martin Marietta'],
+  ['MMC', 'Marsh McLennan', 'Marsh McLennan', 'Marsh & McLennan'],
+  ['MMM', '3M'],
+  ['MNST', 'Monster Beverage'],
+  ['MO', 'Altria'],
+  ['MOH', 'Molina Healthcare', 'Molina Healthcare', 'Molina'],
+  ['MOS', 'Mosaic Company', 'Mosaic Co', 'Mosaic Company'],
+  ['MPC', 'Marathon Petroleum'],
+  ['MPWR', 'Monolithic Power Systems'],
+  ['MRK', 'Merck'],
+  ['MRNA', 'Moderna'],
+  ['MS', 'Morgan Stanley'],
+  ['MSCI', 'MSCI'],
+  ['MSFT', 'Microsoft'],
+  ['MSI', 'Motorola Solutions'],
+  ['MTB', 'M&T Bank'],
+  ['MTCH', 'Match Group'],
+  ['MTD', 'Mettler-Toledo'],
+  ['MU', 'Micron Technology', 'Micron Technology', 'Micron'],
+  ['NCLH', 'Norwegian Cruise Line', 'Norwegian Cruise Line', 'Norwegian Cruise'],
+  ['NDAQ', 'Nasdaq Inc', 'Nasdaq Inc'], // bare "Nasdaq" is the index or the exchange
+  ['NDSN', 'Nordson'],
+  ['NEE', 'NextEra Energy', 'NextEra Energy', 'NextEra'],
+  ['NEM', 'Newmont'],
+  ['NFLX', 'Netflix'],
+  ['NI', 'NiSource'],
+  ['NKE', 'Nike'],
+  ['NOC', 'Northrop Grumman', 'Northrop Grumman', 'Northrop'],
+  ['NOW', 'ServiceNow'],
+  ['NRG', 'NRG Energy'],
+  ['NSC', 'Norfolk Southern'],
+  ['NTAP', 'NetApp'],
+  ['NTRS', 'Northern Trust'],
+  ['NUE', 'Nucor'],
+  ['NVDA', 'Nvidia'],
+  ['NVR', 'NVR', 'NVR Inc'],
+  ['NWSA', 'News Corp'],
+  ['NXPI', 'NXP Semiconductors', 'NXP Semiconductors', 'NXP'],
+  ['O', 'Realty Income'],
+  ['ODFL', 'Old Dominion Freight Line', 'Old Dominion Freight Line', 'Old Dominion Freight'],
+  ['OKE', 'Oneok'],
+  ['OMC', 'Omnicom'],
+  ['ON', 'ON Semiconductor', 'ON Semiconductor', 'Onsemi'],
+  ['ORCL', 'Oracle'],
+  ['ORLY', "O'Reilly Automotive", "O'Reilly Automotive", "O'Reilly Auto Parts"],
+  ['OTIS', 'Otis Worldwide', 'Otis Worldwide', 'Otis Elevator'],
+  ['OXY', 'Occidental Petroleum', 'Occidental Petroleum', 'Occidental'],
+  ['PANW', 'Palo Alto Networks'],
+  ['PARA', 'Paramount Global', 'Paramount Global', 'Paramount Pictures'],
+  ['PAYC', 'Paycom'],
+  ['PAYX', 'Paychex'],
+  ['PCAR', 'Paccar'],
+  ['PCG', 'PG&E'],
+  ['PEG', 'Public Service Enterprise Group', 'Public Service Enterprise Group', 'PSEG'],
+  ['PEP', 'PepsiCo', 'PepsiCo', 'Pepsi'],
+  ['PFE', 'Pfizer'],
+  ['PFG', 'Principal Financial Group', 'Principal Financial'],
+  ['PG', 'Procter & Gamble'],
+  ['PGR', 'Progressive Corporation', 'Progressive Corp', 'Progressive Insurance'],
+  ['PH', 'Parker Hannifin', 'Parker Hannifin', 'Parker-Hannifin'],
+  ['PHM', 'PulteGroup', 'PulteGroup', 'Pulte'],
+  ['PKG', 'Packaging Corporation of America', 'Packaging Corporation of America', 'Packaging Corp of America'],
+  ['PLD', 'Prologis'],
+  ['PLTR', 'Palantir'],
+  ['PM', 'Philip Morris International', 'Philip Morris'],
+  ['PNC', 'PNC Financial Services', 'PNC Financial', 'PNC'],
+  ['PNR', 'Pentair'],
+  ['PNW', 'Pinnacle West Capital', 'Pinnacle West'],
+  ['PODD', 'Insulet'],
+  ['POOL', 'Pool Corporation', 'Pool Corp', 'Pool Corporation'],
+  ['PPG', 'PPG Industries', 'PPG Industries', 'PPG'],
+  ['PPL', 'PPL Corporation', 'PPL Corp', 'PPL Corporation'],
+  ['PRU', 'Prudential Financial'],
+  ['PSA', 'Public Storage'],
+  ['PSX', 'Phillips 66'],
+  ['PTC', 'PTC Inc', 'PTC Inc'],
+  ['PWR', 'Quanta Services'],
+  ['PYPL', 'PayPal'],
+  ['QCOM', 'Qualcomm'],
+  ['RCL', 'Royal Caribbean'],
+  ['REG', 'Regency Centers'],
+  ['REGN', 'Regeneron'],
+  ['RF', 'Regions Financial'],
+  ['RJF', 'Raymond James'],
+  ['RL', 'Ralph Lauren'],
+  ['RMD', 'ResMed'],
+  ['ROK', 'Rockwell Automation'],
+  ['ROL', 'Rollins Inc', 'Rollins Inc'],
+  ['ROP', 'Roper Technologies'],
+  ['ROST', 'Ross Stores'],
+  ['RSG', 'Republic Services'],
+  ['RTX', 'RTX', 'RTX', 'Raytheon'],
+  ['RVTY', 'Revvity'],
+  ['SBAC', 'SBA Communications'],
+  ['SBUX', 'Starbucks'],
+  ['SCHW', 'Charles Schwab', 'Charles Schwab', 'Schwab'],
+  ['SHW', 'Sherwin-Williams'],
+  ['SJM', 'J.M. Smucker', 'J.M. Smucker', 'JM Smucker', 'Smucker'],
+  ['SLB', 'SLB', 'SLB', 'Schlumberger'],
+  ['SMCI', 'Super Micro Computer', 'Super Micro Computer', 'Supermicro'],
+  ['SNA', 'Snap-on'],
+  ['SNPS', 'Synopsys'],
+  ['SO', 'Southern Company', 'Southern Company', 'Southern Co'],
+  ['SOLV', 'Solventum'],
+  ['SPG', 'Simon Property Group', 'Simon Property'],
+  ['SPGI', 'S&P Global'],
+  ['SRE', 'Sempra'],
+  ['STE', 'Steris'],
+  ['STLD', 'Steel Dynamics'],
+  ['STT', 'State Street'],
+  ['STX', 'Seagate Technology', 'Seagate'],
+  ['STZ', 'Constellation Brands'],
+  ['SW', 'Smurfit Westrock'],
+  ['SWK', 'Stanley Black & Decker'],
+  ['SWKS', 'Skyworks Solutions', 'Skyworks'],
+  ['SYF', 'Synchrony Financial', 'Synchrony'],
+  ['SYK', 'Stryker'],
+  ['SYY', 'Sysco'],
+  ['T', 'AT&T'],
+  ['TAP', 'Molson Coors'],
+  ['TDG', 'TransDigm'],
+  ['TDY', 'Teledyne'],
+  ['TECH', 'Bio-Techne'],
+  ['TEL', 'TE Connectivity'],
+  ['TER', 'Teradyne'],
+  ['TFC', 'Truist Financial', 'Truist'],
+  ['TGT', 'Target', 'Target Corp', 'Target Corporation'],
+  ['TJX', 'TJX Companies', 'TJX'],
+  ['TKO', 'TKO Group', 'TKO Group'],
+  ['TMO', 'Thermo Fisher Scientific', 'Thermo Fisher'],
+  ['TMUS', 'T-Mobile US', 'T-Mobile'],
+  ['TPL', 'Texas Pacific Land'],
+  ['TPR', 'Tapestry', 'Tapestry Inc'],
+  ['TRGP', 'Targa Resources'],
+  ['TRMB', 'Trimble'],
+  ['TROW', 'T. Rowe Price', 'T. Rowe Price', 'T Rowe Price'],
+  ['TRV', 'Travelers Companies', 'Travelers Companies', 'Travelers Cos'],
+  ['TSCO', 'Tractor Supply'],
+  ['TSLA', 'Tesla'],
+  ['TSN', 'Tyson Foods'],
+  ['TT', 'Trane Technologies'],
+  ['TTWO', 'Take-Two Interactive', 'Take-Two'],
+  ['TXN', 'Texas Instruments'],
+  ['TXT', 'Textron'],
+  ['TYL', 'Tyler Technologies'],
+  ['UAL', 'United Airlines'],
+  ['UBER', 'Uber'],
+  ['UDR', 'UDR', 'UDR Inc'],
+  ['UHS', 'Universal Health Services'],
+  ['ULTA', 'Ulta Beauty', 'Ulta Beauty', 'Ulta'],
+  ['UNH', 'UnitedHealth Group', 'UnitedHealth', 'UnitedHealthcare'],
+  ['UNP', 'Union Pacific'],
+  ['UPS', 'United Parcel Service', 'United Parcel Service', 'UPS'],
+  ['URI', 'United Rentals'],
+  ['USB', 'U.S. Bancorp', 'U.S. Bancorp', 'US Bancorp'],
+  ['V', 'Visa', 'Visa Inc'],
+  ['VICI', 'VICI Properties'],
+  ['VLO', 'Valero Energy', 'Valero'],
+  ['VLTO', 'Veralto'],
+  ['VMC', 'Vulcan Materials'],
+  ['VRSK', 'Verisk'],
+  ['VRSN', 'Verisign'],
+  ['VRTX', 'Vertex Pharmaceuticals'],
+  ['VST', 'Vistra'],
+  ['VTR', 'Ventas'],
+  ['VTRS', 'Viatris'],
+  ['VZ', 'Verizon'],
+  ['WAB', 'Wabtec'],
+  ['WAT', 'Waters Corporation', 'Waters Corp', 'Waters Corporation'],
+  ['WBA', 'Walgreens Boots Alliance', 'Walgreens Boots Alliance', 'Walgreens'],
+  ['WBD', 'Warner Bros. Discovery', 'Warner Bros. Discovery', 'Warner Bros Discovery', 'Warner Bros'],
+  ['WDAY', 'Workday'],
+  ['WDC', 'Western Digital'],
+  ['WEC', 'WEC Energy Group', 'WEC Energy'],
+  ['WELL', 'Welltower'],
+  ['WFC', 'Wells Fargo'],
+  ['WM', 'Waste Management', 'Waste Management Inc'],
+  ['WMB', 'Williams Companies', 'Williams Companies', 'Williams Cos'],
+  ['WMT', 'Walmart'],
+  ['WRB', 'W. R. Berkley', 'W. R. Berkley', 'W.R. Berkley', 'WR Berkley'],
+  ['WSM', 'Williams-Sonoma'],
+  ['WST', 'West Pharmaceutical Services'],
+  ['WTW', 'Willis Towers Watson'],
+  ['WY', 'Weyerhaeuser'],
+  ['WYNN', 'Wynn Resorts'],
+  ['XEL', 'Xcel Energy'],
+  ['XOM', 'Exxon Mobil', 'Exxon Mobil', 'ExxonMobil', 'Exxon'],
+  ['XYL', 'Xylem'],
+  ['YUM', 'Yum! Brands', 'Yum! Brands', 'Yum Brands'],
+  ['ZBH', 'Zimmer Biomet'],
+  ['ZBRA', 'Zebra Technologies'],
+  ['ZTS', 'Zoetis'],
+];
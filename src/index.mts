@@ -10,11 +10,98 @@ import {
   ErrorCode,
   type CallToolRequest,
 } from '@modelcontextprotocol/sdk/types.js';
-import { analyzeDailyHeadlines, analyzeMonthlyHeadlines, AnalysisError } from './services/analysis.js';
-import { AnalyzeHeadlinesSchema, AnalyzeMonthlySchema, analyzeHeadlinesJsonSchema, analyzeMonthlyJsonSchema } from './schemas/headlines.js';
-import { normalizeDate, parseDateNL } from './utils/date.js';
+import {
+  analyzeDailyHeadlines,
+  analyzeMonthlyHeadlines,
+  analyzePeriodHeadlines,
+  AnalysisError,
+  type AnalyzePeriodResult,
+  type CompletenessDiagnostics,
+} from './services/analysis.js';
+import { detectAnomalies, SCORE_METRICS, type DetectAnomaliesResult } from './services/anomaly.js';
+import { SCORE_GROUPINGS } from './services/scoreStore.js';
+import { hasLexiconPack, listLexiconPacks } from './services/lexicon.js';
+import {
+  comparePeriods,
+  MAX_COMPARISON_DAYS,
+  MAX_SAMPLED_DAYS,
+  type ComparePeriodsResult,
+  type PeriodRange,
+} from './services/comparison.js';
+import { FETCH_STRATEGIES, type FetchStrategy } from './services/newsapi.js';
+import {
+  explainHeadlines,
+  DEFAULT_EXPLAIN_PAGE_SIZE,
+  MAX_EXPLAIN_PAGE_SIZE,
+  type ExplainHeadlinesResult,
+} from './services/explain.js';
+import {
+  topStories,
+  DEFAULT_STORY_LIMIT,
+  MAX_STORY_LIMIT,
+  STORY_RANKINGS,
+  type StoryRanking,
+  type TopStoriesResult,
+} from './services/stories.js';
+import {
+  analyzeEntitySentiment,
+  DEFAULT_ENTITY_LIMIT,
+  MAX_ENTITY_DAYS,
+  MAX_ENTITY_LIMIT,
+  type EntitySentimentResult,
+} from './services/entities.js';
+import {
+  MAX_PROFILE_DAYS,
+  profileSources,
+  SOURCE_PROFILE_SORTS,
+  type SourceProfileResult,
+  type SourceProfileSort,
+} from './services/sourceProfile.js';
+import {
+  addSource,
+  listSources,
+  MAX_SOURCE_WEIGHT,
+  sourceRegistryInfo,
+  updateSource,
+  type SourceEntry,
+  type SourceInput,
+} from './services/sourceRegistry.js';
+import { auditSourceResolution, type ResolveSourcesResult } from './services/sourceResolver.js';
+import { SPECTRUM_LEANINGS } from './constants/sources.js';
+import { SP500_AS_OF } from './constants/sp500.js';
+import { getBudgetStatus, MAX_USAGE_DAYS, DEFAULT_USAGE_DAYS, type BudgetStatusResult } from './services/budgetStatus.js';
+import { estimateBackfill, runBackfill, type BackfillMode, type BackfillResult } from './services/backfill.js';
+import { analyzeWindow, DEFAULT_ROLLING_HOURS, MAX_WINDOW_HOURS, type AnalyzeWindowResult } from './services/window.js';
+import {
+  AnalyzeHeadlinesSchema,
+  AnalyzeMonthlySchema,
+  AnalyzePeriodSchema,
+  analyzeHeadlinesJsonSchema,
+  analyzeMonthlyJsonSchema,
+  analyzePeriodJsonSchema,
+} from './schemas/headlines.js';
+import { BackfillSchema, backfillJsonSchema } from './schemas/backfill.js';
+import { BudgetStatusSchema, budgetStatusJsonSchema } from './schemas/budget.js';
+import { DetectAnomaliesSchema, detectAnomaliesJsonSchema } from './schemas/anomalies.js';
+import { ComparePeriodsSchema, comparePeriodsJsonSchema } from './schemas/comparison.js';
+import { ExplainHeadlinesSchema, explainHeadlinesJsonSchema } from './schemas/explain.js';
+import { TopStoriesSchema, topStoriesJsonSchema } from './schemas/stories.js';
+import { AnalyzeWindowSchema, analyzeWindowJsonSchema } from './schemas/window.js';
+import { EntitySentimentResultSchema, entitySentimentJsonSchema } from './schemas/entities.js';
+import {
+  ListSourcesSchema,
+  ResolveSourcesSchema,
+  SourceMutationSchema,
+  SourceProfileSchema,
+  listSourcesJsonSchema,
+  resolveSourcesJsonSchema,
+  sourceMutationJsonSchema,
+  sourceProfileJsonSchema,
+} from './schemas/sources.js';
+import { normalizeDate, parseDateNL, PERIOD_GRANULARITIES, type PeriodGranularity } from './utils/date.js';
 import { getConfig, assertRequiredConfig } from './config.js';
 import { logger } from './logger.js';
+import type { DailyScores, ScoreDimensions, SpectrumMode } from './types.js';
 
 const config = getConfig();
 assertRequiredConfig(config);
@@ -51,11 +138,230 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
             type: 'string',
             description: 'Date input (natural language or YYYY-MM-DD, e.g., "yesterday").',
           },
+          refresh: {
+            type: 'boolean',
+            description: 'Recompute from EventRegistry even if the day is already stored (spends tokens).',
+          },
+          lexicon: lexiconArgument(),
+          spectrum: spectrumArgument(),
+          fetchStrategy: fetchStrategyArgument(),
         },
         required: ['input'],
       },
       outputSchema: analyzeHeadlinesJsonSchema,
     },
+    {
+      name: 'analyze_window',
+      description:
+        'Intraday sentiment over a time window (e.g. around an FOMC release): hourly investor/general series and the current rolling score. Give lastHours, or start (and optionally end). EventRegistry searches by UTC date only, so the covering days are searched newest first and trimmed to the window; when the page cap runs out before reaching the window start, the result is marked truncated and incomplete.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          lastHours: {
+            type: 'number',
+            exclusiveMinimum: 0,
+            maximum: MAX_WINDOW_HOURS,
+            description: 'Window of the most recent hours, ending now.',
+          },
+          start: {
+            type: 'string',
+            description: 'Window start: ISO time (UTC unless an offset is given) or natural language, e.g. "today 1pm".',
+          },
+          end: {
+            type: 'string',
+            description: 'Window end (exclusive), same formats as start. Defaults to now.',
+          },
+          rollingHours: {
+            type: 'number',
+            exclusiveMinimum: 0,
+            maximum: MAX_WINDOW_HOURS,
+            description: `Span of the rolling score, ending at the window end (default ${DEFAULT_ROLLING_HOURS}).`,
+          },
+          lexicon: lexiconArgument(),
+          fetchStrategy: fetchStrategyArgument(),
+        },
+      },
+      outputSchema: analyzeWindowJsonSchema,
+    },
+    {
+      name: 'explain_headlines',
+      description:
+        "Per-headline breakdown behind a day's scores: source, leaning, relevance terms, investor lexicon hits and weights, and general sentiment words. Paginated; stored days cost no tokens.",
+      inputSchema: {
+        type: 'object',
+        properties: {
+          input: {
+            type: 'string',
+            description: 'Date input (natural language or YYYY-MM-DD, e.g., "yesterday").',
+          },
+          page: {
+            type: 'integer',
+            minimum: 1,
+            description: 'Page of the sampled headlines to return (default 1).',
+          },
+          pageSize: {
+            type: 'integer',
+            minimum: 1,
+            maximum: MAX_EXPLAIN_PAGE_SIZE,
+            description: `Headlines per page (default ${DEFAULT_EXPLAIN_PAGE_SIZE}).`,
+          },
+          lexicon: lexiconArgument(),
+        },
+        required: ['input'],
+      },
+      outputSchema: explainHeadlinesJsonSchema,
+    },
+    {
+      name: 'top_stories',
+      description:
+        "Cluster a day's relevant headlines into topics (TF-IDF over titles) with per-topic investor/general sentiment, attention, left/center/right coverage and representative headlines.",
+      inputSchema: {
+        type: 'object',
+        properties: {
+          input: {
+            type: 'string',
+            description: 'Date input (natural language or YYYY-MM-DD, e.g., "yesterday").',
+          },
+          rankBy: {
+            type: 'string',
+            enum: [...STORY_RANKINGS],
+            description: 'Order topics by headline volume (default) or attention score.',
+          },
+          limit: {
+            type: 'integer',
+            minimum: 1,
+            maximum: MAX_STORY_LIMIT,
+            description: `Number of topics to return (default ${DEFAULT_STORY_LIMIT}).`,
+          },
+          lexicon: lexiconArgument(),
+        },
+        required: ['input'],
+      },
+      outputSchema: topStoriesJsonSchema,
+    },
+    {
+      name: 'analyze_entity_sentiment',
+      description:
+        `Per-entity coverage for a day or range: companies, tickers, central banks and people mentioned in relevant headlines, with investor/general sentiment, mention volume and left/center/right split. Companies are matched by name for every S&P 500 constituent as of ${SP500_AS_OF}; other companies only by cashtag or exchange code.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          start: {
+            type: 'string',
+            description: 'Range start (natural language or YYYY-MM-DD).',
+          },
+          end: {
+            type: 'string',
+            description: `Range end (natural language or YYYY-MM-DD). Defaults to start; at most ${MAX_ENTITY_DAYS} days.`,
+          },
+          entities: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Restrict to these tickers, names or entity ids (e.g. ["NVDA", "Federal Reserve"]). Reported even with no mentions.',
+          },
+          limit: {
+            type: 'integer',
+            minimum: 1,
+            maximum: MAX_ENTITY_LIMIT,
+            description: `Number of entities to return, most mentioned first (default ${DEFAULT_ENTITY_LIMIT}).`,
+          },
+          lexicon: lexiconArgument(),
+        },
+        required: ['start'],
+      },
+      outputSchema: entitySentimentJsonSchema,
+    },
+    {
+      name: 'source_profile',
+      description:
+        `Leaderboard of the curated sources over a range of up to ${MAX_PROFILE_DAYS} days: volume, relevance rate, investor/general sentiment and deviation from the all-source mean, attention, and sources whose own search ran to its last page without an article. Each source is searched separately.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          start: {
+            type: 'string',
+            description: 'Range start (natural language or YYYY-MM-DD).',
+          },
+          end: {
+            type: 'string',
+            description: 'Range end (natural language or YYYY-MM-DD). Defaults to start.',
+          },
+          sortBy: {
+            type: 'string',
+            enum: [...SOURCE_PROFILE_SORTS],
+            description: 'Leaderboard order, highest first (default volume).',
+          },
+          lexicon: lexiconArgument(),
+        },
+        required: ['start'],
+      },
+      outputSchema: sourceProfileJsonSchema,
+    },
+    {
+      name: 'list_sources',
+      description:
+        'List the source registry: id, display name, EventRegistry URI, five-point spectrum and leaning, country, category, sampling weight and whether the source is fetched.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          category: {
+            type: 'string',
+            enum: ['business', 'general'],
+            description: 'Only sources in this category.',
+          },
+          includeDisabled: {
+            type: 'boolean',
+            description: 'Include disabled sources (default false).',
+          },
+        },
+      },
+      outputSchema: listSourcesJsonSchema,
+    },
+    {
+      name: 'add_source',
+      description: 'Register a new source (e.g. a regional business outlet). It is fetched and scored from the next analysis on.',
+      inputSchema: {
+        type: 'object',
+        properties: sourceFieldProperties(),
+        required: ['id', 'name', 'spectrum'],
+      },
+      outputSchema: sourceMutationJsonSchema,
+    },
+    {
+      name: 'update_source',
+      description: 'Change fields of a registered source; omitted fields keep their value. Set enabled=false to stop fetching it.',
+      inputSchema: {
+        type: 'object',
+        properties: sourceFieldProperties(),
+        required: ['id'],
+      },
+      outputSchema: sourceMutationJsonSchema,
+    },
+    {
+      name: 'resolve_sources',
+      description:
+        'Check which sources map to an EventRegistry URI and will actually be queried: resolved (with confidence and expiry), ambiguous (with candidates) or failed. Pins manual URI overrides.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          sources: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Source ids or names to resolve. Defaults to the active registry sources.',
+          },
+          refresh: {
+            type: 'boolean',
+            description: 'Look unpinned sources up again via suggestSourcesFast even if their cache entry has not expired.',
+          },
+          pins: {
+            type: 'object',
+            additionalProperties: { type: ['string', 'null'] },
+            description: 'Source name → URI to pin (never expires), or null to remove a pin. Applied before resolving.',
+          },
+        },
+      },
+      outputSchema: resolveSourcesJsonSchema,
+    },
     {
       name: 'analyze_monthly_headlines',
       description: 'Summarize monthly sentiment trends across curated US news sources.',
@@ -72,44 +378,444 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
             pattern: '^\\d{4}-(?:0[1-9]|1[0-2])$',
             description: 'End month in YYYY-MM format.',
           },
+          lexicon: lexiconArgument(),
+          spectrum: spectrumArgument(),
+          fetchStrategy: fetchStrategyArgument(),
         },
         required: ['startMonth', 'endMonth'],
       },
       outputSchema: analyzeMonthlyJsonSchema,
     },
+    {
+      name: 'analyze_period_headlines',
+      description:
+        'Summarize sentiment across curated US news sources in day, week, month or quarter buckets between two dates.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          granularity: {
+            type: 'string',
+            enum: [...PERIOD_GRANULARITIES],
+            description: 'Bucket size. Weeks are ISO weeks (Monday to Sunday).',
+          },
+          start: {
+            type: 'string',
+            pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+            description: 'First day (YYYY-MM-DD). Partial leading buckets are clipped to it.',
+          },
+          end: {
+            type: 'string',
+            pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+            description: 'Last day (YYYY-MM-DD). Partial trailing buckets are clipped to it.',
+          },
+          timeZone: {
+            type: 'string',
+            description: 'IANA time zone for bucket boundaries (e.g. "America/New_York"). Defaults to UTC.',
+          },
+          lexicon: lexiconArgument(),
+          spectrum: spectrumArgument(),
+          fetchStrategy: fetchStrategyArgument(),
+        },
+        required: ['granularity', 'start', 'end'],
+      },
+      outputSchema: analyzePeriodJsonSchema,
+    },
+    {
+      name: 'backfill_headlines',
+      description:
+        'Backfill daily scores for a historical date range. Returns a dry-run token estimate unless confirm=true; confirmed runs persist each day and resume from the last finished day.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          startDate: {
+            type: 'string',
+            pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+            description: 'First day to backfill (YYYY-MM-DD).',
+          },
+          endDate: {
+            type: 'string',
+            pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+            description: 'Last day to backfill (YYYY-MM-DD, before today UTC).',
+          },
+          mode: {
+            type: 'string',
+            enum: ['full', 'sampled'],
+            description: 'full uses BACKFILL_PAGE_CAP_PER_DAY pages per day; sampled fetches one page per day. Defaults to BACKFILL_MODE.',
+          },
+          confirm: {
+            type: 'boolean',
+            description: 'Set true to execute after reviewing the dry-run estimate.',
+          },
+          maxDays: {
+            type: 'integer',
+            minimum: 1,
+            description: 'Maximum days to process in this call; re-run to continue.',
+          },
+        },
+        required: ['startDate', 'endDate'],
+      },
+      outputSchema: backfillJsonSchema,
+    },
+    {
+      name: 'detect_anomalies',
+      description:
+        'Find days where stored daily scores break from their rolling history (z-score per metric and leaning), with the headlines that drove each spike.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          start: {
+            type: 'string',
+            description: 'Window start (natural language or YYYY-MM-DD).',
+          },
+          end: {
+            type: 'string',
+            description: 'Window end (natural language or YYYY-MM-DD). Defaults to start.',
+          },
+          threshold: {
+            type: 'number',
+            exclusiveMinimum: 0,
+            description: 'Absolute z-score that counts as an anomaly. Defaults to ANOMALY_Z_THRESHOLD.',
+          },
+          windowDays: {
+            type: 'integer',
+            minimum: 2,
+            description: 'Trailing days of history per z-score. Defaults to ANOMALY_WINDOW_DAYS.',
+          },
+          metrics: {
+            type: 'array',
+            items: { type: 'string', enum: [...SCORE_METRICS] },
+            description: 'Restrict to these score dimensions.',
+          },
+          groupings: {
+            type: 'array',
+            items: { type: 'string', enum: [...SCORE_GROUPINGS] },
+            description: 'Restrict to these groupings.',
+          },
+        },
+        required: ['start'],
+      },
+      outputSchema: detectAnomaliesJsonSchema,
+    },
+    {
+      name: 'compare_periods',
+      description:
+        `Compare two date ranges (e.g. this week vs last week, Q1 vs Q2): per-score, per-leaning deltas with bootstrap significance, plus the key terms that grew or shrank most. Each period is analyzed day by day (up to ${MAX_SAMPLED_DAYS} evenly spaced days, stored days free) and may span at most ${MAX_COMPARISON_DAYS} days.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          periodA: {
+            type: 'object',
+            properties: {
+              start: { type: 'string', description: 'Start of the reference period (natural language or YYYY-MM-DD).' },
+              end: { type: 'string', description: 'End of the reference period (natural language or YYYY-MM-DD).' },
+            },
+            required: ['start', 'end'],
+          },
+          periodB: {
+            type: 'object',
+            properties: {
+              start: { type: 'string', description: 'Start of the period compared against A.' },
+              end: { type: 'string', description: 'End of the period compared against A.' },
+            },
+            required: ['start', 'end'],
+          },
+          iterations: {
+            type: 'integer',
+            minimum: 100,
+            maximum: 10000,
+            description: 'Bootstrap resamples per score (default 1000).',
+          },
+          seed: {
+            type: 'integer',
+            description: 'Seed for the bootstrap so repeated runs match (default 42).',
+          },
+          lexicon: lexiconArgument(),
+        },
+        required: ['periodA', 'periodB'],
+      },
+      outputSchema: comparePeriodsJsonSchema,
+    },
+    {
+      name: 'budget_status',
+      description:
+        'EventRegistry budget report: month-to-date tokens against the soft/hard caps, projected month-end spend at the current burn rate (and the day it crosses the hard cap), and daily requests, articles fetched and rate-limit headroom.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          days: {
+            type: 'number',
+            minimum: 1,
+            maximum: MAX_USAGE_DAYS,
+            description: `Days of usage history to return, ending today (default ${DEFAULT_USAGE_DAYS}).`,
+          },
+        },
+      },
+      outputSchema: budgetStatusJsonSchema,
+    },
   ],
 }));
 
-server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest) => {
+server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest, extra) => {
   try {
     switch (request.params.name) {
       case 'analyze_headlines': {
-        const { input } = request.params.arguments as { input: string };
+        const { input, refresh, lexicon, spectrum, fetchStrategy } = request.params.arguments as {
+          input: string;
+          refresh?: boolean;
+          lexicon?: string;
+          spectrum?: SpectrumMode;
+          fetchStrategy?: FetchStrategy;
+        };
         if (!input) {
           throw new McpError(ErrorCode.InvalidParams, 'Provide a date input (natural language or YYYY-MM-DD).');
         }
 
-        const isoDate = /^\d{4}-\d{2}-\d{2}$/.test(input) ? normalizeDate(input) : parseDateNL(input);
-        const result = await analyzeDailyHeadlines(isoDate);
+        const isoDate = toIsoDate(input);
+        assertLexicon(lexicon);
+        assertSpectrum(spectrum);
+        assertFetchStrategy(fetchStrategy);
+        const result = await analyzeDailyHeadlines(isoDate, {
+          refresh: refresh === true,
+          lexicon,
+          spectrum,
+          fetch: fetchStrategy ? { strategy: fetchStrategy } : undefined,
+        });
         AnalyzeHeadlinesSchema.parse(result);
 
         return {
           content: [
             {
               type: 'text',
-              text: formatDailySummary(result.date, result.overall_sentiment.general.score, result.overall_sentiment.investor.score, result.headlines_analyzed, result.sources_analyzed),
+              text: formatDailySummary(result.date, result.overall_sentiment.general.score, result.overall_sentiment.investor.score, result.headlines_analyzed, result.sources_analyzed, result.score_dimensions, result.diagnostics.completeness),
+            },
+          ],
+          structuredContent: result,
+        };
+      }
+      case 'analyze_window': {
+        const { lastHours, start, end, rollingHours, lexicon, fetchStrategy } = (request.params.arguments ?? {}) as {
+          lastHours?: number;
+          start?: string;
+          end?: string;
+          rollingHours?: number;
+          lexicon?: string;
+          fetchStrategy?: FetchStrategy;
+        };
+        if (lastHours === undefined && !start) {
+          throw new McpError(ErrorCode.InvalidParams, 'Provide lastHours or a start time.');
+        }
+        assertLexicon(lexicon);
+        assertFetchStrategy(fetchStrategy);
+
+        const result = await analyzeWindow(
+          { lastHours, start, end },
+          { rollingHours, lexicon, fetch: fetchStrategy ? { strategy: fetchStrategy } : undefined },
+        );
+        AnalyzeWindowSchema.parse(result);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatWindowSummary(result),
+            },
+          ],
+          structuredContent: result,
+        };
+      }
+      case 'explain_headlines': {
+        const { input, page, pageSize, lexicon } = request.params.arguments as {
+          input: string;
+          page?: number;
+          pageSize?: number;
+          lexicon?: string;
+        };
+        if (!input) {
+          throw new McpError(ErrorCode.InvalidParams, 'Provide a date input (natural language or YYYY-MM-DD).');
+        }
+
+        const isoDate = toIsoDate(input);
+        assertLexicon(lexicon);
+        const result = await explainHeadlines(isoDate, { page, pageSize, lexicon });
+        ExplainHeadlinesSchema.parse(result);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatExplainSummary(result),
+            },
+          ],
+          structuredContent: result,
+        };
+      }
+      case 'top_stories': {
+        const { input, rankBy, limit, lexicon } = request.params.arguments as {
+          input: string;
+          rankBy?: StoryRanking;
+          limit?: number;
+          lexicon?: string;
+        };
+        if (!input) {
+          throw new McpError(ErrorCode.InvalidParams, 'Provide a date input (natural language or YYYY-MM-DD).');
+        }
+
+        const isoDate = toIsoDate(input);
+        assertLexicon(lexicon);
+        const result = await topStories(isoDate, { rankBy, limit, lexicon });
+        TopStoriesSchema.parse(result);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatTopStoriesSummary(result),
+            },
+          ],
+          structuredContent: result,
+        };
+      }
+      case 'analyze_entity_sentiment': {
+        const { start, end, entities, limit, lexicon } = request.params.arguments as {
+          start: string;
+          end?: string;
+          entities?: string[];
+          limit?: number;
+          lexicon?: string;
+        };
+        if (!start) {
+          throw new McpError(ErrorCode.InvalidParams, 'Provide a start date (natural language or YYYY-MM-DD).');
+        }
+        const startDate = toIsoDate(start);
+        const endDate = end ? toIsoDate(end) : startDate;
+        assertLexicon(lexicon);
+
+        const result = await analyzeEntitySentiment(startDate, endDate, { entities, limit, lexicon });
+        EntitySentimentResultSchema.parse(result);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatEntitySummary(result),
+            },
+          ],
+          structuredContent: result,
+        };
+      }
+      case 'source_profile': {
+        const { start, end, sortBy, lexicon } = request.params.arguments as {
+          start: string;
+          end?: string;
+          sortBy?: SourceProfileSort;
+          lexicon?: string;
+        };
+        if (!start) {
+          throw new McpError(ErrorCode.InvalidParams, 'Provide a start date (natural language or YYYY-MM-DD).');
+        }
+        const startDate = toIsoDate(start);
+        const endDate = end ? toIsoDate(end) : startDate;
+        assertLexicon(lexicon);
+
+        const result = await profileSources(startDate, endDate, { sortBy, lexicon });
+        SourceProfileSchema.parse(result);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatSourceProfileSummary(result),
+            },
+          ],
+          structuredContent: result,
+        };
+      }
+      case 'list_sources': {
+        const { category, includeDisabled } = (request.params.arguments ?? {}) as {
+          category?: SourceEntry['category'];
+          includeDisabled?: boolean;
+        };
+        const sources = listSources({ includeDisabled: includeDisabled === true }).filter(
+          (source) => !category || source.category === category,
+        );
+        const result = { registry: sourceRegistryInfo(), total: sources.length, sources };
+        ListSourcesSchema.parse(result);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatSourceList(sources),
+            },
+          ],
+          structuredContent: result,
+        };
+      }
+      case 'add_source':
+      case 'update_source': {
+        const { id, ...fields } = (request.params.arguments ?? {}) as Partial<SourceInput>;
+        if (!id) {
+          throw new McpError(ErrorCode.InvalidParams, 'Provide the source id.');
+        }
+
+        const adding = request.params.name === 'add_source';
+        const source = adding ? await addSource({ id, ...fields }) : await updateSource(id, fields);
+        const result = { action: adding ? 'added' : 'updated', source, registry: sourceRegistryInfo() };
+        SourceMutationSchema.parse(result);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Source ${source.id} ${result.action} in ${result.registry.path}\n${formatSourceList([source])}`,
+            },
+          ],
+          structuredContent: result,
+        };
+      }
+      case 'resolve_sources': {
+        const { sources, refresh, pins } = (request.params.arguments ?? {}) as {
+          sources?: string[];
+          refresh?: boolean;
+          pins?: Record<string, string | null>;
+        };
+        if (sources !== undefined && (!Array.isArray(sources) || sources.some((s) => typeof s !== 'string'))) {
+          throw new McpError(ErrorCode.InvalidParams, 'sources must be an array of source ids or names.');
+        }
+
+        const result = await auditSourceResolution({ sources, refresh: refresh === true, pins });
+        ResolveSourcesSchema.parse(result);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatResolveSourcesSummary(result),
             },
           ],
           structuredContent: result,
         };
       }
       case 'analyze_monthly_headlines': {
-        const { startMonth, endMonth } = request.params.arguments as { startMonth: string; endMonth: string };
+        const { startMonth, endMonth, lexicon, spectrum, fetchStrategy } = request.params.arguments as {
+          startMonth: string;
+          endMonth: string;
+          lexicon?: string;
+          spectrum?: SpectrumMode;
+          fetchStrategy?: FetchStrategy;
+        };
         if (!/^\d{4}-(?:0[1-9]|1[0-2])$/.test(startMonth) || !/^\d{4}-(?:0[1-9]|1[0-2])$/.test(endMonth)) {
           throw new McpError(ErrorCode.InvalidParams, 'Months must be provided in YYYY-MM format.');
         }
 
-        const result = await analyzeMonthlyHeadlines(startMonth, endMonth);
+        assertLexicon(lexicon);
+        assertSpectrum(spectrum);
+        assertFetchStrategy(fetchStrategy);
+        const result = await analyzeMonthlyHeadlines(startMonth, endMonth, {
+          lexicon,
+          spectrum,
+          fetch: fetchStrategy ? { strategy: fetchStrategy } : undefined,
+        });
         AnalyzeMonthlySchema.parse(result);
 
         return {
@@ -122,6 +828,181 @@ server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest)
           structuredContent: result,
         };
       }
+      case 'analyze_period_headlines': {
+        const { granularity, start, end, timeZone, lexicon, spectrum, fetchStrategy } = request.params.arguments as {
+          granularity: PeriodGranularity;
+          start: string;
+          end: string;
+          timeZone?: string;
+          lexicon?: string;
+          spectrum?: SpectrumMode;
+          fetchStrategy?: FetchStrategy;
+        };
+        if (!PERIOD_GRANULARITIES.includes(granularity)) {
+          throw new McpError(ErrorCode.InvalidParams, `granularity must be one of: ${PERIOD_GRANULARITIES.join(', ')}.`);
+        }
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(start ?? '') || !/^\d{4}-\d{2}-\d{2}$/.test(end ?? '')) {
+          throw new McpError(ErrorCode.InvalidParams, 'start and end must be provided in YYYY-MM-DD format.');
+        }
+        if (start > end) {
+          throw new McpError(ErrorCode.InvalidParams, 'start must not be after end.');
+        }
+
+        assertLexicon(lexicon);
+        assertSpectrum(spectrum);
+        assertFetchStrategy(fetchStrategy);
+        const result = await analyzePeriodHeadlines(start, end, granularity, {
+          timeZone,
+          lexicon,
+          spectrum,
+          fetch: fetchStrategy ? { strategy: fetchStrategy } : undefined,
+        });
+        AnalyzePeriodSchema.parse(result);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatPeriodSummary(result),
+            },
+          ],
+          structuredContent: result,
+        };
+      }
+      case 'backfill_headlines': {
+        const { startDate, endDate, mode, confirm, maxDays } = request.params.arguments as {
+          startDate: string;
+          endDate: string;
+          mode?: BackfillMode;
+          confirm?: boolean;
+          maxDays?: number;
+        };
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(startDate ?? '') || !/^\d{4}-\d{2}-\d{2}$/.test(endDate ?? '')) {
+          throw new McpError(ErrorCode.InvalidParams, 'startDate and endDate must be provided in YYYY-MM-DD format.');
+        }
+        if (mode !== undefined && mode !== 'full' && mode !== 'sampled') {
+          throw new McpError(ErrorCode.InvalidParams, 'mode must be "full" or "sampled".');
+        }
+
+        const progressToken = request.params._meta?.progressToken;
+        const result =
+          confirm === true
+            ? await runBackfill(startDate, endDate, {
+                mode,
+                maxDays,
+                onProgress:
+                  progressToken !== undefined
+                    ? (progress) =>
+                        extra.sendNotification({
+                          method: 'notifications/progress',
+                          params: {
+                            progressToken,
+                            progress: progress.completedDays,
+                            total: progress.totalDays,
+                            message: `Backfilled through ${progress.lastCompletedDate}`,
+                          },
+                        })
+                    : undefined,
+              })
+            : await estimateBackfill(startDate, endDate, { mode });
+        BackfillSchema.parse(result);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatBackfillSummary(result),
+            },
+          ],
+          structuredContent: result,
+        };
+      }
+      case 'detect_anomalies': {
+        const { start, end, threshold, windowDays, metrics, groupings } = request.params.arguments as {
+          start: string;
+          end?: string;
+          threshold?: number;
+          windowDays?: number;
+          metrics?: (keyof ScoreDimensions)[];
+          groupings?: DailyScores['grouping'][];
+        };
+        if (!start) {
+          throw new McpError(ErrorCode.InvalidParams, 'Provide a start date (natural language or YYYY-MM-DD).');
+        }
+        const startDate = toIsoDate(start);
+        const endDate = end ? toIsoDate(end) : startDate;
+        if (startDate > endDate) {
+          throw new McpError(ErrorCode.InvalidParams, 'start must not be after end.');
+        }
+        if (metrics?.some((m) => !SCORE_METRICS.includes(m))) {
+          throw new McpError(ErrorCode.InvalidParams, `metrics must be drawn from: ${SCORE_METRICS.join(', ')}.`);
+        }
+        if (groupings?.some((g) => !SCORE_GROUPINGS.includes(g))) {
+          throw new McpError(ErrorCode.InvalidParams, `groupings must be drawn from: ${SCORE_GROUPINGS.join(', ')}.`);
+        }
+
+        const result = await detectAnomalies(startDate, endDate, { threshold, windowDays, metrics, groupings });
+        DetectAnomaliesSchema.parse(result);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatAnomalySummary(result),
+            },
+          ],
+          structuredContent: result,
+        };
+      }
+      case 'compare_periods': {
+        const { periodA, periodB, iterations, seed, lexicon } = request.params.arguments as {
+          periodA?: PeriodRange;
+          periodB?: PeriodRange;
+          iterations?: number;
+          seed?: number;
+          lexicon?: string;
+        };
+        if (!periodA?.start || !periodA?.end || !periodB?.start || !periodB?.end) {
+          throw new McpError(ErrorCode.InvalidParams, 'Provide periodA and periodB, each with start and end dates.');
+        }
+
+        assertLexicon(lexicon);
+        const result = await comparePeriods(
+          { start: toIsoDate(periodA.start), end: toIsoDate(periodA.end) },
+          { start: toIsoDate(periodB.start), end: toIsoDate(periodB.end) },
+          { iterations, seed, lexicon },
+        );
+        ComparePeriodsSchema.parse(result);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatComparisonSummary(result),
+            },
+          ],
+          structuredContent: result,
+        };
+      }
+      case 'budget_status': {
+        const { days } = (request.params.arguments ?? {}) as { days?: number };
+        if (days !== undefined && (!Number.isInteger(days) || days < 1 || days > MAX_USAGE_DAYS)) {
+          throw new McpError(ErrorCode.InvalidParams, `days must be an integer between 1 and ${MAX_USAGE_DAYS}.`);
+        }
+
+        const result = await getBudgetStatus({ days });
+        BudgetStatusSchema.parse(result);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatBudgetStatusSummary(result),
+            },
+          ],
+          structuredContent: result,
+        };
+      }
       default:
         throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${request.params.name}`);
     }
@@ -165,6 +1046,22 @@ async function start() {
         return;
       }
 
+      if (req.method === 'GET' && (req.url === '/budget' || req.url?.startsWith('/budget?'))) {
+        const days = new URL(req.url, 'http://localhost').searchParams.get('days');
+        getBudgetStatus({ days: days ? Number(days) || undefined : undefined })
+          .then((result) => {
+            res.statusCode = 200;
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify(result));
+          })
+          .catch((err) => {
+            logger.error({ err }, 'Budget status failed');
+            res.statusCode = 500;
+            res.end('Internal Server Error');
+          });
+        return;
+      }
+
       transport.handleRequest(req as any, res).catch((err) => {
         logger.error({ err }, 'HTTP transport error');
         try {
@@ -186,6 +1083,10 @@ async function start() {
   }
 }
 
+function toIsoDate(input: string): string {
+  return /^\d{4}-\d{2}-\d{2}$/.test(input) ? normalizeDate(input) : parseDateNL(input);
+}
+
 function isHostAllowed(hostHeader: string | undefined, whitelist: Set<string>): boolean {
   if (!whitelist.size || !hostHeader) return true;
   const host = hostHeader.split(':')[0];
@@ -197,18 +1098,215 @@ function isOriginAllowed(originHeader: string | undefined, whitelist: Set<string
   return whitelist.has(originHeader);
 }
 
+function lexiconArgument() {
+  return {
+    type: 'string',
+    enum: listLexiconPacks().map((pack) => pack.id),
+    description: `Lexicon pack for relevance filtering and investor sentiment. Defaults to LEXICON_PACK (${config.lexicon.pack}).`,
+  };
+}
+
+function spectrumArgument() {
+  return {
+    type: 'string',
+    enum: ['three', 'five'],
+    description: `Per-leaning breakdown: left/center/right, or the five-point spectrum (progressive, center-left, center, center-right, conservative). Defaults to SPECTRUM_MODE (${config.spectrumMode}).`,
+  };
+}
+
+function fetchStrategyArgument() {
+  return {
+    type: 'string',
+    enum: [...FETCH_STRATEGIES],
+    description: `How sources are split into article searches: pooled (one date-sorted query), perSource or perLeaning (each gets its own query and first page; costs more tokens). Defaults to FETCH_STRATEGY (${config.fetchStrategy}).`,
+  };
+}
+
+function sourceFieldProperties() {
+  return {
+    id: { type: 'string', description: 'Kebab-case source id, e.g. "houston-business-journal".' },
+    name: { type: 'string', description: 'Display name; also matched against EventRegistry outlet titles.' },
+    uri: {
+      type: ['string', 'null'],
+      description: 'EventRegistry source URI (e.g. "bizjournals.com"). Omit to let the resolver look it up.',
+    },
+    spectrum: {
+      type: 'string',
+      enum: [...SPECTRUM_LEANINGS],
+      description: 'Five-point political spectrum; collapses to left/center/right for scoring.',
+    },
+    country: { type: 'string', description: 'ISO 3166-1 alpha-2 country code (default US).' },
+    category: { type: 'string', enum: ['business', 'general'], description: 'Coverage focus (default general).' },
+    weight: {
+      type: 'number',
+      exclusiveMinimum: 0,
+      maximum: MAX_SOURCE_WEIGHT,
+      description: 'Relative share of the per-source sampling quota (default 1).',
+    },
+    enabled: { type: 'boolean', description: 'Whether the source is fetched (default true).' },
+    aliases: { type: 'array', items: { type: 'string' }, description: 'Alternate outlet titles.' },
+  };
+}
+
+function assertLexicon(id: string | undefined) {
+  if (id !== undefined && !hasLexiconPack(id)) {
+    const available = listLexiconPacks().map((pack) => pack.id).join(', ');
+    throw new McpError(ErrorCode.InvalidParams, `Unknown lexicon pack "${id}". Available: ${available}.`);
+  }
+}
+
+function assertSpectrum(mode: string | undefined) {
+  if (mode !== undefined && mode !== 'three' && mode !== 'five') {
+    throw new McpError(ErrorCode.InvalidParams, 'spectrum must be "three" or "five".');
+  }
+}
+
+function assertFetchStrategy(strategy: string | undefined) {
+  if (strategy !== undefined && !FETCH_STRATEGIES.includes(strategy as FetchStrategy)) {
+    throw new McpError(ErrorCode.InvalidParams, `fetchStrategy must be one of: ${FETCH_STRATEGIES.join(', ')}.`);
+  }
+}
+
 function formatDailySummary(
   date: string,
   generalScore: number,
   investorScore: number,
   headlines: number,
   sources: number,
+  dimensions: ScoreDimensions,
+  completeness: CompletenessDiagnostics,
 ): string {
   return [
     `Headline Vibes — ${date}`,
     `General sentiment: ${generalScore.toFixed(2)}`,
     `Investor sentiment: ${investorScore.toFixed(2)}`,
+    `Attention: ${dimensions.attention.toFixed(2)} | Bias intensity: ${dimensions.biasIntensity.toFixed(2)} | Novelty: ${dimensions.novelty.toFixed(2)} | Vol shock: ${dimensions.volShock.toFixed(2)}`,
     `Headlines analyzed: ${headlines} across ${sources} sources`,
+    ...incompleteWarning(completeness),
+  ].join('\n');
+}
+
+function incompleteWarning(completeness: CompletenessDiagnostics): string[] {
+  if (completeness.complete) return [];
+  const failed = completeness.errors
+    .filter((e) => e.page > 0)
+    .map((e) => `page ${e.page}${e.status ? ` (${e.status})` : ''}`);
+  // page 0: the search itself was not the one requested (e.g. SOURCES_UNRESOLVED)
+  const reasons = [
+    ...completeness.errors.filter((e) => e.page === 0).map((e) => e.message),
+    ...(failed.length ? [`${failed.join(', ')} failed after retries`] : []),
+  ];
+  return [`Incomplete: ${reasons.length ? reasons.join('; ') : 'fetch did not finish'}; scores cover the pages that were fetched`];
+}
+
+function formatWindowSummary(result: AnalyzeWindowResult): string {
+  const hhmm = (iso: string) => iso.slice(11, 16);
+  const scores = (s: { investor: number; general: number } | null, headlines: number) =>
+    s ? `investor ${s.investor.toFixed(2)}, general ${s.general.toFixed(2)} from ${headlines} headlines` : 'no relevant headlines';
+  const { window, rolling } = result;
+  return [
+    `Headline Vibes — Window ${window.start.slice(0, 16)}Z → ${window.end.slice(0, 16)}Z`,
+    `Rolling ${rolling.hours}h (from ${hhmm(rolling.start)}Z): ${scores(rolling.sentiment, rolling.relevant_headlines)}`,
+    `Whole window: ${scores(result.overall.sentiment, result.overall.relevant_headlines)}`,
+    ...result.series.map((b) => `${b.hour.slice(0, 10)} ${hhmm(b.start)}Z: ${scores(b.sentiment, b.relevant_headlines)}`),
+    ...incompleteWarning(result.diagnostics.completeness),
+    ...(result.diagnostics.sampling.truncated
+      ? [`Truncated: the page cap ran out before the window start (earliest article ${result.diagnostics.sampling.earliest_article ?? 'none'})`]
+      : []),
+  ].join('\n');
+}
+
+function formatExplainSummary(result: ExplainHeadlinesResult): string {
+  const { general, investor, headlines_analyzed } = result.overall;
+  const lines = result.headlines.map((h) => {
+    const hits = h.investor.hits.map((hit) => `${hit.negated ? 'not ' : ''}${hit.term} ${hit.contribution > 0 ? '+' : ''}${hit.contribution}`);
+    return `#${h.index + 1} [${h.source}, ${h.leaning}] ${h.title} — investor ${h.investor.weight} (${hits.join(', ') || 'no hits'}), general ${h.general.comparative.toFixed(2)}`;
+  });
+  return [
+    `Headline Vibes — ${result.date} explained (page ${result.page} of ${result.total_pages})`,
+    `Investor ${investor.score.toFixed(2)} from mean weight ${investor.mean_weight}; general ${general.score.toFixed(2)} from mean comparative ${general.mean_comparative} over ${headlines_analyzed} headlines`,
+    ...lines,
+  ].join('\n');
+}
+
+function formatTopStoriesSummary(result: TopStoriesResult): string {
+  const lines = result.topics.map((t) => {
+    const lead = t.representative_headlines[0] ? ` — e.g. "${t.representative_headlines[0].title}"` : '';
+    return `${t.rank}. ${t.label}: ${t.headlines} headlines (L/C/R ${t.coverage.left}/${t.coverage.center}/${t.coverage.right}), investor ${t.sentiment.investor.toFixed(2)}, general ${t.sentiment.general.toFixed(2)}, attention ${t.attention.toFixed(2)}${lead}`;
+  });
+  if (!lines.length) lines.push('No recurring topics among the analyzed headlines.');
+  return [`Headline Vibes — Top stories ${result.date} (by ${result.rank_by})`, ...lines].join('\n');
+}
+
+function formatEntitySummary(result: EntitySentimentResult): string {
+  const { start, end } = result.date_range;
+  const range = start === end ? start : `${start} → ${end}`;
+  const lines = result.entities.map((e) => {
+    const label = e.ticker && e.ticker !== e.name ? `${e.name} (${e.ticker})` : e.name;
+    if (!e.mentions) return `${label}: no mentions`;
+    const { left, center, right } = e.leaning_split;
+    return `${label}: ${e.mentions} headlines (${e.share}%), investor ${e.sentiment.investor?.toFixed(2)}, general ${e.sentiment.general?.toFixed(2)}, L/C/R ${left}/${center}/${right}`;
+  });
+  if (!lines.length) lines.push('No entities mentioned in the analyzed headlines.');
+  return [
+    `Headline Vibes — Entity sentiment ${range}`,
+    `${result.headlines_with_entities} of ${result.headlines_analyzed} relevant headlines mention a tracked entity`,
+    ...lines,
+  ].join('\n');
+}
+
+function formatSourceProfileSummary(result: SourceProfileResult): string {
+  const { start, end } = result.date_range;
+  const range = start === end ? start : `${start} → ${end}`;
+  const signed = (n: number) => `${n > 0 ? '+' : ''}${n.toFixed(2)}`;
+  const lines = result.sources
+    .filter((s) => !s.zero_articles)
+    .map((s) => {
+      const scores = s.sentiment && s.deviation
+        ? `investor ${s.sentiment.investor.toFixed(2)} (${signed(s.deviation.investor)}), general ${s.sentiment.general.toFixed(2)} (${signed(s.deviation.general)}), attention ${s.attention?.toFixed(2)}`
+        : 'no relevant headlines';
+      return `${s.rank}. ${s.source_id} [${s.leaning}]: ${s.articles} articles, ${s.relevance_rate}% relevant, ${scores}`;
+    });
+  const { overall } = result;
+  lines.unshift(
+    `All sources: ${overall.articles} articles, ${overall.relevance_rate}% relevant, investor ${overall.sentiment.investor.toFixed(2)}, general ${overall.sentiment.general.toFixed(2)}`,
+  );
+  if (result.zero_article_sources.length) {
+    lines.push(`No articles (check source URI mapping): ${result.zero_article_sources.join(', ')}`);
+  }
+  if (result.truncated_sources.length) {
+    lines.push(`Page cap ran out (profiles cover only their newest articles): ${result.truncated_sources.join(', ')}`);
+  }
+  const unchecked = result.sources
+    .filter((s) => s.query === 'failed' || s.query === 'not_run')
+    .map((s) => `${s.source_id} (${s.query})`);
+  if (unchecked.length) lines.push(`Search did not finish: ${unchecked.join(', ')}`);
+  lines.push(...incompleteWarning(result.diagnostics.completeness));
+  return [`Headline Vibes — Source profile ${range} (by ${result.sort_by})`, ...lines].join('\n');
+}
+
+function formatSourceList(sources: SourceEntry[]): string {
+  if (!sources.length) return 'No sources match.';
+  return sources
+    .map(
+      (s) =>
+        `${s.id}: ${s.name} [${s.spectrum} → ${s.leaning}, ${s.country}, ${s.category}] weight ${s.weight}, uri ${s.uri ?? 'unresolved'}${s.enabled ? '' : ' (disabled)'}`,
+    )
+    .join('\n');
+}
+
+function formatResolveSourcesSummary(result: ResolveSourcesResult): string {
+  const { total, resolved, ambiguous, failed } = result.summary;
+  const problems = result.sources
+    .filter((s) => s.status !== 'resolved')
+    .map((s) => {
+      const candidates = s.candidates.map((c) => `${c.uri} "${c.title}" ${c.confidence}`).join('; ');
+      return `${s.name} [${s.status}]: ${candidates || s.reason}`;
+    });
+  return [
+    `Headline Vibes — Source resolution: ${resolved} of ${total} resolved, ${ambiguous} ambiguous, ${failed} failed`,
+    ...result.pins_changed.map((p) => (p.uri ? `Pinned ${p.name} → ${p.uri}` : `Unpinned ${p.name}`)),
+    ...(problems.length ? ['Not queried:', ...problems] : ['Every source will be queried.']),
   ].join('\n');
 }
 
@@ -216,12 +1314,112 @@ function formatMonthlySummary(result: Awaited<ReturnType<typeof analyzeMonthlyHe
   const entries = Object.entries(result.months);
   if (!entries.length) return 'No monthly headline data available for the given range.';
   const lines = entries.map(([month, data]) => {
-    const centerScore = data.political_sentiments.center.general.toFixed(2);
-    return `${month}: center general sentiment ${centerScore} from ${data.total_headlines} headlines`;
+    if (data.error) return `${month}: ${data.error}`;
+    const { general, investor } = data.overall_sentiment;
+    return `${month}: general ${general.score.toFixed(2)}, investor ${investor.score.toFixed(2)} from ${data.headlines_analyzed} relevant of ${data.total_headlines} headlines`;
   });
   return ['Headline Vibes — Monthly Summary', ...lines].join('\n');
 }
 
+function formatPeriodSummary(result: AnalyzePeriodResult): string {
+  const entries = Object.entries(result.buckets);
+  if (!entries.length) return 'No headline data available for the given range.';
+  const lines = entries.map(([key, data]) => {
+    if (data.error) return `${key}: ${data.error}`;
+    const sentiments = Object.values(data.political_sentiments);
+    const labels = data.spectrum === 'five' ? 'P/CL/C/CR/Con' : 'L/C/R';
+    const joined = (score: 'general' | 'investor') => sentiments.map((s) => s[score].toFixed(2)).join('/');
+    const partial = data.diagnostics.completeness.complete ? '' : ' (incomplete)';
+    return `${key}: general ${labels} ${joined('general')}, investor ${labels} ${joined('investor')} from ${data.total_headlines} headlines${partial}`;
+  });
+  const zone = result.time_zone === 'UTC' ? '' : ` (${result.time_zone})`;
+  return [`Headline Vibes — ${result.granularity} buckets ${result.date_range.start} → ${result.date_range.end}${zone}`, ...lines].join('\n');
+}
+
+function formatBackfillSummary(result: BackfillResult): string {
+  const { estimate, progress, run } = result;
+  const lines = [
+    `Headline Vibes — Backfill ${result.date_range.start} → ${result.date_range.end} (${result.mode})`,
+    `Days: ${estimate.days} total, ${estimate.days_stored} already stored, ${estimate.days_pending} pending`,
+    `Estimated cost: ${estimate.estimated_tokens} tokens over ${estimate.estimated_requests} requests (MTD ${estimate.mtd_tokens} → ${estimate.projected_mtd_tokens} of ${estimate.monthly_tokens})`,
+  ];
+  if (estimate.reason) lines.push(`Note: ${estimate.reason}`);
+  if (run) {
+    lines.push(
+      `Processed ${run.days_processed} days (${run.days_fetched} fetched, ${run.days_from_store} from store); stopped: ${run.stopped_reason}`,
+    );
+  } else {
+    lines.push('Dry run only. Re-run with confirm=true to execute.');
+  }
+  if (progress) {
+    lines.push(
+      `Progress: ${progress.status}, ${progress.completed_days}/${progress.total_days} days, last completed ${progress.last_completed_date ?? 'none'}`,
+    );
+    if (progress.error) lines.push(`Last error: ${progress.error}`);
+  }
+  return lines.join('\n');
+}
+
+function formatAnomalySummary(result: DetectAnomaliesResult): string {
+  const header = `Headline Vibes — Anomalies ${result.date_range.start} → ${result.date_range.end} (|z| ≥ ${result.threshold}, ${result.window_days}-day window)`;
+  const lines = result.anomalies.slice(0, 20).map((a) => {
+    const lead = a.sampleHeadlines[0] ? ` — e.g. "${a.sampleHeadlines[0]}"` : '';
+    return `${a.date} ${a.grouping} ${a.metric}: ${a.value.toFixed(2)} (z=${a.zScore.toFixed(2)}, ${a.direction})${lead}`;
+  });
+  if (!lines.length) lines.push('No anomalies detected.');
+  if (result.anomalies.length > 20) lines.push(`…and ${result.anomalies.length - 20} more`);
+  if (result.days_missing.length) {
+    lines.push(`${result.days_missing.length} day(s) have no stored scores; run backfill_headlines to cover them.`);
+  }
+  return [header, ...lines].join('\n');
+}
+
+function formatComparisonSummary(result: ComparePeriodsResult): string {
+  const a = result.period_a.date_range;
+  const b = result.period_b.date_range;
+  const header = `Headline Vibes — ${a.start} → ${a.end} vs ${b.start} → ${b.end}`;
+  const lines = (['aggregate', 'left', 'center', 'right'] as const).map((grouping) => {
+    const metrics = (['general', 'investor'] as const).map((metric) => {
+      const c = result.comparisons[grouping][metric];
+      const sign = c.delta > 0 ? '+' : '';
+      const p = c.p_value === null ? 'n/a' : c.p_value.toFixed(2);
+      return `${metric} ${c.period_a.toFixed(2)} → ${c.period_b.toFixed(2)} (${sign}${c.delta.toFixed(2)}, p=${p}${c.significant ? ', significant' : ''})`;
+    });
+    return `${grouping}: ${metrics.join('; ')}`;
+  });
+  const grew = result.key_terms.grew.slice(0, 5).map((t) => t.term);
+  const shrank = result.key_terms.shrank.slice(0, 5).map((t) => t.term);
+  if (grew.length) lines.push(`Terms up: ${grew.join(', ')}`);
+  if (shrank.length) lines.push(`Terms down: ${shrank.join(', ')}`);
+  lines.push(`Headlines analyzed: ${result.period_a.headlines_analyzed} vs ${result.period_b.headlines_analyzed}`);
+  const coverage = (period: ComparePeriodsResult['period_a']) =>
+    `${period.coverage.days_sampled}/${period.coverage.days_in_period} days`;
+  lines.push(`Days sampled: ${coverage(result.period_a)} vs ${coverage(result.period_b)}`);
+  for (const [label, period] of [['Period A', result.period_a], ['Period B', result.period_b]] as const) {
+    lines.push(...incompleteWarning(period.diagnostics.completeness).map((warning) => `${label}: ${warning}`));
+  }
+  return [header, ...lines].join('\n');
+}
+
+function formatBudgetStatusSummary(result: BudgetStatusResult): string {
+  const { tokens, projection, requests } = result;
+  const pct = (n: number) => `${((n / tokens.monthly_tokens) * 100).toFixed(1)}%`;
+  const crossing = projection.hard_cap_date
+    ? `crosses the hard cap on ${projection.hard_cap_date}`
+    : 'stays under the hard cap this month';
+  const recent = result.usage.slice(-7).map((day) => {
+    const remaining = day.rate_limit_remaining === null ? '' : `, ${day.rate_limit_remaining} left`;
+    return `${day.date}: ${day.requests} requests, ${day.tokens_used} tokens, ${day.articles_fetched} articles${remaining}`;
+  });
+  return [
+    `Headline Vibes — Budget ${result.month} (${result.store} store)`,
+    `Tokens: ${tokens.mtd_tokens} of ${tokens.monthly_tokens} used (${pct(tokens.mtd_tokens)}), status ${tokens.status}; soft cap ${tokens.soft_cap_tokens}, hard cap ${tokens.hard_cap_tokens}`,
+    `Projection: ${projection.burn_rate_per_day}/day → ${projection.month_end_tokens} by month end (${pct(projection.month_end_tokens)}); ${crossing}`,
+    `Requests today: ${requests.today}${requests.daily_cap === null ? '' : ` of ${requests.daily_cap}`}`,
+    ...recent,
+  ].join('\n');
+}
+
 start().catch((error) => {
   logger.error({ err: error }, 'Failed to start Headline Vibes server');
   process.exit(1);
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { SCORE_GROUPINGS, type ScoreGrouping } from '../services/scoreStore.js';
+
+const MetricSchema = z.enum(['attention', 'investorSentiment', 'generalSentiment', 'biasIntensity', 'novelty', 'volShock']);
+
+export const DetectAnomaliesSchema = z.object({
+  date_range: z.object({
+    start: z.string(),
+    end: z.string(),
+  }),
+  threshold: z.number(),
+  window_days: z.number(),
+  min_history: z.number(),
+  days_evaluated: z.number(),
+  days_missing: z.array(z.string()),
+  anomalies: z.array(
+    z.object({
+      date: z.string(),
+      grouping: z.enum(SCORE_GROUPINGS as [ScoreGrouping, ...ScoreGrouping[]]),
+      metric: MetricSchema,
+      value: z.number(),
+      zScore: z.number(),
+      threshold: z.number(),
+      direction: z.enum(['positive', 'negative']),
+      baselineMean: z.number(),
+      baselineStd: z.number(),
+      sampleHeadlines: z.array(z.string()),
+    }),
+  ),
+});
+
+export const detectAnomaliesJsonSchema = zodToJsonSchema(DetectAnomaliesSchema, 'DetectAnomaliesResult');
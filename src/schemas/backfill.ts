@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+const BackfillStatusSchema = z.enum(['running', 'blocked', 'failed', 'completed']);
+
+export const BackfillSchema = z.object({
+  job_id: z.string(),
+  mode: z.enum(['full', 'sampled']),
+  date_range: z.object({
+    start: z.string(),
+    end: z.string(),
+  }),
+  dry_run: z.boolean(),
+  estimate: z.object({
+    days: z.number(),
+    days_stored: z.number(),
+    days_pending: z.number(),
+    pages_per_day: z.number(),
+    estimated_requests: z.number(),
+    estimated_tokens: z.number(),
+    feasible: z.boolean(),
+    reason: z.string().optional(),
+    mtd_tokens: z.number(),
+    monthly_tokens: z.number(),
+    projected_mtd_tokens: z.number(),
+    hard_cap_tokens: z.number(),
+  }),
+  progress: z
+    .object({
+      status: BackfillStatusSchema,
+      last_completed_date: z.string().nullable(),
+      completed_days: z.number(),
+      total_days: z.number(),
+      updated_at: z.string(),
+      error: z.string().optional(),
+    })
+    .nullable(),
+  run: z
+    .object({
+      days_processed: z.number(),
+      days_fetched: z.number(),
+      days_from_store: z.number(),
+      stopped_reason: z.enum(['completed', 'max_days', 'budget', 'error']),
+    })
+    .optional(),
+});
+
+export const backfillJsonSchema = zodToJsonSchema(BackfillSchema, 'BackfillResult');
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+export const BudgetStatusSchema = z.object({
+  month: z.string(),
+  generated_at: z.string(),
+  store: z.enum(['file', 'redis', 'memory']),
+  tokens: z.object({
+    mtd_tokens: z.number(),
+    monthly_tokens: z.number(),
+    soft_cap_pct: z.number(),
+    hard_cap_pct: z.number(),
+    soft_cap_tokens: z.number(),
+    hard_cap_tokens: z.number(),
+    remaining_tokens: z.number(),
+    allow_overage: z.boolean(),
+    status: z.enum(['ok', 'soft_cap', 'hard_cap', 'exhausted']),
+  }),
+  projection: z.object({
+    days_elapsed: z.number(),
+    days_in_month: z.number(),
+    burn_rate_per_day: z.number(),
+    month_end_tokens: z.number(),
+    exceeds_soft_cap: z.boolean(),
+    exceeds_hard_cap: z.boolean(),
+    hard_cap_date: z.string().nullable(),
+  }),
+  requests: z.object({
+    daily_cap: z.number().nullable(),
+    per_second_cap: z.number().nullable(),
+    today: z.number(),
+  }),
+  usage: z.array(
+    z.object({
+      date: z.string(),
+      requests: z.number(),
+      articles_fetched: z.number(),
+      tokens_used: z.number(),
+      rate_limit_remaining: z.number().nullable(),
+    }),
+  ),
+});
+
+export const budgetStatusJsonSchema = zodToJsonSchema(BudgetStatusSchema, 'BudgetStatusResult');
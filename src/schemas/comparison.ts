@@ -0,0 +1,96 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { ArticleCacheSchema, CompletenessSchema, DedupSchema } from './headlines.js';
+
+const MetricComparisonSchema = z.object({
+  period_a: z.number(),
+  period_b: z.number(),
+  delta: z.number(),
+  pct_change: z.number().nullable(),
+  ci_95: z.tuple([z.number(), z.number()]).nullable(),
+  p_value: z.number().nullable(),
+  significant: z.boolean(),
+});
+
+const GroupingComparisonSchema = z.object({
+  general: MetricComparisonSchema,
+  investor: MetricComparisonSchema,
+  attention: MetricComparisonSchema,
+});
+
+const TermShiftSchema = z.object({
+  term: z.string(),
+  count_a: z.number(),
+  count_b: z.number(),
+  rate_a: z.number(),
+  rate_b: z.number(),
+  delta: z.number(),
+});
+
+const PeriodSummarySchema = z.object({
+  date_range: z.object({
+    start: z.string(),
+    end: z.string(),
+  }),
+  coverage: z.object({
+    days_in_period: z.number(),
+    days_sampled: z.number(),
+    days_from_store: z.number(),
+    sampled_days: z.array(z.string()),
+  }),
+  total_headlines: z.number(),
+  relevant_headlines: z.number(),
+  headlines_analyzed: z.number(),
+  headlines_by_leaning: z.object({
+    left: z.number(),
+    center: z.number(),
+    right: z.number(),
+  }),
+  diagnostics: z.object({
+    token_budget: z.object({
+      status: z.enum(['allowed', 'throttled', 'blocked']),
+      estimate_tokens: z.number(),
+      requests_made: z.number(),
+      mtd_tokens: z.number(),
+      monthly_tokens: z.number(),
+      soft_cap_pct: z.number(),
+      hard_cap_pct: z.number(),
+    }),
+    sampling: z.object({
+      sources_targeted: z.number(),
+      sources_with_relevant: z.number(),
+      page_cap: z.number(),
+      pages_fetched: z.number(),
+      per_source_quota: z.number(),
+    }),
+    completeness: CompletenessSchema,
+    article_cache: ArticleCacheSchema,
+    lexicon: z.object({
+      id: z.string(),
+      version: z.string(),
+    }),
+    dedup: DedupSchema,
+  }),
+});
+
+export const ComparePeriodsSchema = z.object({
+  period_a: PeriodSummarySchema,
+  period_b: PeriodSummarySchema,
+  comparisons: z.object({
+    aggregate: GroupingComparisonSchema,
+    left: GroupingComparisonSchema,
+    center: GroupingComparisonSchema,
+    right: GroupingComparisonSchema,
+  }),
+  key_terms: z.object({
+    grew: z.array(TermShiftSchema),
+    shrank: z.array(TermShiftSchema),
+  }),
+  bootstrap: z.object({
+    iterations: z.number(),
+    seed: z.number(),
+    confidence: z.number(),
+  }),
+});
+
+export const comparePeriodsJsonSchema = zodToJsonSchema(ComparePeriodsSchema, 'ComparePeriodsResult');
@@ -0,0 +1,61 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+const LeaningSchema = z.enum(['left', 'center', 'right', 'other']);
+
+const EntitySentimentSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.enum(['company', 'central_bank', 'person', 'ticker']),
+  ticker: z.string().optional(),
+  mentions: z.number(),
+  share: z.number(),
+  sentiment: z.object({
+    investor: z.number().nullable(),
+    general: z.number().nullable(),
+  }),
+  leaning_split: z.object({
+    left: z.number(),
+    center: z.number(),
+    right: z.number(),
+    other: z.number(),
+  }),
+  daily_mentions: z.array(
+    z.object({
+      date: z.string(),
+      mentions: z.number(),
+    }),
+  ),
+  sample_headlines: z.array(
+    z.object({
+      title: z.string(),
+      source: z.string(),
+      leaning: LeaningSchema,
+      date: z.string(),
+    }),
+  ),
+});
+
+export const EntitySentimentResultSchema = z.object({
+  date_range: z.object({
+    start: z.string(),
+    end: z.string(),
+  }),
+  days: z.object({
+    requested: z.number(),
+    from_store: z.number(),
+    fetched: z.number(),
+  }),
+  headlines_analyzed: z.number(),
+  headlines_with_entities: z.number(),
+  entities: z.array(EntitySentimentSchema),
+  diagnostics: z.object({
+    requests_made: z.number(),
+    lexicon: z.object({
+      id: z.string(),
+      version: z.string(),
+    }),
+  }),
+});
+
+export const entitySentimentJsonSchema = zodToJsonSchema(EntitySentimentResultSchema, 'EntitySentimentResult');
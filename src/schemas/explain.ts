@@ -0,0 +1,75 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+const HeadlineExplanationSchema = z.object({
+  index: z.number(),
+  title: z.string(),
+  source: z.string(),
+  source_id: z.string(),
+  leaning: z.enum(['left', 'center', 'right', 'other']),
+  published_date: z.string(),
+  url: z.string().optional(),
+  relevance: z.object({
+    score: z.number(),
+    matched_terms: z.array(z.string()),
+  }),
+  investor: z.object({
+    weight: z.number(),
+    hits: z.array(
+      z.object({
+        term: z.string(),
+        text: z.string(),
+        weight: z.number(),
+        negated: z.boolean(),
+        contribution: z.number(),
+      }),
+    ),
+  }),
+  general: z.object({
+    comparative: z.number(),
+    positive_words: z.array(z.string()),
+    negative_words: z.array(z.string()),
+  }),
+});
+
+export const ExplainHeadlinesSchema = z.object({
+  date: z.string(),
+  overall: z.object({
+    headlines_analyzed: z.number(),
+    general: z.object({
+      score: z.number(),
+      mean_comparative: z.number(),
+    }),
+    investor: z.object({
+      score: z.number(),
+      mean_weight: z.number(),
+    }),
+  }),
+  page: z.number(),
+  page_size: z.number(),
+  total_pages: z.number(),
+  headlines: z.array(HeadlineExplanationSchema),
+  diagnostics: z.object({
+    token_budget: z.object({
+      status: z.enum(['allowed', 'throttled', 'blocked']),
+      estimate_tokens: z.number(),
+      requests_made: z.number(),
+      mtd_tokens: z.number(),
+      monthly_tokens: z.number(),
+      soft_cap_pct: z.number(),
+      hard_cap_pct: z.number(),
+    }),
+    store: z.object({
+      backend: z.string(),
+      hit: z.boolean(),
+      persisted: z.boolean(),
+      stored_at: z.string().nullable(),
+    }),
+    lexicon: z.object({
+      id: z.string(),
+      version: z.string(),
+    }),
+  }),
+});
+
+export const explainHeadlinesJsonSchema = zodToJsonSchema(ExplainHeadlinesSchema, 'ExplainHeadlinesResult');
@@ -8,8 +8,111 @@ const PoliticalSentimentSchema = z.object({
   sample_headlines: z.array(z.string()),
 });
 
-export const AnalyzeHeadlinesSchema = z.object({
-  date: z.string(),
+// Per-leaning fields are keyed by left/center/right, or by the five-point spectrum when spectrum is 'five'
+function byLeaning<T extends z.ZodTypeAny>(value: T) {
+  return z.union([
+    z.object({ left: value, center: value, right: value }),
+    z.object({
+      progressive: value,
+      'center-left': value,
+      center: value,
+      'center-right': value,
+      conservative: value,
+    }),
+  ]);
+}
+
+export const ScoreDimensionsSchema = z.object({
+  attention: z.number(),
+  investorSentiment: z.number(),
+  generalSentiment: z.number(),
+  biasIntensity: z.number(),
+  novelty: z.number(),
+  volShock: z.number(),
+});
+
+const TokenBudgetSchema = z.object({
+  status: z.enum(['allowed', 'throttled', 'blocked']),
+  estimate_tokens: z.number(),
+  requests_made: z.number(),
+  mtd_tokens: z.number(),
+  monthly_tokens: z.number(),
+  soft_cap_pct: z.number(),
+  hard_cap_pct: z.number(),
+});
+
+const SamplingSchema = z.object({
+  fetch_strategy: z.enum(['pooled', 'perSource', 'perLeaning']),
+  sources_targeted: z.number(),
+  sources_with_relevant: z.number(),
+  page_cap: z.number(),
+  pages_fetched: z.number(),
+  per_source_quota: z.number(),
+});
+
+export const CompletenessSchema = z.object({
+  complete: z.boolean(),
+  errors: z.array(
+    z.object({
+      page: z.number(),
+      sources: z.array(z.string()).nullable(),
+      status: z.number().nullable(),
+      code: z.string().nullable(),
+      message: z.string(),
+      attempts: z.number(),
+    }),
+  ),
+});
+
+export const ArticleCacheSchema = z.object({
+  backend: z.enum(['file', 'redis', 'memory', 'none']),
+  hits: z.number(),
+  misses: z.number(),
+});
+
+const LexiconSchema = z.object({
+  id: z.string(),
+  version: z.string(),
+});
+
+export const DedupSchema = z.object({
+  enabled: z.boolean(),
+  similarity: z.number(),
+  articles_in: z.number(),
+  clusters: z.number(),
+  duplicates_removed: z.number(),
+  syndicated_clusters: z.number(),
+  largest_clusters: z.array(
+    z.object({
+      title: z.string(),
+      size: z.number(),
+      sources: z.array(z.string()),
+    }),
+  ),
+});
+
+const MatchesSchema = z.object({
+  negated_terms: z.number(),
+  sample: z.array(
+    z.object({
+      headline: z.string(),
+      spans: z.array(
+        z.object({
+          term: z.string(),
+          text: z.string(),
+          start: z.number(),
+          end: z.number(),
+          kind: z.enum(['inclusion', 'sentiment']),
+          weight: z.number(),
+          negated: z.boolean(),
+        }),
+      ),
+    }),
+  ),
+});
+
+// Fields every analysis (daily or bucketed) reports for its relevance-filtered sample
+const HeadlineSnapshotSchema = z.object({
   overall_sentiment: z.object({
     general: z.object({
       score: z.number(),
@@ -21,11 +124,8 @@ export const AnalyzeHeadlinesSchema = z.object({
       key_terms: z.record(z.number()),
     }),
   }),
-  political_sentiments: z.object({
-    left: PoliticalSentimentSchema,
-    center: PoliticalSentimentSchema,
-    right: PoliticalSentimentSchema,
-  }),
+  spectrum: z.enum(['three', 'five']),
+  political_sentiments: byLeaning(PoliticalSentimentSchema),
   filtering_stats: z.object({
     total_headlines: z.number(),
     relevant_headlines: z.number(),
@@ -35,63 +135,64 @@ export const AnalyzeHeadlinesSchema = z.object({
   sources_analyzed: z.number(),
   source_distribution: z.record(z.number()),
   political_distribution: z.record(z.number()),
-  sample_headlines_by_leaning: z.object({
-    left: z.array(z.string()),
-    center: z.array(z.string()),
-    right: z.array(z.string()),
-  }),
+  sample_headlines_by_leaning: byLeaning(z.array(z.string())),
+});
+
+export const AnalyzeHeadlinesSchema = HeadlineSnapshotSchema.extend({
+  date: z.string(),
+  score_dimensions: ScoreDimensionsSchema,
   diagnostics: z.object({
-    token_budget: z.object({
-      status: z.enum(['allowed', 'throttled', 'blocked']),
-      estimate_tokens: z.number(),
-      requests_made: z.number(),
-      mtd_tokens: z.number(),
-      monthly_tokens: z.number(),
-      soft_cap_pct: z.number(),
-      hard_cap_pct: z.number(),
+    token_budget: TokenBudgetSchema,
+    sampling: SamplingSchema,
+    completeness: CompletenessSchema,
+    article_cache: ArticleCacheSchema,
+    store: z.object({
+      backend: z.string(),
+      hit: z.boolean(),
+      persisted: z.boolean(),
+      stored_at: z.string().nullable(),
     }),
-    sampling: z.object({
-      sources_targeted: z.number(),
-      sources_with_relevant: z.number(),
-      page_cap: z.number(),
-      pages_fetched: z.number(),
-      per_source_quota: z.number(),
+    baseline: z.object({
+      days_requested: z.number(),
+      days_available: z.number(),
+      days_refetched: z.number(),
     }),
+    lexicon: LexiconSchema,
+    matches: MatchesSchema,
+    dedup: DedupSchema,
   }),
 });
 
+const PeriodBucketSchema = HeadlineSnapshotSchema.extend({
+  date_range: z.object({
+    start: z.string(),
+    end: z.string(),
+  }),
+  total_headlines: z.number(),
+  diagnostics: z.object({
+    token_budget: TokenBudgetSchema,
+    sampling: SamplingSchema,
+    completeness: CompletenessSchema,
+    article_cache: ArticleCacheSchema,
+    lexicon: LexiconSchema,
+    matches: MatchesSchema,
+    dedup: DedupSchema,
+  }),
+  error: z.string().optional(),
+});
+
 export const AnalyzeMonthlySchema = z.object({
-  months: z.record(
-    z.object({
-      date_range: z.object({
-        start: z.string(),
-        end: z.string(),
-      }),
-      total_headlines: z.number(),
-      political_sentiments: z.object({
-        left: PoliticalSentimentSchema,
-        center: PoliticalSentimentSchema,
-        right: PoliticalSentimentSchema,
-      }),
-      diagnostics: z.object({
-        token_budget: z.object({
-          status: z.enum(['allowed', 'throttled', 'blocked']),
-          estimate_tokens: z.number(),
-          requests_made: z.number(),
-          mtd_tokens: z.number(),
-          monthly_tokens: z.number(),
-          soft_cap_pct: z.number(),
-          hard_cap_pct: z.number(),
-        }),
-        sampling: z.object({
-          sources_targeted: z.number(),
-          page_cap: z.number(),
-          pages_fetched: z.number(),
-        }),
-      }),
-      error: z.string().optional(),
-    }),
-  ),
+  months: z.record(PeriodBucketSchema),
+});
+
+export const AnalyzePeriodSchema = z.object({
+  granularity: z.enum(['day', 'week', 'month', 'quarter']),
+  time_zone: z.string(),
+  date_range: z.object({
+    start: z.string(),
+    end: z.string(),
+  }),
+  buckets: z.record(PeriodBucketSchema),
 });
 
 export const analyzeHeadlinesJsonSchema = zodToJsonSchema(
@@ -103,3 +204,8 @@ export const analyzeMonthlyJsonSchema = zodToJsonSchema(
   AnalyzeMonthlySchema,
   'AnalyzeMonthlyResult',
 );
+
+export const analyzePeriodJsonSchema = zodToJsonSchema(
+  AnalyzePeriodSchema,
+  'AnalyzePeriodResult',
+);
@@ -0,0 +1,148 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { ArticleCacheSchema, CompletenessSchema } from './headlines.js';
+
+const ScoresSchema = z.object({
+  investor: z.number(),
+  general: z.number(),
+});
+
+const SourceProfileEntrySchema = z.object({
+  rank: z.number(),
+  source_id: z.string(),
+  leaning: z.enum(['left', 'center', 'right', 'other']),
+  uri: z.string().nullable(),
+  articles: z.number(),
+  relevant_headlines: z.number(),
+  relevance_rate: z.number(),
+  sentiment: ScoresSchema.nullable(),
+  deviation: ScoresSchema.nullable(),
+  attention: z.number().nullable(),
+  query: z.enum(['complete', 'truncated', 'failed', 'not_run']),
+  zero_articles: z.boolean(),
+});
+
+export const SourceProfileSchema = z.object({
+  date_range: z.object({
+    start: z.string(),
+    end: z.string(),
+  }),
+  sort_by: z.enum(['volume', 'relevance_rate', 'investor', 'general', 'attention']),
+  overall: z.object({
+    articles: z.number(),
+    relevant_headlines: z.number(),
+    relevance_rate: z.number(),
+    sentiment: ScoresSchema,
+    attention: z.number(),
+  }),
+  sources: z.array(SourceProfileEntrySchema),
+  zero_article_sources: z.array(z.string()),
+  truncated_sources: z.array(z.string()),
+  unattributed: z.object({
+    articles: z.number(),
+    top_sources: z.array(
+      z.object({
+        name: z.string(),
+        articles: z.number(),
+      }),
+    ),
+  }),
+  diagnostics: z.object({
+    token_budget: z.object({
+      status: z.enum(['allowed', 'throttled', 'blocked']),
+      estimate_tokens: z.number(),
+      requests_made: z.number(),
+      mtd_tokens: z.number(),
+      monthly_tokens: z.number(),
+      soft_cap_pct: z.number(),
+      hard_cap_pct: z.number(),
+    }),
+    sources_targeted: z.number(),
+    sources_with_uri: z.number(),
+    page_cap: z.number(),
+    pages_fetched: z.number(),
+    completeness: CompletenessSchema,
+    article_cache: ArticleCacheSchema,
+    lexicon: z.object({
+      id: z.string(),
+      version: z.string(),
+    }),
+  }),
+});
+
+export const sourceProfileJsonSchema = zodToJsonSchema(SourceProfileSchema, 'SourceProfileResult');
+
+const RegistrySourceSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  uri: z.string().nullable(),
+  spectrum: z.enum(['progressive', 'center-left', 'center', 'center-right', 'conservative']),
+  leaning: z.enum(['left', 'center', 'right']),
+  country: z.string(),
+  category: z.enum(['business', 'general']),
+  weight: z.number(),
+  enabled: z.boolean(),
+  aliases: z.array(z.string()),
+});
+
+const RegistryInfoSchema = z.object({
+  path: z.string(),
+  origin: z.enum(['builtin', 'file']),
+});
+
+export const ListSourcesSchema = z.object({
+  registry: RegistryInfoSchema,
+  total: z.number(),
+  sources: z.array(RegistrySourceSchema),
+});
+
+export const SourceMutationSchema = z.object({
+  action: z.enum(['added', 'updated']),
+  source: RegistrySourceSchema,
+  registry: RegistryInfoSchema,
+});
+
+export const listSourcesJsonSchema = zodToJsonSchema(ListSourcesSchema, 'ListSourcesResult');
+export const sourceMutationJsonSchema = zodToJsonSchema(SourceMutationSchema, 'SourceMutationResult');
+
+const SourceCandidateSchema = z.object({
+  uri: z.string(),
+  title: z.string(),
+  confidence: z.number(),
+});
+
+export const ResolveSourcesSchema = z.object({
+  cache: z.object({
+    path: z.string(),
+    ttl_days: z.number(),
+    min_confidence: z.number(),
+  }),
+  pins_changed: z.array(
+    z.object({
+      name: z.string(),
+      uri: z.string().nullable(),
+    }),
+  ),
+  summary: z.object({
+    total: z.number(),
+    resolved: z.number(),
+    ambiguous: z.number(),
+    failed: z.number(),
+  }),
+  sources: z.array(
+    z.object({
+      name: z.string(),
+      status: z.enum(['resolved', 'ambiguous', 'failed']),
+      uri: z.string().nullable(),
+      title: z.string().nullable(),
+      confidence: z.number().nullable(),
+      via: z.enum(['uri', 'registry', 'pin', 'cache', 'lookup']).nullable(),
+      updated_at: z.string().nullable(),
+      expires_at: z.string().nullable(),
+      candidates: z.array(SourceCandidateSchema),
+      reason: z.string().nullable(),
+    }),
+  ),
+});
+
+export const resolveSourcesJsonSchema = zodToJsonSchema(ResolveSourcesSchema, 'ResolveSourcesResult');
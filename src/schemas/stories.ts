@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+const LeaningSchema = z.enum(['left', 'center', 'right', 'other']);
+
+const StoryTopicSchema = z.object({
+  rank: z.number(),
+  label: z.string(),
+  key_terms: z.array(z.string()),
+  headlines: z.number(),
+  share: z.number(),
+  sentiment: z.object({
+    investor: z.number(),
+    general: z.number(),
+  }),
+  attention: z.number(),
+  coverage: z.object({
+    left: z.number(),
+    center: z.number(),
+    right: z.number(),
+    other: z.number(),
+  }),
+  representative_headlines: z.array(
+    z.object({
+      title: z.string(),
+      source: z.string(),
+      leaning: LeaningSchema,
+    }),
+  ),
+});
+
+export const TopStoriesSchema = z.object({
+  date: z.string(),
+  rank_by: z.enum(['volume', 'attention']),
+  headlines_analyzed: z.number(),
+  unclustered_headlines: z.number(),
+  topics: z.array(StoryTopicSchema),
+  diagnostics: z.object({
+    token_budget: z.object({
+      status: z.enum(['allowed', 'throttled', 'blocked']),
+      estimate_tokens: z.number(),
+      requests_made: z.number(),
+      mtd_tokens: z.number(),
+      monthly_tokens: z.number(),
+      soft_cap_pct: z.number(),
+      hard_cap_pct: z.number(),
+    }),
+    store: z.object({
+      backend: z.string(),
+      hit: z.boolean(),
+      persisted: z.boolean(),
+      stored_at: z.string().nullable(),
+    }),
+    lexicon: z.object({
+      id: z.string(),
+      version: z.string(),
+    }),
+    similarity: z.number(),
+  }),
+});
+
+export const topStoriesJsonSchema = zodToJsonSchema(TopStoriesSchema, 'TopStoriesResult');
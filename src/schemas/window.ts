@@ -0,0 +1,67 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { ArticleCacheSchema, CompletenessSchema, DedupSchema } from './headlines.js';
+
+const ScoresSchema = z.object({
+  investor: z.number(),
+  general: z.number(),
+});
+
+const WindowBucketSchema = z.object({
+  hour: z.string(),
+  start: z.string(),
+  end: z.string(),
+  articles: z.number(),
+  relevant_headlines: z.number(),
+  sentiment: ScoresSchema.nullable(),
+  attention: z.number().nullable(),
+});
+
+export const AnalyzeWindowSchema = z.object({
+  window: z.object({
+    start: z.string(),
+    end: z.string(),
+    hours: z.number(),
+  }),
+  series: z.array(WindowBucketSchema),
+  rolling: z.object({
+    hours: z.number(),
+    start: z.string(),
+    end: z.string(),
+    relevant_headlines: z.number(),
+    sentiment: ScoresSchema.nullable(),
+  }),
+  overall: z.object({
+    articles: z.number(),
+    relevant_headlines: z.number(),
+    sentiment: ScoresSchema,
+    attention: z.number(),
+  }),
+  diagnostics: z.object({
+    token_budget: z.object({
+      status: z.enum(['allowed', 'throttled', 'blocked']),
+      estimate_tokens: z.number(),
+      requests_made: z.number(),
+      mtd_tokens: z.number(),
+      monthly_tokens: z.number(),
+      soft_cap_pct: z.number(),
+      hard_cap_pct: z.number(),
+    }),
+    sampling: z.object({
+      sources_targeted: z.number(),
+      page_cap: z.number(),
+      pages_fetched: z.number(),
+      earliest_article: z.string().nullable(),
+      truncated: z.boolean(),
+    }),
+    completeness: CompletenessSchema,
+    article_cache: ArticleCacheSchema,
+    lexicon: z.object({
+      id: z.string(),
+      version: z.string(),
+    }),
+    dedup: DedupSchema,
+  }),
+});
+
+export const analyzeWindowJsonSchema = zodToJsonSchema(AnalyzeWindowSchema, 'AnalyzeWindowResult');
@@ -0,0 +1,62 @@
+#!/usr/bin/env node
+import { estimateBackfill, runBackfill, type BackfillMode } from '../services/backfill.js';
+import { getScoreStore } from '../services/scoreStore.js';
+
+function usage(): never {
+  console.error('Usage: backfill <startDate> <endDate> [--confirm] [--mode=full|sampled] [--max-days=N]');
+  process.exit(1);
+}
+
+async function main() {
+  const positional = process.argv.slice(2).filter((a) => !a.startsWith('--'));
+  const flags = process.argv.slice(2).filter((a) => a.startsWith('--'));
+  const [startDate, endDate] = positional;
+  if (!startDate || !endDate) usage();
+
+  const confirm = flags.includes('--confirm');
+  const modeFlag = flags.find((f) => f.startsWith('--mode='))?.split('=')[1];
+  if (modeFlag && modeFlag !== 'full' && modeFlag !== 'sampled') usage();
+  const mode = modeFlag as BackfillMode | undefined;
+  const maxDaysFlag = flags.find((f) => f.startsWith('--max-days='))?.split('=')[1];
+  const maxDays = maxDaysFlag ? Number(maxDaysFlag) : undefined;
+
+  const preview = await estimateBackfill(startDate, endDate, { mode });
+  const { estimate } = preview;
+  console.log(`[BACKFILL] Job ${preview.job_id}`);
+  console.log(`[BACKFILL] Days: ${estimate.days} total, ${estimate.days_stored} stored, ${estimate.days_pending} pending`);
+  console.log(
+    `[BACKFILL] Estimated: ${estimate.estimated_tokens} tokens / ${estimate.estimated_requests} requests (MTD ${estimate.mtd_tokens} → ${estimate.projected_mtd_tokens}, hard cap ${estimate.hard_cap_tokens})`,
+  );
+  if (estimate.reason) console.log(`[BACKFILL] Note: ${estimate.reason}`);
+  if (preview.progress) {
+    console.log(
+      `[BACKFILL] Existing progress: ${preview.progress.status}, last completed ${preview.progress.last_completed_date ?? 'none'}`,
+    );
+  }
+
+  if (!confirm) {
+    console.log('[BACKFILL] Dry run only. Re-run with --confirm to execute.');
+    return;
+  }
+
+  const result = await runBackfill(startDate, endDate, {
+    mode,
+    maxDays,
+    onProgress: (progress) => {
+      console.log(`[BACKFILL] ${progress.lastCompletedDate} done (${progress.completedDays}/${progress.totalDays})`);
+    },
+  });
+  console.log(`[BACKFILL] Stopped: ${result.run?.stopped_reason}; status ${result.progress?.status}`);
+  if (result.progress?.error) console.error(`[BACKFILL] Last error: ${result.progress.error}`);
+  if (result.progress?.status === 'failed') process.exitCode = 1;
+}
+
+main()
+  .catch((e) => {
+    console.error('[BACKFILL] Uncaught error:', e?.message ?? String(e));
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    const store = await getScoreStore().catch(() => undefined);
+    await store?.close();
+  });
@@ -1,22 +1,55 @@
 import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
-import { PREFERRED_SOURCE_IDS } from '../constants/sources.js';
-import type { LeaningKey, PoliticalLeaning } from '../types.js';
+import type {
+  DailyScores,
+  HeadlineRecord,
+  LeaningKey,
+  PoliticalLeaning,
+  ScoreDimensions,
+  SpectrumBucket,
+  SpectrumLeaning,
+  SpectrumMode,
+} from '../types.js';
 import { evaluateHeadlineRelevance } from './relevance.js';
+import { matchLexicon } from './matcher.js';
+import { dedupeArticles, type DedupDiagnostics } from './dedup.js';
+import { DEFAULT_LEXICON_ID, getLexiconPack, lexiconKey, type LexiconPack } from './lexicon.js';
 import { summarizeGeneralSentiment, summarizeInvestorSentiment } from './summaries.js';
-import { NewsApiClient, FetchOptions } from './newsapi.js';
-import { scoreGeneral, scoreInvestor } from './scoring.js';
-import { sourceToLeaning } from './categorization.js';
+import {
+  NewsApiClient,
+  FetchOptions,
+  type FetchError,
+  type FetchResult,
+  type FetchStrategy,
+} from './newsapi.js';
+import { assembleScoreDimensions, scoreGeneral, scoreInvestor, sentimentComparatives } from './scoring.js';
+import { resolveSourceId, sourceToLeaning, sourceToSpectrum } from './categorization.js';
+import { spectrumBuckets } from '../constants/sources.js';
+import { activeSourceIds, lookupSource } from './sourceRegistry.js';
 import { round2 } from '../utils/normalize.js';
-import { monthRange } from '../utils/date.js';
+import {
+  addDays,
+  dayRange,
+  isClosedDay,
+  isValidTimeZone,
+  localDate,
+  monthRange,
+  periodBuckets,
+  type PeriodGranularity,
+} from '../utils/date.js';
 import {
   estimateTokensForArticleSearch,
-  checkAndRecord,
-  recordActual,
+  reserveTokens,
+  commitTokens,
+  releaseTokens,
+  getBudgetState,
   type TokenCheckResult,
+  type TokenReservation,
 } from './tokenBudget.js';
-import { shouldThrottle, recordRequest } from './budgetManager.js';
+import { reserveRequests, commitRequests, releaseRequests, type RequestReservation } from './budgetManager.js';
 import type { Article } from '../types.js';
-import { getConfig } from '../config.js';
+import { getConfig, type ArticleCacheBackend } from '../config.js';
+import { logger } from '../logger.js';
+import { getScoreStore, type ScoreGrouping, type ScoreStore, type StoredDay } from './scoreStore.js';
 
 export class AnalysisError extends Error {
   constructor(
@@ -29,13 +62,20 @@ export class AnalysisError extends Error {
   }
 }
 
+// One EventRegistry range search per bucket; keeps a day-granularity request over a long range from draining the budget
+const MAX_PERIOD_BUCKETS = 92;
+// Headlines whose matched spans are echoed in diagnostics.matches
+const MATCH_SAMPLE_SIZE = 10;
+
 export interface AnalyzeHeadlinesResult {
   date: string;
   overall_sentiment: {
     general: { score: number; synopsis: string };
     investor: { score: number; synopsis: string; key_terms: Record<string, number> };
   };
-  political_sentiments: Record<PoliticalLeaning, PoliticalSentiment>;
+  spectrum: SpectrumMode;
+  political_sentiments: Partial<Record<SpectrumBucket, PoliticalSentiment>>; // keyed by the spectrum mode's leanings
+  score_dimensions: ScoreDimensions;
   filtering_stats: {
     total_headlines: number;
     relevant_headlines: number;
@@ -44,28 +84,62 @@ export interface AnalyzeHeadlinesResult {
   headlines_analyzed: number;
   sources_analyzed: number;
   source_distribution: Record<string, number>;
-  political_distribution: Record<LeaningKey, number>;
-  sample_headlines_by_leaning: Record<PoliticalLeaning, string[]>;
+  political_distribution: Partial<Record<SpectrumBucket | 'other', number>>;
+  sample_headlines_by_leaning: Partial<Record<SpectrumBucket, string[]>>;
   diagnostics: {
     token_budget: TokenBudgetDiagnostics;
     sampling: SamplingDiagnostics;
+    completeness: CompletenessDiagnostics;
+    article_cache: ArticleCacheDiagnostics;
+    store: StoreDiagnostics;
+    baseline: BaselineDiagnostics;
+    lexicon: LexiconDiagnostics;
+    matches: MatchDiagnostics;
+    dedup: DedupDiagnostics;
   };
 }
 
+/**
+ * Sentiment fields shared by daily results and every period bucket, all computed from the same
+ * relevance-filtered, per-source-quota sample.
+ */
+export type HeadlineSnapshot = Pick<
+  AnalyzeHeadlinesResult,
+  | 'overall_sentiment'
+  | 'spectrum'
+  | 'political_sentiments'
+  | 'filtering_stats'
+  | 'headlines_analyzed'
+  | 'sources_analyzed'
+  | 'source_distribution'
+  | 'political_distribution'
+  | 'sample_headlines_by_leaning'
+>;
+
+export interface PeriodBucketResult extends HeadlineSnapshot {
+  date_range: { start: string; end: string };
+  total_headlines: number;
+  diagnostics: {
+    token_budget: TokenBudgetDiagnostics;
+    sampling: SamplingDiagnostics;
+    completeness: CompletenessDiagnostics;
+    article_cache: ArticleCacheDiagnostics;
+    lexicon: LexiconDiagnostics;
+    matches: MatchDiagnostics;
+    dedup: DedupDiagnostics;
+  };
+  error?: string;
+}
+
 export interface AnalyzeMonthlyResult {
-  months: Record<
-    string,
-    {
-      date_range: { start: string; end: string };
-      total_headlines: number;
-      political_sentiments: Record<PoliticalLeaning, PoliticalSentiment>;
-      diagnostics: {
-        token_budget: TokenBudgetDiagnostics;
-        sampling: MonthlySamplingDiagnostics;
-      };
-      error?: string;
-    }
-  >;
+  months: Record<string, PeriodBucketResult>;
+}
+
+export interface AnalyzePeriodResult {
+  granularity: PeriodGranularity;
+  time_zone: string;
+  date_range: { start: string; end: string };
+  buckets: Record<string, PeriodBucketResult>;
 }
 
 interface PoliticalSentiment {
@@ -75,7 +149,7 @@ interface PoliticalSentiment {
   sample_headlines: string[];
 }
 
-interface TokenBudgetDiagnostics {
+export interface TokenBudgetDiagnostics {
   status: TokenCheckResult['status'];
   estimate_tokens: number;
   requests_made: number;
@@ -86,6 +160,7 @@ interface TokenBudgetDiagnostics {
 }
 
 interface SamplingDiagnostics {
+  fetch_strategy: FetchStrategy;
   sources_targeted: number;
   sources_with_relevant: number;
   page_cap: number;
@@ -93,49 +168,513 @@ interface SamplingDiagnostics {
   per_source_quota: number;
 }
 
-interface MonthlySamplingDiagnostics {
-  sources_targeted: number;
-  page_cap: number;
-  pages_fetched: number;
+/**
+ * Whether every planned page was fetched. Incomplete results are returned (flagged) but never persisted.
+ */
+export interface CompletenessDiagnostics {
+  complete: boolean;
+  errors: FetchError[];
+}
+
+/**
+ * Article pages served from the page cache vs requested from EventRegistry.
+ */
+export interface ArticleCacheDiagnostics {
+  backend: ArticleCacheBackend;
+  hits: number;
+  misses: number;
+}
+
+interface StoreDiagnostics {
+  backend: string;
+  hit: boolean;
+  persisted: boolean;
+  stored_at: string | null;
+}
+
+export interface LexiconDiagnostics {
+  id: string;
+  version: string;
+}
+
+export interface MatchedSpanDiagnostics {
+  term: string;
+  text: string;
+  start: number;
+  end: number;
+  kind: 'inclusion' | 'sentiment';
+  weight: number;
+  negated: boolean;
+}
+
+/**
+ * Lexicon matches behind the scores: how many sentiment matches were negated across the sample, and the
+ * matched spans (offsets into the headline) for the first few sampled headlines.
+ */
+export interface MatchDiagnostics {
+  negated_terms: number;
+  sample: { headline: string; spans: MatchedSpanDiagnostics[] }[];
+}
+
+interface BaselineDiagnostics {
+  days_requested: number;
+  days_available: number;
+  days_refetched: number;
 }
 
+export interface DailyAnalysisOptions {
+  client?: NewsApiClient;
+  fetch?: FetchOptions;
+  maxHeadlines?: number;
+  store?: ScoreStore | null; // null disables persistence for this call
+  refresh?: boolean;
+  baselineDays?: number; // trailing days for novelty/volShock (default BASELINE_DAYS)
+  refetchBaseline?: boolean; // fetch baseline days missing from the store (default BASELINE_REFETCH)
+  lexicon?: string; // lexicon pack id (default LEXICON_PACK)
+  spectrum?: SpectrumMode; // per-leaning breakdown (default SPECTRUM_MODE)
+}
+
+/**
+ * A daily result together with the headline sample it was scored from.
+ */
+export interface DailyAnalysis {
+  result: AnalyzeHeadlinesResult;
+  headlines: HeadlineRecord[];
+}
+
+/**
+ * Analyze a single UTC day.
+ * Closed days are persisted to the score store and served from it on repeat calls (unless `refresh`),
+ * which spends no EventRegistry tokens. Custom source lists bypass the store.
+ */
 export async function analyzeDailyHeadlines(
   date: string,
-  opts: { client?: NewsApiClient; fetch?: FetchOptions; maxHeadlines?: number } = {},
+  opts: DailyAnalysisOptions = {},
 ): Promise<AnalyzeHeadlinesResult> {
-  if (shouldThrottle()) {
-    throw new AnalysisError('Rate limit exceeded. Please retry later.', ErrorCode.InvalidRequest);
-  }
+  return (await analyzeDay(date, opts, false)).result;
+}
+
+/**
+ * analyzeDailyHeadlines plus the scored headline sample (explain_headlines, top_stories).
+ * Days stored before samples were persisted are recomputed (and re-stored) once.
+ */
+export async function analyzeDailySample(date: string, opts: DailyAnalysisOptions = {}): Promise<DailyAnalysis> {
+  const analysis = await analyzeDay(date, opts, true);
+  return { result: analysis.result, headlines: analysis.headlines ?? [] };
+}
 
+async function analyzeDay(
+  date: string,
+  opts: DailyAnalysisOptions,
+  needHeadlines: boolean,
+): Promise<{ result: AnalyzeHeadlinesResult; headlines?: HeadlineRecord[] }> {
   const cfg = getConfig();
-  const sources = opts.fetch?.sources ?? Array.from(PREFERRED_SOURCE_IDS);
+  const lexicon = getLexiconPack(opts.lexicon);
+  const spectrum = opts.spectrum ?? cfg.spectrumMode;
+  const strategy = opts.fetch?.strategy ?? cfg.fetchStrategy;
+  const store = opts.store === undefined ? await loadSharedStore() : opts.store ?? undefined;
+  const reusable = Boolean(store) && isClosedDay(date) && !opts.fetch?.sources;
+  // Only the configured pack, spectrum and fetch strategy write to the store, so stored rows and baselines never
+  // mix vocabularies, stored bias intensity always measures the same spread, and samples are drawn the same way
+  const persistable =
+    reusable && lexicon.id === cfg.lexicon.pack && spectrum === cfg.spectrumMode && strategy === cfg.fetchStrategy;
   const pageCap = opts.fetch?.pageCap ?? cfg.backfill.pageCapPerDay;
 
-  const tokenEstimate = estimateTokensForArticleSearch({
-    startDate: date,
-    endDate: date,
-    pagesPlanned: pageCap,
+  if (store && reusable && !opts.refresh) {
+    const stored = await readStoredDay(store, date);
+    const usable =
+      stored &&
+      storedLexiconKey(stored.result.diagnostics.lexicon) === lexiconKey(lexicon) &&
+      (stored.result.spectrum ?? 'three') === spectrum &&
+      (stored.result.diagnostics.sampling.fetch_strategy ?? 'pooled') === strategy;
+    // A day fetched with fewer pages (e.g. a sampled backfill) is not the whole day this request asks for
+    const deepEnough = stored && (stored.result.diagnostics.sampling.page_cap ?? pageCap) >= pageCap;
+    if (usable && deepEnough && (stored.headlines || !needHeadlines)) {
+      return { result: await fromStoredDay(stored, store), headlines: stored.headlines };
+    }
+  }
+
+  const sources = opts.fetch?.sources ?? activeSourceIds();
+
+  const client = opts.client ?? new NewsApiClient();
+  const range = { start: date, end: date };
+  const fetchOpts = { ...opts.fetch, sources, pageCap, strategy };
+  let fetched = await client.fetchCachedRange(date, date, fetchOpts);
+  let tokenBudget: TokenBudgetDiagnostics;
+  if (fetched) {
+    tokenBudget = await cachedTokenDiagnostics();
+  } else {
+    const pagesPlanned = await client.uncachedPagesPlanned(date, date, fetchOpts);
+    const requests = await reserveRequests(pagesPlanned);
+    if (!requests.allowed) {
+      throw new AnalysisError('Rate limit exceeded. Please retry later.', ErrorCode.InvalidRequest, requests);
+    }
+    const tokenEstimate = estimateTokensForArticleSearch({ startDate: date, endDate: date, pagesPlanned });
+    const tokenStatus = await reserveTokens(tokenEstimate);
+    if (!tokenStatus.allowed) {
+      await releaseRequests(requests);
+      throw new AnalysisError(
+        'Token budget exhausted for requested day.',
+        ErrorCode.InvalidRequest,
+        tokenStatus,
+      );
+    }
+    fetched = await settleBudget(requests, tokenStatus, range, () => client.fetchTopHeadlinesByDate(date, fetchOpts));
+    tokenBudget = toTokenDiagnostics(tokenStatus, tokenEstimate, fetched.requestCount);
+  }
+  const { articles, requestCount, pagesFetched, complete, errors } = fetched;
+
+  const maxHeadlines = opts.maxHeadlines ?? Math.max(100, pageCap * 100);
+
+  const sample = sampleRelevantHeadlines(articles, maxHeadlines, lexicon);
+  const snapshot = summarizeSample(articles.length, sample, lexicon, spectrum);
+
+  const baselineDays = opts.baselineDays ?? cfg.baseline.days;
+  const baseline = await loadBaselines(store, date, {
+    days: baselineDays,
+    refetchMissing: persistable && (opts.refetchBaseline ?? cfg.baseline.refetchMissing),
+    client: opts.client,
+    pageCap,
+    lexicon,
   });
-  const tokenStatus = checkAndRecord(tokenEstimate);
-  if (!tokenStatus.allowed) {
+
+  const rows = buildDailyScores({
+    date,
+    sample,
+    political_sentiments: snapshot.political_sentiments,
+    spectrum,
+    baselines: baseline.byGrouping,
+    totalHeadlines: articles.length,
+    pagesFetched,
+    pageCap,
+    requestCount,
+    lexicon,
+  });
+
+  const diagnostics = {
+    token_budget: tokenBudget,
+    sampling: {
+      fetch_strategy: strategy,
+      sources_targeted: sources.length,
+      sources_with_relevant: sample.sourcesWithRelevant.length,
+      page_cap: pageCap,
+      pages_fetched: pagesFetched,
+      per_source_quota: sample.perSourceQuota,
+    },
+    completeness: { complete, errors },
+    article_cache: articleCacheDiagnostics(fetched),
+    store: {
+      backend: store?.backend ?? 'none',
+      hit: false,
+      persisted: false,
+      stored_at: null as string | null,
+    },
+    baseline: {
+      days_requested: baselineDays,
+      days_available: baseline.daysAvailable,
+      days_refetched: baseline.daysRefetched,
+    },
+    lexicon: { id: lexicon.id, version: lexicon.version },
+    matches: matchDiagnostics(sample.sampledHeadlines, lexicon),
+    dedup: sample.dedup,
+  };
+
+  const result: AnalyzeHeadlinesResult = {
+    date,
+    ...snapshot,
+    score_dimensions: rows[0].scores,
+    diagnostics,
+  };
+
+  // A truncated day would otherwise be served from the store (and feed baselines) as if it were whole
+  if (store && persistable && complete) {
+    const storedAt = new Date().toISOString();
+    diagnostics.store.persisted = await persistDay(store, {
+      date,
+      rows,
+      result,
+      headlines: sample.sampledRecords,
+      storedAt,
+    });
+    if (diagnostics.store.persisted) diagnostics.store.stored_at = storedAt;
+  }
+
+  return { result, headlines: sample.sampledRecords };
+}
+
+export async function analyzeMonthlyHeadlines(
+  startMonth: string,
+  endMonth: string,
+  opts: { client?: NewsApiClient; fetch?: FetchOptions; lexicon?: string; spectrum?: SpectrumMode } = {},
+): Promise<AnalyzeMonthlyResult> {
+  const ranges = monthRange(startMonth, endMonth);
+  if (!ranges.length) return { months: {} };
+  const { buckets } = await analyzePeriodHeadlines(ranges[0].start, ranges[ranges.length - 1].end, 'month', opts);
+  return { months: buckets };
+}
+
+/**
+ * Analyze [start, end] in calendar buckets (day, ISO week, month or quarter), one range fetch per bucket.
+ * With a non-UTC `timeZone`, bucket boundaries are local calendar days: each fetch is widened by a day on
+ * either side and articles are assigned by their local publish date.
+ */
+export async function analyzePeriodHeadlines(
+  start: string,
+  end: string,
+  granularity: PeriodGranularity,
+  opts: {
+    client?: NewsApiClient;
+    fetch?: FetchOptions;
+    timeZone?: string;
+    maxHeadlines?: number;
+    lexicon?: string;
+    spectrum?: SpectrumMode;
+  } = {},
+): Promise<AnalyzePeriodResult> {
+  const timeZone = opts.timeZone ?? 'UTC';
+  if (!isValidTimeZone(timeZone)) {
+    throw new AnalysisError(`Unknown time zone: ${timeZone}`, ErrorCode.InvalidParams);
+  }
+  const ranges = periodBuckets(start, end, granularity);
+  if (ranges.length > MAX_PERIOD_BUCKETS) {
     throw new AnalysisError(
-      'Token budget exhausted for requested day.',
-      ErrorCode.InvalidRequest,
-      tokenStatus,
+      `Requested range spans ${ranges.length} ${granularity} buckets; the limit is ${MAX_PERIOD_BUCKETS}. Use a coarser granularity.`,
+      ErrorCode.InvalidParams,
     );
   }
 
+  const cfg = getConfig();
+  const client = opts.client ?? new NewsApiClient();
+  const sources = opts.fetch?.sources ?? activeSourceIds();
+  const maxHeadlines = opts.maxHeadlines ?? Math.max(100, (opts.fetch?.pageCap ?? cfg.backfill.pageCapPerDay) * 100);
+  const lexicon = getLexiconPack(opts.lexicon);
+  const spectrum = opts.spectrum ?? cfg.spectrumMode;
+  const strategy = opts.fetch?.strategy ?? cfg.fetchStrategy;
+  const shifted = timeZone !== 'UTC';
+  const failedBucket = (
+    range: { start: string; end: string },
+    pageCap: number,
+    tokenBudget: TokenBudgetDiagnostics,
+    error: string,
+    errors: FetchError[] = [],
+  ): PeriodBucketResult => ({
+    date_range: range,
+    total_headlines: 0,
+    ...summarizeSample(0, sampleRelevantHeadlines([], maxHeadlines, lexicon), lexicon, spectrum),
+    diagnostics: {
+      token_budget: tokenBudget,
+      sampling: {
+        fetch_strategy: strategy,
+        sources_targeted: sources.length,
+        sources_with_relevant: 0,
+        page_cap: pageCap,
+        pages_fetched: 0,
+        per_source_quota: 0,
+      },
+      completeness: { complete: false, errors },
+      article_cache: articleCacheDiagnostics(),
+      lexicon: { id: lexicon.id, version: lexicon.version },
+      matches: matchDiagnostics([], lexicon),
+      dedup: dedupeArticles([]).diagnostics,
+    },
+    error,
+  });
+
+  const buckets: AnalyzePeriodResult['buckets'] = {};
+
+  for (const { key, ...range } of ranges) {
+    const fetchStart = shifted ? addDays(range.start, -1) : range.start;
+    const fetchEnd = shifted ? addDays(range.end, 1) : range.end;
+    // A date-sorted range search fills its cap from the newest articles, so the cap scales with the days fetched
+    const pageCap = opts.fetch?.pageCap ?? cfg.backfill.pageCapPerDay * dayRange(fetchStart, fetchEnd).length;
+    const fetchOpts = { ...opts.fetch, sources, pageCap, strategy };
+    let fetched = await client.fetchCachedRange(fetchStart, fetchEnd, fetchOpts);
+    let tokenBudget: TokenBudgetDiagnostics;
+    if (fetched) {
+      tokenBudget = await cachedTokenDiagnostics();
+    } else {
+      const pagesPlanned = await client.uncachedPagesPlanned(fetchStart, fetchEnd, fetchOpts);
+      const tokenEstimate = estimateTokensForArticleSearch({ startDate: fetchStart, endDate: fetchEnd, pagesPlanned });
+      const requests = await reserveRequests(pagesPlanned);
+      if (!requests.allowed) {
+        const budget = await getBudgetState();
+        buckets[key] = failedBucket(
+          range,
+          pageCap,
+          toTokenDiagnostics({ ...budget, allowed: false, status: 'throttled' }, tokenEstimate, 0),
+          'Rate limit exceeded before fetch.',
+        );
+        continue;
+      }
+
+      const tokenStatus = await reserveTokens(tokenEstimate);
+      if (!tokenStatus.allowed) {
+        await releaseRequests(requests);
+        buckets[key] = failedBucket(
+          range,
+          pageCap,
+          toTokenDiagnostics(tokenStatus, tokenEstimate, 0),
+          'Token budget exhausted before fetch.',
+        );
+        continue;
+      }
+
+      try {
+        fetched = await settleBudget(requests, tokenStatus, { start: fetchStart, end: fetchEnd }, () =>
+          client.fetchEverythingRange(fetchStart, fetchEnd, fetchOpts),
+        );
+      } catch (err: any) {
+        buckets[key] = failedBucket(
+          range,
+          pageCap,
+          toTokenDiagnostics(tokenStatus, tokenEstimate, 0),
+          err?.message ?? `Unknown error while fetching ${granularity} headlines.`,
+        );
+        continue;
+      }
+      tokenBudget = toTokenDiagnostics(tokenStatus, tokenEstimate, fetched.requestCount);
+    }
+
+    const { pagesFetched, errors } = fetched;
+    // The cap ran out before the search reached the bucket start: the bucket only covers its newest articles
+    const complete = fetched.complete && !fetched.truncated.length;
+
+    // Undated articles stay in the bucket they were fetched for
+    const articles = shifted
+      ? fetched.articles.filter((article) => {
+          if (!article.publishedAt) return true;
+          const day = localDate(article.publishedAt, timeZone);
+          return day >= range.start && day <= range.end;
+        })
+      : fetched.articles;
+
+    const sample = sampleRelevantHeadlines(articles, maxHeadlines, lexicon);
+    buckets[key] = {
+      date_range: range,
+      total_headlines: articles.length,
+      ...summarizeSample(articles.length, sample, lexicon, spectrum),
+      diagnostics: {
+        token_budget: tokenBudget,
+        sampling: {
+          fetch_strategy: strategy,
+          sources_targeted: sources.length,
+          sources_with_relevant: sample.sourcesWithRelevant.length,
+          page_cap: pageCap,
+          pages_fetched: pagesFetched,
+          per_source_quota: sample.perSourceQuota,
+        },
+        completeness: { complete, errors },
+        article_cache: articleCacheDiagnostics(fetched),
+        lexicon: { id: lexicon.id, version: lexicon.version },
+        matches: matchDiagnostics(sample.sampledHeadlines, lexicon),
+        dedup: sample.dedup,
+      },
+    };
+  }
+
+  return { granularity, time_zone: timeZone, date_range: { start, end }, buckets };
+}
+
+export interface PeriodFetch {
+  articles: Article[];
+  requestCount: number;
+  pagesFetched: number;
+  completeness: CompletenessDiagnostics;
+  truncated: (string[] | null)[]; // queries that still had pages when the page cap ran out (see FetchResult)
+  earliestPublished: string | null; // before the time window filter
+  articleCache: ArticleCacheDiagnostics;
+  sources: string[];
+  pageCap: number;
+  tokenBudget: TokenBudgetDiagnostics;
+}
+
+/**
+ * Budget-checked article search over an inclusive date range, for analyses that span more than one day.
+ * A search the article cache answers in full reserves nothing; otherwise only the uncached pages are reserved.
+ */
+export async function fetchPeriodArticles(
+  start: string,
+  end: string,
+  opts: { client?: NewsApiClient; fetch?: FetchOptions } = {},
+): Promise<PeriodFetch> {
+  const cfg = getConfig();
+  const sources = opts.fetch?.sources ?? activeSourceIds();
+  const pageCap = opts.fetch?.pageCap ?? cfg.backfill.pageCapPerDay;
+  const strategy = opts.fetch?.strategy ?? cfg.fetchStrategy;
+
   const client = opts.client ?? new NewsApiClient();
-  const { articles, requestCount, pagesFetched } = await client.fetchTopHeadlinesByDate(date, {
-    ...opts.fetch,
+  const fetchOpts = { ...opts.fetch, sources, pageCap, strategy };
+  let fetched = await client.fetchCachedRange(start, end, fetchOpts);
+  let tokenBudget: TokenBudgetDiagnostics;
+  if (fetched) {
+    tokenBudget = await cachedTokenDiagnostics();
+  } else {
+    const pagesPlanned = await client.uncachedPagesPlanned(start, end, fetchOpts);
+    const requests = await reserveRequests(pagesPlanned);
+    if (!requests.allowed) {
+      throw new AnalysisError('Rate limit exceeded. Please retry later.', ErrorCode.InvalidRequest, requests);
+    }
+
+    const tokenEstimate = estimateTokensForArticleSearch({ startDate: start, endDate: end, pagesPlanned });
+    const tokenStatus = await reserveTokens(tokenEstimate);
+    if (!tokenStatus.allowed) {
+      await releaseRequests(requests);
+      throw new AnalysisError(
+        `Token budget exhausted for ${start}..${end}.`,
+        ErrorCode.InvalidRequest,
+        tokenStatus,
+      );
+    }
+
+    fetched = await settleBudget(requests, tokenStatus, { start, end }, () =>
+      client.fetchEverythingRange(start, end, fetchOpts),
+    );
+    tokenBudget = toTokenDiagnostics(tokenStatus, tokenEstimate, fetched.requestCount);
+  }
+
+  return {
+    articles: fetched.articles,
+    requestCount: fetched.requestCount,
+    pagesFetched: fetched.pagesFetched,
+    completeness: { complete: fetched.complete, errors: fetched.errors },
+    truncated: fetched.truncated,
+    earliestPublished: fetched.earliestPublished,
+    articleCache: articleCacheDiagnostics(fetched),
     sources,
     pageCap,
-  });
-  recordRequest(requestCount);
-  recordActual(requestCount, tokenEstimate);
+    tokenBudget,
+  };
+}
 
-  const maxHeadlines = opts.maxHeadlines ?? Math.max(100, pageCap * 100);
+export interface HeadlineSample {
+  sourceDistribution: Record<string, number>;
+  politicalDistribution: Record<LeaningKey, number>;
+  spectrumDistribution: Record<SpectrumLeaning | 'other', number>;
+  relevantHeadlines: number;
+  relevantByLeaning: Record<LeaningKey, number>;
+  leaningBySource: Map<string, LeaningKey>;
+  sourcesWithRelevant: string[];
+  perSourceQuota: number; // quota of a weight-1 source
+  sampledHeadlines: string[];
+  sampledByLeaning: Record<PoliticalLeaning, string[]>;
+  sampledBySpectrum: Record<SpectrumLeaning, string[]>;
+  sampledRecords: HeadlineRecord[]; // sampledHeadlines with their source and leaning, same order
+  uniqueArticles: number; // articles left after syndication dedup
+  dedup: DedupDiagnostics;
+}
 
+/**
+ * Syndication dedup, investor-relevance filter and per-source quota sampling, shared by every analysis that scores
+ * fetched articles. Each wire story counts once (distributions included), and each source with relevant headlines
+ * gets a share of `maxHeadlines` proportional to its registry weight (equal by default) so no single outlet dominates.
+ * Headlines from sources outside the registry count toward the aggregate and the 'other' bucket only.
+ */
+export function sampleRelevantHeadlines(
+  articles: Article[],
+  maxHeadlines: number,
+  lexicon: LexiconPack = getLexiconPack(),
+): HeadlineSample {
+  const dedup = dedupeArticles(articles);
   const sourceDistribution: Record<string, number> = {};
   const politicalDistribution: Record<LeaningKey, number> = {
     left: 0,
@@ -143,20 +682,33 @@ export async function analyzeDailyHeadlines(
     right: 0,
     other: 0,
   };
+  const spectrumDistribution: Record<SpectrumLeaning | 'other', number> = {
+    progressive: 0,
+    'center-left': 0,
+    center: 0,
+    'center-right': 0,
+    conservative: 0,
+    other: 0,
+  };
 
   const relevantBySource = new Map<string, Article[]>();
-  const relevantHeadlines: string[] = [];
+  let relevantHeadlines = 0;
+  const relevantByLeaning: Record<LeaningKey, number> = { left: 0, center: 0, right: 0, other: 0 };
+  const leaningBySource = new Map<string, LeaningKey>();
 
-  for (const article of articles) {
+  for (const article of dedup.articles) {
     const sourceName = article.sourceName || 'Unknown';
     sourceDistribution[sourceName] = (sourceDistribution[sourceName] || 0) + 1;
 
     const leaning = sourceToLeaning(article.id, article.sourceName);
     politicalDistribution[leaning] = (politicalDistribution[leaning] || 0) + 1;
+    spectrumDistribution[sourceToSpectrum(article.id, article.sourceName)] += 1;
+    leaningBySource.set(sourceName, leaning);
 
-    const relevance = evaluateHeadlineRelevance(article.title);
+    const relevance = evaluateHeadlineRelevance(article.title, lexicon);
     if (relevance.relevant) {
-      relevantHeadlines.push(article.title);
+      relevantHeadlines += 1;
+      relevantByLeaning[leaning] += 1;
       const existing = relevantBySource.get(sourceName) ?? [];
       existing.push(article);
       relevantBySource.set(sourceName, existing);
@@ -164,58 +716,94 @@ export async function analyzeDailyHeadlines(
   }
 
   const sourcesWithRelevant = Array.from(relevantBySource.keys());
+  const weightOf = (sourceName: string) => {
+    const first = relevantBySource.get(sourceName)![0];
+    return lookupSource(first.id, first.sourceName)?.weight ?? 1;
+  };
+  const totalWeight = sourcesWithRelevant.reduce((sum, name) => sum + weightOf(name), 0);
   const perSourceQuota = sourcesWithRelevant.length
-    ? Math.max(1, Math.floor(maxHeadlines / sourcesWithRelevant.length))
+    ? Math.max(1, Math.floor(maxHeadlines / totalWeight))
     : maxHeadlines;
 
   const sampledHeadlines: string[] = [];
+  const sampledRecords: HeadlineRecord[] = [];
   const sampledByLeaning: Record<PoliticalLeaning, string[]> = {
     left: [],
     center: [],
     right: [],
   };
+  const sampledBySpectrum: Record<SpectrumLeaning, string[]> = {
+    progressive: [],
+    'center-left': [],
+    center: [],
+    'center-right': [],
+    conservative: [],
+  };
 
   outer: for (const sourceName of sourcesWithRelevant) {
     const articlesFromSource = relevantBySource.get(sourceName)!;
     const leaning = sourceToLeaning(articlesFromSource[0]?.id, articlesFromSource[0]?.sourceName);
+    const spectrum = sourceToSpectrum(articlesFromSource[0]?.id, articlesFromSource[0]?.sourceName);
+    const quota = Math.max(1, Math.floor((maxHeadlines * weightOf(sourceName)) / totalWeight));
     let used = 0;
     for (const article of articlesFromSource) {
       if (sampledHeadlines.length >= maxHeadlines) break outer;
-      if (used >= perSourceQuota) break;
+      if (used >= quota) break;
       sampledHeadlines.push(article.title);
-      sampledByLeaning[leaning].push(article.title);
+      if (leaning !== 'other') sampledByLeaning[leaning].push(article.title);
+      if (spectrum !== 'other') sampledBySpectrum[spectrum].push(article.title);
+      sampledRecords.push({
+        title: article.title,
+        sourceId: resolveSourceId(article.id, article.sourceName),
+        sourceName,
+        publishedDate: article.publishedAt?.slice(0, 10) ?? '',
+        leaning,
+        ...(article.url ? { url: article.url } : {}),
+      });
       used += 1;
     }
   }
 
-  const filteringStats = {
-    total_headlines: articles.length,
-    relevant_headlines: relevantHeadlines.length,
-    relevance_rate: articles.length ? round2((relevantHeadlines.length / articles.length) * 100) : 0,
+  return {
+    sourceDistribution,
+    politicalDistribution,
+    spectrumDistribution,
+    relevantHeadlines,
+    relevantByLeaning,
+    leaningBySource,
+    sourcesWithRelevant,
+    perSourceQuota,
+    sampledHeadlines,
+    sampledByLeaning,
+    sampledBySpectrum,
+    sampledRecords,
+    uniqueArticles: dedup.articles.length,
+    dedup: dedup.diagnostics,
   };
+}
 
-  const investorScoreResult = scoreInvestor(sampledHeadlines);
+/**
+ * Score a sample into the fields shared by daily results and period buckets.
+ * Per-leaning fields are keyed by the three collapsed leanings or, in five-point mode, the full spectrum.
+ */
+function summarizeSample(
+  totalHeadlines: number,
+  sample: HeadlineSample,
+  lexicon: LexiconPack,
+  spectrum: SpectrumMode,
+): HeadlineSnapshot {
+  const { sampledHeadlines } = sample;
+  const buckets = spectrumBuckets(spectrum);
+  const byBucket: Partial<Record<SpectrumBucket, string[]>> =
+    spectrum === 'five' ? sample.sampledBySpectrum : sample.sampledByLeaning;
+  const distribution: HeadlineSnapshot['political_distribution'] =
+    spectrum === 'five' ? sample.spectrumDistribution : sample.politicalDistribution;
+  const perBucket = <T>(fn: (headlines: string[]) => T): Partial<Record<SpectrumBucket, T>> =>
+    Object.fromEntries(buckets.map((bucket) => [bucket, fn(byBucket[bucket] ?? [])]));
+  const investorScoreResult = scoreInvestor(sampledHeadlines, lexicon);
   const generalScore = scoreGeneral(sampledHeadlines);
 
-  const political_sentiments: Record<PoliticalLeaning, PoliticalSentiment> = {
-    left: summarizeLeaning(sampledByLeaning.left),
-    center: summarizeLeaning(sampledByLeaning.center),
-    right: summarizeLeaning(sampledByLeaning.right),
-  };
-
-  const diagnostics = {
-    token_budget: toTokenDiagnostics(tokenStatus, tokenEstimate, requestCount),
-    sampling: {
-      sources_targeted: sources.length,
-      sources_with_relevant: sourcesWithRelevant.length,
-      page_cap: pageCap,
-      pages_fetched: pagesFetched,
-      per_source_quota: perSourceQuota,
-    },
-  };
-
   return {
-    date,
     overall_sentiment: {
       general: {
         score: generalScore,
@@ -231,125 +819,324 @@ export async function analyzeDailyHeadlines(
         key_terms: investorScoreResult.keyTerms,
       },
     },
-    political_sentiments,
-    filtering_stats: filteringStats,
+    spectrum,
+    political_sentiments: perBucket((headlines) => summarizeLeaning(headlines, lexicon)),
+    filtering_stats: {
+      total_headlines: totalHeadlines,
+      relevant_headlines: sample.relevantHeadlines,
+      // relevant stories out of unique stories, so syndicated copies do not dilute the rate
+      relevance_rate: sample.uniqueArticles ? round2((sample.relevantHeadlines / sample.uniqueArticles) * 100) : 0,
+    },
     headlines_analyzed: sampledHeadlines.length,
-    sources_analyzed: sourcesWithRelevant.length,
-    source_distribution: sourceDistribution,
-    political_distribution: politicalDistribution,
-    sample_headlines_by_leaning: {
-      left: sampledByLeaning.left.slice(0, 5),
-      center: sampledByLeaning.center.slice(0, 5),
-      right: sampledByLeaning.right.slice(0, 5),
+    sources_analyzed: sample.sourcesWithRelevant.length,
+    source_distribution: sample.sourceDistribution,
+    political_distribution: distribution,
+    sample_headlines_by_leaning: perBucket((headlines) => headlines.slice(0, 5)),
+  };
+}
+
+/**
+ * Matched spans for the first MATCH_SAMPLE_SIZE sampled headlines, plus the negated-match count for the whole sample.
+ */
+function matchDiagnostics(headlines: string[], lexicon: LexiconPack): MatchDiagnostics {
+  let negatedTerms = 0;
+  const sample: MatchDiagnostics['sample'] = [];
+  for (const headline of headlines) {
+    const matches = matchLexicon(headline, lexicon);
+    negatedTerms += matches.sentiment.filter((span) => span.negated).length;
+    if (sample.length >= MATCH_SAMPLE_SIZE) continue;
+
+    const spans: MatchedSpanDiagnostics[] = [
+      ...matches.inclusion.map((span) => ({
+        ...span,
+        kind: 'inclusion' as const,
+        weight: lexicon.relevance.inclusion[span.term] ?? 0,
+      })),
+      ...matches.sentiment.map((span) => ({
+        ...span,
+        kind: 'sentiment' as const,
+        weight: lexicon.sentiment[span.term] ?? 0,
+      })),
+    ].sort((a, b) => a.start - b.start || a.kind.localeCompare(b.kind));
+    sample.push({ headline, spans });
+  }
+  return { negated_terms: negatedTerms, sample };
+}
+
+async function loadSharedStore(): Promise<ScoreStore | undefined> {
+  try {
+    return await getScoreStore();
+  } catch (err) {
+    logger.warn({ err }, 'Score store unavailable; continuing without persistence');
+    return undefined;
+  }
+}
+
+async function readStoredDay(store: ScoreStore, date: string): Promise<StoredDay | undefined> {
+  try {
+    return await store.getDay(date);
+  } catch (err) {
+    logger.warn({ err, date }, 'Score store read failed; recomputing day');
+    return undefined;
+  }
+}
+
+async function persistDay(store: ScoreStore, day: StoredDay): Promise<boolean> {
+  try {
+    await store.putDay(day);
+    return true;
+  } catch (err) {
+    logger.warn({ err, date: day.date }, 'Score store write failed');
+    return false;
+  }
+}
+
+/**
+ * Return a stored result with diagnostics describing this call (no tokens spent) rather than the original fetch.
+ */
+async function fromStoredDay(stored: StoredDay, store: ScoreStore): Promise<AnalyzeHeadlinesResult> {
+  const budget = await getBudgetState();
+  const aggregate = stored.rows.find((row) => row.grouping === 'aggregate');
+  return {
+    ...stored.result,
+    // Results stored before spectrum modes existed were three-point
+    spectrum: stored.result.spectrum ?? 'three',
+    // Results stored before score_dimensions existed still carry the full block on their aggregate row
+    score_dimensions: stored.result.score_dimensions ?? aggregate?.scores,
+    diagnostics: {
+      ...stored.result.diagnostics,
+      baseline: stored.result.diagnostics.baseline ?? { days_requested: 0, days_available: 0, days_refetched: 0 },
+      lexicon: stored.result.diagnostics.lexicon ?? BUILTIN_LEXICON_DIAGNOSTICS,
+      matches: stored.result.diagnostics.matches ?? { negated_terms: 0, sample: [] },
+      dedup: stored.result.diagnostics.dedup ?? undedupedDiagnostics(stored.result.filtering_stats.total_headlines),
+      // Only complete days are stored
+      completeness: { complete: true, errors: [] },
+      article_cache: articleCacheDiagnostics(),
+      // Results stored before fetch strategies existed used one pooled query
+      sampling: {
+        ...stored.result.diagnostics.sampling,
+        fetch_strategy: stored.result.diagnostics.sampling.fetch_strategy ?? 'pooled',
+      },
+      token_budget: {
+        status: 'allowed',
+        estimate_tokens: 0,
+        requests_made: 0,
+        mtd_tokens: budget.mtdTokens,
+        monthly_tokens: budget.monthlyTokens,
+        soft_cap_pct: budget.softCapPct,
+        hard_cap_pct: budget.hardCapPct,
+      },
+      store: {
+        backend: store.backend,
+        hit: true,
+        persisted: true,
+        stored_at: stored.storedAt,
+      },
     },
-    diagnostics,
   };
 }
 
-export async function analyzeMonthlyHeadlines(
-  startMonth: string,
-  endMonth: string,
-  opts: { client?: NewsApiClient; fetch?: FetchOptions } = {},
-): Promise<AnalyzeMonthlyResult> {
-  const cfg = getConfig();
-  const ranges = monthRange(startMonth, endMonth);
-  const client = opts.client ?? new NewsApiClient();
-  const sources = opts.fetch?.sources ?? Array.from(PREFERRED_SOURCE_IDS);
-  const pageCap = opts.fetch?.pageCap ?? cfg.backfill.pageCapPerDay;
+// Results stored before syndication dedup scored every copy
+function undedupedDiagnostics(articles: number): DedupDiagnostics {
+  return {
+    enabled: false,
+    similarity: 0,
+    articles_in: articles,
+    clusters: articles,
+    duplicates_removed: 0,
+    syndicated_clusters: 0,
+    largest_clusters: [],
+  };
+}
 
-  const months: AnalyzeMonthlyResult['months'] = {};
+// Results stored before lexicon packs existed were scored with the built-in investor lexicon
+const BUILTIN_LEXICON_DIAGNOSTICS: LexiconDiagnostics = { id: DEFAULT_LEXICON_ID, version: '1.0.0' };
 
-  for (const range of ranges) {
-    const monthKey = range.start.slice(0, 7);
-    const tokenEstimate = estimateTokensForArticleSearch({
-      startDate: range.start,
-      endDate: range.end,
-      pagesPlanned: pageCap,
-    });
-    const tokenStatus = checkAndRecord(tokenEstimate);
+function storedLexiconKey(lexicon: LexiconDiagnostics | undefined): string {
+  return lexiconKey(lexicon ?? BUILTIN_LEXICON_DIAGNOSTICS);
+}
 
-    if (!tokenStatus.allowed) {
-      months[monthKey] = {
-        date_range: range,
-        total_headlines: 0,
-        political_sentiments: emptySentiments(),
-        diagnostics: {
-          token_budget: toTokenDiagnostics(tokenStatus, tokenEstimate, 0),
-          sampling: {
-            sources_targeted: sources.length,
-            page_cap: pageCap,
-            pages_fetched: 0,
-          },
-        },
-        error: 'Token budget exhausted before fetch.',
-      };
-      continue;
-    }
+interface Baseline {
+  keyTerms: Record<string, number>;
+  signalSeries: number[];
+}
 
-    try {
-      const { articles, requestCount, pagesFetched } = await client.fetchEverythingRange(
-        range.start,
-        range.end,
-        {
-          ...opts.fetch,
-          sources,
-          pageCap,
-        },
-      );
-      recordRequest(requestCount);
-      recordActual(requestCount, tokenEstimate);
-
-      const byLeaning: Record<PoliticalLeaning, string[]> = {
-        left: [],
-        center: [],
-        right: [],
-      };
-
-      for (const article of articles) {
-        const leaning = sourceToLeaning(article.id, article.sourceName);
-        byLeaning[leaning].push(article.title);
+/**
+ * Trailing baseline for novelty/volShock built from stored DailyScores in [date - days, date - 1].
+ * Optionally analyzes (and thereby stores) missing baseline days first; those nested runs use no baseline
+ * of their own so the recursion stays one level deep, and a budget block simply ends the refetch.
+ */
+async function loadBaselines(
+  store: ScoreStore | undefined,
+  date: string,
+  opts: { days: number; refetchMissing: boolean; client?: NewsApiClient; pageCap: number; lexicon: LexiconPack },
+): Promise<{ byGrouping: Record<ScoreGrouping, Baseline>; daysAvailable: number; daysRefetched: number }> {
+  const byGrouping: Record<ScoreGrouping, Baseline> = {
+    aggregate: { keyTerms: {}, signalSeries: [] },
+    left: { keyTerms: {}, signalSeries: [] },
+    center: { keyTerms: {}, signalSeries: [] },
+    right: { keyTerms: {}, signalSeries: [] },
+  };
+  if (!store || opts.days <= 0) return { byGrouping, daysAvailable: 0, daysRefetched: 0 };
+
+  const start = addDays(date, -opts.days);
+  const end = addDays(date, -1);
+
+  let rows = await listStoredScores(store, start, end);
+  let daysRefetched = 0;
+
+  if (opts.refetchMissing) {
+    const stored = new Set(
+      rows
+        .filter((row) => row.grouping === 'aggregate' && (row.meta.pageCap ?? opts.pageCap) >= opts.pageCap)
+        .map((row) => row.date),
+    );
+    for (const day of dayRange(start, end)) {
+      if (stored.has(day)) continue;
+      try {
+        await analyzeDailyHeadlines(day, {
+          client: opts.client,
+          store,
+          fetch: { pageCap: opts.pageCap },
+          baselineDays: 0,
+          lexicon: opts.lexicon.id,
+        });
+        daysRefetched += 1;
+      } catch (err) {
+        logger.warn({ err, day }, 'Baseline refetch stopped');
+        break;
       }
+    }
+    if (daysRefetched) rows = await listStoredScores(store, start, end);
+  }
 
-      months[monthKey] = {
-        date_range: range,
-        total_headlines: articles.length,
-        political_sentiments: {
-          left: summarizeLeaning(byLeaning.left),
-          center: summarizeLeaning(byLeaning.center),
-          right: summarizeLeaning(byLeaning.right),
-        },
-        diagnostics: {
-          token_budget: toTokenDiagnostics(tokenStatus, tokenEstimate, requestCount),
-          sampling: {
-            sources_targeted: sources.length,
-            page_cap: pageCap,
-            pages_fetched: pagesFetched,
-          },
-        },
-      };
-    } catch (err: any) {
-      months[monthKey] = {
-        date_range: range,
-        total_headlines: 0,
-        political_sentiments: emptySentiments(),
-        diagnostics: {
-          token_budget: toTokenDiagnostics(tokenStatus, tokenEstimate, 0),
-          sampling: {
-            sources_targeted: sources.length,
-            page_cap: pageCap,
-            pages_fetched: 0,
-          },
-        },
-        error: err?.message ?? 'Unknown error while fetching monthly headlines.',
-      };
+  const key = lexiconKey(opts.lexicon);
+  const days = new Set<string>();
+  for (const row of rows) {
+    const target = byGrouping[row.grouping];
+    if (!target || (row.meta.lexicon ?? lexiconKey(BUILTIN_LEXICON_DIAGNOSTICS)) !== key) continue;
+    // shallower days (sampled backfills) would skew the baseline toward each day's last hours
+    if ((row.meta.pageCap ?? opts.pageCap) < opts.pageCap) continue;
+    if (row.grouping === 'aggregate') days.add(row.date);
+    for (const [term, count] of Object.entries(row.keyTerms)) {
+      target.keyTerms[term] = (target.keyTerms[term] || 0) + count;
     }
+    if (row.sentimentSeries) target.signalSeries.push(...row.sentimentSeries);
   }
 
-  return { months };
+  return { byGrouping, daysAvailable: days.size, daysRefetched };
 }
 
-function summarizeLeaning(headlines: string[]): PoliticalSentiment {
-  const { score: investorScore } = scoreInvestor(headlines);
+async function listStoredScores(store: ScoreStore, start: string, end: string): Promise<DailyScores[]> {
+  try {
+    return await store.listScores(start, end);
+  } catch (err) {
+    logger.warn({ err, start, end }, 'Score store baseline read failed');
+    return [];
+  }
+}
+
+/**
+ * Shape one day's analysis into DailyScores rows: the aggregate plus one per political leaning.
+ */
+function buildDailyScores(input: {
+  date: string;
+  sample: HeadlineSample;
+  political_sentiments: HeadlineSnapshot['political_sentiments'];
+  spectrum: SpectrumMode;
+  baselines: Record<ScoreGrouping, Baseline>;
+  totalHeadlines: number;
+  pagesFetched: number;
+  pageCap: number;
+  requestCount: number;
+  lexicon: LexiconPack;
+}): DailyScores[] {
+  // Bias intensity spans whichever spectrum the day was reported in; the per-leaning rows stay three-point.
+  // Leanings without headlines are left out, so their neutral placeholder score does not read as agreement.
+  const byLeaningForBias: Partial<Record<SpectrumBucket, number>> = Object.fromEntries(
+    Object.entries(input.political_sentiments)
+      .filter(([, sentiment]) => sentiment.headlines > 0)
+      .map(([bucket, sentiment]) => [bucket, sentiment.investor]),
+  );
+  const meta: DailyScores['meta'] = {
+    method: 'sourcesOnly',
+    pageCount: input.pagesFetched,
+    apiCalls: input.requestCount,
+    lexicon: lexiconKey(input.lexicon),
+    pageCap: input.pageCap,
+  };
+
+  const toRow = (
+    grouping: DailyScores['grouping'],
+    headlines: string[],
+    counts: DailyScores['counts'],
+    distributions: DailyScores['distributions'],
+  ): DailyScores => {
+    const { keyTerms } = scoreInvestor(headlines, input.lexicon);
+    const sentimentSeries = sentimentComparatives(headlines);
+    const baseline = input.baselines[grouping];
+    return {
+      date: input.date,
+      grouping,
+      counts,
+      distributions,
+      keyTerms,
+      sampleHeadlines: headlines.slice(0, 5),
+      sentimentSeries,
+      scores: assembleScoreDimensions({
+        headlines,
+        byLeaningForBias,
+        spectrum: input.spectrum,
+        keyTerms,
+        baselineKeyTerms: baseline.keyTerms,
+        todaySignalSeries: sentimentSeries,
+        baselineSignalSeries: baseline.signalSeries,
+        lexicon: input.lexicon,
+      }),
+      meta,
+    };
+  };
+
+  const rows: DailyScores[] = [
+    toRow(
+      'aggregate',
+      input.sample.sampledHeadlines,
+      {
+        totalHeadlines: input.totalHeadlines,
+        relevantHeadlines: input.sample.relevantHeadlines,
+        sources: input.sample.sourcesWithRelevant.length,
+      },
+      { bySource: input.sample.sourceDistribution, byLeaning: input.sample.politicalDistribution },
+    ),
+  ];
+
+  for (const leaning of ['left', 'center', 'right'] as const) {
+    const bySource: Record<string, number> = {};
+    for (const [sourceName, count] of Object.entries(input.sample.sourceDistribution)) {
+      if (input.sample.leaningBySource.get(sourceName) === leaning) bySource[sourceName] = count;
+    }
+    const byLeaning: Record<LeaningKey, number> = { left: 0, center: 0, right: 0, other: 0 };
+    byLeaning[leaning] = input.sample.politicalDistribution[leaning];
+
+    rows.push(
+      toRow(
+        leaning,
+        input.sample.sampledByLeaning[leaning],
+        {
+          totalHeadlines: input.sample.politicalDistribution[leaning],
+          relevantHeadlines: input.sample.relevantByLeaning[leaning],
+          sources: input.sample.sourcesWithRelevant.filter((name) => input.sample.leaningBySource.get(name) === leaning).length,
+        },
+        { bySource, byLeaning },
+      ),
+    );
+  }
+
+  return rows;
+}
+
+function summarizeLeaning(headlines: string[], lexicon: LexiconPack): PoliticalSentiment {
+  const { score: investorScore } = scoreInvestor(headlines, lexicon);
   const generalScore = scoreGeneral(headlines);
   return {
     general: generalScore,
@@ -359,11 +1146,65 @@ function summarizeLeaning(headlines: string[]): PoliticalSentiment {
   };
 }
 
-function emptySentiments(): Record<PoliticalLeaning, PoliticalSentiment> {
+/**
+ * Run a fetch against held budget: commit what it actually used, or release the hold if it failed before spending.
+ * Tokens are booked as EventRegistry reported them; when a response did not say, the pages actually fetched are
+ * priced like the estimate.
+ */
+async function settleBudget<T extends FetchResult>(
+  requests: RequestReservation,
+  tokens: TokenReservation,
+  range: { start: string; end: string },
+  fetch: () => Promise<T>,
+): Promise<T> {
+  let fetched: T;
+  try {
+    fetched = await fetch();
+  } catch (err) {
+    await releaseRequests(requests);
+    await releaseTokens(tokens);
+    throw err;
+  }
+  // Failed attempts are counted as requests but only pages that came back from EventRegistry are priced;
+  // pages served from the article cache cost nothing
+  const tokensUsed =
+    fetched.tokensUsed ??
+    estimateTokensForArticleSearch({
+      startDate: range.start,
+      endDate: range.end,
+      pagesPlanned: fetched.pagesFetched - fetched.cache.hits,
+    });
+  logger.debug(
+    {
+      range,
+      reserved: tokens.reserved,
+      tokensUsed,
+      reported: fetched.tokensUsed !== undefined,
+      quotaRemaining: fetched.quotaRemaining,
+    },
+    'EventRegistry usage',
+  );
+  await commitRequests(requests, fetched.requestCount, {
+    articlesFetched: fetched.articles.length,
+    quotaRemaining: fetched.quotaRemaining,
+  });
+  await commitTokens(tokens, tokensUsed);
+  return fetched;
+}
+
+/**
+ * Budget diagnostics for a fetch served entirely from the article cache: nothing was reserved or spent.
+ */
+async function cachedTokenDiagnostics(): Promise<TokenBudgetDiagnostics> {
+  const budget = await getBudgetState();
+  return toTokenDiagnostics({ ...budget, allowed: true, status: 'allowed' }, 0, 0);
+}
+
+function articleCacheDiagnostics(fetched?: FetchResult): ArticleCacheDiagnostics {
   return {
-    left: summarizeLeaning([]),
-    center: summarizeLeaning([]),
-    right: summarizeLeaning([]),
+    backend: getConfig().articleCache.backend,
+    hits: fetched?.cache.hits ?? 0,
+    misses: fetched?.cache.misses ?? 0,
   };
 }
 
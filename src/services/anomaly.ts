@@ -0,0 +1,174 @@
+import { getConfig } from '../config.js';
+import type { Anomaly, DailyScores, ScoreDimensions } from '../types.js';
+import { addDays, dayRange } from '../utils/date.js';
+import { round2 } from '../utils/normalize.js';
+import { DEFAULT_LEXICON_ID, getLexiconPack, hasLexiconPack, type LexiconPack } from './lexicon.js';
+import { getScoreStore, SCORE_GROUPINGS, type ScoreGrouping, type ScoreStore } from './scoreStore.js';
+import { scoreAttention, scoreInvestor, sentimentComparatives } from './scoring.js';
+
+/**
+ * Anomaly detection over stored DailyScores.
+ * Each day in the requested window is compared with the trailing `windowDays` of history for the same
+ * grouping and metric; days whose |z| reaches the threshold are reported as Anomaly records.
+ */
+
+export const SCORE_METRICS: readonly (keyof ScoreDimensions)[] = [
+  'attention',
+  'investorSentiment',
+  'generalSentiment',
+  'biasIntensity',
+  'novelty',
+  'volShock',
+];
+
+export interface AnomalyFinding extends Anomaly {
+  baselineMean: number;
+  baselineStd: number;
+  sampleHeadlines: string[];
+}
+
+export interface DetectAnomaliesResult {
+  date_range: { start: string; end: string };
+  threshold: number;
+  window_days: number;
+  min_history: number;
+  days_evaluated: number;
+  days_missing: string[];
+  anomalies: AnomalyFinding[];
+}
+
+export interface DetectAnomaliesOptions {
+  threshold?: number;
+  windowDays?: number;
+  minHistory?: number; // minimum history days before a z-score is trusted (default 7)
+  metrics?: (keyof ScoreDimensions)[];
+  groupings?: ScoreGrouping[];
+  store?: ScoreStore;
+}
+
+const DEFAULT_MIN_HISTORY = 7;
+const MIN_STD = 1e-6;
+
+export async function detectAnomalies(
+  start: string,
+  end: string,
+  opts: DetectAnomaliesOptions = {},
+): Promise<DetectAnomaliesResult> {
+  const cfg = getConfig();
+  const threshold = opts.threshold ?? cfg.anomaly.zThreshold;
+  const windowDays = Math.max(1, opts.windowDays ?? cfg.anomaly.windowDays);
+  const minHistory = Math.max(2, Math.min(opts.minHistory ?? DEFAULT_MIN_HISTORY, windowDays));
+  const metrics = opts.metrics?.length ? opts.metrics : SCORE_METRICS;
+  const groupings = opts.groupings?.length ? opts.groupings : SCORE_GROUPINGS;
+
+  const store = opts.store ?? (await getScoreStore());
+  const rows = store ? await store.listScores(addDays(start, -windowDays), end) : [];
+
+  // grouping -> date -> row
+  const byGrouping = new Map<ScoreGrouping, Map<string, DailyScores>>();
+  for (const row of rows) {
+    const series = byGrouping.get(row.grouping) ?? new Map<string, DailyScores>();
+    series.set(row.date, row);
+    byGrouping.set(row.grouping, series);
+  }
+
+  const days = dayRange(start, end);
+  const aggregateSeries = byGrouping.get('aggregate');
+  const daysMissing = days.filter((day) => !aggregateSeries?.has(day));
+  const anomalies: AnomalyFinding[] = [];
+
+  for (const grouping of groupings) {
+    const series = byGrouping.get(grouping);
+    if (!series) continue;
+
+    for (const day of days) {
+      const row = series.get(day);
+      if (!row) continue;
+
+      const history = dayRange(addDays(day, -windowDays), addDays(day, -1))
+        .map((d) => series.get(d))
+        .filter((r): r is DailyScores => Boolean(r));
+      if (history.length < minHistory) continue;
+
+      for (const metric of metrics) {
+        const values = history.map((r) => r.scores[metric]);
+        const { mean, std } = meanAndStd(values);
+        if (std < MIN_STD) continue;
+
+        const value = row.scores[metric];
+        const zScore = (value - mean) / std;
+        if (Math.abs(zScore) < threshold) continue;
+
+        const direction = zScore > 0 ? 'positive' : 'negative';
+        anomalies.push({
+          date: day,
+          grouping,
+          metric,
+          value,
+          zScore: round2(zScore),
+          threshold,
+          direction,
+          baselineMean: round2(mean),
+          baselineStd: round2(std),
+          sampleHeadlines: rankDrivers(row, metric, direction),
+        });
+      }
+    }
+  }
+
+  anomalies.sort((a, b) => a.date.localeCompare(b.date) || Math.abs(b.zScore) - Math.abs(a.zScore));
+
+  return {
+    date_range: { start, end },
+    threshold,
+    window_days: windowDays,
+    min_history: minHistory,
+    days_evaluated: days.length - daysMissing.length,
+    days_missing: daysMissing,
+    anomalies,
+  };
+}
+
+function meanAndStd(values: number[]): { mean: number; std: number } {
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  // sample standard deviation; history is a sample of the metric's normal behaviour
+  const variance = values.reduce((a, b) => a + (b - mean) * (b - mean), 0) / Math.max(1, values.length - 1);
+  return { mean, std: Math.sqrt(variance) };
+}
+
+/**
+ * Order a day's sample headlines so the ones pushing the metric in the spike's direction come first.
+ * Metrics without a per-headline signal keep their stored order.
+ */
+function rankDrivers(row: DailyScores, metric: keyof ScoreDimensions, direction: Anomaly['direction']): string[] {
+  const signal = perHeadlineSignal(metric, rowLexicon(row));
+  if (!signal) return row.sampleHeadlines.slice();
+  const scored = row.sampleHeadlines.map((headline) => ({ headline, value: signal(headline) }));
+  scored.sort((a, b) => (direction === 'positive' ? b.value - a.value : a.value - b.value));
+  return scored.map((s) => s.headline);
+}
+
+/**
+ * The pack a stored row was scored with (`meta.lexicon` is "id@version"; rows stored before packs existed used the
+ * built-in one). A pack that is no longer installed falls back to the built-in lexicon.
+ */
+function rowLexicon(row: DailyScores): LexiconPack {
+  const id = row.meta.lexicon?.split('@')[0] ?? DEFAULT_LEXICON_ID;
+  return getLexiconPack(hasLexiconPack(id) ? id : DEFAULT_LEXICON_ID);
+}
+
+function perHeadlineSignal(metric: keyof ScoreDimensions, lexicon: LexiconPack): ((headline: string) => number) | undefined {
+  switch (metric) {
+    case 'investorSentiment':
+      return (h) => scoreInvestor([h], lexicon).score;
+    case 'generalSentiment':
+      return (h) => sentimentComparatives([h])[0];
+    case 'attention':
+      return (h) => scoreAttention([h]);
+    case 'volShock':
+      // extreme headlines (either sign) drive variance
+      return (h) => Math.abs(sentimentComparatives([h])[0]);
+    default:
+      return undefined;
+  }
+}
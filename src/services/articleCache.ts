@@ -0,0 +1,255 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { getConfig, type ArticleCacheBackend } from '../config.js';
+import { logger } from '../logger.js';
+import type { Article } from '../types.js';
+import { fixtureKey } from './eventRegistryHttp.js';
+
+/**
+ * Content-addressed cache of EventRegistry article pages, keyed by the normalized search body.
+ * An in-process LRU sits in front of a shared file or Redis tier. Pages of ranges that ended more than
+ * ARTICLE_CACHE_SETTLE_HOURS ago are kept for good; EventRegistry still adds late-indexed articles to a day after it
+ * closes, so newer pages expire after ARTICLE_CACHE_OPEN_TTL_SECONDS.
+ */
+
+export interface CachedPage {
+  articles: Article[];
+  last: boolean; // no further page exists for the query
+}
+
+export interface ArticleCache {
+  readonly backend: Exclude<ArticleCacheBackend, 'none'>;
+  get(key: string): Promise<CachedPage | undefined>;
+  /** Store a page; without `ttlSeconds` it never expires. */
+  set(key: string, page: CachedPage, ttlSeconds?: number): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface CacheEntry {
+  page: CachedPage;
+  expiresAt: number | null; // epoch ms
+}
+
+/**
+ * Shared tier (file or Redis) behind the memory LRU; entries carry their expiry so a hit can be copied into the LRU
+ * with its remaining lifetime.
+ */
+export interface SharedArticleCache extends ArticleCache {
+  entry(key: string): Promise<CacheEntry | undefined>;
+  put(key: string, entry: CacheEntry): Promise<void>;
+}
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const PROJECT_ROOT = path.resolve(__dirname, '..', '..');
+const DEFAULT_CACHE_DIR = path.join(PROJECT_ROOT, 'data', 'article-cache');
+
+/**
+ * Cache key for an article search: the body with its source URIs sorted, so the same sources in a different order
+ * share an entry. The API key travels in the query string and never reaches the key.
+ */
+export function articleCacheKey(reqPath: string, body: Record<string, unknown>): string {
+  const sourceUri = Array.isArray(body.sourceUri) ? [...body.sourceUri].sort() : body.sourceUri;
+  return fixtureKey({ method: 'POST', path: reqPath, params: {}, body: { ...body, sourceUri } });
+}
+
+/**
+ * Lifetime for pages of a range ending on `endDate`: undefined (forever) once the UTC day has been closed for
+ * the settle period, the short open TTL until then.
+ */
+export function articleCacheTtl(endDate: string, now = new Date()): number | undefined {
+  const { openTtlSeconds, settleHours } = getConfig().articleCache;
+  const settledAt = Date.parse(`${endDate}T00:00:00Z`) + (24 + settleHours) * 3_600_000;
+  return now.getTime() >= settledAt ? undefined : openTtlSeconds;
+}
+
+export function expiry(ttlSeconds?: number): number | null {
+  return ttlSeconds === undefined ? null : Date.now() + ttlSeconds * 1000;
+}
+
+function live(entry: CacheEntry | undefined): entry is CacheEntry {
+  return !!entry && (entry.expiresAt === null || entry.expiresAt > Date.now());
+}
+
+/**
+ * Process-local LRU, bounded by entry count. Used alone (ARTICLE_CACHE=memory) and in front of the shared tiers.
+ */
+export class MemoryArticleCache implements ArticleCache {
+  readonly backend = 'memory' as const;
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries = getConfig().articleCache.memoryEntries) {}
+
+  async get(key: string): Promise<CachedPage | undefined> {
+    return this.entry(key)?.page;
+  }
+
+  async set(key: string, page: CachedPage, ttlSeconds?: number): Promise<void> {
+    this.put(key, { page, expiresAt: expiry(ttlSeconds) });
+  }
+
+  async close(): Promise<void> {
+    this.entries.clear();
+  }
+
+  /** Live entry with its expiry, refreshed as most recently used. */
+  entry(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (!live(entry)) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  put(key: string, entry: CacheEntry): void {
+    if (this.maxEntries <= 0) return;
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    // Map iteration order is insertion order, so the first key is the least recently used
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+}
+
+/**
+ * One JSON file per page under ARTICLE_CACHE_DIR, shared by every process on the host.
+ * Writes go through a temp file and rename, so readers never see a partial page.
+ */
+export class FileArticleCache implements SharedArticleCache {
+  readonly backend = 'file' as const;
+
+  constructor(private readonly dir = DEFAULT_CACHE_DIR) {}
+
+  async get(key: string): Promise<CachedPage | undefined> {
+    return (await this.entry(key))?.page;
+  }
+
+  async set(key: string, page: CachedPage, ttlSeconds?: number): Promise<void> {
+    await this.put(key, { page, expiresAt: expiry(ttlSeconds) });
+  }
+
+  async close(): Promise<void> {}
+
+  async entry(key: string): Promise<CacheEntry | undefined> {
+    const filePath = this.pathFor(key);
+    let entry: CacheEntry | undefined;
+    try {
+      entry = JSON.parse(await fs.readFile(filePath, 'utf-8')) as CacheEntry;
+    } catch {
+      return undefined;
+    }
+    if (live(entry)) return entry;
+    await fs.rm(filePath, { force: true });
+    return undefined;
+  }
+
+  async put(key: string, entry: CacheEntry): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const filePath = this.pathFor(key);
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(entry), 'utf-8');
+    await fs.rename(tmpPath, filePath);
+  }
+
+  private pathFor(key: string): string {
+    return path.join(this.dir, `${key}.json`);
+  }
+}
+
+/**
+ * Memory LRU in front of a shared tier. Shared-tier failures are logged and treated as misses, so a broken cache
+ * never fails a fetch.
+ */
+export class TieredArticleCache implements ArticleCache {
+  constructor(
+    private readonly memory: MemoryArticleCache,
+    private readonly shared: SharedArticleCache,
+  ) {}
+
+  get backend() {
+    return this.shared.backend;
+  }
+
+  async get(key: string): Promise<CachedPage | undefined> {
+    const local = this.memory.entry(key);
+    if (local) return local.page;
+    try {
+      const entry = await this.shared.entry(key);
+      if (!entry) return undefined;
+      this.memory.put(key, entry);
+      return entry.page;
+    } catch (err) {
+      logger.warn({ err, backend: this.backend }, 'Article cache read failed');
+      return undefined;
+    }
+  }
+
+  async set(key: string, page: CachedPage, ttlSeconds?: number): Promise<void> {
+    const entry = { page, expiresAt: expiry(ttlSeconds) };
+    this.memory.put(key, entry);
+    try {
+      await this.shared.put(key, entry);
+    } catch (err) {
+      logger.warn({ err, backend: this.backend }, 'Article cache write failed');
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.memory.close();
+    await this.shared.close();
+  }
+}
+
+let sharedCache: Promise<ArticleCache | undefined> | undefined;
+
+/**
+ * Cache selected by ARTICLE_CACHE (see config.ts); undefined when caching is off.
+ * The Redis tier is imported lazily so file/memory deployments never load the client.
+ */
+export function getArticleCache(): Promise<ArticleCache | undefined> {
+  if (!sharedCache) {
+    sharedCache = createArticleCache().catch((err) => {
+      // Allow a later call to retry (e.g. Redis not reachable yet)
+      sharedCache = undefined;
+      throw err;
+    });
+  }
+  return sharedCache;
+}
+
+/**
+ * Drop the shared cache so the next call re-reads ARTICLE_CACHE (tests switch backends between cases).
+ */
+export async function resetArticleCache(): Promise<void> {
+  const cache = sharedCache;
+  sharedCache = undefined;
+  await cache?.then((c) => c?.close()).catch(() => undefined);
+}
+
+async function createArticleCache(): Promise<ArticleCache | undefined> {
+  const cfg = getConfig().articleCache;
+  const memory = new MemoryArticleCache(cfg.memoryEntries);
+  switch (cfg.backend) {
+    case 'none':
+      return undefined;
+    case 'memory':
+      return memory;
+    case 'redis': {
+      const redisUrl = getConfig().redisUrl;
+      if (!redisUrl) {
+        throw new Error('ARTICLE_CACHE=redis requires REDIS_URL');
+      }
+      const { RedisArticleCache } = await import('./redisArticleCache.js');
+      const shared = new RedisArticleCache(redisUrl);
+      await shared.init();
+      return new TieredArticleCache(memory, shared);
+    }
+    case 'file':
+    default:
+      return new TieredArticleCache(memory, new FileArticleCache(cfg.dir ? path.resolve(cfg.dir) : DEFAULT_CACHE_DIR));
+  }
+}
@@ -0,0 +1,355 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { getConfig } from '../config.js';
+import { logger } from '../logger.js';
+import { addDays, dayRange, isClosedDay } from '../utils/date.js';
+import { withFileLock, writeFileAtomic } from '../utils/fileLock.js';
+import { AnalysisError, analyzeDailyHeadlines } from './analysis.js';
+import { estimateBackfillCost, shouldThrottle } from './budgetManager.js';
+import { searchRequestsPlanned, type NewsApiClient } from './newsapi.js';
+import { getScoreStore, type ScoreStore } from './scoreStore.js';
+import { activeSourceIds } from './sourceRegistry.js';
+import { estimateTokensForArticleSearch, getBudgetState } from './tokenBudget.js';
+
+/**
+ * Historical backfill: walk a date range day by day, persisting each day to the score store.
+ * Progress is checkpointed to data/backfill-progress.json (override with BACKFILL_PROGRESS_PATH)
+ * so an interrupted or budget-blocked job resumes from the day after the last one completed.
+ */
+
+export type BackfillMode = 'full' | 'sampled';
+
+export type BackfillStatus = 'running' | 'blocked' | 'failed' | 'completed';
+
+export interface BackfillProgress {
+  id: string;
+  start: string;
+  end: string;
+  mode: BackfillMode;
+  status: BackfillStatus;
+  lastCompletedDate: string | null;
+  completedDays: number;
+  totalDays: number;
+  updatedAt: string;
+  error?: string;
+}
+
+export interface BackfillEstimate {
+  days: number;
+  days_stored: number;
+  days_pending: number;
+  pages_per_day: number;
+  estimated_requests: number;
+  estimated_tokens: number;
+  feasible: boolean;
+  reason?: string;
+  mtd_tokens: number;
+  monthly_tokens: number;
+  projected_mtd_tokens: number;
+  hard_cap_tokens: number;
+}
+
+export interface BackfillResult {
+  job_id: string;
+  mode: BackfillMode;
+  date_range: { start: string; end: string };
+  dry_run: boolean;
+  estimate: BackfillEstimate;
+  progress: {
+    status: BackfillStatus;
+    last_completed_date: string | null;
+    completed_days: number;
+    total_days: number;
+    updated_at: string;
+    error?: string;
+  } | null;
+  run?: {
+    days_processed: number;
+    days_fetched: number;
+    days_from_store: number;
+    stopped_reason: 'completed' | 'max_days' | 'budget' | 'error';
+  };
+}
+
+export interface BackfillOptions {
+  mode?: BackfillMode;
+  maxDays?: number; // cap days processed in this invocation (resume later)
+  client?: NewsApiClient;
+  store?: ScoreStore;
+  onProgress?: (progress: BackfillProgress) => void | Promise<void>;
+}
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const PROJECT_ROOT = path.resolve(__dirname, '..', '..');
+const DEFAULT_PROGRESS_PATH = path.join(PROJECT_ROOT, 'data', 'backfill-progress.json');
+
+// Longest we wait for the per-second window to clear before treating a throttle as a block
+const THROTTLE_WAIT_MS = 5000;
+
+export function backfillJobId(start: string, end: string, mode: BackfillMode): string {
+  return `${start}_${end}_${mode}`;
+}
+
+export function pagesPerDayForMode(mode: BackfillMode): number {
+  return mode === 'sampled' ? 1 : getConfig().backfill.pageCapPerDay;
+}
+
+/**
+ * Dry-run cost preview. Days already in the store are free and excluded from the estimate.
+ */
+export async function estimateBackfill(
+  start: string,
+  end: string,
+  opts: Pick<BackfillOptions, 'mode' | 'store'> = {},
+): Promise<BackfillResult> {
+  assertBackfillRange(start, end);
+  const mode = opts.mode ?? getConfig().backfill.mode;
+  const store = opts.store ?? (await requireStore());
+  const estimate = await buildEstimate(start, end, mode, store);
+  const progress = await loadProgress(backfillJobId(start, end, mode));
+
+  return {
+    job_id: backfillJobId(start, end, mode),
+    mode,
+    date_range: { start, end },
+    dry_run: true,
+    estimate,
+    progress: progress ? toProgressOutput(progress) : null,
+  };
+}
+
+/**
+ * Execute (or resume) a backfill. Stops early on budget/rate-limit blocks and records where it stopped.
+ */
+export async function runBackfill(start: string, end: string, opts: BackfillOptions = {}): Promise<BackfillResult> {
+  assertBackfillRange(start, end);
+  if (opts.maxDays != null && !(Number.isInteger(opts.maxDays) && opts.maxDays > 0)) {
+    throw new AnalysisError('Backfill maxDays must be a positive integer.', ErrorCode.InvalidParams);
+  }
+  const mode = opts.mode ?? getConfig().backfill.mode;
+  const store = opts.store ?? (await requireStore());
+  const pageCap = pagesPerDayForMode(mode);
+  const id = backfillJobId(start, end, mode);
+  const estimate = await buildEstimate(start, end, mode, store);
+
+  const allDays = dayRange(start, end);
+  const existing = await loadProgress(id);
+  const progress: BackfillProgress = existing ?? {
+    id,
+    start,
+    end,
+    mode,
+    status: 'running',
+    lastCompletedDate: null,
+    completedDays: 0,
+    totalDays: allDays.length,
+    updatedAt: new Date().toISOString(),
+  };
+
+  const resumeFrom = progress.lastCompletedDate ? addDays(progress.lastCompletedDate, 1) : start;
+  const pendingDays = dayRange(resumeFrom, end);
+  const maxDays = opts.maxDays ?? pendingDays.length;
+
+  let daysFetched = 0;
+  let daysFromStore = 0;
+  let stoppedReason: NonNullable<BackfillResult['run']>['stopped_reason'] = 'completed';
+
+  progress.status = 'running';
+  delete progress.error;
+
+  for (const [index, day] of pendingDays.entries()) {
+    if (index >= maxDays) {
+      stoppedReason = 'max_days';
+      break;
+    }
+
+    await waitForRateWindow();
+
+    try {
+      const result = await analyzeDailyHeadlines(day, {
+        client: opts.client,
+        store,
+        fetch: { pageCap },
+      });
+      if (result.diagnostics.store.hit) {
+        daysFromStore += 1;
+      } else {
+        daysFetched += 1;
+      }
+      // Pages still failing after retries: stop before the checkpoint so a resumed run refetches the day
+      if (!result.diagnostics.completeness.complete) {
+        const failed = result.diagnostics.completeness.errors.map((e) => (e.page ? `page ${e.page}: ${e.message}` : e.message));
+        stoppedReason = 'error';
+        progress.status = 'failed';
+        progress.error = `${day}: incomplete fetch (${failed.join('; ')})`;
+        logger.warn({ day, jobId: id, errors: result.diagnostics.completeness.errors }, 'Backfill stopped');
+        break;
+      }
+      // The score store write failed: checkpointing would skip the day for good
+      if (!result.diagnostics.store.hit && !result.diagnostics.store.persisted) {
+        stoppedReason = 'error';
+        progress.status = 'failed';
+        progress.error = `${day}: score store write failed`;
+        logger.warn({ day, jobId: id, backend: result.diagnostics.store.backend }, 'Backfill stopped');
+        break;
+      }
+    } catch (err: any) {
+      const blocked = err instanceof AnalysisError;
+      stoppedReason = blocked ? 'budget' : 'error';
+      progress.status = blocked ? 'blocked' : 'failed';
+      progress.error = `${day}: ${err?.message ?? String(err)}`;
+      logger.warn({ err, day, jobId: id }, 'Backfill stopped');
+      break;
+    }
+
+    progress.lastCompletedDate = day;
+    progress.completedDays += 1;
+    progress.updatedAt = new Date().toISOString();
+    await saveProgress(progress);
+    await opts.onProgress?.(progress);
+  }
+
+  if (stoppedReason === 'completed') {
+    progress.status = 'completed';
+  } else if (stoppedReason === 'max_days') {
+    // Paused rather than failed; the next invocation continues from lastCompletedDate
+    progress.status = 'running';
+  }
+  progress.updatedAt = new Date().toISOString();
+  await saveProgress(progress);
+
+  return {
+    job_id: id,
+    mode,
+    date_range: { start, end },
+    dry_run: false,
+    estimate,
+    progress: toProgressOutput(progress),
+    run: {
+      days_processed: daysFetched + daysFromStore,
+      days_fetched: daysFetched,
+      days_from_store: daysFromStore,
+      stopped_reason: stoppedReason,
+    },
+  };
+}
+
+function assertBackfillRange(start: string, end: string) {
+  const dayPattern = /^\d{4}-(?:0[1-9]|1[0-2])-(?:0[1-9]|[12]\d|3[01])$/;
+  if (!dayPattern.test(start) || !dayPattern.test(end)) {
+    throw new AnalysisError('Backfill dates must be provided in YYYY-MM-DD format.', ErrorCode.InvalidParams);
+  }
+  if (start > end) {
+    throw new AnalysisError('Backfill start date must not be after the end date.', ErrorCode.InvalidParams);
+  }
+  if (!isClosedDay(end)) {
+    throw new AnalysisError('Backfill end date must be before today (UTC).', ErrorCode.InvalidParams);
+  }
+}
+
+async function requireStore(): Promise<ScoreStore> {
+  const store = await getScoreStore();
+  if (!store) {
+    throw new AnalysisError('Backfill requires a score store (SCORE_STORE is set to none).', ErrorCode.InvalidRequest);
+  }
+  return store;
+}
+
+async function buildEstimate(start: string, end: string, mode: BackfillMode, store: ScoreStore): Promise<BackfillEstimate> {
+  const days = dayRange(start, end);
+  const storedRows = await store.listScores(start, end, 'aggregate');
+  const pageCap = pagesPerDayForMode(mode);
+  // a day stored with fewer pages (a sampled run) still needs fetching for a deeper mode
+  const storedDays = new Set(
+    storedRows.filter((row) => (row.meta.pageCap ?? pageCap) >= pageCap).map((row) => row.date),
+  );
+  const pendingDays = days.filter((day) => !storedDays.has(day));
+  // every active source is queried, in the configured strategy's query groups
+  const pagesPerDay = searchRequestsPlanned(activeSourceIds(), pageCap, getConfig().fetchStrategy);
+
+  const estimatedTokens = pendingDays.reduce(
+    (sum, day) => sum + estimateTokensForArticleSearch({ startDate: day, endDate: day, pagesPlanned: pagesPerDay }),
+    0,
+  );
+  const requestEstimate = estimateBackfillCost(pendingDays.length, pagesPerDay);
+
+  const budget = await getBudgetState();
+  const hardCapTokens = Math.floor((budget.hardCapPct / 100) * budget.monthlyTokens);
+  const projected = budget.mtdTokens + estimatedTokens;
+
+  let feasible = requestEstimate.feasible;
+  let reason = requestEstimate.feasible ? undefined : requestEstimate.reason;
+  if (projected > hardCapTokens && !budget.allowOverage) {
+    feasible = false;
+    reason = `Estimated tokens (${estimatedTokens}) would exceed the hard cap (${hardCapTokens}); the job will stop when blocked and can be resumed next month.`;
+  }
+
+  return {
+    days: days.length,
+    days_stored: days.length - pendingDays.length,
+    days_pending: pendingDays.length,
+    pages_per_day: pagesPerDay,
+    estimated_requests: requestEstimate.requests,
+    estimated_tokens: estimatedTokens,
+    feasible,
+    ...(reason ? { reason } : {}),
+    mtd_tokens: budget.mtdTokens,
+    monthly_tokens: budget.monthlyTokens,
+    projected_mtd_tokens: projected,
+    hard_cap_tokens: hardCapTokens,
+  };
+}
+
+async function waitForRateWindow() {
+  const started = Date.now();
+  while ((await shouldThrottle()) && Date.now() - started < THROTTLE_WAIT_MS) {
+    await new Promise((resolve) => setTimeout(resolve, 250));
+  }
+}
+
+function toProgressOutput(progress: BackfillProgress): NonNullable<BackfillResult['progress']> {
+  return {
+    status: progress.status,
+    last_completed_date: progress.lastCompletedDate,
+    completed_days: progress.completedDays,
+    total_days: progress.totalDays,
+    updated_at: progress.updatedAt,
+    ...(progress.error ? { error: progress.error } : {}),
+  };
+}
+
+type ProgressMap = Record<string, BackfillProgress>;
+
+function progressPath(): string {
+  const configured = getConfig().backfill.progressPath;
+  return configured ? path.resolve(configured) : DEFAULT_PROGRESS_PATH;
+}
+
+async function loadAllProgress(): Promise<ProgressMap> {
+  try {
+    const raw = await fs.readFile(progressPath(), 'utf-8');
+    const data = JSON.parse(raw);
+    return data && typeof data === 'object' ? (data as ProgressMap) : {};
+  } catch {
+    return {};
+  }
+}
+
+async function loadProgress(id: string): Promise<BackfillProgress | undefined> {
+  const all = await loadAllProgress();
+  return all[id];
+}
+
+/**
+ * Merge one job into the progress file under a lock file, so concurrent jobs never drop each other's checkpoints.
+ */
+async function saveProgress(progress: BackfillProgress): Promise<void> {
+  const filePath = progressPath();
+  await withFileLock(filePath, async () => {
+    const all = await loadAllProgress();
+    all[progress.id] = progress;
+    await writeFileAtomic(filePath, JSON.stringify(all, null, 2));
+  });
+}
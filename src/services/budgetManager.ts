@@ -1,9 +1,11 @@
 import { getConfig } from '../config.js';
+import type { UsageStats } from '../types.js';
+import { getBudgetStore, type BudgetStore } from './budgetStore.js';
 
 /**
  * Budget manager for NewsAPI usage.
- * Tracks request counts in-memory (per-process) and provides conservative feasibility estimates.
- * For distributed throttling and persistent counters, wire this with Redis in a later step.
+ * Daily request counts live in the shared budget store (see budgetStore.ts) so restarts and replicas share one cap;
+ * the per-second window is a politeness limit and stays per-process.
  */
 
 export interface Estimate {
@@ -12,12 +14,28 @@ export interface Estimate {
   reason?: string;
 }
 
+/**
+ * Requests held against today's cap between reserve and commit/release. Refused reservations hold nothing.
+ */
+export interface RequestReservation {
+  allowed: boolean;
+  dayKey: string;
+  reserved: number;
+  reason?: string;
+}
+
+export interface RequestUsage {
+  articlesFetched?: number;
+  quotaRemaining?: number; // as reported by EventRegistry
+}
+
 export interface BudgetOptions {
   // caps are hints; if omitted, we don't block but still count
   dailyRequestsCap?: number;
   perSecondCap?: number;
   // time providers for testing
   now?: () => number; // ms epoch
+  store?: () => Promise<BudgetStore>;
 }
 
 export class BudgetManager {
@@ -25,19 +43,21 @@ export class BudgetManager {
   private perSecondCap?: number;
 
   private now: () => number;
+  private resolveStore: () => Promise<BudgetStore>;
 
-  // in-memory counters
-  private dayKey?: string;
-  private dayCount = 0;
-
+  // per-process per-second window
   private windowStart = 0;
   private windowCount = 0;
 
+  // reservations already committed or released; settling twice is a no-op
+  private settled = new WeakSet<RequestReservation>();
+
   constructor(opts?: BudgetOptions) {
     const cfg = getConfig();
     this.dailyRequestsCap = opts?.dailyRequestsCap ?? cfg.rateLimits.dailyRequestsCap;
     this.perSecondCap = opts?.perSecondCap ?? cfg.rateLimits.perSecondCap;
     this.now = opts?.now ?? (() => Date.now());
+    this.resolveStore = opts?.store ?? getBudgetStore;
   }
 
   /**
@@ -61,26 +81,15 @@ export class BudgetManager {
 
   /**
    * Whether a new request should be throttled right now given per-second and daily caps.
-   * Does not mutate counters (use recordRequest for that).
+   * Does not mutate counters (use reserve for that).
    */
-  shouldThrottle(): boolean {
-    const now = this.now();
-    const secondWindow = 1000;
-
-    // per-second window
-    if (this.perSecondCap != null) {
-      if (now - this.windowStart >= secondWindow) {
-        // new window would reset; ok to proceed from window perspective
-      } else if (this.windowCount >= this.perSecondCap) {
-        return true;
-      }
-    }
+  async shouldThrottle(): Promise<boolean> {
+    if (this.secondWindowFull()) return true;
 
     // daily cap
     if (this.dailyRequestsCap != null) {
-      const todayKey = this.formatDayKey(now);
-      const withinSameDay = this.dayKey === todayKey;
-      const todayCount = withinSameDay ? this.dayCount : 0;
+      const store = await this.resolveStore();
+      const todayCount = await store.get(counterKey(this.formatDayKey(this.now())));
       if (todayCount >= this.dailyRequestsCap) {
         return true;
       }
@@ -90,32 +99,67 @@ export class BudgetManager {
   }
 
   /**
-   * Record N requests just made (default 1). Updates per-second and daily windows.
+   * Hold `planned` requests against today's cap. The check and the increment are one atomic step in the store,
+   * so concurrent callers cannot both take the last of the cap.
    */
-  recordRequest(count = 1): void {
-    const now = this.now();
-    const secondWindow = 1000;
+  async reserve(planned: number): Promise<RequestReservation> {
+    const dayKey = this.formatDayKey(this.now());
+    if (this.secondWindowFull()) {
+      return { allowed: false, dayKey, reserved: 0, reason: `Per-second cap (${this.perSecondCap}) reached` };
+    }
+
+    const store = await this.resolveStore();
+    const update = await store.incrementIf(counterKey(dayKey), planned, this.dailyRequestsCap);
+    if (!update.applied) {
+      return {
+        allowed: false,
+        dayKey,
+        reserved: 0,
+        reason: `Planned requests (${planned}) would exceed the daily cap (${this.dailyRequestsCap}); ${update.value} used today`,
+      };
+    }
+    return { allowed: true, dayKey, reserved: planned };
+  }
+
+  /**
+   * Replace a reservation with the requests actually made, and record what they returned: article count and the
+   * remaining quota EventRegistry reported. Updates the per-second window too.
+   */
+  async commit(reservation: RequestReservation, actual: number, usage: RequestUsage = {}): Promise<void> {
+    if (!reservation.allowed || this.settled.has(reservation)) return;
+    this.settled.add(reservation);
 
     // per-second window accounting
-    if (now - this.windowStart >= secondWindow) {
+    const now = this.now();
+    if (now - this.windowStart >= 1000) {
       this.windowStart = now;
       this.windowCount = 0;
     }
-    this.windowCount += count;
+    this.windowCount += actual;
 
-    // daily window accounting
-    const todayKey = this.formatDayKey(now);
-    if (this.dayKey !== todayKey) {
-      this.dayKey = todayKey;
-      this.dayCount = 0;
+    const store = await this.resolveStore();
+    await store.adjust(counterKey(reservation.dayKey), actual - reservation.reserved);
+    if (usage.articlesFetched) {
+      await store.adjust(`articles:${reservation.dayKey}`, usage.articlesFetched);
     }
-    this.dayCount += count;
+    if (usage.quotaRemaining != null) {
+      await store.set(`quota:${reservation.dayKey}`, usage.quotaRemaining);
+    }
+  }
+
+  /**
+   * Give back a reservation whose requests were never made.
+   */
+  async release(reservation: RequestReservation): Promise<void> {
+    await this.commit(reservation, 0);
   }
 
   /**
    * Accessors for telemetry/inspection
    */
-  getState() {
+  async getState() {
+    const dayKey = this.formatDayKey(this.now());
+    const store = await this.resolveStore();
     return {
       perSecond: {
         cap: this.perSecondCap,
@@ -124,12 +168,45 @@ export class BudgetManager {
       },
       daily: {
         cap: this.dailyRequestsCap,
-        dayKey: this.dayKey,
-        dayCount: this.dayCount,
+        dayKey,
+        dayCount: await store.get(counterKey(dayKey)),
       },
     };
   }
 
+  /**
+   * Daily usage for the `days` UTC days ending today, oldest first.
+   * rateLimitRemaining is the last quota EventRegistry reported that day, else what was left of the daily request cap
+   * (absent when neither is known). tokensUsed is booked by tokenBudget.ts.
+   */
+  async usageHistory(days: number): Promise<UsageStats[]> {
+    const today = this.now();
+    const dates = Array.from({ length: Math.max(0, days) }, (_, i) =>
+      this.formatDayKey(today - (days - 1 - i) * 24 * 60 * 60 * 1000),
+    );
+    const fields = ['requests', 'articles', 'tokens', 'quota'];
+    const store = await this.resolveStore();
+    const values = await store.getMany(fields.flatMap((field) => dates.map((date) => `${field}:${date}`)));
+    return dates.map((date, i) => {
+      const [requests = 0, articlesFetched = 0, tokensUsed = 0, quota] = fields.map((_, f) => values[f * dates.length + i]);
+      const rateLimitRemaining =
+        quota ?? (this.dailyRequestsCap != null ? Math.max(0, this.dailyRequestsCap - requests) : undefined);
+      return {
+        date,
+        requests,
+        articlesFetched,
+        tokensUsed,
+        ...(rateLimitRemaining != null ? { rateLimitRemaining } : {}),
+      };
+    });
+  }
+
+  private secondWindowFull(): boolean {
+    if (this.perSecondCap == null) return false;
+    // an expired window would reset, so only a live window can be full
+    return this.now() - this.windowStart < 1000 && this.windowCount >= this.perSecondCap;
+  }
+
   private formatDayKey(ms: number): string {
     const d = new Date(ms);
     const year = d.getUTCFullYear();
@@ -139,6 +216,10 @@ export class BudgetManager {
   }
 }
 
+function counterKey(dayKey: string): string {
+  return `requests:${dayKey}`;
+}
+
 // Convenience functional API mirroring the Implementation Plan signatures
 const sharedManager = new BudgetManager();
 
@@ -146,10 +227,26 @@ export function estimateBackfillCost(days: number, pagesPerDay: number): Estimat
   return sharedManager.estimateBackfillCost(days, pagesPerDay);
 }
 
-export function shouldThrottle(): boolean {
+export function shouldThrottle(): Promise<boolean> {
   return sharedManager.shouldThrottle();
 }
 
-export function recordRequest(count: number): void {
-  sharedManager.recordRequest(count);
+export function reserveRequests(planned: number): Promise<RequestReservation> {
+  return sharedManager.reserve(planned);
+}
+
+export function commitRequests(reservation: RequestReservation, actual: number, usage?: RequestUsage): Promise<void> {
+  return sharedManager.commit(reservation, actual, usage);
+}
+
+export function releaseRequests(reservation: RequestReservation): Promise<void> {
+  return sharedManager.release(reservation);
+}
+
+export function getRequestState() {
+  return sharedManager.getState();
+}
+
+export function getUsageHistory(days: number): Promise<UsageStats[]> {
+  return sharedManager.usageHistory(days);
 }
@@ -0,0 +1,121 @@
+import { getConfig, type BudgetStoreBackend } from '../config.js';
+import { getRequestState, getUsageHistory } from './budgetManager.js';
+import { getBudgetState } from './tokenBudget.js';
+
+/**
+ * Budget report for ops: month-to-date token spend against the caps, a month-end projection at the current burn
+ * rate, and daily request/article history from the shared budget store.
+ */
+
+export const DEFAULT_USAGE_DAYS = 30;
+export const MAX_USAGE_DAYS = 90;
+
+export interface BudgetStatusResult {
+  month: string; // YYYY-MM (UTC)
+  generated_at: string;
+  store: BudgetStoreBackend;
+  tokens: {
+    mtd_tokens: number;
+    monthly_tokens: number;
+    soft_cap_pct: number;
+    hard_cap_pct: number;
+    soft_cap_tokens: number;
+    hard_cap_tokens: number;
+    remaining_tokens: number; // until the monthly allowance
+    allow_overage: boolean;
+    status: 'ok' | 'soft_cap' | 'hard_cap' | 'exhausted';
+  };
+  projection: {
+    days_elapsed: number;
+    days_in_month: number;
+    burn_rate_per_day: number;
+    month_end_tokens: number;
+    exceeds_soft_cap: boolean;
+    exceeds_hard_cap: boolean;
+    hard_cap_date: string | null; // day the current burn rate crosses the hard cap (today if already past); null if not this month
+  };
+  requests: {
+    daily_cap: number | null;
+    per_second_cap: number | null;
+    today: number;
+  };
+  usage: Array<{
+    date: string;
+    requests: number;
+    articles_fetched: number;
+    tokens_used: number;
+    rate_limit_remaining: number | null;
+  }>;
+}
+
+export async function getBudgetStatus(opts: { days?: number; now?: Date } = {}): Promise<BudgetStatusResult> {
+  const now = opts.now ?? new Date();
+  const days = Math.min(MAX_USAGE_DAYS, Math.max(1, Math.floor(opts.days ?? DEFAULT_USAGE_DAYS)));
+  const [budget, requests, usage] = await Promise.all([getBudgetState(now), getRequestState(), getUsageHistory(days)]);
+
+  const softCapTokens = Math.floor((budget.softCapPct / 100) * budget.monthlyTokens);
+  const hardCapTokens = Math.floor((budget.hardCapPct / 100) * budget.monthlyTokens);
+  let status: BudgetStatusResult['tokens']['status'] = 'ok';
+  if (budget.mtdTokens >= budget.monthlyTokens) status = 'exhausted';
+  else if (budget.mtdTokens > hardCapTokens) status = 'hard_cap';
+  else if (budget.mtdTokens > softCapTokens) status = 'soft_cap';
+
+  // Burn rate counts today as a full day, so early-month projections are not inflated by a few hours of spend
+  const daysElapsed = now.getUTCDate();
+  const daysInMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 0)).getUTCDate();
+  const burnRate = budget.mtdTokens / daysElapsed;
+  const monthEndTokens = Math.round(burnRate * daysInMonth);
+
+  return {
+    month: budget.monthKey,
+    generated_at: now.toISOString(),
+    store: getConfig().budgetStore.backend,
+    tokens: {
+      mtd_tokens: budget.mtdTokens,
+      monthly_tokens: budget.monthlyTokens,
+      soft_cap_pct: budget.softCapPct,
+      hard_cap_pct: budget.hardCapPct,
+      soft_cap_tokens: softCapTokens,
+      hard_cap_tokens: hardCapTokens,
+      remaining_tokens: Math.max(0, budget.monthlyTokens - budget.mtdTokens),
+      allow_overage: budget.allowOverage,
+      status,
+    },
+    projection: {
+      days_elapsed: daysElapsed,
+      days_in_month: daysInMonth,
+      burn_rate_per_day: Number(burnRate.toFixed(2)),
+      month_end_tokens: monthEndTokens,
+      exceeds_soft_cap: monthEndTokens > softCapTokens,
+      exceeds_hard_cap: monthEndTokens > hardCapTokens,
+      hard_cap_date: hardCapDate(now, budget.mtdTokens, burnRate, hardCapTokens, daysInMonth),
+    },
+    requests: {
+      daily_cap: requests.daily.cap ?? null,
+      per_second_cap: requests.perSecond.cap ?? null,
+      today: requests.daily.dayCount,
+    },
+    usage: usage.map((day) => ({
+      date: day.date,
+      requests: day.requests,
+      articles_fetched: day.articlesFetched,
+      tokens_used: day.tokensUsed ?? 0,
+      rate_limit_remaining: day.rateLimitRemaining ?? null,
+    })),
+  };
+}
+
+function hardCapDate(now: Date, mtdTokens: number, burnRate: number, hardCapTokens: number, daysInMonth: number) {
+  const today = now.getUTCDate();
+  let day: number;
+  if (mtdTokens > hardCapTokens) {
+    day = today;
+  } else if (burnRate > 0) {
+    // first day whose end-of-day spend passes the cap
+    day = Math.floor(hardCapTokens / burnRate) + 1;
+    if (day > daysInMonth) return null;
+  } else {
+    return null;
+  }
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), day)).toISOString().slice(0, 10);
+}
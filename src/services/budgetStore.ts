@@ -0,0 +1,196 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { getConfig, type BudgetStoreBackend } from '../config.js';
+import { withFileLock, writeFileAtomic } from '../utils/fileLock.js';
+
+/**
+ * Shared counters behind token and request budgeting.
+ * Counters are keyed by period (`tokens:2025-06`, `requests:2025-06-03`) and only change through atomic operations,
+ * so restarts keep month-to-date spend and concurrent replicas cannot both spend the last of a budget.
+ */
+
+export interface CounterUpdate {
+  applied: boolean;
+  value: number; // counter value after the operation (unchanged when not applied)
+}
+
+export interface BudgetStore {
+  readonly backend: BudgetStoreBackend;
+  get(key: string): Promise<number>;
+  /** Values in key order; counters never written are undefined. */
+  getMany(keys: string[]): Promise<Array<number | undefined>>;
+  /** Add `amount` unless the counter would exceed `limit`; check and increment happen as one step. */
+  incrementIf(key: string, amount: number, limit?: number): Promise<CounterUpdate>;
+  /** Add `delta` (negative to give back a reservation); counters never drop below zero. */
+  adjust(key: string, delta: number): Promise<number>;
+  /** Overwrite a value (latest-wins readings such as the quota EventRegistry reports). */
+  set(key: string, value: number): Promise<void>;
+  close(): Promise<void>;
+}
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const PROJECT_ROOT = path.resolve(__dirname, '..', '..');
+const DEFAULT_STORE_PATH = path.join(PROJECT_ROOT, 'data', 'budget.json');
+
+// Redis counters expire after a little over a year; file and memory counters are never pruned
+const COUNTER_TTL_SECONDS = 400 * 24 * 60 * 60;
+
+type Counters = Record<string, number>;
+
+function applyIncrement(counters: Counters, key: string, amount: number, limit?: number): CounterUpdate {
+  const current = counters[key] ?? 0;
+  if (limit != null && current + amount > limit) {
+    return { applied: false, value: current };
+  }
+  counters[key] = current + amount;
+  return { applied: true, value: counters[key] };
+}
+
+function applyAdjust(counters: Counters, key: string, delta: number): number {
+  counters[key] = Math.max(0, (counters[key] ?? 0) + delta);
+  return counters[key];
+}
+
+/**
+ * Process-local counters. Used by tests and by deployments that accept losing spend on restart.
+ */
+export class MemoryBudgetStore implements BudgetStore {
+  readonly backend = 'memory' as const;
+  private counters: Counters = {};
+
+  async get(key: string): Promise<number> {
+    return this.counters[key] ?? 0;
+  }
+
+  async getMany(keys: string[]): Promise<Array<number | undefined>> {
+    return keys.map((key) => this.counters[key]);
+  }
+
+  async incrementIf(key: string, amount: number, limit?: number): Promise<CounterUpdate> {
+    return applyIncrement(this.counters, key, amount, limit);
+  }
+
+  async adjust(key: string, delta: number): Promise<number> {
+    return applyAdjust(this.counters, key, delta);
+  }
+
+  async set(key: string, value: number): Promise<void> {
+    this.counters[key] = value;
+  }
+
+  async close(): Promise<void> {
+    this.counters = {};
+  }
+}
+
+/**
+ * Single-node JSON file store. Every update re-reads the file under an exclusive lock file and rewrites it atomically,
+ * so the server and a backfill run on the same host share one ledger.
+ */
+export class FileBudgetStore implements BudgetStore {
+  readonly backend = 'file' as const;
+  private chain: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath = DEFAULT_STORE_PATH) {}
+
+  async get(key: string): Promise<number> {
+    const counters = await this.read();
+    return counters[key] ?? 0;
+  }
+
+  async getMany(keys: string[]): Promise<Array<number | undefined>> {
+    const counters = await this.read();
+    return keys.map((key) => counters[key]);
+  }
+
+  incrementIf(key: string, amount: number, limit?: number): Promise<CounterUpdate> {
+    return this.update((counters) => applyIncrement(counters, key, amount, limit));
+  }
+
+  adjust(key: string, delta: number): Promise<number> {
+    return this.update((counters) => applyAdjust(counters, key, delta));
+  }
+
+  set(key: string, value: number): Promise<void> {
+    return this.update((counters) => {
+      counters[key] = value;
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.chain.catch(() => undefined);
+  }
+
+  private update<T>(fn: (counters: Counters) => T): Promise<T> {
+    // Serialize within the process; the lock file serializes across processes
+    const run = this.chain.catch(() => undefined).then(() => withFileLock(this.filePath, async () => {
+      const counters = await this.read();
+      const result = fn(counters);
+      await this.write(counters);
+      return result;
+    }));
+    this.chain = run;
+    return run;
+  }
+
+  private async read(): Promise<Counters> {
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+      return parsed && typeof parsed.counters === 'object' ? (parsed.counters as Counters) : {};
+    } catch {
+      // Missing or unreadable file: start empty
+      return {};
+    }
+  }
+
+  private async write(counters: Counters): Promise<void> {
+    await writeFileAtomic(this.filePath, JSON.stringify({ counters }));
+  }
+}
+
+let sharedStore: Promise<BudgetStore> | undefined;
+
+/**
+ * Shared store selected by BUDGET_STORE (see config.ts).
+ * The Redis backend is imported lazily so file/memory deployments never load the client.
+ */
+export function getBudgetStore(): Promise<BudgetStore> {
+  if (!sharedStore) {
+    sharedStore = createBudgetStore().catch((err) => {
+      // Allow a later call to retry (e.g. Redis not reachable yet)
+      sharedStore = undefined;
+      throw err;
+    });
+  }
+  return sharedStore;
+}
+
+/**
+ * Drop the shared store so the next call re-reads BUDGET_STORE (tests switch backends between cases).
+ */
+export async function resetBudgetStore(): Promise<void> {
+  const store = sharedStore;
+  sharedStore = undefined;
+  await store?.then((s) => s.close()).catch(() => undefined);
+}
+
+async function createBudgetStore(): Promise<BudgetStore> {
+  const cfg = getConfig();
+  switch (cfg.budgetStore.backend) {
+    case 'memory':
+      return new MemoryBudgetStore();
+    case 'redis': {
+      if (!cfg.redisUrl) {
+        throw new Error('BUDGET_STORE=redis requires REDIS_URL');
+      }
+      const { RedisBudgetStore } = await import('./redisBudgetStore.js');
+      const store = new RedisBudgetStore(cfg.redisUrl, COUNTER_TTL_SECONDS);
+      await store.init();
+      return store;
+    }
+    case 'file':
+    default:
+      return new FileBudgetStore(cfg.budgetStore.path ? path.resolve(cfg.budgetStore.path) : DEFAULT_STORE_PATH);
+  }
+}
@@ -1,6 +1,6 @@
-import type { PoliticalLeaning } from '../types.js';
-import { PREFERRED_SOURCE_SET, leaningForSourceId } from '../constants/sources.js';
+import type { LeaningKey, SpectrumLeaning } from '../types.js';
 import { toKebabId } from '../utils/normalize.js';
+import { lookupSource } from './sourceRegistry.js';
 
 /**
  * Normalize a NewsAPI source name into a kebab-case id, used as a fallback
@@ -11,27 +11,31 @@ export function normalizeSourceId(name?: string): string {
 }
 
 /**
- * Resolve a political leaning from an optional canonical source id or source name.
- * - Prefer the canonical NewsAPI source.id when present
- * - Fallback to normalized name (kebab-case)
- * - Default to 'center' if unknown
+ * Resolve a political leaning from an optional canonical source id (or URI) and source name.
+ * - Looks the source up in the source registry by id, URI, then outlet name
+ * - Sources outside the registry are 'other', never silently 'center'
  */
-export function sourceToLeaning(id?: string | null, name?: string): PoliticalLeaning {
-  const resolvedId = id ?? normalizeSourceId(name);
-  return leaningForSourceId(resolvedId);
+export function sourceToLeaning(id?: string | null, name?: string): LeaningKey {
+  return lookupSource(id, name)?.leaning ?? 'other';
+}
+
+/**
+ * Five-point counterpart of sourceToLeaning: the source's registry spectrum, or 'other' outside the registry.
+ */
+export function sourceToSpectrum(id?: string | null, name?: string): SpectrumLeaning | 'other' {
+  return lookupSource(id, name)?.spectrum ?? 'other';
 }
 
 /**
  * Quick helpers for membership and safe id calculation
  */
 
-/** Returns a canonical-ish id (prefer id, else kebab name). */
+/** Returns a canonical-ish id: the registry id when known, else the given id, else the kebab name. */
 export function resolveSourceId(id?: string | null, name?: string): string {
-  return (id ?? normalizeSourceId(name)) || '';
+  return lookupSource(id, name)?.id ?? ((id ?? normalizeSourceId(name)) || '');
 }
 
-/** Check if a source (by id/name) is in our preferred set. */
+/** Check if a source (by id/URI/name) is in the source registry. */
 export function isPreferredSource(id?: string | null, name?: string): boolean {
-  const resolved = resolveSourceId(id, name);
-  return resolved ? PREFERRED_SOURCE_SET.has(resolved) : false;
+  return Boolean(lookupSource(id, name));
 }
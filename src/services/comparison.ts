@@ -0,0 +1,427 @@
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import type { HeadlineRecord, PoliticalLeaning } from '../types.js';
+import { dayRange } from '../utils/date.js';
+import { round2 } from '../utils/normalize.js';
+import {
+  AnalysisError,
+  analyzeDailySample,
+  type AnalyzeHeadlinesResult,
+  type ArticleCacheDiagnostics,
+  type CompletenessDiagnostics,
+  type LexiconDiagnostics,
+  type TokenBudgetDiagnostics,
+} from './analysis.js';
+import type { DedupDiagnostics } from './dedup.js';
+import { getLexiconPack, type LexiconPack } from './lexicon.js';
+import type { FetchOptions, NewsApiClient } from './newsapi.js';
+import { evaluateHeadlineRelevance } from './relevance.js';
+import { SCORE_GROUPINGS, type ScoreGrouping, type ScoreStore } from './scoreStore.js';
+import {
+  attentionValues,
+  generalScoreFromMean,
+  investorScoreFromMean,
+  investorWeights,
+  scoreInvestor,
+  sentimentComparatives,
+} from './scoring.js';
+
+/**
+ * Period-over-period comparison (e.g. this week vs last week, Q1 vs Q2).
+ * Each period is sampled day by day through the daily analysis (stored days cost no tokens), on every day of short
+ * periods and on evenly spaced days of long ones, so the sample spans the whole period rather than its last pages.
+ * Score deltas get a bootstrap confidence interval and p-value by resampling headlines within each period.
+ */
+
+export type ComparisonMetric = 'general' | 'investor' | 'attention';
+
+export const COMPARISON_METRICS: readonly ComparisonMetric[] = ['general', 'investor', 'attention'];
+
+export interface PeriodRange {
+  start: string;
+  end: string;
+}
+
+export interface MetricComparison {
+  period_a: number;
+  period_b: number;
+  delta: number;
+  pct_change: number | null;
+  ci_95: [number, number] | null;
+  p_value: number | null;
+  significant: boolean;
+}
+
+export interface TermShift {
+  term: string;
+  count_a: number;
+  count_b: number;
+  rate_a: number; // matches per 100 analyzed headlines
+  rate_b: number;
+  delta: number;
+}
+
+export interface PeriodSummary {
+  date_range: PeriodRange;
+  coverage: {
+    days_in_period: number;
+    days_sampled: number;
+    days_from_store: number;
+    sampled_days: string[];
+  };
+  total_headlines: number;
+  relevant_headlines: number;
+  headlines_analyzed: number;
+  headlines_by_leaning: Record<PoliticalLeaning, number>;
+  diagnostics: {
+    token_budget: TokenBudgetDiagnostics;
+    sampling: {
+      sources_targeted: number;
+      sources_with_relevant: number;
+      page_cap: number;
+      pages_fetched: number;
+      per_source_quota: number; // largest per-day quota of a weight-1 source
+    };
+    completeness: CompletenessDiagnostics;
+    article_cache: ArticleCacheDiagnostics;
+    lexicon: LexiconDiagnostics;
+    dedup: DedupDiagnostics;
+  };
+}
+
+export interface ComparePeriodsResult {
+  period_a: PeriodSummary;
+  period_b: PeriodSummary;
+  comparisons: Record<ScoreGrouping, Record<ComparisonMetric, MetricComparison>>;
+  key_terms: { grew: TermShift[]; shrank: TermShift[] };
+  bootstrap: { iterations: number; seed: number; confidence: number };
+}
+
+export interface ComparePeriodsOptions {
+  client?: NewsApiClient;
+  fetch?: FetchOptions;
+  store?: ScoreStore | null; // null disables the score store for this call
+  maxHeadlines?: number; // per sampled day
+  iterations?: number;
+  seed?: number;
+  topTerms?: number;
+  lexicon?: string; // lexicon pack id (default LEXICON_PACK)
+}
+
+// A quarter, so "Q1 vs Q2" fits
+export const MAX_COMPARISON_DAYS = 92;
+// Days analyzed per period; longer periods are sampled on evenly spaced days
+export const MAX_SAMPLED_DAYS = 14;
+const DEFAULT_ITERATIONS = 1000;
+const MAX_ITERATIONS = 10000;
+const DEFAULT_SEED = 42;
+const DEFAULT_TOP_TERMS = 10;
+const CONFIDENCE = 0.95;
+
+// Per-headline values and how their mean maps onto the 0..10 score
+const METRIC_SIGNALS: Record<
+  ComparisonMetric,
+  { values: (headlines: string[], lexicon: LexiconPack) => number[]; score: (mean: number) => number }
+> = {
+  general: { values: (headlines) => sentimentComparatives(headlines), score: generalScoreFromMean },
+  investor: { values: investorWeights, score: investorScoreFromMean },
+  attention: { values: (headlines) => attentionValues(headlines), score: (mean) => mean },
+};
+
+interface CollectedPeriod {
+  summary: PeriodSummary;
+  headlines: Record<ScoreGrouping, string[]>;
+}
+
+export async function comparePeriods(
+  periodA: PeriodRange,
+  periodB: PeriodRange,
+  opts: ComparePeriodsOptions = {},
+): Promise<ComparePeriodsResult> {
+  assertPeriod('periodA', periodA);
+  assertPeriod('periodB', periodB);
+
+  const iterations = Math.min(MAX_ITERATIONS, Math.max(100, Math.floor(opts.iterations ?? DEFAULT_ITERATIONS)));
+  const seed = opts.seed ?? DEFAULT_SEED;
+  const random = mulberry32(seed);
+  const lexicon = getLexiconPack(opts.lexicon);
+
+  const a = await collectPeriod(periodA, lexicon, opts);
+  const b = await collectPeriod(periodB, lexicon, opts);
+
+  const comparisons = {} as ComparePeriodsResult['comparisons'];
+  for (const grouping of SCORE_GROUPINGS) {
+    comparisons[grouping] = {} as Record<ComparisonMetric, MetricComparison>;
+    for (const metric of COMPARISON_METRICS) {
+      const signal = METRIC_SIGNALS[metric];
+      comparisons[grouping][metric] = compareMetric(
+        signal.values(a.headlines[grouping], lexicon),
+        signal.values(b.headlines[grouping], lexicon),
+        signal.score,
+        iterations,
+        random,
+      );
+    }
+  }
+
+  return {
+    period_a: a.summary,
+    period_b: b.summary,
+    comparisons,
+    key_terms: termShifts(a.headlines.aggregate, b.headlines.aggregate, lexicon, opts.topTerms ?? DEFAULT_TOP_TERMS),
+    bootstrap: { iterations, seed, confidence: CONFIDENCE },
+  };
+}
+
+function assertPeriod(label: string, period: PeriodRange) {
+  const dayPattern = /^\d{4}-(?:0[1-9]|1[0-2])-(?:0[1-9]|[12]\d|3[01])$/;
+  if (!dayPattern.test(period.start) || !dayPattern.test(period.end)) {
+    throw new AnalysisError(`${label} dates must be provided in YYYY-MM-DD format.`, ErrorCode.InvalidParams);
+  }
+  if (period.start > period.end) {
+    throw new AnalysisError(`${label} start must not be after its end.`, ErrorCode.InvalidParams);
+  }
+  const days = dayRange(period.start, period.end).length;
+  if (days > MAX_COMPARISON_DAYS) {
+    throw new AnalysisError(
+      `${label} spans ${days} days; the limit is ${MAX_COMPARISON_DAYS}.`,
+      ErrorCode.InvalidParams,
+    );
+  }
+}
+
+/**
+ * Every day of the period, or MAX_SAMPLED_DAYS evenly spaced days (first and last included) of a longer one.
+ */
+export function sampleDays(period: PeriodRange, max = MAX_SAMPLED_DAYS): string[] {
+  const days = dayRange(period.start, period.end);
+  if (days.length <= max) return days;
+  const picked = new Set<string>();
+  for (let i = 0; i < max; i += 1) {
+    picked.add(days[Math.round((i * (days.length - 1)) / (max - 1))]);
+  }
+  return [...picked];
+}
+
+async function collectPeriod(
+  period: PeriodRange,
+  lexicon: LexiconPack,
+  opts: ComparePeriodsOptions,
+): Promise<CollectedPeriod> {
+  const days = sampleDays(period);
+  const results: AnalyzeHeadlinesResult[] = [];
+  const records: HeadlineRecord[] = [];
+  for (const day of days) {
+    const { result, headlines } = await analyzeDailySample(day, {
+      client: opts.client,
+      fetch: opts.fetch,
+      store: opts.store,
+      maxHeadlines: opts.maxHeadlines,
+      lexicon: lexicon.id,
+    });
+    results.push(result);
+    records.push(...headlines);
+  }
+
+  const byLeaning = (leaning: PoliticalLeaning) => records.filter((r) => r.leaning === leaning).map((r) => r.title);
+  const headlines = {
+    aggregate: records.map((r) => r.title),
+    left: byLeaning('left'),
+    center: byLeaning('center'),
+    right: byLeaning('right'),
+  };
+  const sum = (pick: (result: AnalyzeHeadlinesResult) => number) => results.reduce((total, r) => total + pick(r), 0);
+  const last = results[results.length - 1].diagnostics;
+
+  return {
+    summary: {
+      date_range: period,
+      coverage: {
+        days_in_period: dayRange(period.start, period.end).length,
+        days_sampled: days.length,
+        days_from_store: results.filter((r) => r.diagnostics.store.hit).length,
+        sampled_days: days,
+      },
+      total_headlines: sum((r) => r.filtering_stats.total_headlines),
+      relevant_headlines: sum((r) => r.filtering_stats.relevant_headlines),
+      headlines_analyzed: records.length,
+      headlines_by_leaning: {
+        left: headlines.left.length,
+        center: headlines.center.length,
+        right: headlines.right.length,
+      },
+      diagnostics: {
+        token_budget: {
+          ...last.token_budget,
+          status: worstStatus(results.map((r) => r.diagnostics.token_budget.status)),
+          estimate_tokens: sum((r) => r.diagnostics.token_budget.estimate_tokens),
+          requests_made: sum((r) => r.diagnostics.token_budget.requests_made),
+        },
+        sampling: {
+          sources_targeted: Math.max(...results.map((r) => r.diagnostics.sampling.sources_targeted)),
+          sources_with_relevant: new Set(records.map((r) => r.sourceId)).size,
+          page_cap: last.sampling.page_cap,
+          pages_fetched: sum((r) => r.diagnostics.sampling.pages_fetched),
+          per_source_quota: Math.max(...results.map((r) => r.diagnostics.sampling.per_source_quota)),
+        },
+        completeness: {
+          complete: results.every((r) => r.diagnostics.completeness.complete),
+          errors: results.flatMap((r) => r.diagnostics.completeness.errors),
+        },
+        article_cache: {
+          backend: last.article_cache.backend,
+          hits: sum((r) => r.diagnostics.article_cache.hits),
+          misses: sum((r) => r.diagnostics.article_cache.misses),
+        },
+        lexicon: last.lexicon,
+        dedup: combineDedup(results.map((r) => r.diagnostics.dedup)),
+      },
+    },
+    headlines,
+  };
+}
+
+const STATUS_RANK: Record<TokenBudgetDiagnostics['status'], number> = { allowed: 0, throttled: 1, blocked: 2 };
+
+function worstStatus(statuses: TokenBudgetDiagnostics['status'][]): TokenBudgetDiagnostics['status'] {
+  return statuses.reduce((worst, status) => (STATUS_RANK[status] > STATUS_RANK[worst] ? status : worst), 'allowed');
+}
+
+// Per-day dedup totals; a story syndicated across two days counts once per day
+function combineDedup(days: DedupDiagnostics[]): DedupDiagnostics {
+  const sum = (pick: (d: DedupDiagnostics) => number) => days.reduce((total, d) => total + pick(d), 0);
+  return {
+    enabled: days.some((d) => d.enabled),
+    similarity: days[0].similarity,
+    articles_in: sum((d) => d.articles_in),
+    clusters: sum((d) => d.clusters),
+    duplicates_removed: sum((d) => d.duplicates_removed),
+    syndicated_clusters: sum((d) => d.syndicated_clusters),
+    largest_clusters: days
+      .flatMap((d) => d.largest_clusters)
+      .sort((a, b) => b.size - a.size)
+      .slice(0, Math.max(0, ...days.map((d) => d.largest_clusters.length))),
+  };
+}
+
+/**
+ * Delta of period B over period A with a percentile bootstrap CI and two-sided p-value.
+ * Either side without headlines reports its neutral default score and no significance.
+ */
+function compareMetric(
+  valuesA: number[],
+  valuesB: number[],
+  toScore: (mean: number) => number,
+  iterations: number,
+  random: () => number,
+): MetricComparison {
+  const neutral = toScore(0);
+  const scoreA = valuesA.length ? toScore(mean(valuesA)) : neutral;
+  const scoreB = valuesB.length ? toScore(mean(valuesB)) : neutral;
+  const delta = scoreB - scoreA;
+  const base = {
+    period_a: round2(scoreA),
+    period_b: round2(scoreB),
+    delta: round2(delta),
+    pct_change: scoreA !== 0 ? round2((delta / scoreA) * 100) : null,
+  };
+
+  if (valuesA.length < 2 || valuesB.length < 2) {
+    return { ...base, ci_95: null, p_value: null, significant: false };
+  }
+
+  const deltas = new Array<number>(iterations);
+  let atOrBelowZero = 0;
+  let atOrAboveZero = 0;
+  for (let i = 0; i < iterations; i += 1) {
+    const d = toScore(resampledMean(valuesB, random)) - toScore(resampledMean(valuesA, random));
+    deltas[i] = d;
+    if (d <= 0) atOrBelowZero += 1;
+    if (d >= 0) atOrAboveZero += 1;
+  }
+  deltas.sort((x, y) => x - y);
+
+  const alpha = 1 - CONFIDENCE;
+  const low = deltas[Math.floor((alpha / 2) * iterations)];
+  const high = deltas[Math.min(iterations - 1, Math.ceil((1 - alpha / 2) * iterations) - 1)];
+  const pValue = Math.min(1, (2 * Math.min(atOrBelowZero, atOrAboveZero)) / iterations);
+
+  return {
+    ...base,
+    ci_95: [round2(low), round2(high)],
+    p_value: round2(pValue),
+    significant: pValue < alpha,
+  };
+}
+
+/**
+ * Key terms (investor lexicon plus relevance matches) whose per-headline rate moved most between periods.
+ */
+function termShifts(
+  headlinesA: string[],
+  headlinesB: string[],
+  lexicon: LexiconPack,
+  top: number,
+): ComparePeriodsResult['key_terms'] {
+  const countsA = termCounts(headlinesA, lexicon);
+  const countsB = termCounts(headlinesB, lexicon);
+  const rate = (count: number, total: number) => (total ? (count / total) * 100 : 0);
+
+  const shifts: TermShift[] = [];
+  for (const term of new Set([...countsA.keys(), ...countsB.keys()])) {
+    const countA = countsA.get(term) ?? 0;
+    const countB = countsB.get(term) ?? 0;
+    // single mentions are noise at headline sample sizes
+    if (countA + countB < 2) continue;
+    const rateA = rate(countA, headlinesA.length);
+    const rateB = rate(countB, headlinesB.length);
+    shifts.push({
+      term,
+      count_a: countA,
+      count_b: countB,
+      rate_a: round2(rateA),
+      rate_b: round2(rateB),
+      delta: round2(rateB - rateA),
+    });
+  }
+
+  return {
+    grew: shifts.filter((s) => s.delta > 0).sort((x, y) => y.delta - x.delta || x.term.localeCompare(y.term)).slice(0, top),
+    shrank: shifts.filter((s) => s.delta < 0).sort((x, y) => x.delta - y.delta || x.term.localeCompare(y.term)).slice(0, top),
+  };
+}
+
+function termCounts(headlines: string[], lexicon: LexiconPack): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const headline of headlines) {
+    const terms = new Set([
+      ...Object.keys(scoreInvestor([headline], lexicon).keyTerms),
+      ...evaluateHeadlineRelevance(headline, lexicon).matchedTerms,
+    ]);
+    for (const term of terms) counts.set(term, (counts.get(term) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function resampledMean(values: number[], random: () => number): number {
+  let sum = 0;
+  for (let i = 0; i < values.length; i += 1) {
+    sum += values[Math.floor(random() * values.length)];
+  }
+  return sum / values.length;
+}
+
+// Small seeded PRNG so repeated comparisons report identical intervals
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
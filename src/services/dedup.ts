@@ -0,0 +1,174 @@
+import { getConfig } from '../config.js';
+import type { Article } from '../types.js';
+
+/**
+ * Syndication clustering.
+ * Wire stories (AP, Reuters, ...) are republished by many outlets under near-identical titles; left alone each
+ * copy is scored and counted separately. Titles are normalized (outlet suffixes and wire datelines stripped),
+ * shingled into word bigrams and grouped greedily by Jaccard similarity against each cluster's earliest copy.
+ * Articles EventRegistry flags `isDuplicate` also join an existing cluster for the same event.
+ */
+
+export interface ArticleCluster {
+  representative: Article; // earliest published copy; the one that is scored
+  members: Article[]; // every copy, representative first
+}
+
+export interface DedupDiagnostics {
+  enabled: boolean;
+  similarity: number;
+  articles_in: number;
+  clusters: number;
+  duplicates_removed: number;
+  syndicated_clusters: number; // clusters with more than one copy
+  largest_clusters: { title: string; size: number; sources: string[] }[];
+}
+
+export interface DedupResult {
+  articles: Article[]; // one representative per cluster, in original fetch order
+  clusters: ArticleCluster[];
+  diagnostics: DedupDiagnostics;
+}
+
+export interface DedupOptions {
+  enabled?: boolean; // default DEDUP_ENABLED
+  similarity?: number; // Jaccard threshold in (0, 1], default DEDUP_SIMILARITY
+}
+
+const LARGEST_CLUSTERS = 5;
+
+// "Stocks rally - Reuters", "Stocks rally | CNN Business"
+const OUTLET_SUFFIX = /\s+[-–—|]\s+[^-–—|]{1,40}$/;
+// "(AP) — Stocks rally", "Reuters: Stocks rally"
+const WIRE_PREFIX = /^\(?(?:ap|reuters|afp|bloomberg|upi)\)?\s*[-–—:]\s*/i;
+
+export function normalizeTitle(title: string): string {
+  return (title || '')
+    .replace(OUTLET_SUFFIX, '')
+    .replace(WIRE_PREFIX, '')
+    .toLowerCase()
+    .replace(/[’']/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/** Word bigrams of the normalized title (single words for one-word titles). */
+export function titleShingles(title: string): Set<string> {
+  const words = normalizeTitle(title).split(' ').filter(Boolean);
+  if (words.length < 2) return new Set(words);
+  const shingles = new Set<string>();
+  for (let i = 0; i + 1 < words.length; i += 1) shingles.add(`${words[i]} ${words[i + 1]}`);
+  return shingles;
+}
+
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (!a.size && !b.size) return 1;
+  let shared = 0;
+  for (const item of a) if (b.has(item)) shared += 1;
+  return shared / (a.size + b.size - shared);
+}
+
+function comparePublished(a: Article, b: Article): number {
+  if (!a.publishedAt || !b.publishedAt) return Number(!a.publishedAt) - Number(!b.publishedAt);
+  return a.publishedAt.localeCompare(b.publishedAt);
+}
+
+interface WorkingCluster {
+  members: { article: Article; index: number }[];
+  shingles: Set<string>; // representative's shingles
+}
+
+/**
+ * Group near-duplicate articles and keep one representative per cluster.
+ */
+export function dedupeArticles(articles: Article[], opts: DedupOptions = {}): DedupResult {
+  const cfg = getConfig().dedup;
+  const enabled = opts.enabled ?? cfg.enabled;
+  const similarity = opts.similarity ?? cfg.similarity;
+
+  let clusters: WorkingCluster[];
+  if (!enabled) {
+    clusters = articles.map((article, index) => ({ members: [{ article, index }], shingles: new Set() }));
+  } else {
+    clusters = [];
+    const byShingle = new Map<string, number[]>();
+    const byEvent = new Map<string, number[]>();
+
+    // Earliest copy first so it becomes the representative; undated articles go last
+    const ordered = articles
+      .map((article, index) => ({ article, index }))
+      .sort((a, b) => comparePublished(a.article, b.article) || a.index - b.index);
+
+    for (const entry of ordered) {
+      const shingles = titleShingles(entry.article.title);
+
+      let best = -1;
+      let bestScore = 0;
+      const candidates = new Set<number>();
+      for (const shingle of shingles) for (const c of byShingle.get(shingle) ?? []) candidates.add(c);
+      for (const c of candidates) {
+        const score = jaccard(shingles, clusters[c].shingles);
+        if (score >= similarity && score > bestScore) {
+          best = c;
+          bestScore = score;
+        }
+      }
+
+      const eventUri = entry.article.eventUri;
+      if (best < 0 && entry.article.isDuplicate && eventUri) {
+        best = byEvent.get(eventUri)?.[0] ?? -1;
+      }
+
+      if (best >= 0) {
+        clusters[best].members.push(entry);
+        continue;
+      }
+
+      const id = clusters.length;
+      clusters.push({ members: [entry], shingles });
+      for (const shingle of shingles) {
+        const list = byShingle.get(shingle) ?? [];
+        list.push(id);
+        byShingle.set(shingle, list);
+      }
+      if (eventUri) {
+        const list = byEvent.get(eventUri) ?? [];
+        list.push(id);
+        byEvent.set(eventUri, list);
+      }
+    }
+
+    // Back to fetch order so downstream per-source sampling sees articles as EventRegistry returned them
+    clusters.sort((a, b) => a.members[0].index - b.members[0].index);
+  }
+
+  const result = clusters.map(
+    (cluster): ArticleCluster => ({
+      representative: cluster.members[0].article,
+      members: cluster.members.map((m) => m.article),
+    }),
+  );
+
+  const syndicated = result.filter((c) => c.members.length > 1);
+  return {
+    articles: result.map((c) => c.representative),
+    clusters: result,
+    diagnostics: {
+      enabled,
+      similarity,
+      articles_in: articles.length,
+      clusters: result.length,
+      duplicates_removed: articles.length - result.length,
+      syndicated_clusters: syndicated.length,
+      largest_clusters: syndicated
+        .slice()
+        .sort((a, b) => b.members.length - a.members.length)
+        .slice(0, LARGEST_CLUSTERS)
+        .map((c) => ({
+          title: c.representative.title,
+          size: c.members.length,
+          sources: Array.from(new Set(c.members.map((m) => m.sourceName || 'Unknown'))),
+        })),
+    },
+  };
+}
@@ -0,0 +1,237 @@
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { AMBIGUOUS_TICKERS, ENTITIES, type EntityDefinition, type EntityType } from '../constants/entities.js';
+import type { HeadlineRecord, LeaningKey } from '../types.js';
+import { dayRange } from '../utils/date.js';
+import { round2 } from '../utils/normalize.js';
+import { AnalysisError, analyzeDailySample, type DailyAnalysisOptions, type LexiconDiagnostics } from './analysis.js';
+import { getLexiconPack } from './lexicon.js';
+import { compileTerms, findMatches } from './matcher.js';
+import { scoreGeneral, scoreInvestor } from './scoring.js';
+
+/**
+ * Entity-level sentiment: each relevant, sampled headline is attributed to the companies, tickers, central banks
+ * and people it mentions (see constants/entities.ts), and scored per entity with the same investor/general
+ * scorers as the daily analysis. Days are read through analyzeDailySample, so stored days cost no tokens.
+ */
+
+export interface EntityMention {
+  entity: EntityDefinition;
+  text: string; // first matched text in the headline
+}
+
+export interface EntitySentiment {
+  id: string;
+  name: string;
+  type: EntityType;
+  ticker?: string;
+  mentions: number;
+  share: number; // % of analyzed headlines mentioning the entity
+  sentiment: { investor: number | null; general: number | null }; // null without mentions
+  leaning_split: Record<LeaningKey, number>;
+  daily_mentions: { date: string; mentions: number }[];
+  sample_headlines: { title: string; source: string; leaning: LeaningKey; date: string }[];
+}
+
+export interface EntitySentimentResult {
+  date_range: { start: string; end: string };
+  days: { requested: number; from_store: number; fetched: number };
+  headlines_analyzed: number;
+  headlines_with_entities: number;
+  entities: EntitySentiment[];
+  diagnostics: {
+    requests_made: number;
+    lexicon: LexiconDiagnostics;
+  };
+}
+
+export interface EntitySentimentOptions extends DailyAnalysisOptions {
+  entities?: string[]; // restrict to these ids, tickers or names
+  limit?: number;
+}
+
+export const DEFAULT_ENTITY_LIMIT = 20;
+export const MAX_ENTITY_LIMIT = 100;
+export const MAX_ENTITY_DAYS = 31;
+const SAMPLE_HEADLINES = 3;
+
+// "$NVDA", "$BRK.B"
+const CASHTAG = /\$([A-Z]{1,5}(?:[.-][A-Z])?)\b/g;
+// "NASDAQ: NVDA", "NYSE:BRK.B"
+const EXCHANGE_TICKER = /\b(?:NYSE|NASDAQ|Nasdaq|NYSEARCA|AMEX)\s*:\s*([A-Z]{1,5}(?:[.-][A-Z])?)\b/g;
+// Reuters instrument codes: "(NVDA.O)", "(JPM.N)"
+const RIC_TICKER = /\(([A-Z]{1,5})\.(?:O|OQ|N|K|A)\)/g;
+// Bare dictionary tickers in running text ("NVDA slides")
+const BARE_TICKER = /\b[A-Z]{3,5}\b/g;
+
+const byTicker = new Map(ENTITIES.filter((e) => e.ticker).map((e) => [e.ticker as string, e]));
+const byAlias = new Map<string, EntityDefinition>();
+for (const entity of ENTITIES) for (const name of entity.names) byAlias.set(name, entity);
+const aliasTerms = compileTerms(byAlias.keys());
+
+function normalizeTicker(raw: string): string {
+  return raw.toUpperCase().replace('-', '.');
+}
+
+function tickerEntity(ticker: string): EntityDefinition {
+  return byTicker.get(ticker) ?? { id: ticker, name: ticker, type: 'ticker', ticker, names: [] };
+}
+
+/**
+ * Entities mentioned in a headline, each once, in order of first mention.
+ * Names match case-insensitively on word boundaries; tickers match as cashtags, exchange or RIC codes, or bare
+ * when they are dictionary tickers that are not everyday words. Unknown cashtags become `ticker` entities.
+ */
+export function extractEntities(headline: string): EntityMention[] {
+  const found: { entity: EntityDefinition; text: string; start: number }[] = [];
+
+  for (const span of findMatches(headline, aliasTerms)) {
+    const entity = byAlias.get(span.term);
+    if (entity) found.push({ entity, text: span.text, start: span.start });
+  }
+  for (const pattern of [CASHTAG, EXCHANGE_TICKER, RIC_TICKER]) {
+    for (const match of headline.matchAll(pattern)) {
+      found.push({ entity: tickerEntity(normalizeTicker(match[1])), text: match[0], start: match.index ?? 0 });
+    }
+  }
+  // All-caps headlines ("STOCKS RALLY") would turn every word into a ticker candidate
+  if (/[a-z]/.test(headline)) {
+    for (const match of headline.matchAll(BARE_TICKER)) {
+      const entity = byTicker.get(match[0]);
+      if (entity && !AMBIGUOUS_TICKERS.has(match[0])) found.push({ entity, text: match[0], start: match.index ?? 0 });
+    }
+  }
+
+  found.sort((a, b) => a.start - b.start);
+  const seen = new Set<string>();
+  const mentions: EntityMention[] = [];
+  for (const { entity, text } of found) {
+    if (seen.has(entity.id)) continue;
+    seen.add(entity.id);
+    mentions.push({ entity, text });
+  }
+  return mentions;
+}
+
+/**
+ * Resolve a user-supplied entity reference (id, ticker, cashtag or name) to a dictionary entity.
+ * Ticker-shaped references outside the dictionary resolve to an ad-hoc `ticker` entity.
+ */
+export function resolveEntity(query: string): EntityDefinition | undefined {
+  const trimmed = query.trim();
+  const ticker = normalizeTicker(trimmed.replace(/^\$/, ''));
+  if (byTicker.has(ticker)) return byTicker.get(ticker);
+  const lower = trimmed.toLowerCase();
+  const named = ENTITIES.find(
+    (e) => e.id === lower || e.name.toLowerCase() === lower || e.names.some((n) => n.toLowerCase() === lower),
+  );
+  if (named) return named;
+  return /^\$?[A-Za-z]{1,5}(?:[.-][A-Za-z])?$/.test(trimmed) ? tickerEntity(ticker) : undefined;
+}
+
+interface EntityAccumulator {
+  entity: EntityDefinition;
+  headlines: (HeadlineRecord & { date: string })[];
+  daily: Map<string, number>;
+}
+
+export async function analyzeEntitySentiment(
+  start: string,
+  end: string,
+  opts: EntitySentimentOptions = {},
+): Promise<EntitySentimentResult> {
+  if (start > end) {
+    throw new AnalysisError('start must not be after end.', ErrorCode.InvalidParams);
+  }
+  const days = dayRange(start, end);
+  if (days.length > MAX_ENTITY_DAYS) {
+    throw new AnalysisError(
+      `Requested range spans ${days.length} days; the limit is ${MAX_ENTITY_DAYS}.`,
+      ErrorCode.InvalidParams,
+    );
+  }
+  const limit = opts.limit ?? DEFAULT_ENTITY_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_ENTITY_LIMIT) {
+    throw new AnalysisError(`limit must be an integer between 1 and ${MAX_ENTITY_LIMIT}.`, ErrorCode.InvalidParams);
+  }
+
+  let filter: Set<string> | undefined;
+  const accumulators = new Map<string, EntityAccumulator>();
+  if (opts.entities?.length) {
+    filter = new Set();
+    for (const query of opts.entities) {
+      const entity = resolveEntity(query);
+      if (!entity) {
+        throw new AnalysisError(`Unknown entity "${query}". Use a ticker, a dictionary name or an entity id.`, ErrorCode.InvalidParams);
+      }
+      filter.add(entity.id);
+      // Requested entities are reported even when nothing mentions them
+      accumulators.set(entity.id, { entity, headlines: [], daily: new Map() });
+    }
+  }
+
+  const lexicon = getLexiconPack(opts.lexicon);
+  let fromStore = 0;
+  let requestsMade = 0;
+  let analyzed = 0;
+  let withEntities = 0;
+  let lexiconDiagnostics: LexiconDiagnostics = { id: lexicon.id, version: lexicon.version };
+
+  for (const day of days) {
+    const { result, headlines } = await analyzeDailySample(day, opts);
+    if (result.diagnostics.store.hit) fromStore += 1;
+    requestsMade += result.diagnostics.token_budget.requests_made;
+    lexiconDiagnostics = result.diagnostics.lexicon;
+    analyzed += headlines.length;
+
+    for (const record of headlines) {
+      const mentions = extractEntities(record.title).filter((m) => !filter || filter.has(m.entity.id));
+      if (mentions.length) withEntities += 1;
+      for (const { entity } of mentions) {
+        const acc: EntityAccumulator = accumulators.get(entity.id) ?? { entity, headlines: [], daily: new Map() };
+        acc.headlines.push({ ...record, date: day });
+        acc.daily.set(day, (acc.daily.get(day) ?? 0) + 1);
+        accumulators.set(entity.id, acc);
+      }
+    }
+  }
+
+  const entities = [...accumulators.values()]
+    .sort((a, b) => b.headlines.length - a.headlines.length || a.entity.id.localeCompare(b.entity.id))
+    .slice(0, limit)
+    .map(({ entity, headlines, daily }): EntitySentiment => {
+      const titles = headlines.map((h) => h.title);
+      const split: Record<LeaningKey, number> = { left: 0, center: 0, right: 0, other: 0 };
+      for (const h of headlines) split[h.leaning] += 1;
+      return {
+        id: entity.id,
+        name: entity.name,
+        type: entity.type,
+        ...(entity.ticker ? { ticker: entity.ticker } : {}),
+        mentions: headlines.length,
+        share: analyzed ? round2((headlines.length / analyzed) * 100) : 0,
+        sentiment: titles.length
+          ? { investor: scoreInvestor(titles, lexicon).score, general: scoreGeneral(titles) }
+          : { investor: null, general: null },
+        leaning_split: split,
+        daily_mentions: days.map((date) => ({ date, mentions: daily.get(date) ?? 0 })),
+        sample_headlines: headlines.slice(0, SAMPLE_HEADLINES).map((h) => ({
+          title: h.title,
+          source: h.sourceName,
+          leaning: h.leaning,
+          date: h.date,
+        })),
+      };
+    });
+
+  return {
+    date_range: { start, end },
+    days: { requested: days.length, from_store: fromStore, fetched: days.length - fromStore },
+    headlines_analyzed: analyzed,
+    headlines_with_entities: withEntities,
+    entities,
+    diagnostics: {
+      requests_made: requestsMade,
+      lexicon: lexiconDiagnostics,
+    },
+  };
+}
@@ -0,0 +1,225 @@
+import axios, { AxiosError, type AxiosResponse, type InternalAxiosRequestConfig } from 'axios';
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { getConfig } from '../config.js';
+
+/**
+ * HTTP transport for EventRegistry.
+ * Every EventRegistry call (article search, source suggestions) goes through an axios instance from here, which
+ * can record raw responses to fixture files (NEWS_API_RECORD_DIR) or replay them offline (NEWS_API_REPLAY_DIR).
+ */
+
+export type EventRegistryHttp = ReturnType<typeof axios.create>;
+
+export interface FixtureRequest {
+  method: string;
+  path: string;
+  params: Record<string, unknown>;
+  body: unknown;
+}
+
+export interface FixtureResponse {
+  status: number;
+  headers?: Record<string, string>;
+  data: unknown;
+}
+
+/**
+ * On-disk fixture. `responses` lets a fixture script a sequence (e.g. a 503 followed by a 200);
+ * the last entry repeats once the sequence is exhausted.
+ */
+export interface Fixture {
+  request: FixtureRequest;
+  response?: FixtureResponse;
+  responses?: FixtureResponse[];
+}
+
+export interface EventRegistryHttpOptions {
+  baseURL?: string;
+  timeout?: number;
+  recordDir?: string;
+  replayDir?: string;
+}
+
+// Never persisted or used for matching
+const SECRET_PARAMS = new Set(['apiKey']);
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {};
+    for (const key of Object.keys(value as Record<string, unknown>).sort()) {
+      const v = (value as Record<string, unknown>)[key];
+      if (v !== undefined) out[key] = canonicalize(v);
+    }
+    return out;
+  }
+  return value;
+}
+
+function stripSecrets(params: Record<string, unknown> | undefined): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(params ?? {})) {
+    if (!SECRET_PARAMS.has(key)) out[key] = value;
+  }
+  return out;
+}
+
+/**
+ * Stable content key for a request: method, path (relative to the API base), params without secrets, and JSON body.
+ */
+export function fixtureKey(request: FixtureRequest): string {
+  const canonical = JSON.stringify(
+    canonicalize({
+      method: request.method.toUpperCase(),
+      path: request.path.replace(/^\/+/, ''),
+      params: stripSecrets(request.params),
+      body: request.body ?? null,
+    }),
+  );
+  return createHash('sha1').update(canonical).digest('hex');
+}
+
+function toFixtureRequest(config: InternalAxiosRequestConfig): FixtureRequest {
+  let body: unknown = config.data ?? null;
+  if (typeof body === 'string') {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      /* keep raw string */
+    }
+  }
+  return {
+    method: (config.method ?? 'get').toUpperCase(),
+    path: (config.url ?? '').replace(/^\/+/, ''),
+    params: stripSecrets(config.params),
+    body,
+  };
+}
+
+/**
+ * Write a fixture file named `<path-slug>-<key>.json`. Used by record mode and by tests that author fixtures.
+ */
+export function writeFixture(dir: string, request: FixtureRequest, response: FixtureResponse | FixtureResponse[]): string {
+  mkdirSync(dir, { recursive: true });
+  const normalized = { ...request, params: stripSecrets(request.params) };
+  const key = fixtureKey(normalized);
+  const slug = normalized.path.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'root';
+  const filePath = path.join(dir, `${slug}-${key.slice(0, 12)}.json`);
+  const fixture: Fixture = Array.isArray(response)
+    ? { request: normalized, responses: response }
+    : { request: normalized, response };
+  writeFileSync(filePath, JSON.stringify(fixture, null, 2), 'utf-8');
+  return filePath;
+}
+
+function loadFixtures(dir: string): Map<string, FixtureResponse[]> {
+  const index = new Map<string, FixtureResponse[]>();
+  if (!existsSync(dir)) return index;
+  for (const file of readdirSync(dir)) {
+    if (!file.endsWith('.json')) continue;
+    const fixture = JSON.parse(readFileSync(path.join(dir, file), 'utf-8')) as Fixture;
+    const responses = fixture.responses ?? (fixture.response ? [fixture.response] : []);
+    if (fixture.request && responses.length) {
+      index.set(fixtureKey(fixture.request), responses);
+    }
+  }
+  return index;
+}
+
+/**
+ * Axios adapter that answers from fixture files instead of the network.
+ * Non-2xx fixtures reject with an AxiosError carrying the response, exactly like a live error.
+ */
+function createReplayAdapter(dir: string) {
+  let index: Map<string, FixtureResponse[]> | undefined;
+  const served = new Map<string, number>();
+
+  return async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    // Loaded lazily so fixtures written after the client is created are still visible
+    index ??= loadFixtures(dir);
+    const request = toFixtureRequest(config);
+    const key = fixtureKey(request);
+    const responses = index.get(key);
+    if (!responses) {
+      throw new AxiosError(
+        `No EventRegistry fixture for ${request.method} ${request.path} (key ${key.slice(0, 12)}) in ${dir}`,
+        'ERR_FIXTURE_MISSING',
+        config,
+      );
+    }
+
+    const count = served.get(key) ?? 0;
+    served.set(key, count + 1);
+    const fixture = responses[Math.min(count, responses.length - 1)];
+    const response: AxiosResponse = {
+      data: fixture.data,
+      status: fixture.status,
+      statusText: String(fixture.status),
+      headers: fixture.headers ?? {},
+      config,
+    };
+
+    if (fixture.status >= 200 && fixture.status < 300) return response;
+    throw new AxiosError(
+      `Request failed with status code ${fixture.status}`,
+      fixture.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      undefined,
+      response,
+    );
+  };
+}
+
+function recordResponse(dir: string, response: AxiosResponse) {
+  const headers: Record<string, string> = {};
+  for (const [key, value] of Object.entries(response.headers ?? {})) {
+    if (typeof value === 'string') headers[key] = value;
+  }
+  writeFixture(dir, toFixtureRequest(response.config), {
+    status: response.status,
+    headers,
+    data: response.data,
+  });
+}
+
+/**
+ * Create an EventRegistry axios instance. Defaults come from config; record/replay directories
+ * can also be passed explicitly (tests, scripts).
+ */
+export function createEventRegistryHttp(opts: EventRegistryHttpOptions = {}): EventRegistryHttp {
+  const cfg = getConfig();
+  const replayDir = opts.replayDir ?? cfg.newsApiReplayDir;
+  const recordDir = opts.recordDir ?? cfg.newsApiRecordDir;
+
+  const instance = axios.create({
+    baseURL: opts.baseURL ?? cfg.newsApiBaseUrl,
+    timeout: opts.timeout ?? 30000,
+    ...(replayDir ? { adapter: createReplayAdapter(path.resolve(replayDir)) } : {}),
+  });
+
+  if (recordDir) {
+    const dir = path.resolve(recordDir);
+    instance.interceptors.response.use(
+      (response) => {
+        recordResponse(dir, response);
+        return response;
+      },
+      (error) => {
+        if (error?.response) recordResponse(dir, error.response);
+        return Promise.reject(error);
+      },
+    );
+  }
+
+  return instance;
+}
+
+let shared: EventRegistryHttp | undefined;
+
+/** Process-wide EventRegistry transport built from config. */
+export function getEventRegistryHttp(): EventRegistryHttp {
+  shared ??= createEventRegistryHttp();
+  return shared;
+}
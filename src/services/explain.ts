@@ -0,0 +1,141 @@
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import type { LeaningKey } from '../types.js';
+import { round2 } from '../utils/normalize.js';
+import {
+  AnalysisError,
+  analyzeDailySample,
+  type AnalyzeHeadlinesResult,
+  type DailyAnalysisOptions,
+  type LexiconDiagnostics,
+} from './analysis.js';
+import { getLexiconPack } from './lexicon.js';
+import { matchLexicon } from './matcher.js';
+import { evaluateHeadlineRelevance } from './relevance.js';
+import { sentimentBreakdown } from './scoring.js';
+
+/**
+ * Per-headline breakdown of a daily analysis: every sampled headline with the relevance, investor lexicon and
+ * general sentiment inputs behind the day's scores, paginated to stay within MCP response limits.
+ * Stored days are explained from their persisted sample without spending tokens.
+ */
+
+export interface InvestorHit {
+  term: string;
+  text: string; // as matched in the headline
+  weight: number; // lexicon weight
+  negated: boolean;
+  contribution: number; // weight with negation applied
+}
+
+export interface HeadlineExplanation {
+  index: number; // position in the day's sample (0-based)
+  title: string;
+  source: string;
+  source_id: string;
+  leaning: LeaningKey;
+  published_date: string;
+  url?: string;
+  relevance: { score: number; matched_terms: string[] };
+  investor: { weight: number; hits: InvestorHit[] };
+  general: { comparative: number; positive_words: string[]; negative_words: string[] };
+}
+
+export interface ExplainHeadlinesResult {
+  date: string;
+  overall: {
+    headlines_analyzed: number;
+    // scores as reported by analyze_headlines, with the per-headline means they were normalized from
+    general: { score: number; mean_comparative: number };
+    investor: { score: number; mean_weight: number };
+  };
+  page: number;
+  page_size: number;
+  total_pages: number;
+  headlines: HeadlineExplanation[];
+  diagnostics: {
+    token_budget: AnalyzeHeadlinesResult['diagnostics']['token_budget'];
+    store: AnalyzeHeadlinesResult['diagnostics']['store'];
+    lexicon: LexiconDiagnostics;
+  };
+}
+
+export interface ExplainHeadlinesOptions extends DailyAnalysisOptions {
+  page?: number; // 1-based
+  pageSize?: number;
+}
+
+export const DEFAULT_EXPLAIN_PAGE_SIZE = 25;
+export const MAX_EXPLAIN_PAGE_SIZE = 100;
+
+export async function explainHeadlines(date: string, opts: ExplainHeadlinesOptions = {}): Promise<ExplainHeadlinesResult> {
+  const page = opts.page ?? 1;
+  const pageSize = opts.pageSize ?? DEFAULT_EXPLAIN_PAGE_SIZE;
+  if (!Number.isInteger(page) || page < 1) {
+    throw new AnalysisError('page must be a positive integer.', ErrorCode.InvalidParams);
+  }
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_EXPLAIN_PAGE_SIZE) {
+    throw new AnalysisError(`pageSize must be an integer between 1 and ${MAX_EXPLAIN_PAGE_SIZE}.`, ErrorCode.InvalidParams);
+  }
+
+  const { result, headlines: records } = await analyzeDailySample(date, opts);
+  const lexicon = getLexiconPack(opts.lexicon);
+
+  const comparatives: number[] = [];
+  const explained = records.map((record, index): HeadlineExplanation => {
+    const relevance = evaluateHeadlineRelevance(record.title, lexicon);
+    const hits = matchLexicon(record.title, lexicon).sentiment.map((span): InvestorHit => {
+      const weight = lexicon.sentiment[span.term] ?? 0;
+      return {
+        term: span.term,
+        text: span.text,
+        weight,
+        negated: span.negated,
+        contribution: span.negated ? -weight : weight,
+      };
+    });
+    const general = sentimentBreakdown(record.title);
+    comparatives.push(general.comparative);
+    return {
+      index,
+      title: record.title,
+      source: record.sourceName,
+      source_id: record.sourceId,
+      leaning: record.leaning,
+      published_date: record.publishedDate,
+      ...(record.url ? { url: record.url } : {}),
+      relevance: { score: relevance.score, matched_terms: relevance.matchedTerms },
+      investor: { weight: hits.reduce((sum, hit) => sum + hit.contribution, 0), hits },
+      general: {
+        comparative: round2(general.comparative),
+        positive_words: general.positive,
+        negative_words: general.negative,
+      },
+    };
+  });
+
+  const mean = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+  return {
+    date: result.date,
+    overall: {
+      headlines_analyzed: records.length,
+      general: {
+        score: result.overall_sentiment.general.score,
+        mean_comparative: round2(mean(comparatives)),
+      },
+      investor: {
+        score: result.overall_sentiment.investor.score,
+        mean_weight: round2(mean(explained.map((h) => h.investor.weight))),
+      },
+    },
+    page,
+    page_size: pageSize,
+    total_pages: Math.ceil(records.length / pageSize),
+    headlines: explained.slice((page - 1) * pageSize, page * pageSize),
+    diagnostics: {
+      token_budget: result.diagnostics.token_budget,
+      store: result.diagnostics.store,
+      lexicon: result.diagnostics.lexicon,
+    },
+  };
+}
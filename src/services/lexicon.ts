@@ -0,0 +1,167 @@
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { getConfig } from '../config.js';
+import { INVESTOR_LEXICON } from '../constants/lexicon.js';
+import { INVESTOR_RELEVANCE } from '../constants/relevance.js';
+import { logger } from '../logger.js';
+
+/**
+ * Lexicon packs: versioned relevance + sentiment vocabularies (investor default, real estate, crypto, ...).
+ * Packs are JSON or YAML files in lexicons/ (override with LEXICON_DIR); LEXICON_PACK picks the default.
+ * The investor-default pack is built in from the original constants, so the server works without any files.
+ */
+
+export interface LexiconPack {
+  id: string;
+  version: string;
+  description?: string;
+  relevance: {
+    inclusion: Record<string, number>; // term -> relevance weight; a headline is relevant when the sum is > 0
+    exclusion: string[]; // any match disqualifies the headline
+  };
+  sentiment: Record<string, number>; // term -> investor sentiment weight (roughly -2..2)
+}
+
+export interface LexiconPackInfo {
+  id: string;
+  version: string;
+  description?: string;
+  source: string; // 'builtin' or the pack file path
+}
+
+export const DEFAULT_LEXICON_ID = 'investor-default';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const PROJECT_ROOT = path.resolve(__dirname, '..', '..');
+const DEFAULT_LEXICON_DIR = path.join(PROJECT_ROOT, 'lexicons');
+
+const PACK_EXTENSIONS = new Set(['.json', '.yaml', '.yml']);
+
+const WeightsSchema = z.record(z.number());
+
+const LexiconPackSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'id must be lowercase kebab-case'),
+  version: z.string().min(1),
+  description: z.string().optional(),
+  relevance: z.object({
+    inclusion: WeightsSchema,
+    exclusion: z.array(z.string()).default([]),
+  }),
+  sentiment: WeightsSchema,
+});
+
+const BUILTIN_PACK: LexiconPack = {
+  id: DEFAULT_LEXICON_ID,
+  version: '1.0.0',
+  description: 'US equities and macro coverage (built-in)',
+  relevance: {
+    inclusion: { ...INVESTOR_RELEVANCE.inclusion },
+    exclusion: [...INVESTOR_RELEVANCE.exclusion],
+  },
+  sentiment: { ...INVESTOR_LEXICON },
+};
+
+interface LoadedPacks {
+  packs: Map<string, LexiconPack>;
+  info: Map<string, LexiconPackInfo>;
+}
+
+// Keyed by directory so tests (and LEXICON_DIR changes) see their own packs
+const loaded = new Map<string, LoadedPacks>();
+
+function lexiconDir(): string {
+  const configured = getConfig().lexicon.dir;
+  return configured ? path.resolve(configured) : DEFAULT_LEXICON_DIR;
+}
+
+// The matcher compares lowercase tokens, so pack terms are lowercased too
+function lowercaseKeys(weights: Record<string, number>): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const [term, weight] of Object.entries(weights)) out[term.toLowerCase().trim()] = weight;
+  return out;
+}
+
+function loadPackFile(filePath: string): LexiconPack | undefined {
+  try {
+    const raw = readFileSync(filePath, 'utf-8');
+    const data = path.extname(filePath) === '.json' ? JSON.parse(raw) : parseYaml(raw);
+    const pack = LexiconPackSchema.parse(data);
+    return {
+      ...pack,
+      relevance: {
+        inclusion: lowercaseKeys(pack.relevance.inclusion),
+        exclusion: pack.relevance.exclusion.map((term) => term.toLowerCase().trim()),
+      },
+      sentiment: lowercaseKeys(pack.sentiment),
+    };
+  } catch (err) {
+    logger.warn({ err, filePath }, 'Skipping invalid lexicon pack');
+    return undefined;
+  }
+}
+
+function loadPacks(): LoadedPacks {
+  const dir = lexiconDir();
+  const cached = loaded.get(dir);
+  if (cached) return cached;
+
+  const packs = new Map<string, LexiconPack>([[BUILTIN_PACK.id, BUILTIN_PACK]]);
+  const info = new Map<string, LexiconPackInfo>([[BUILTIN_PACK.id, toInfo(BUILTIN_PACK, 'builtin')]]);
+
+  if (existsSync(dir)) {
+    for (const file of readdirSync(dir).sort()) {
+      if (!PACK_EXTENSIONS.has(path.extname(file))) continue;
+      const filePath = path.join(dir, file);
+      const pack = loadPackFile(filePath);
+      if (!pack) continue;
+      // A file may override the built-in pack by reusing its id
+      packs.set(pack.id, pack);
+      info.set(pack.id, toInfo(pack, filePath));
+    }
+  }
+
+  const result = { packs, info };
+  loaded.set(dir, result);
+  return result;
+}
+
+function toInfo(pack: LexiconPack, source: string): LexiconPackInfo {
+  return {
+    id: pack.id,
+    version: pack.version,
+    ...(pack.description ? { description: pack.description } : {}),
+    source,
+  };
+}
+
+/**
+ * Resolve a pack by id (default: LEXICON_PACK). Unknown ids throw; callers validate user input with hasLexiconPack.
+ */
+export function getLexiconPack(id: string = getConfig().lexicon.pack): LexiconPack {
+  const pack = loadPacks().packs.get(id);
+  if (!pack) {
+    throw new Error(`Unknown lexicon pack "${id}". Available: ${listLexiconPacks().map((p) => p.id).join(', ')}`);
+  }
+  return pack;
+}
+
+export function hasLexiconPack(id: string): boolean {
+  return loadPacks().packs.has(id);
+}
+
+export function listLexiconPacks(): LexiconPackInfo[] {
+  return Array.from(loadPacks().info.values()).sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/** Stable identity recorded with stored scores, e.g. "investor-default@1.0.0". */
+export function lexiconKey(pack: Pick<LexiconPack, 'id' | 'version'>): string {
+  return `${pack.id}@${pack.version}`;
+}
+
+/** Drop cached packs so edited files are picked up (tests, long-running servers). */
+export function resetLexiconCache() {
+  loaded.clear();
+}
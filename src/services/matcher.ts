@@ -0,0 +1,207 @@
+import type { LexiconPack } from './lexicon.js';
+
+/**
+ * Tokenizing lexicon matcher.
+ * Terms match whole tokens (so "fed" never matches "fedex"), compare on light stems (so "rallies" and
+ * "rallied" match "rally"), match multi-word phrases token by token, keep hyphenated compounds as one
+ * token ("game-changing" is not "game"), and mark matches preceded by a negator ("no recession",
+ * "avoids default"). Overlapping matches resolve to the longest phrase.
+ */
+
+export interface Token {
+  text: string; // lowercase surface form
+  stem: string;
+  start: number; // offsets into the original string
+  end: number;
+}
+
+export interface MatchSpan {
+  term: string; // lexicon term
+  text: string; // matched text as it appears in the headline
+  start: number;
+  end: number;
+  negated: boolean;
+}
+
+export interface CompiledTerm {
+  term: string;
+  stems: string[];
+}
+
+export interface LexiconMatches {
+  exclusion?: MatchSpan;
+  inclusion: MatchSpan[];
+  sentiment: MatchSpan[];
+}
+
+// Words that flip the polarity of a term shortly after them (stemmed, see `stem`)
+const NEGATORS = new Set(
+  ['no', 'not', 'never', 'without', 'avoid', 'avert', 'dodge', 'escape', 'prevent', 'deny', 'rule'].map((word) =>
+    stem(word),
+  ),
+);
+// Verbs that only negate with their particle ("rules out"), keyed by stem like NEGATORS
+const PHRASAL_NEGATORS: Record<string, string> = { [stem('rule')]: 'out' };
+const NEGATION_WINDOW = 3;
+const CLAUSE_BREAK = /[,;:.!?]/;
+const TOKEN_PATTERN = /[a-z0-9]+(?:[&'’-][a-z0-9]+)*/g;
+
+/**
+ * Light inflectional stemmer: plurals, -ing/-ed and a trailing silent e. Applied to both terms and
+ * headline tokens, so it only has to be consistent, not linguistically exact.
+ */
+export function stem(word: string): string {
+  let w = word.toLowerCase();
+  if (w.includes('-') || w.includes('&')) {
+    return w
+      .split(/([&-])/)
+      .map((part) => (part === '-' || part === '&' ? part : stem(part)))
+      .join('');
+  }
+  if (w.length <= 3) return w;
+
+  if (w.endsWith('sses')) w = w.slice(0, -2);
+  else if (w.endsWith('ies') && w.length > 4) w = `${w.slice(0, -3)}y`;
+  else if (w.endsWith('s') && !/(ss|us|is)$/.test(w)) w = w.slice(0, -1);
+
+  let stripped = false;
+  if (w.endsWith('ied') && w.length > 4) {
+    w = `${w.slice(0, -3)}y`;
+  } else if (w.endsWith('ing') && w.length - 3 >= 3) {
+    w = w.slice(0, -3);
+    stripped = true;
+  } else if (w.endsWith('ed') && w.length - 2 >= 3) {
+    w = w.slice(0, -2);
+    stripped = true;
+  }
+  if (stripped && /([^aeiouylsz])\1$/.test(w)) w = w.slice(0, -1);
+
+  if (w.endsWith('e') && w.length >= 4) w = w.slice(0, -1);
+  return w;
+}
+
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const lower = (text || '').toLowerCase();
+  for (const match of lower.matchAll(TOKEN_PATTERN)) {
+    let surface = match[0];
+    // possessives: "fed's" is "fed"
+    if (/['’]s$/.test(surface)) surface = surface.slice(0, -2);
+    const start = match.index ?? 0;
+    tokens.push({ text: surface, stem: stem(surface), start, end: start + surface.length });
+  }
+  return tokens;
+}
+
+export function compileTerms(terms: Iterable<string>): CompiledTerm[] {
+  const compiled: CompiledTerm[] = [];
+  for (const term of terms) {
+    const stems = tokenize(term).map((t) => t.stem);
+    if (stems.length) compiled.push({ term, stems });
+  }
+  return compiled;
+}
+
+/**
+ * All non-overlapping term matches in `text`, longest phrase first on overlap, in headline order.
+ */
+export function findMatches(text: string, terms: CompiledTerm[], tokens: Token[] = tokenize(text)): MatchSpan[] {
+  const candidates: { term: string; from: number; to: number }[] = [];
+  for (const compiled of terms) {
+    const n = compiled.stems.length;
+    for (let i = 0; i + n <= tokens.length; i += 1) {
+      let ok = true;
+      for (let k = 0; k < n; k += 1) {
+        if (tokens[i + k].stem !== compiled.stems[k]) {
+          ok = false;
+          break;
+        }
+      }
+      if (ok) candidates.push({ term: compiled.term, from: i, to: i + n - 1 });
+    }
+  }
+
+  candidates.sort((a, b) => b.to - b.from - (a.to - a.from) || a.from - b.from);
+  const taken = new Set<number>();
+  const spans: MatchSpan[] = [];
+  for (const candidate of candidates) {
+    let free = true;
+    for (let i = candidate.from; i <= candidate.to; i += 1) {
+      if (taken.has(i)) {
+        free = false;
+        break;
+      }
+    }
+    if (!free) continue;
+    for (let i = candidate.from; i <= candidate.to; i += 1) taken.add(i);
+    const start = tokens[candidate.from].start;
+    const end = tokens[candidate.to].end;
+    spans.push({
+      term: candidate.term,
+      text: text.slice(start, end),
+      start,
+      end,
+      negated: isNegated(text, tokens, candidate.from),
+    });
+  }
+  return spans.sort((a, b) => a.start - b.start);
+}
+
+function isNegated(text: string, tokens: Token[], index: number): boolean {
+  for (let i = index - 1; i >= 0 && i >= index - NEGATION_WINDOW; i -= 1) {
+    // negation does not carry across clause punctuation
+    if (CLAUSE_BREAK.test(text.slice(tokens[i].end, tokens[i + 1].start))) return false;
+    const token = tokens[i];
+    if (token.text.endsWith("n't") || token.text.endsWith('n’t')) return true;
+    if (!NEGATORS.has(token.stem)) continue;
+    const particle = PHRASAL_NEGATORS[token.stem];
+    if (particle && tokens[i + 1]?.text !== particle) continue;
+    return true;
+  }
+  return false;
+}
+
+interface CompiledLexicon {
+  exclusion: CompiledTerm[];
+  inclusion: CompiledTerm[];
+  sentiment: CompiledTerm[];
+}
+
+const compiledPacks = new WeakMap<LexiconPack, CompiledLexicon>();
+
+function compileLexicon(lexicon: LexiconPack): CompiledLexicon {
+  let compiled = compiledPacks.get(lexicon);
+  if (!compiled) {
+    compiled = {
+      exclusion: compileTerms(lexicon.relevance.exclusion),
+      inclusion: compileTerms(Object.keys(lexicon.relevance.inclusion)),
+      sentiment: compileTerms(Object.keys(lexicon.sentiment)),
+    };
+    compiledPacks.set(lexicon, compiled);
+  }
+  return compiled;
+}
+
+/**
+ * Match a headline against a lexicon pack: the first exclusion hit (in pack order), inclusion spans
+ * and sentiment spans. Headlines are tokenized once.
+ */
+export function matchLexicon(headline: string, lexicon: LexiconPack): LexiconMatches {
+  const compiled = compileLexicon(lexicon);
+  const tokens = tokenize(headline);
+
+  let exclusion: MatchSpan | undefined;
+  for (const term of compiled.exclusion) {
+    const [hit] = findMatches(headline, [term], tokens);
+    if (hit) {
+      exclusion = hit;
+      break;
+    }
+  }
+
+  return {
+    ...(exclusion ? { exclusion } : {}),
+    inclusion: findMatches(headline, compiled.inclusion, tokens),
+    sentiment: findMatches(headline, compiled.sentiment, tokens),
+  };
+}
@@ -1,8 +1,11 @@
-import axios from 'axios';
-import { getConfig } from '../config.js';
+import { getConfig, type FetchStrategy } from '../config.js';
 import type { Article } from '../types.js';
 import { normalizeDate } from '../utils/date.js';
-import { resolveSourceUris } from './sourceResolver.js';
+import { articleCacheKey, articleCacheTtl, getArticleCache, type ArticleCache, type CachedPage } from './articleCache.js';
+import { resolveSourceUriMap } from './sourceResolver.js';
+import { getEventRegistryHttp, type EventRegistryHttp } from './eventRegistryHttp.js';
+import { lookupSource } from './sourceRegistry.js';
+import { logger } from '../logger.js';
 
 /**
  * Raw types matching Event Registry API responses
@@ -14,6 +17,8 @@ type RawArticle = {
   dateTime: string;
   url?: string;
   source: RawSource;
+  eventUri?: string | null;
+  isDuplicate?: boolean;
 };
 type RawResponse = {
   articles?: {
@@ -24,13 +29,26 @@ type RawResponse = {
   };
 };
 
+export type { FetchStrategy };
+
+/**
+ * How sources are split into article searches (FETCH_STRATEGY, or per call):
+ * - pooled: all sources in date-sorted queries (batches of SOURCE_URIS_PER_QUERY); high-volume outlets fill the pages
+ * - perSource: one query per source, so every outlet gets its own first page
+ * - perLeaning: one query per political leaning, so no side of the spectrum is crowded out
+ */
+export const FETCH_STRATEGIES: readonly FetchStrategy[] = ['pooled', 'perSource', 'perLeaning'];
+
 /**
  * Options for pagination and filtering
  */
 export interface FetchOptions {
   sources?: string[]; // list of source names or URIs
-  pageCap?: number; // max number of pages to fetch
+  pageCap?: number; // max number of pages to fetch per query
   language?: string; // defaults to 'eng'
+  strategy?: FetchStrategy; // defaults to 'pooled'
+  // Intraday window (ISO datetimes, end exclusive) within the fetched dates; articles outside it are dropped
+  timeWindow?: { start: string; end: string };
 }
 
 /**
@@ -41,21 +59,133 @@ export interface FetchResult {
   articles: Article[];
   requestCount: number;
   pagesFetched: number;
+  tokensUsed?: number; // tokens EventRegistry charged; absent unless every page reported its cost
+  quotaRemaining?: number; // plan quota left after the last page, as reported by EventRegistry
+  complete: boolean; // false when a page failed after retries, so later pages of that query were never fetched
+  errors: FetchError[];
+  // Queries the page cap cut off before their last page (or the time window start), by source URIs (null when unfiltered)
+  truncated: (string[] | null)[];
+  earliestPublished: string | null; // oldest publish time on the fetched pages, before the time window filter
+  cache: { hits: number; misses: number }; // pages served from the article cache vs requested from EventRegistry
+}
+
+/**
+ * A page that could not be fetched: retries were exhausted or the error was not retryable.
+ */
+export interface FetchError {
+  page: number; // 0 when the search could not be planned (no requested source resolved)
+  sources: string[] | null; // source URIs of the failed query; null when unfiltered
+  status: number | null; // HTTP status; null for timeouts and network errors
+  code: string | null; // transport error code, e.g. ECONNABORTED
+  message: string;
+  attempts: number;
+}
+
+// Transport failures worth retrying: timeouts and dropped connections
+const RETRYABLE_CODES = new Set(['ECONNABORTED', 'ETIMEDOUT', 'ECONNRESET', 'EAI_AGAIN', 'ERR_NETWORK']);
+
+function isRetryable(error: any): boolean {
+  const status = error?.response?.status;
+  if (typeof status === 'number') return status === 429 || status >= 500;
+  return RETRYABLE_CODES.has(error?.code);
+}
+
+/**
+ * Retry-After in ms (delta-seconds or HTTP date), or undefined when absent or unparseable.
+ */
+function retryAfterMs(error: any): number | undefined {
+  const value = error?.response?.headers?.['retry-after'];
+  if (value === undefined || value === null || value === '') return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Usage EventRegistry reports on each response: `req-tokens` is what the request was charged and
+ * `x-ratelimit-remaining` what is left of the plan. Missing headers (e.g. fixtures recorded without them) stay undefined.
+ */
+export function readUsageHeaders(headers: unknown): { tokens?: number; remaining?: number } {
+  const read = (name: string) => {
+    if (!headers || typeof headers !== 'object') return undefined;
+    const entry = Object.entries(headers).find(([key]) => key.toLowerCase() === name);
+    const value = entry ? Number(entry[1]) : NaN;
+    return Number.isFinite(value) && value >= 0 ? value : undefined;
+  };
+  return { tokens: read('req-tokens'), remaining: read('x-ratelimit-remaining') };
+}
+
+const SEARCH_PATH = 'article/getArticles';
+
+// At most this many source URIs go into one query; larger groups are split into several queries
+export const SOURCE_URIS_PER_QUERY = 10;
+
+/**
+ * Split source names into the groups queried separately under `strategy`, each at most SOURCE_URIS_PER_QUERY long.
+ * perLeaning groups by registry leaning (sources outside the registry form an 'other' group).
+ */
+export function planSourceQueries(sources: string[], strategy: FetchStrategy = 'pooled'): string[][] {
+  const groups: string[][] = [];
+  if (strategy === 'perSource') return sources.map((source) => [source]);
+  if (strategy === 'perLeaning') {
+    const byLeaning = new Map<string, string[]>();
+    for (const source of sources) {
+      const leaning = lookupSource(source, source)?.leaning ?? 'other';
+      byLeaning.set(leaning, [...(byLeaning.get(leaning) ?? []), source]);
+    }
+    groups.push(...byLeaning.values());
+  } else {
+    groups.push(sources);
+  }
+  return groups.flatMap((group) => {
+    const batches: string[][] = [];
+    for (let i = 0; i < group.length; i += SOURCE_URIS_PER_QUERY) batches.push(group.slice(i, i + SOURCE_URIS_PER_QUERY));
+    return batches;
+  });
+}
+
+/**
+ * Upper bound on search requests (pages) for a fetch over `sources`, for token estimates before the fetch.
+ */
+export function searchRequestsPlanned(sources: string[], pageCap: number, strategy: FetchStrategy = 'pooled'): number {
+  return Math.max(1, planSourceQueries(sources, strategy).length) * pageCap;
+}
+
+/**
+ * Whether a page (newest first, as searches are date-sorted) reaches back before `start`, so later pages of its
+ * query would only hold older articles.
+ */
+function reachesBefore(articles: Article[], start: string | undefined): boolean {
+  if (!start || !articles.length) return false;
+  const oldest = articles[articles.length - 1].publishedAt;
+  return !!oldest && Date.parse(oldest) < Date.parse(start);
+}
+
+function earliestPublished(articles: Article[]): string | null {
+  const times = articles.map((article) => Date.parse(article.publishedAt ?? '')).filter((t) => !Number.isNaN(t));
+  return times.length ? new Date(Math.min(...times)).toISOString() : null;
+}
+
+function inWindow(article: Article, window: { start: string; end: string }): boolean {
+  if (!article.publishedAt) return false;
+  const at = Date.parse(article.publishedAt);
+  return at >= Date.parse(window.start) && at < Date.parse(window.end);
 }
 
 export class NewsApiClient {
-  private axios: ReturnType<typeof axios.create>;
+  private axios: EventRegistryHttp;
   private readonly pageSize = 100;
+  private readonly retry = getConfig().newsApiRetry;
 
-  constructor(private readonly apiKey = getConfig().newsApiKey) {
-    if (!apiKey) {
+  /**
+   * @param http optional transport (e.g. a replay instance from eventRegistryHttp.ts); defaults to the shared one
+   */
+  constructor(private readonly apiKey = getConfig().newsApiKey, http?: EventRegistryHttp) {
+    if (!apiKey && !getConfig().newsApiReplayDir) {
       throw new Error('NEWS_API_KEY is required to initialize NewsApiClient');
     }
-    const cfg = getConfig();
-    this.axios = axios.create({
-      baseURL: cfg.newsApiBaseUrl,
-      timeout: 30000,
-    });
+    this.axios = http ?? getEventRegistryHttp();
   }
 
   /**
@@ -76,79 +206,247 @@ export class NewsApiClient {
   }
 
   /**
-   * Core method to fetch articles by date range using Event Registry API
+   * The same fetch answered entirely from the article cache, or undefined if any page would need a request.
+   * Callers use it to skip budget reservations for searches that were already paid for.
    */
-  private async fetchArticlesByDate(startDate: string, endDate: string, opts: FetchOptions = {}): Promise<FetchResult> {
-    const language = opts.language ?? 'eng';
+  async fetchCachedRange(start: string, end: string, opts: FetchOptions = {}): Promise<FetchResult | undefined> {
+    return this.fetchArticlesByDate(start, end, opts, true);
+  }
+
+  /**
+   * Upper bound on the pages the same fetch would still request from EventRegistry: each query's pages up to the
+   * page cap, less those the article cache already holds. Callers reserve budget for these pages only.
+   */
+  async uncachedPagesPlanned(start: string, end: string, opts: FetchOptions = {}): Promise<number> {
     const pageCap = Math.max(1, opts.pageCap ?? 10);
-    const results: Article[] = [];
-    // Resolve curated source names to Event Registry URIs once per request
-    let sourceUris: string[] | undefined;
-    if (opts.sources && opts.sources.length > 0) {
-      try {
-        // Temporary safety cap to limit suggestSourcesFast calls during initial runs
-        sourceUris = await resolveSourceUris(opts.sources.slice(0, 10));
-      } catch (e: any) {
-        console.error('[NewsApiClient] source resolve failed:', e?.message ?? String(e));
+    const cache = await getArticleCache();
+    if (!cache) return searchRequestsPlanned(opts.sources ?? [], pageCap, opts.strategy);
+    const language = opts.language ?? 'eng';
+    let planned = 0;
+    for (const sourceUris of (await this.sourceQueries(opts)).queries) {
+      for (let page = 1; page <= pageCap; page++) {
+        const cached = await cache.get(articleCacheKey(SEARCH_PATH, this.pageBody(start, end, language, page, sourceUris)));
+        if (!cached) {
+          planned += pageCap - page + 1;
+          break;
+        }
+        if (cached.last || reachesBefore(cached.articles, opts.timeWindow?.start)) break;
       }
     }
+    return planned;
+  }
+
+  /**
+   * Core method to fetch articles by date range using Event Registry API.
+   * Every resolved source is queried, grouped by `strategy` (see planSourceQueries). Pages are fetched round-robin
+   * across the queries, so each group gets its first page before any group gets a second.
+   * Each page is looked up in the article cache first; with `cacheOnly` the first miss ends the fetch with undefined.
+   */
+  private async fetchArticlesByDate(startDate: string, endDate: string, opts: FetchOptions, cacheOnly: true): Promise<FetchResult | undefined>;
+  private async fetchArticlesByDate(startDate: string, endDate: string, opts?: FetchOptions): Promise<FetchResult>;
+  private async fetchArticlesByDate(
+    startDate: string,
+    endDate: string,
+    opts: FetchOptions = {},
+    cacheOnly = false,
+  ): Promise<FetchResult | undefined> {
+    const cache = await getArticleCache();
+    if (cacheOnly && !cache) return undefined;
+    const language = opts.language ?? 'eng';
+    const pageCap = Math.max(1, opts.pageCap ?? 10);
+    const { queries, error: planError } = await this.sourceQueries(opts);
 
-    let page = 1;
+    const results: Article[] = [];
+    // An unfiltered fallback search is not what the caller asked for, so it never counts as complete
+    const errors: FetchError[] = planError ? [planError] : [];
+    const cacheStats = { hits: 0, misses: 0 };
+    let requestCount = 0;
     let pagesFetched = 0;
-    while (page <= pageCap) {
-      try {
-        const body: any = {
-          resultType: 'articles',
-          dateStart: startDate,
-          dateEnd: endDate,
-          lang: language,
-          articlesPage: page,
-          articlesCount: this.pageSize,
-          articlesSortBy: 'date',
-          articleBodyLen: 0, // Don't need full body
-        };
-        const query = { apiKey: this.apiKey };
+    let tokensUsed: number | undefined = 0;
+    let quotaRemaining: number | undefined;
+    const open = new Set(queries.keys());
+    for (let page = 1; page <= pageCap && open.size > 0; page++) {
+      for (const index of [...open]) {
+        const body = this.pageBody(startDate, endDate, language, page, queries[index]);
+        const key = articleCacheKey(SEARCH_PATH, body);
+        const cached = await cache?.get(key);
+        if (cached) {
+          cacheStats.hits++;
+          results.push(...cached.articles);
+          pagesFetched++;
+          if (cached.last || reachesBefore(cached.articles, opts.timeWindow?.start)) open.delete(index);
+          continue;
+        }
+        if (cacheOnly) return undefined;
 
-        // Add source filtering if provided (resolved to canonical URIs)
-        if (sourceUris && sourceUris.length > 0) {
-          body.sourceUri = sourceUris;
+        cacheStats.misses++;
+        const fetched = await this.fetchPage(body, page, queries[index]);
+        requestCount += fetched.attempts;
+        if ('error' in fetched) {
+          errors.push(fetched.error);
+          open.delete(index);
+          continue;
         }
+        await this.cachePage(cache, key, { articles: fetched.articles, last: fetched.last }, endDate);
+        results.push(...fetched.articles);
+        pagesFetched++;
+        // One unreported page makes the total unknown; callers then fall back to the estimate
+        tokensUsed =
+          tokensUsed === undefined || fetched.usage.tokens === undefined ? undefined : tokensUsed + fetched.usage.tokens;
+        quotaRemaining = fetched.usage.remaining ?? quotaRemaining;
+        if (fetched.last || reachesBefore(fetched.articles, opts.timeWindow?.start)) open.delete(index);
+      }
+    }
 
-        // Build request with safe logging (do not log apiKey)
-        const reqPath = 'article/getArticles';
-        try {
-          const preview = { ...body, sourceUri: Array.isArray(body.sourceUri) ? `uris:${body.sourceUri.length}` : undefined };
-          console.log(`[NewsApiClient] POST ${this.axios.defaults.baseURL}${reqPath} body=${JSON.stringify(preview)}`);
-        } catch {}
-        const { data } = await this.axios.post<RawResponse>(reqPath, body, { params: query });
+    return {
+      articles: opts.timeWindow ? results.filter((article) => inWindow(article, opts.timeWindow!)) : results,
+      requestCount,
+      pagesFetched,
+      ...(pagesFetched > 0 && tokensUsed !== undefined ? { tokensUsed } : {}),
+      ...(quotaRemaining !== undefined ? { quotaRemaining } : {}),
+      complete: errors.length === 0,
+      errors,
+      truncated: [...open].map((index) => queries[index] ?? null),
+      earliestPublished: earliestPublished(results),
+      cache: cacheStats,
+    };
+  }
 
-        if (!data.articles || !data.articles.results) break;
+  /**
+   * Source URI groups searched separately (see planSourceQueries); a single unfiltered query when no source is
+   * requested. Curated source names are resolved to Event Registry URIs once per request. When none of the requested
+   * sources resolves, the search still runs unfiltered but carries a SOURCES_UNRESOLVED error.
+   */
+  private async sourceQueries(opts: FetchOptions): Promise<{ queries: (string[] | undefined)[]; error?: FetchError }> {
+    if (!opts.sources || opts.sources.length === 0) return { queries: [undefined] };
+    let reason: string;
+    try {
+      const uris = await resolveSourceUriMap(opts.sources, {
+        http: this.axios,
+        apiKey: this.apiKey,
+      });
+      const resolved = planSourceQueries(opts.sources, opts.strategy)
+        .map((group) => [...new Set(group.flatMap((source) => uris.get(source) ?? []))])
+        .filter((group) => group.length > 0);
+      if (resolved.length) return { queries: resolved };
+      reason = 'no requested source resolved to an Event Registry URI';
+    } catch (e: any) {
+      reason = `source resolve failed: ${e?.message ?? String(e)}`;
+    }
+    logger.warn({ sources: opts.sources, reason }, 'Searching without a source filter');
+    return {
+      queries: [undefined],
+      error: {
+        page: 0,
+        sources: null,
+        status: null,
+        code: 'SOURCES_UNRESOLVED',
+        message: `Searched all sources: ${reason}`,
+        attempts: 0,
+      },
+    };
+  }
 
-        const mapped = data.articles.results.map(this.mapArticle);
-        results.push(...mapped);
-        pagesFetched++;
+  /**
+   * Article search body for one page (optionally restricted to `sourceUris`); also the article cache key.
+   */
+  private pageBody(
+    startDate: string,
+    endDate: string,
+    language: string,
+    page: number,
+    sourceUris?: string[],
+  ): Record<string, unknown> {
+    return {
+      resultType: 'articles',
+      dateStart: startDate,
+      dateEnd: endDate,
+      lang: language,
+      articlesPage: page,
+      articlesCount: this.pageSize,
+      articlesSortBy: 'date',
+      articleBodyLen: 0, // Don't need full body
+      // Source filtering, resolved to canonical URIs
+      ...(sourceUris && sourceUris.length > 0 ? { sourceUri: sourceUris } : {}),
+    };
+  }
+
+  /**
+   * Keep a fetched page: for good once `endDate` has closed, briefly while the range still includes today.
+   */
+  private async cachePage(cache: ArticleCache | undefined, key: string, page: CachedPage, endDate: string) {
+    const ttl = articleCacheTtl(endDate);
+    if (!cache || ttl === 0) return;
+    await cache.set(key, page, ttl);
+  }
+
+  /**
+   * One page of an article search with the usage EventRegistry reported.
+   * 429s, 5xx responses and timeouts are retried with exponential backoff and full jitter, waiting for Retry-After
+   * when the server sends one. `attempts` counts every request made; `last` when no further page exists.
+   */
+  private async fetchPage(
+    body: Record<string, any>,
+    page: number,
+    sourceUris?: string[],
+  ): Promise<
+    | { articles: Article[]; last: boolean; usage: ReturnType<typeof readUsageHeaders>; attempts: number }
+    | { error: FetchError; attempts: number }
+  > {
+    const query = { apiKey: this.apiKey };
+    const { dateStart: startDate, dateEnd: endDate } = body;
+
+    // Build request with safe logging (do not log apiKey)
+    const reqPath = SEARCH_PATH;
+    try {
+      const preview = { ...body, sourceUri: Array.isArray(body.sourceUri) ? `uris:${body.sourceUri.length}` : undefined };
+      console.log(`[NewsApiClient] POST ${this.axios.defaults.baseURL}${reqPath} body=${JSON.stringify(preview)}`);
+    } catch {}
 
-        if (data.articles.results.length < this.pageSize || page >= data.articles.pages) break;
-        page++;
+    const failed = (attempts: number, status: number | null, code: string | null, message: string) => {
+      const error: FetchError = { page, sources: sourceUris ?? null, status, code, message, attempts };
+      logger.warn({ ...error, startDate, endDate }, 'EventRegistry page failed');
+      return { error, attempts };
+    };
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const { data, headers } = await this.axios.post<RawResponse & { error?: string }>(reqPath, body, { params: query });
+        // EventRegistry reports some failures (bad key, exhausted plan) as a 200 with an error message
+        if (data?.error) return failed(attempt, null, null, data.error);
+
+        const results = data?.articles?.results ?? [];
+        return {
+          articles: results.map(this.mapArticle),
+          last: results.length < this.pageSize || page >= (data?.articles?.pages ?? page),
+          usage: readUsageHeaders(headers),
+          attempts: attempt,
+        };
       } catch (error: any) {
-        const status = error?.response?.status;
-        const statusText = error?.response?.statusText;
-        console.error(`[NewsApiClient] Error page ${page}: status=${status ?? 'n/a'} ${statusText ?? ''} message=${error?.message ?? String(error)}`);
-        const body = error?.response?.data;
-        if (body) {
-          try {
-            console.error('[NewsApiClient] Response body snippet:', JSON.stringify(body).slice(0, 500));
-          } catch {}
+        const status: number | null = error?.response?.status ?? null;
+        const delay = this.retryDelay(error, attempt);
+        if (delay === undefined) {
+          const detail = error?.response?.data?.error;
+          return failed(attempt, status, error?.code ?? null, detail ? String(detail) : error?.message ?? String(error));
         }
-        break;
+        logger.info({ page, status, code: error?.code, attempt, delayMs: Math.round(delay) }, 'Retrying EventRegistry page');
+        await new Promise((resolve) => setTimeout(resolve, delay));
       }
     }
+  }
 
-    return {
-      articles: results,
-      requestCount: pagesFetched,
-      pagesFetched,
-    };
+  /**
+   * Wait before the next attempt, or undefined to give up: the error is not retryable, retries are exhausted, or
+   * Retry-After asks for longer than NEWS_API_RETRY_MAX_MS.
+   */
+  private retryDelay(error: any, attempt: number): number | undefined {
+    if (attempt > this.retry.retries || !isRetryable(error)) return undefined;
+    const retryAfter = retryAfterMs(error);
+    if (retryAfter !== undefined) {
+      return retryAfter <= this.retry.maxDelayMs ? retryAfter : undefined;
+    }
+    const ceiling = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** (attempt - 1));
+    return Math.random() * ceiling;
   }
 
   /**
@@ -161,6 +459,8 @@ export class NewsApiClient {
       title: raw.title,
       publishedAt: raw.dateTime,
       url: raw.url,
+      ...(raw.eventUri ? { eventUri: raw.eventUri } : {}),
+      ...(raw.isDuplicate !== undefined ? { isDuplicate: raw.isDuplicate } : {}),
     };
   }
 }
@@ -0,0 +1,141 @@
+import pg from 'pg';
+import type { DailyScores } from '../types.js';
+import type { ScoreGrouping, ScoreStore, StoredDay } from './scoreStore.js';
+
+/**
+ * Postgres-backed score store (enabled via PG_URI).
+ * Scores are denormalized into numeric columns (2 decimal precision) for dashboard queries;
+ * the full DailyScores row, tool result and scored headline sample are kept as JSONB for lossless reads.
+ */
+
+const SCHEMA_SQL = `
+CREATE TABLE IF NOT EXISTS daily_scores (
+  date text NOT NULL,
+  grouping text NOT NULL,
+  attention numeric(5, 2) NOT NULL,
+  investor_sentiment numeric(5, 2) NOT NULL,
+  general_sentiment numeric(5, 2) NOT NULL,
+  bias_intensity numeric(5, 2) NOT NULL,
+  novelty numeric(5, 2) NOT NULL,
+  vol_shock numeric(5, 2) NOT NULL,
+  total_headlines integer NOT NULL,
+  relevant_headlines integer NOT NULL,
+  payload jsonb NOT NULL,
+  stored_at timestamptz NOT NULL,
+  PRIMARY KEY (date, grouping)
+);
+CREATE TABLE IF NOT EXISTS daily_results (
+  date text PRIMARY KEY,
+  result jsonb NOT NULL,
+  stored_at timestamptz NOT NULL
+);
+ALTER TABLE daily_results ADD COLUMN IF NOT EXISTS headlines jsonb;
+`;
+
+export class PostgresScoreStore implements ScoreStore {
+  readonly backend = 'postgres' as const;
+  private pool: pg.Pool;
+
+  constructor(connectionString: string) {
+    this.pool = new pg.Pool({ connectionString, max: 4 });
+  }
+
+  async init(): Promise<void> {
+    await this.pool.query(SCHEMA_SQL);
+  }
+
+  async getDay(date: string): Promise<StoredDay | undefined> {
+    const result = await this.pool.query<{
+      result: StoredDay['result'];
+      headlines: StoredDay['headlines'] | null;
+      stored_at: Date;
+    }>(
+      'SELECT result, headlines, stored_at FROM daily_results WHERE date = $1',
+      [date],
+    );
+    const row = result.rows[0];
+    if (!row) return undefined;
+
+    const scores = await this.pool.query<{ payload: DailyScores }>(
+      'SELECT payload FROM daily_scores WHERE date = $1',
+      [date],
+    );
+    return {
+      date,
+      rows: scores.rows.map((r) => r.payload),
+      result: row.result,
+      ...(row.headlines ? { headlines: row.headlines } : {}),
+      storedAt: row.stored_at.toISOString(),
+    };
+  }
+
+  async putDay(day: StoredDay): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      for (const row of day.rows) {
+        await client.query(
+          `INSERT INTO daily_scores (
+             date, grouping, attention, investor_sentiment, general_sentiment, bias_intensity, novelty, vol_shock,
+             total_headlines, relevant_headlines, payload, stored_at
+           ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+           ON CONFLICT (date, grouping) DO UPDATE SET
+             attention = EXCLUDED.attention,
+             investor_sentiment = EXCLUDED.investor_sentiment,
+             general_sentiment = EXCLUDED.general_sentiment,
+             bias_intensity = EXCLUDED.bias_intensity,
+             novelty = EXCLUDED.novelty,
+             vol_shock = EXCLUDED.vol_shock,
+             total_headlines = EXCLUDED.total_headlines,
+             relevant_headlines = EXCLUDED.relevant_headlines,
+             payload = EXCLUDED.payload,
+             stored_at = EXCLUDED.stored_at`,
+          [
+            row.date,
+            row.grouping,
+            row.scores.attention,
+            row.scores.investorSentiment,
+            row.scores.generalSentiment,
+            row.scores.biasIntensity,
+            row.scores.novelty,
+            row.scores.volShock,
+            row.counts.totalHeadlines,
+            row.counts.relevantHeadlines,
+            JSON.stringify(row),
+            day.storedAt,
+          ],
+        );
+      }
+      await client.query(
+        `INSERT INTO daily_results (date, result, headlines, stored_at) VALUES ($1, $2, $3, $4)
+         ON CONFLICT (date) DO UPDATE SET
+           result = EXCLUDED.result,
+           headlines = EXCLUDED.headlines,
+           stored_at = EXCLUDED.stored_at`,
+        [day.date, JSON.stringify(day.result), day.headlines ? JSON.stringify(day.headlines) : null, day.storedAt],
+      );
+      await client.query('COMMIT');
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  async listScores(start: string, end: string, grouping?: ScoreGrouping): Promise<DailyScores[]> {
+    const params: unknown[] = [start, end];
+    let sql = 'SELECT payload FROM daily_scores WHERE date >= $1 AND date <= $2';
+    if (grouping) {
+      params.push(grouping);
+      sql += ' AND grouping = $3';
+    }
+    sql += ' ORDER BY date ASC';
+    const result = await this.pool.query<{ payload: DailyScores }>(sql, params);
+    return result.rows.map((r) => r.payload);
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
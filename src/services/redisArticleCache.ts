@@ -0,0 +1,48 @@
+import { createClient } from 'redis';
+import { expiry, type CacheEntry, type CachedPage, type SharedArticleCache } from './articleCache.js';
+
+/**
+ * Redis tier of the article page cache (ARTICLE_CACHE=redis), shared by every replica.
+ * Lifetimes map onto key expiry; closed past days are stored without one.
+ */
+
+const KEY_PREFIX = 'headline-vibes:articles:';
+
+export class RedisArticleCache implements SharedArticleCache {
+  readonly backend = 'redis' as const;
+  private client: ReturnType<typeof createClient>;
+
+  constructor(url: string) {
+    this.client = createClient({ url });
+  }
+
+  async init(): Promise<void> {
+    await this.client.connect();
+  }
+
+  async get(key: string): Promise<CachedPage | undefined> {
+    return (await this.entry(key))?.page;
+  }
+
+  async set(key: string, page: CachedPage, ttlSeconds?: number): Promise<void> {
+    await this.put(key, { page, expiresAt: expiry(ttlSeconds) });
+  }
+
+  async entry(key: string): Promise<CacheEntry | undefined> {
+    const value = await this.client.get(KEY_PREFIX + key);
+    return value ? (JSON.parse(value) as CacheEntry) : undefined;
+  }
+
+  async put(key: string, entry: CacheEntry): Promise<void> {
+    const value = JSON.stringify(entry);
+    if (entry.expiresAt === null) {
+      await this.client.set(KEY_PREFIX + key, value);
+      return;
+    }
+    await this.client.set(KEY_PREFIX + key, value, { PXAT: entry.expiresAt });
+  }
+
+  async close(): Promise<void> {
+    await this.client.quit();
+  }
+}
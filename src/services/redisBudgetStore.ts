@@ -0,0 +1,80 @@
+import { createClient } from 'redis';
+import type { BudgetStore, CounterUpdate } from './budgetStore.js';
+
+/**
+ * Redis-backed budget counters (enabled via REDIS_URL), shared by every replica.
+ * Check-and-increment runs as a Lua script so two instances can never both pass the same limit.
+ */
+
+const KEY_PREFIX = 'headline-vibes:budget:';
+
+// KEYS[1] counter; ARGV[1] amount, ARGV[2] limit (empty = none), ARGV[3] ttl seconds
+const INCREMENT_IF_SCRIPT = `
+local current = tonumber(redis.call('GET', KEYS[1]) or '0')
+local amount = tonumber(ARGV[1])
+if ARGV[2] ~= '' and current + amount > tonumber(ARGV[2]) then
+  return {0, tostring(current)}
+end
+local value = redis.call('INCRBYFLOAT', KEYS[1], amount)
+redis.call('EXPIRE', KEYS[1], ARGV[3])
+return {1, value}
+`;
+
+// KEYS[1] counter; ARGV[1] delta, ARGV[2] ttl seconds
+const ADJUST_SCRIPT = `
+local value = tonumber(redis.call('INCRBYFLOAT', KEYS[1], ARGV[1]))
+if value < 0 then
+  value = 0
+  redis.call('SET', KEYS[1], '0')
+end
+redis.call('EXPIRE', KEYS[1], ARGV[2])
+return tostring(value)
+`;
+
+export class RedisBudgetStore implements BudgetStore {
+  readonly backend = 'redis' as const;
+  private client: ReturnType<typeof createClient>;
+
+  constructor(url: string, private readonly ttlSeconds: number) {
+    this.client = createClient({ url });
+  }
+
+  async init(): Promise<void> {
+    await this.client.connect();
+  }
+
+  async get(key: string): Promise<number> {
+    const value = await this.client.get(KEY_PREFIX + key);
+    return value ? Number(value) : 0;
+  }
+
+  async getMany(keys: string[]): Promise<Array<number | undefined>> {
+    if (!keys.length) return [];
+    const values = await this.client.mGet(keys.map((key) => KEY_PREFIX + key));
+    return values.map((value) => (value == null ? undefined : Number(value)));
+  }
+
+  async incrementIf(key: string, amount: number, limit?: number): Promise<CounterUpdate> {
+    const [applied, value] = (await this.client.eval(INCREMENT_IF_SCRIPT, {
+      keys: [KEY_PREFIX + key],
+      arguments: [String(amount), limit == null ? '' : String(limit), String(this.ttlSeconds)],
+    })) as [number, string];
+    return { applied: applied === 1, value: Number(value) };
+  }
+
+  async adjust(key: string, delta: number): Promise<number> {
+    const value = await this.client.eval(ADJUST_SCRIPT, {
+      keys: [KEY_PREFIX + key],
+      arguments: [String(delta), String(this.ttlSeconds)],
+    });
+    return Number(value);
+  }
+
+  async set(key: string, value: number): Promise<void> {
+    await this.client.set(KEY_PREFIX + key, String(value), { EX: this.ttlSeconds });
+  }
+
+  async close(): Promise<void> {
+    await this.client.quit();
+  }
+}
@@ -1,44 +1,48 @@
-import { INVESTOR_RELEVANCE } from '../constants/relevance.js';
-import { normalizeHeadline } from '../utils/normalize.js';
+import { getLexiconPack, type LexiconPack } from './lexicon.js';
+import { matchLexicon, type MatchSpan } from './matcher.js';
 
 export interface RelevanceAssessment {
   relevant: boolean;
   score: number;
   matchedTerms: string[];
   excludedTerm?: string;
+  spans: MatchSpan[]; // inclusion matches (or the exclusion hit) with offsets into the headline
 }
 
 /**
  * Evaluate a headline for investor relevance by checking exclusion first,
- * then summing inclusion weights. Returns details useful for diagnostics.
+ * then summing inclusion weights from the lexicon pack (default: LEXICON_PACK). Terms match on word
+ * boundaries via the matcher; negation does not affect relevance ("no recession" is still on topic).
+ * Returns details useful for diagnostics.
  */
-export function evaluateHeadlineRelevance(headline: string): RelevanceAssessment {
-  const normalized = normalizeHeadline(headline);
+export function evaluateHeadlineRelevance(
+  headline: string,
+  lexicon: LexiconPack = getLexiconPack(),
+): RelevanceAssessment {
+  const matches = matchLexicon(headline, lexicon);
 
-  for (const exclusion of INVESTOR_RELEVANCE.exclusion) {
-    if (normalized.includes(exclusion)) {
-      return {
-        relevant: false,
-        score: 0,
-        matchedTerms: [],
-        excludedTerm: exclusion,
-      };
-    }
+  if (matches.exclusion) {
+    return {
+      relevant: false,
+      score: 0,
+      matchedTerms: [],
+      excludedTerm: matches.exclusion.term,
+      spans: [matches.exclusion],
+    };
   }
 
   let score = 0;
   const matchedTerms: string[] = [];
 
-  for (const [term, weight] of Object.entries(INVESTOR_RELEVANCE.inclusion)) {
-    if (normalized.includes(term)) {
-      score += weight;
-      matchedTerms.push(term);
-    }
+  for (const span of matches.inclusion) {
+    score += lexicon.relevance.inclusion[span.term] ?? 0;
+    if (!matchedTerms.includes(span.term)) matchedTerms.push(span.term);
   }
 
   return {
     relevant: score > 0,
     score,
     matchedTerms,
+    spans: matches.inclusion,
   };
 }
@@ -0,0 +1,191 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { getConfig, type ScoreStoreBackend } from '../config.js';
+import type { DailyScores, HeadlineRecord } from '../types.js';
+import { withFileLock, writeFileAtomic } from '../utils/fileLock.js';
+import type { AnalyzeHeadlinesResult } from './analysis.js';
+
+/**
+ * Persistence for daily analysis results.
+ * Each analyzed day is stored as one DailyScores row per grouping plus the full tool result,
+ * so repeat requests for closed days can be answered without touching EventRegistry.
+ */
+
+export type ScoreGrouping = DailyScores['grouping'];
+
+export const SCORE_GROUPINGS: readonly ScoreGrouping[] = ['aggregate', 'left', 'center', 'right'];
+
+export interface StoredDay {
+  date: string; // YYYY-MM-DD (UTC)
+  rows: DailyScores[];
+  result: AnalyzeHeadlinesResult;
+  headlines?: HeadlineRecord[]; // the scored sample, for explain_headlines (absent on days stored before it existed)
+  storedAt: string; // ISO timestamp
+}
+
+export interface ScoreStore {
+  readonly backend: Exclude<ScoreStoreBackend, 'none'>;
+  getDay(date: string): Promise<StoredDay | undefined>;
+  putDay(day: StoredDay): Promise<void>;
+  /** DailyScores rows within [start, end] (inclusive), ordered by date. */
+  listScores(start: string, end: string, grouping?: ScoreGrouping): Promise<DailyScores[]>;
+  close(): Promise<void>;
+}
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const PROJECT_ROOT = path.resolve(__dirname, '..', '..');
+const DEFAULT_STORE_PATH = path.join(PROJECT_ROOT, 'data', 'daily-scores.json');
+
+function rowsInRange(days: Iterable<StoredDay>, start: string, end: string, grouping?: ScoreGrouping): DailyScores[] {
+  const rows: DailyScores[] = [];
+  for (const day of days) {
+    if (day.date < start || day.date > end) continue;
+    for (const row of day.rows) {
+      if (!grouping || row.grouping === grouping) rows.push(row);
+    }
+  }
+  return rows.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Process-local store. Useful for tests and for deployments that only want per-process reuse.
+ */
+export class MemoryScoreStore implements ScoreStore {
+  readonly backend = 'memory' as const;
+  private days = new Map<string, StoredDay>();
+
+  async getDay(date: string): Promise<StoredDay | undefined> {
+    return this.days.get(date);
+  }
+
+  async putDay(day: StoredDay): Promise<void> {
+    this.days.set(day.date, day);
+  }
+
+  async listScores(start: string, end: string, grouping?: ScoreGrouping): Promise<DailyScores[]> {
+    return rowsInRange(this.days.values(), start, end, grouping);
+  }
+
+  async close(): Promise<void> {
+    this.days.clear();
+  }
+}
+
+type FileStoreData = { days: Record<string, StoredDay> };
+
+interface FileSnapshot {
+  data: FileStoreData;
+  mtimeMs: number;
+  size: number;
+}
+
+/**
+ * Single-node JSON file store, shared by the server and backfill runs on the same host.
+ * Reads are cached until the file changes on disk; every put re-reads the file under an exclusive lock file, merges
+ * the day in and rewrites it atomically, so neither process overwrites days the other wrote.
+ */
+export class FileScoreStore implements ScoreStore {
+  readonly backend = 'file' as const;
+  private snapshot?: FileSnapshot;
+  private writeChain: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath = DEFAULT_STORE_PATH) {}
+
+  async getDay(date: string): Promise<StoredDay | undefined> {
+    const data = await this.load();
+    return data.days[date];
+  }
+
+  putDay(day: StoredDay): Promise<void> {
+    // Serialize within the process; the lock file serializes across processes
+    const run = this.writeChain.catch(() => undefined).then(() => withFileLock(this.filePath, async () => {
+      const current = await this.load();
+      const data: FileStoreData = { days: { ...current.days, [day.date]: day } };
+      await writeFileAtomic(this.filePath, JSON.stringify(data));
+      // Only cache what actually reached the disk
+      const stat = await fs.stat(this.filePath);
+      this.snapshot = { data, mtimeMs: stat.mtimeMs, size: stat.size };
+    }));
+    this.writeChain = run;
+    return run;
+  }
+
+  async listScores(start: string, end: string, grouping?: ScoreGrouping): Promise<DailyScores[]> {
+    const data = await this.load();
+    return rowsInRange(Object.values(data.days), start, end, grouping);
+  }
+
+  async close(): Promise<void> {
+    await this.writeChain.catch(() => undefined);
+  }
+
+  /**
+   * Current file contents. A missing file is an empty store; an unreadable or corrupt one is an error, so a write
+   * never replaces stored history with an empty set.
+   */
+  private async load(): Promise<FileStoreData> {
+    let stat: Awaited<ReturnType<typeof fs.stat>>;
+    try {
+      stat = await fs.stat(this.filePath);
+    } catch (err: any) {
+      if (err?.code !== 'ENOENT') throw err;
+      this.snapshot = undefined;
+      return { days: {} };
+    }
+    if (this.snapshot && this.snapshot.mtimeMs === stat.mtimeMs && this.snapshot.size === stat.size) {
+      return this.snapshot.data;
+    }
+    const raw = await fs.readFile(this.filePath, 'utf-8');
+    let parsed: any;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (err: any) {
+      throw new Error(`Score store file ${this.filePath} is not valid JSON: ${err?.message ?? err}`);
+    }
+    if (!parsed || typeof parsed.days !== 'object' || parsed.days === null) {
+      throw new Error(`Score store file ${this.filePath} has no days map`);
+    }
+    this.snapshot = { data: parsed as FileStoreData, mtimeMs: stat.mtimeMs, size: stat.size };
+    return this.snapshot.data;
+  }
+}
+
+let sharedStore: Promise<ScoreStore | undefined> | undefined;
+
+/**
+ * Shared store selected by SCORE_STORE (see config.ts). Resolves to undefined when persistence is disabled.
+ * The Postgres backend is imported lazily so file/memory deployments never load the driver.
+ */
+export function getScoreStore(): Promise<ScoreStore | undefined> {
+  if (!sharedStore) {
+    sharedStore = createScoreStore().catch((err) => {
+      // Allow a later call to retry (e.g. database not reachable yet)
+      sharedStore = undefined;
+      throw err;
+    });
+  }
+  return sharedStore;
+}
+
+async function createScoreStore(): Promise<ScoreStore | undefined> {
+  const cfg = getConfig();
+  switch (cfg.scoreStore.backend) {
+    case 'none':
+      return undefined;
+    case 'memory':
+      return new MemoryScoreStore();
+    case 'postgres': {
+      if (!cfg.pgUri) {
+        throw new Error('SCORE_STORE=postgres requires PG_URI');
+      }
+      const { PostgresScoreStore } = await import('./pgScoreStore.js');
+      const store = new PostgresScoreStore(cfg.pgUri);
+      await store.init();
+      return store;
+    }
+    case 'file':
+    default:
+      return new FileScoreStore(cfg.scoreStore.path ? path.resolve(cfg.scoreStore.path) : DEFAULT_STORE_PATH);
+  }
+}
@@ -1,6 +1,8 @@
 import Sentiment from 'sentiment';
-import type { PoliticalLeaning, ScoreDimensions } from '../types.js';
+import type { ScoreDimensions, SpectrumBucket, SpectrumMode } from '../types.js';
 import { clamp, normalizeRange, normalizeHeadline, round2 } from '../utils/normalize.js';
+import { getLexiconPack, type LexiconPack } from './lexicon.js';
+import { matchLexicon } from './matcher.js';
 
 const sentimentAnalyzer = new Sentiment();
 
@@ -11,7 +13,15 @@ const sentimentAnalyzer = new Sentiment();
  */
 export function scoreAttention(headlines: string[]): number {
   if (!headlines.length) return 0;
+  const scores = attentionValues(headlines);
+  const avg = scores.reduce((a, b) => a + b, 0) / scores.length;
+  return round2(clamp(avg, 0, 10));
+}
 
+/**
+ * Per-headline attention values (0..10) whose mean is scoreAttention.
+ */
+export function attentionValues(headlines: string[]): number[] {
   const CLICKBAIT = [
     'shocking',
     'you won\'t believe',
@@ -25,7 +35,7 @@ export function scoreAttention(headlines: string[]): number {
     'jaw-dropping',
   ];
 
-  const scores = headlines.map((h) => {
+  return headlines.map((h) => {
     const text = normalizeHeadline(h);
     let s = 0;
 
@@ -50,105 +60,49 @@ export function scoreAttention(headlines: string[]): number {
     // clamp per-headline to a bounded raw range roughly 0..10 pre-normalization
     return clamp(s, 0, 10);
   });
-
-  const avg = scores.reduce((a, b) => a + b, 0) / scores.length;
-  return round2(clamp(avg, 0, 10));
 }
 
 /**
- * Investor lexicon for weighted term scoring.
- * Positive terms increase score, negative terms decrease.
+ * Compute investor sentiment using the lexicon pack's sentiment weights (default: LEXICON_PACK).
+ * Returns normalized score 0..10 plus key term frequencies.
  */
-const INVESTOR_LEXICON: Record<string, number> = {
-  // Strong positive (+2)
-  'bull market': 2,
-  'bullish': 2,
-  'record high': 2,
-  'outperform': 2,
-  'breakthrough': 2,
-  'innovation': 2,
-  'growth': 2,
-  'expansion': 2,
-  'rally': 2,
-  'surge': 2,
-  'record profit': 2,
-  'beat expectations': 2,
-  'strong demand': 2,
-  'market leader': 2,
-  'competitive advantage': 2,
-
-  // Moderate positive (+1)
-  'investment': 1,
-  'dividend': 1,
-  'profit': 1,
-  'earnings': 1,
-  'partnership': 1,
-  'acquisition': 1,
-  'opportunity': 1,
-  'recovery': 1,
-  'stability': 1,
-  'stable': 1,
-  'guidance': 1,
-  'momentum': 1,
+export function scoreInvestor(
+  headlines: string[],
+  lexicon: LexiconPack = getLexiconPack(),
+): { score: number; keyTerms: Record<string, number> } {
+  if (!headlines.length) return { score: 5, keyTerms: {} };
 
-  // Strong negative (-2)
-  'bear market': -2,
-  'bearish': -2,
-  'crash': -2,
-  'recession': -2,
-  'bankruptcy': -2,
-  'default': -2,
-  'crisis': -2,
-  'collapse': -2,
-  'investigation': -2,
-  'fraud': -2,
-  'lawsuit': -2,
-  'downgrade': -2,
-  'miss expectations': -2,
-  'weak demand': -2,
-  'market correction': -2,
+  const termFreq: Record<string, number> = {};
+  const weights = headlines.map((h) => investorHeadlineWeight(h, lexicon, termFreq));
+  // average by headlines
+  const raw = weights.reduce((a, b) => a + b, 0) / headlines.length;
+  return { score: round2(investorScoreFromMean(raw)), keyTerms: termFreq };
+}
 
-  // Moderate negative (-1)
-  'volatility': -1,
-  'volatile': -1,
-  'uncertainty': -1,
-  'uncertain': -1,
-  'risk': -1,
-  'concern': -1,
-  'warning': -1,
-  'caution': -1,
-  'slowdown': -1,
-  'decline': -1,
-  'loss': -1,
-  'debt': -1,
-  'regulatory': -1,
-  'inflation': -1,
-};
+/**
+ * Per-headline raw investor weights (sum of matched lexicon weights) whose mean drives scoreInvestor.
+ */
+export function investorWeights(headlines: string[], lexicon: LexiconPack = getLexiconPack()): number[] {
+  return headlines.map((h) => investorHeadlineWeight(h, lexicon));
+}
 
 /**
- * Compute investor sentiment using the weighted lexicon.
- * Returns normalized score 0..10 plus key term frequencies.
+ * Map a mean per-headline investor weight onto 0..10 (unrounded).
+ * The lexicon range per headline is assumed to be roughly -4..4.
  */
-export function scoreInvestor(headlines: string[]): { score: number; keyTerms: Record<string, number> } {
-  if (!headlines.length) return { score: 5, keyTerms: {} };
+export function investorScoreFromMean(raw: number): number {
+  return normalizeRange(raw, { min: -4, max: 4 }, { min: 0, max: 10 });
+}
 
+function investorHeadlineWeight(headline: string, lexicon: LexiconPack, termFreq?: Record<string, number>): number {
   let raw = 0;
-  const termFreq: Record<string, number> = {};
-  for (const h of headlines) {
-    const t = normalizeHeadline(h);
-    for (const [term, w] of Object.entries(INVESTOR_LEXICON)) {
-      if (t.includes(term)) {
-        raw += w;
-        termFreq[term] = (termFreq[term] || 0) + 1;
-      }
-    }
+  for (const span of matchLexicon(headline, lexicon).sentiment) {
+    // "no recession" / "avoids default" flip the term's polarity
+    const w = lexicon.sentiment[span.term] ?? 0;
+    raw += span.negated ? -w : w;
+    if (termFreq) termFreq[span.term] = (termFreq[span.term] || 0) + 1;
   }
-  // average by headlines
-  raw = raw / headlines.length;
-
-  // map raw range (heuristic) to 0..10; assume lexicon range approx -4..4
-  const norm = normalizeRange(raw, { min: -4, max: 4 }, { min: 0, max: 10 });
-  return { score: round2(norm), keyTerms: termFreq };
+  return raw;
 }
 
 /**
@@ -157,29 +111,55 @@ export function scoreInvestor(headlines: string[]): { score: number; keyTerms: R
  */
 export function scoreGeneral(headlines: string[]): number {
   if (!headlines.length) return 5;
-  const comps = headlines.map((h) => sentimentAnalyzer.analyze(h).comparative || 0);
+  const comps = sentimentComparatives(headlines);
   const avg = comps.reduce((a, b) => a + b, 0) / comps.length;
-  const norm = normalizeRange(avg, { min: -1, max: 1 }, { min: 0, max: 10 });
-  return round2(norm);
+  return round2(generalScoreFromMean(avg));
+}
+
+/**
+ * Map a mean comparative score onto 0..10 (unrounded).
+ */
+export function generalScoreFromMean(avg: number): number {
+  return normalizeRange(avg, { min: -1, max: 1 }, { min: 0, max: 10 });
 }
 
 /**
- * Bias intensity measures divergence between left/right vs center baseline.
- * Input: map of leaning -> normalized score 0..10 (for some dimension).
- * Output: 0..10 where higher means bigger divergence.
+ * Per-headline "sentiment" comparative scores (raw, roughly -1..1).
+ * Used as the per-headline signal series for volShock.
  */
-export function scoreBiasIntensity(byLeaning: Record<PoliticalLeaning, number>): number {
+export function sentimentComparatives(headlines: string[]): number[] {
+  return headlines.map((h) => sentimentAnalyzer.analyze(h).comparative || 0);
+}
+
+/**
+ * The general-sentiment inputs for one headline: its comparative score and the words that produced it.
+ */
+export function sentimentBreakdown(headline: string): { comparative: number; positive: string[]; negative: string[] } {
+  const result = sentimentAnalyzer.analyze(headline);
+  return { comparative: result.comparative || 0, positive: result.positive, negative: result.negative };
+}
+
+/**
+ * Bias intensity measures divergence of the non-center leanings from the center baseline.
+ * Input: map of leaning -> normalized score 0..10 (for some dimension); left/right in three-point mode,
+ * progressive/center-left/center-right/conservative in five-point mode. Leave out leanings without headlines:
+ * missing sides are excluded rather than scored, and a missing center defaults to neutral 5.
+ * Output: 0..10 where higher means bigger divergence (mean absolute deviation from center); 0 without any side.
+ */
+export function scoreBiasIntensity(
+  byLeaning: Partial<Record<SpectrumBucket, number>>,
+  mode: SpectrumMode = 'three',
+): number {
   const center = clamp(byLeaning.center ?? 5, 0, 10);
-  const left = clamp(byLeaning.left ?? center, 0, 10);
-  const right = clamp(byLeaning.right ?? center, 0, 10);
+  const sides: SpectrumBucket[] =
+    mode === 'five' ? ['progressive', 'center-left', 'center-right', 'conservative'] : ['left', 'right'];
 
-  const devLeft = Math.abs(left - center);
-  const devRight = Math.abs(right - center);
+  const present = sides.flatMap((side) => (byLeaning[side] === undefined ? [] : [byLeaning[side]!]));
+  if (!present.length) return 0;
 
-  // combine deviations; max possible if both are 10 away from center (not possible simultaneously),
-  // so we normalize by a reasonable max of 10 to keep 0..10
-  const raw = devLeft + devRight; // 0..20 theoretic
-  const norm = normalizeRange(raw, { min: 0, max: 20 }, { min: 0, max: 10 });
+  // per-side deviations are each 0..10
+  const raw = present.reduce((sum, score) => sum + Math.abs(clamp(score, 0, 10) - center), 0);
+  const norm = normalizeRange(raw, { min: 0, max: present.length * 10 }, { min: 0, max: 10 });
   return round2(norm);
 }
 
@@ -245,16 +225,18 @@ export function scoreVolShock(today: number[], baseline: number[]): number {
  */
 export function assembleScoreDimensions(params: {
   headlines: string[];
-  byLeaningForBias: Record<PoliticalLeaning, number>;
+  byLeaningForBias: Partial<Record<SpectrumBucket, number>>;
+  spectrum?: SpectrumMode; // which leanings byLeaningForBias is keyed by (default three)
   keyTerms: Record<string, number>;
   baselineKeyTerms: Record<string, number>;
   todaySignalSeries: number[]; // e.g. per-headline general sentiment comps
   baselineSignalSeries: number[];
+  lexicon?: LexiconPack;
 }): ScoreDimensions {
   const attention = scoreAttention(params.headlines);
-  const { score: investorSentiment } = scoreInvestor(params.headlines);
+  const { score: investorSentiment } = scoreInvestor(params.headlines, params.lexicon);
   const generalSentiment = scoreGeneral(params.headlines);
-  const biasIntensity = scoreBiasIntensity(params.byLeaningForBias);
+  const biasIntensity = scoreBiasIntensity(params.byLeaningForBias, params.spectrum);
   const novelty = scoreNovelty(params.keyTerms, params.baselineKeyTerms);
   const volShock = scoreVolShock(params.todaySignalSeries, params.baselineSignalSeries);
 
@@ -0,0 +1,275 @@
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { getConfig } from '../config.js';
+import type { Article, LeaningKey } from '../types.js';
+import { dayRange } from '../utils/date.js';
+import { round2 } from '../utils/normalize.js';
+import {
+  AnalysisError,
+  fetchPeriodArticles,
+  type ArticleCacheDiagnostics,
+  type CompletenessDiagnostics,
+  type LexiconDiagnostics,
+  type TokenBudgetDiagnostics,
+} from './analysis.js';
+import { normalizeSourceId } from './categorization.js';
+import { getLexiconPack } from './lexicon.js';
+import type { FetchError, FetchOptions, NewsApiClient } from './newsapi.js';
+import { evaluateHeadlineRelevance } from './relevance.js';
+import { scoreAttention, scoreGeneral, scoreInvestor } from './scoring.js';
+import { cachedSourceUris } from './sourceResolver.js';
+import { activeSourceIds, getSource, lookupSource } from './sourceRegistry.js';
+
+/**
+ * Source leaderboard: per curated source over a range, how much it published, how much of it was investor-relevant,
+ * and how its relevant headlines score against the pool of all sources. Every copy an outlet published counts
+ * (no syndication dedup), since the question is what each outlet ran. Each source is searched on its own, so busy
+ * outlets cannot crowd quiet ones out of a shared page cap. Sources whose own search ran to its last page without
+ * an article are flagged along with their cached Event Registry URI, which is usually where a bad mapping shows.
+ */
+
+export type SourceProfileSort = 'volume' | 'relevance_rate' | 'investor' | 'general' | 'attention';
+
+// How a source's own search ended: every page fetched, cut off by the page cap, failed, or never run (no URI)
+export type SourceQueryStatus = 'complete' | 'truncated' | 'failed' | 'not_run';
+
+export const SOURCE_PROFILE_SORTS: readonly SourceProfileSort[] = [
+  'volume',
+  'relevance_rate',
+  'investor',
+  'general',
+  'attention',
+];
+
+interface Scores {
+  investor: number;
+  general: number;
+}
+
+export interface SourceProfile {
+  rank: number;
+  source_id: string;
+  leaning: LeaningKey; // registry leaning, for comparison with the measured scores
+  uri: string | null; // registry or cached Event Registry URI; null if never resolved
+  articles: number;
+  relevant_headlines: number;
+  relevance_rate: number; // % of articles
+  // null when the source had no relevant headlines
+  sentiment: Scores | null;
+  deviation: Scores | null; // source score minus the all-source score
+  attention: number | null;
+  query: SourceQueryStatus;
+  zero_articles: boolean; // no articles although the source's search ran to its last page
+}
+
+export interface SourceProfileResult {
+  date_range: { start: string; end: string };
+  sort_by: SourceProfileSort;
+  overall: {
+    articles: number; // attributed to curated sources
+    relevant_headlines: number;
+    relevance_rate: number;
+    sentiment: Scores;
+    attention: number;
+  };
+  sources: SourceProfile[];
+  zero_article_sources: string[];
+  truncated_sources: string[]; // sources whose search still had pages when the page cap ran out
+  unattributed: { articles: number; top_sources: { name: string; articles: number }[] };
+  diagnostics: {
+    token_budget: TokenBudgetDiagnostics;
+    sources_targeted: number;
+    sources_with_uri: number;
+    page_cap: number;
+    pages_fetched: number;
+    completeness: CompletenessDiagnostics;
+    article_cache: ArticleCacheDiagnostics;
+    lexicon: LexiconDiagnostics;
+  };
+}
+
+export interface SourceProfileOptions {
+  client?: NewsApiClient;
+  fetch?: FetchOptions;
+  lexicon?: string;
+  sortBy?: SourceProfileSort;
+}
+
+export const MAX_PROFILE_DAYS = 31;
+const UNATTRIBUTED_TOP = 10;
+
+interface SourceTally {
+  articles: number;
+  relevant: string[];
+}
+
+export async function profileSources(
+  start: string,
+  end: string,
+  opts: SourceProfileOptions = {},
+): Promise<SourceProfileResult> {
+  if (start > end) {
+    throw new AnalysisError('start must not be after end.', ErrorCode.InvalidParams);
+  }
+  const days = dayRange(start, end).length;
+  if (days > MAX_PROFILE_DAYS) {
+    throw new AnalysisError(
+      `Requested range spans ${days} days; the limit is ${MAX_PROFILE_DAYS}.`,
+      ErrorCode.InvalidParams,
+    );
+  }
+  const sortBy = opts.sortBy ?? 'volume';
+  if (!SOURCE_PROFILE_SORTS.includes(sortBy)) {
+    throw new AnalysisError(`sortBy must be one of: ${SOURCE_PROFILE_SORTS.join(', ')}.`, ErrorCode.InvalidParams);
+  }
+  const lexicon = getLexiconPack(opts.lexicon);
+  const sources = opts.fetch?.sources ?? activeSourceIds();
+
+  const fetched = await fetchPeriodArticles(start, end, {
+    client: opts.client,
+    // each source's search spans the whole range, so its cap scales with the days in it
+    fetch: {
+      ...opts.fetch,
+      sources,
+      strategy: 'perSource',
+      pageCap: opts.fetch?.pageCap ?? getConfig().backfill.pageCapPerDay * days,
+    },
+  });
+  const cached = await cachedSourceUris(sources);
+  const uris = Object.fromEntries(sources.map((source) => [source, getSource(source)?.uri ?? cached[source]]));
+  const byUri = new Map<string, string>();
+  for (const [source, uri] of Object.entries(uris)) if (uri) byUri.set(uri, source);
+
+  const tallies = new Map<string, SourceTally>(sources.map((source) => [source, { articles: 0, relevant: [] }]));
+  const unattributed = new Map<string, number>();
+  let unattributedArticles = 0;
+  for (const article of fetched.articles) {
+    const source = attributeSource(article, byUri, tallies);
+    if (!source) {
+      unattributedArticles += 1;
+      const name = article.sourceName || 'Unknown';
+      unattributed.set(name, (unattributed.get(name) ?? 0) + 1);
+      continue;
+    }
+    const tally = tallies.get(source)!;
+    tally.articles += 1;
+    if (evaluateHeadlineRelevance(article.title, lexicon).relevant) tally.relevant.push(article.title);
+  }
+
+  const pooled = [...tallies.values()].flatMap((t) => t.relevant);
+  const pooledArticles = [...tallies.values()].reduce((sum, t) => sum + t.articles, 0);
+  const overallScores: Scores = { investor: scoreInvestor(pooled, lexicon).score, general: scoreGeneral(pooled) };
+
+  const profiles = sources.map((source): Omit<SourceProfile, 'rank'> => {
+    const { articles, relevant } = tallies.get(source)!;
+    const query = queryStatus(uris[source], fetched.completeness.errors, fetched.truncated);
+    const sentiment = relevant.length
+      ? { investor: scoreInvestor(relevant, lexicon).score, general: scoreGeneral(relevant) }
+      : null;
+    return {
+      source_id: source,
+      leaning: getSource(source)?.leaning ?? 'other',
+      uri: uris[source] ?? null,
+      articles,
+      relevant_headlines: relevant.length,
+      relevance_rate: articles ? round2((relevant.length / articles) * 100) : 0,
+      sentiment,
+      deviation: sentiment
+        ? {
+            investor: round2(sentiment.investor - overallScores.investor),
+            general: round2(sentiment.general - overallScores.general),
+          }
+        : null,
+      attention: relevant.length ? scoreAttention(relevant) : null,
+      query,
+      zero_articles: articles === 0 && query === 'complete',
+    };
+  });
+
+  const sortValue = (p: Omit<SourceProfile, 'rank'>): number | null => {
+    switch (sortBy) {
+      case 'relevance_rate':
+        return p.articles ? p.relevance_rate : null;
+      case 'investor':
+        return p.sentiment?.investor ?? null;
+      case 'general':
+        return p.sentiment?.general ?? null;
+      case 'attention':
+        return p.attention;
+      default:
+        return p.articles;
+    }
+  };
+  // Highest first; sources without a value go last
+  profiles.sort((a, b) => {
+    const va = sortValue(a);
+    const vb = sortValue(b);
+    if (va === null || vb === null) return Number(va === null) - Number(vb === null);
+    return vb - va || b.articles - a.articles || a.source_id.localeCompare(b.source_id);
+  });
+
+  const truncatedSources = profiles.filter((p) => p.query === 'truncated').map((p) => p.source_id);
+
+  return {
+    date_range: { start, end },
+    sort_by: sortBy,
+    overall: {
+      articles: pooledArticles,
+      relevant_headlines: pooled.length,
+      relevance_rate: pooledArticles ? round2((pooled.length / pooledArticles) * 100) : 0,
+      sentiment: overallScores,
+      attention: scoreAttention(pooled),
+    },
+    sources: profiles.map((profile, index) => ({ rank: index + 1, ...profile })),
+    zero_article_sources: profiles.filter((p) => p.zero_articles).map((p) => p.source_id),
+    truncated_sources: truncatedSources,
+    unattributed: {
+      articles: unattributedArticles,
+      top_sources: [...unattributed.entries()]
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, UNATTRIBUTED_TOP)
+        .map(([name, articles]) => ({ name, articles })),
+    },
+    diagnostics: {
+      token_budget: fetched.tokenBudget,
+      sources_targeted: sources.length,
+      sources_with_uri: Object.values(uris).filter(Boolean).length,
+      page_cap: fetched.pageCap,
+      pages_fetched: fetched.pagesFetched,
+      completeness: { ...fetched.completeness, complete: fetched.completeness.complete && !truncatedSources.length },
+      article_cache: fetched.articleCache,
+      lexicon: { id: lexicon.id, version: lexicon.version },
+    },
+  };
+}
+
+/**
+ * How the per-source search for `uri` ended, from the fetch's failed pages and page-capped queries.
+ */
+function queryStatus(
+  uri: string | null | undefined,
+  errors: FetchError[],
+  truncated: (string[] | null)[],
+): SourceQueryStatus {
+  if (!uri) return 'not_run';
+  if (errors.some((error) => error.sources?.includes(uri))) return 'failed';
+  if (truncated.some((group) => group?.includes(uri))) return 'truncated';
+  return 'complete';
+}
+
+/**
+ * Curated source an article belongs to: by registry id, URI or outlet name, else by its URI in the resolver cache
+ * or its outlet name in slug form. Undefined for articles outside the requested sources.
+ */
+function attributeSource(
+  article: Article,
+  byUri: Map<string, string>,
+  targeted: Map<string, unknown>,
+): string | undefined {
+  const registered = lookupSource(article.id, article.sourceName)?.id;
+  if (registered && targeted.has(registered)) return registered;
+  if (article.id && byUri.has(article.id)) return byUri.get(article.id);
+  for (const candidate of [article.id, normalizeSourceId(article.sourceName)]) {
+    if (candidate && targeted.has(candidate)) return candidate;
+  }
+  return undefined;
+}
@@ -0,0 +1,210 @@
+import { existsSync, promises as fs, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { getConfig } from '../config.js';
+import { BUILTIN_SOURCES, SPECTRUM_LEANINGS, spectrumToLeaning, type SourceCategory } from '../constants/sources.js';
+import { logger } from '../logger.js';
+import type { PoliticalLeaning, SpectrumLeaning } from '../types.js';
+import { toKebabId } from '../utils/normalize.js';
+import { AnalysisError } from './analysis.js';
+
+/**
+ * Editable source registry: which outlets are fetched, how they lean, and how much of the sample each may take.
+ * Stored as JSON at SOURCE_REGISTRY_PATH (default data/source-registry.json). Until that file exists the built-in
+ * sources from constants/sources.ts are used; the first add/update writes the full registry there, and from then
+ * on the file is the source of truth (hand edits are picked up after resetSourceRegistryCache or a restart).
+ */
+
+export interface SourceEntry {
+  id: string; // kebab-case slug
+  name: string; // display name, also matched against EventRegistry outlet titles
+  uri: string | null; // EventRegistry source URI; null lets the resolver look it up
+  spectrum: SpectrumLeaning;
+  leaning: PoliticalLeaning; // derived from spectrum
+  country: string; // ISO 3166-1 alpha-2
+  category: SourceCategory;
+  weight: number; // relative share of the per-source sampling quota (1 = equal share)
+  enabled: boolean; // disabled sources are kept for attribution but not fetched
+  aliases: string[];
+}
+
+export type SourceInput = Omit<SourceEntry, 'leaning'>;
+
+export interface SourceRegistryInfo {
+  path: string;
+  origin: 'builtin' | 'file';
+}
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const PROJECT_ROOT = path.resolve(__dirname, '..', '..');
+const DEFAULT_REGISTRY_PATH = path.join(PROJECT_ROOT, 'data', 'source-registry.json');
+
+export const MAX_SOURCE_WEIGHT = 10;
+
+const SourceEntrySchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'id must be lowercase kebab-case'),
+  name: z.string().trim().min(1),
+  uri: z.string().trim().min(1).nullable().default(null),
+  spectrum: z.enum(SPECTRUM_LEANINGS as [SpectrumLeaning, ...SpectrumLeaning[]]),
+  country: z
+    .string()
+    .regex(/^[A-Za-z]{2}$/, 'country must be an ISO 3166-1 alpha-2 code')
+    .transform((c) => c.toUpperCase())
+    .default('US'),
+  category: z.enum(['business', 'general']).default('general'),
+  weight: z.number().positive().max(MAX_SOURCE_WEIGHT).default(1),
+  enabled: z.boolean().default(true),
+  aliases: z.array(z.string().trim().min(1)).default([]),
+});
+
+const RegistryFileSchema = z.object({
+  sources: z.array(SourceEntrySchema).refine((sources) => new Set(sources.map((s) => s.id)).size === sources.length, {
+    message: 'source ids must be unique',
+  }),
+});
+
+interface LoadedRegistry {
+  origin: SourceRegistryInfo['origin'];
+  sources: SourceEntry[];
+  byKey: Map<string, SourceEntry>; // id, URI and kebab-cased name/aliases
+}
+
+// Keyed by path so tests (and SOURCE_REGISTRY_PATH changes) see their own registry
+const loaded = new Map<string, LoadedRegistry>();
+
+function registryPath(): string {
+  const configured = getConfig().sourceRegistryPath;
+  return configured ? path.resolve(configured) : DEFAULT_REGISTRY_PATH;
+}
+
+function toEntry(input: SourceInput): SourceEntry {
+  return { ...input, leaning: spectrumToLeaning(input.spectrum) };
+}
+
+function builtinEntries(): SourceEntry[] {
+  return BUILTIN_SOURCES.map((source) =>
+    toEntry({
+      id: source.id,
+      name: source.name,
+      uri: null,
+      spectrum: source.spectrum,
+      country: 'US',
+      category: source.category,
+      weight: 1,
+      enabled: true,
+      aliases: [...(source.aliases ?? [])],
+    }),
+  );
+}
+
+function index(origin: LoadedRegistry['origin'], sources: SourceEntry[]): LoadedRegistry {
+  const byKey = new Map<string, SourceEntry>();
+  for (const source of sources) {
+    // Ids win over names, so register every id first
+    byKey.set(source.id, source);
+    if (source.uri) byKey.set(source.uri.toLowerCase(), source);
+  }
+  for (const source of sources) {
+    for (const name of [source.name, ...source.aliases]) {
+      const key = toKebabId(name);
+      if (key && !byKey.has(key)) byKey.set(key, source);
+    }
+  }
+  return { origin, sources, byKey };
+}
+
+function loadRegistry(): LoadedRegistry {
+  const filePath = registryPath();
+  const cached = loaded.get(filePath);
+  if (cached) return cached;
+
+  let registry = index('builtin', builtinEntries());
+  if (existsSync(filePath)) {
+    try {
+      const data = RegistryFileSchema.parse(JSON.parse(readFileSync(filePath, 'utf-8')));
+      registry = index('file', data.sources.map(toEntry));
+    } catch (err) {
+      logger.warn({ err, filePath }, 'Invalid source registry file; using built-in sources');
+    }
+  }
+  loaded.set(filePath, registry);
+  return registry;
+}
+
+async function saveRegistry(sources: SourceEntry[]): Promise<void> {
+  const filePath = registryPath();
+  const serialized = sources.map(({ leaning: _leaning, ...entry }) => entry);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, `${JSON.stringify({ sources: serialized }, null, 2)}\n`, 'utf-8');
+  loaded.set(filePath, index('file', sources));
+}
+
+function parseInput(input: unknown): SourceInput {
+  const parsed = SourceEntrySchema.safeParse(input);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join('.') || 'source'}: ${i.message}`).join('; ');
+    throw new AnalysisError(`Invalid source: ${issues}`, ErrorCode.InvalidParams);
+  }
+  return parsed.data;
+}
+
+export function listSources(opts: { includeDisabled?: boolean } = {}): SourceEntry[] {
+  const { sources } = loadRegistry();
+  return opts.includeDisabled ? [...sources] : sources.filter((s) => s.enabled);
+}
+
+/** Ids of the sources fetched by default. */
+export function activeSourceIds(): string[] {
+  return listSources().map((s) => s.id);
+}
+
+export function getSource(id: string): SourceEntry | undefined {
+  return loadRegistry().sources.find((s) => s.id === id);
+}
+
+/**
+ * Registry entry for a fetched article's source: by id or URI, else by its outlet title (or an alias) in slug form.
+ */
+export function lookupSource(id?: string | null, name?: string): SourceEntry | undefined {
+  const { byKey } = loadRegistry();
+  if (id) {
+    const byId = byKey.get(id.toLowerCase());
+    if (byId) return byId;
+  }
+  const key = toKebabId(name);
+  return key ? byKey.get(key) : undefined;
+}
+
+export function sourceRegistryInfo(): SourceRegistryInfo {
+  return { path: registryPath(), origin: loadRegistry().origin };
+}
+
+export async function addSource(input: Omit<Partial<SourceInput>, 'id'> & { id: string }): Promise<SourceEntry> {
+  const entry = toEntry(parseInput(input));
+  const { sources } = loadRegistry();
+  if (sources.some((s) => s.id === entry.id)) {
+    throw new AnalysisError(`Source "${entry.id}" already exists; use update_source to change it.`, ErrorCode.InvalidParams);
+  }
+  await saveRegistry([...sources, entry]);
+  return entry;
+}
+
+export async function updateSource(id: string, patch: Partial<Omit<SourceInput, 'id'>>): Promise<SourceEntry> {
+  const { sources } = loadRegistry();
+  const current = sources.find((s) => s.id === id);
+  if (!current) {
+    throw new AnalysisError(`Unknown source "${id}"; use add_source to register it.`, ErrorCode.InvalidParams);
+  }
+  const defined = Object.fromEntries(Object.entries(patch).filter(([, value]) => value !== undefined));
+  const { leaning: _leaning, ...base } = current;
+  const entry = toEntry(parseInput({ ...base, ...defined, id }));
+  await saveRegistry(sources.map((s) => (s.id === id ? entry : s)));
+  return entry;
+}
+
+/** Drop the cached registry so hand edits to the file are picked up (tests, long-running servers). */
+export function resetSourceRegistryCache() {
+  loaded.clear();
+}
@@ -1,23 +1,61 @@
-import axios from 'axios';
 import { promises as fs } from 'node:fs';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { getConfig } from '../config.js';
+import { logger } from '../logger.js';
+import { AnalysisError } from './analysis.js';
+import { getEventRegistryHttp, type EventRegistryHttp } from './eventRegistryHttp.js';
+import { activeSourceIds, getSource } from './sourceRegistry.js';
 
 type CacheEntry = {
-  uri: string;
+  uri: string | null; // null when the last lookup found no confident match
   title: string;
   updatedAt: string; // ISO timestamp
+  confidence?: number; // 0..1 match score of the chosen candidate; absent on entries cached before scoring
+  pinned?: boolean; // manual override: never expires and is never looked up again
+  candidates?: SourceCandidate[]; // kept for unresolved entries so they can be reported
 };
 
 type CacheMap = Record<string, CacheEntry>;
 
+export interface SourceCandidate {
+  uri: string;
+  title: string;
+  confidence: number;
+}
+
+export type ResolutionStatus = 'resolved' | 'ambiguous' | 'failed';
+
+/**
+ * How one source name maps to an EventRegistry URI, and why.
+ * Only resolved sources are queried; ambiguous ones have candidates below SOURCE_URI_MIN_CONFIDENCE (or a tie)
+ * and failed ones had no candidates or a failed lookup.
+ */
+export interface SourceResolution {
+  name: string;
+  status: ResolutionStatus;
+  uri: string | null;
+  title: string | null;
+  confidence: number | null;
+  via: 'uri' | 'registry' | 'pin' | 'cache' | 'lookup' | null;
+  updated_at: string | null;
+  expires_at: string | null; // null when the mapping never expires (URIs, registry, pins)
+  candidates: SourceCandidate[];
+  reason: string | null;
+}
+
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 // From build/services to project root at runtime; from src/services during TS execution still resolves equivalently after build
 const PROJECT_ROOT = path.resolve(__dirname, '..', '..');
 const DATA_DIR = path.join(PROJECT_ROOT, 'data');
 const CACHE_PATH = path.join(DATA_DIR, 'source-uri-cache.json');
 
+function cachePath(): string {
+  const configured = getConfig().sourceUriCachePath;
+  return configured ? path.resolve(configured) : CACHE_PATH;
+}
+
 function normalizeKey(input: string): string {
   return input
     .trim()
@@ -35,7 +73,7 @@ async function ensureDir(dir: string) {
 
 async function loadCache(): Promise<CacheMap> {
   try {
-    const raw = await fs.readFile(CACHE_PATH, 'utf-8');
+    const raw = await fs.readFile(cachePath(), 'utf-8');
     const data = JSON.parse(raw);
     return (data && typeof data === 'object') ? (data as CacheMap) : {};
   } catch (err: any) {
@@ -45,110 +83,325 @@ async function loadCache(): Promise<CacheMap> {
 }
 
 async function saveCache(cache: CacheMap): Promise<void> {
-  await ensureDir(DATA_DIR);
+  const filePath = cachePath();
+  await ensureDir(path.dirname(filePath));
   const serialized = JSON.stringify(cache, null, 2);
-  await fs.writeFile(CACHE_PATH, serialized, 'utf-8');
+  await fs.writeFile(filePath, serialized, 'utf-8');
 }
 
-type SuggestResult = {
-  uri: string;
-  title: string;
-};
-
-async function suggestSource(name: string, lang = 'eng'): Promise<SuggestResult | undefined> {
-  const apiKey = getConfig().newsApiKey;
-  if (!apiKey) throw new Error('NEWS_API_KEY is required for suggestSourcesFast');
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
 
-  try {
-    const { data } = await axios.get('https://eventregistry.org/api/v1/suggestSourcesFast', {
-      params: {
-        apiKey,
-        text: name,
-        lang,
-      },
-      timeout: 15000,
-    });
+/**
+ * Raw suggestSourcesFast candidates for a name. Throws when the lookup itself fails, so callers can tell a
+ * transient error (not cached) from a name EventRegistry does not know.
+ */
+async function suggestSources(
+  name: string,
+  lang = 'eng',
+  transport: { http?: EventRegistryHttp; apiKey?: string } = {},
+): Promise<{ uri: string; title: string }[]> {
+  const cfg = getConfig();
+  const apiKey = transport.apiKey ?? cfg.newsApiKey;
+  if (!apiKey && !cfg.newsApiReplayDir) throw new Error('NEWS_API_KEY is required for suggestSourcesFast');
+  const http = transport.http ?? getEventRegistryHttp();
 
-    // Accept several possible shapes defensively
-    const payload: any = data as any;
-    const candidates: any[] =
-      (Array.isArray(payload) ? payload : undefined) ??
-      payload?.suggestedSources ??
-      payload?.sources ??
-      payload?.results ??
-      [];
+  // Relative to NEWS_API_BASE_URL, same as article search
+  const { data } = await http.get('suggestSourcesFast', {
+    params: {
+      apiKey,
+      text: name,
+      lang,
+    },
+    timeout: 15000,
+  });
 
-    if (!Array.isArray(candidates) || candidates.length === 0) return undefined;
+  // Accept several possible shapes defensively
+  const payload: any = data as any;
+  const candidates: any[] =
+    (Array.isArray(payload) ? payload : undefined) ??
+    payload?.suggestedSources ??
+    payload?.sources ??
+    payload?.results ??
+    [];
+  if (!Array.isArray(candidates)) return [];
 
-    // Try to find the best match: exact title match (normalized) or fallback to the first
-    const normName = normalizeKey(name);
-    const exact = candidates.find((c) => normalizeKey(String(c.title ?? '')) === normName && typeof c.uri === 'string');
-    const chosen = exact ?? candidates.find((c) => typeof c.uri === 'string' && typeof c.title === 'string') ?? candidates[0];
+  return candidates
+    .filter((c) => c && typeof c.uri === 'string')
+    .map((c) => ({ uri: c.uri as string, title: String(c.title ?? c.uri) }));
+}
 
-    if (chosen && typeof chosen.uri === 'string') {
-      return { uri: chosen.uri, title: String(chosen.title ?? chosen.uri) };
-    }
-    return undefined;
-  } catch (err: any) {
-    // Swallow errors but log for diagnostics; resolver is best-effort
-    console.error('[SourceResolver] suggestSourcesFast error:', err?.message ?? String(err));
-    return undefined;
+/**
+ * How well a suggested source matches the names we know an outlet by (slug, registry name and aliases), 0..1:
+ * 1 for an exact title match (ignoring a leading "The"), 0.9 when the URI's domain spells the name, otherwise
+ * the title's word overlap scaled below the default threshold so fuzzy matches need review.
+ */
+function matchConfidence(names: string[], candidate: { uri: string; title: string }): number {
+  const strip = (key: string) => key.replace(/^the-/, '');
+  const title = strip(normalizeKey(candidate.title));
+  const labels = candidate.uri.replace(/^https?:\/\//, '').split('/')[0].toLowerCase().split('.');
+  const domain = labels.length > 1 ? labels[labels.length - 2] : labels[0];
+  let best = 0;
+  for (const name of names) {
+    const key = strip(normalizeKey(name));
+    if (!key) continue;
+    if (key === title) return 1;
+    if (key.replace(/-/g, '') === domain) best = Math.max(best, 0.9);
+    const nameWords = new Set(key.split('-'));
+    const titleWords = new Set(title.split('-').filter(Boolean));
+    const shared = [...nameWords].filter((word) => titleWords.has(word)).length;
+    const union = new Set([...nameWords, ...titleWords]).size;
+    if (union) best = Math.max(best, (shared / union) * 0.7);
   }
+  return Math.round(best * 100) / 100;
+}
+
+function isExpired(entry: CacheEntry, now: number): boolean {
+  if (entry.pinned) return false;
+  const updated = Date.parse(entry.updatedAt);
+  return Number.isNaN(updated) || now - updated > getConfig().sourceUriTtlDays * MS_PER_DAY;
+}
+
+function expiresAt(entry: CacheEntry): string | null {
+  if (entry.pinned) return null;
+  return new Date(Date.parse(entry.updatedAt) + getConfig().sourceUriTtlDays * MS_PER_DAY).toISOString();
+}
+
+function fromCacheEntry(name: string, entry: CacheEntry, via: 'pin' | 'cache' | 'lookup'): SourceResolution {
+  const minConfidence = getConfig().sourceUriMinConfidence;
+  // Entries cached before confidence scoring were trusted then and stay trusted until they expire
+  const confident = entry.pinned || (entry.confidence ?? 1) >= minConfidence;
+  const resolved = Boolean(entry.uri) && confident;
+  return {
+    name,
+    status: resolved ? 'resolved' : entry.candidates?.length ? 'ambiguous' : 'failed',
+    uri: resolved ? entry.uri : null,
+    title: resolved ? entry.title : null,
+    confidence: resolved ? (entry.pinned ? 1 : entry.confidence ?? null) : null,
+    via: resolved ? via : null,
+    updated_at: entry.updatedAt,
+    expires_at: expiresAt(entry),
+    candidates: entry.candidates ?? [],
+    reason: resolved
+      ? null
+      : entry.candidates?.length
+        ? `No suggestSourcesFast candidate reached confidence ${minConfidence} unambiguously.`
+        : 'suggestSourcesFast returned no candidates.',
+  };
 }
 
 /**
- * Resolve friendly source names (or slugs) to Event Registry sourceUri values.
- * - Uses local JSON cache at data/source-uri-cache.json
- * - Performs best-effort lookup via suggestSourcesFast when missing
- * - Returns unique URIs; preserves input order where possible
+ * Resolve friendly source names (or slugs) to Event Registry sourceUri values, reporting how each one went.
+ * - Names containing a dot are taken as URIs
+ * - The URI recorded in the source registry wins, then a pinned cache entry
+ * - Otherwise the cache at data/source-uri-cache.json (SOURCE_URI_CACHE_PATH) is used until the entry is
+ *   SOURCE_URI_TTL_DAYS old, then suggestSourcesFast is asked again; `refresh` skips unpinned cache entries
+ * - Suggestions are scored against the slug and the registry name/aliases; the best one is used only when it
+ *   reaches SOURCE_URI_MIN_CONFIDENCE and no other URI ties it
+ * Lookup outcomes (including no match) are cached; failed lookups are not, so they are retried next time.
  */
-export async function resolveSourceUris(names: string[], opts: { lang?: string } = {}): Promise<string[]> {
+export async function resolveSources(
+  names: string[],
+  opts: { lang?: string; http?: EventRegistryHttp; apiKey?: string; refresh?: boolean } = {},
+): Promise<SourceResolution[]> {
   if (!names || names.length === 0) return [];
   const lang = opts.lang ?? 'eng';
+  const minConfidence = getConfig().sourceUriMinConfidence;
 
   const cache = await loadCache();
-  const uris: string[] = [];
-  const seen = new Set<string>();
+  const now = Date.now();
+  const resolutions: SourceResolution[] = [];
+  let changed = false;
 
   for (const name of names) {
     if (!name || typeof name !== 'string') continue;
+    const permanent = (uri: string, via: 'uri' | 'registry'): SourceResolution => ({
+      name,
+      status: 'resolved',
+      uri,
+      title: via === 'registry' ? getSource(name)?.name ?? null : null,
+      confidence: 1,
+      via,
+      updated_at: null,
+      expires_at: null,
+      candidates: [],
+      reason: null,
+    });
 
     // If it looks like a domain (contains a dot), assume it's already a URI
     if (name.includes('.')) {
-      if (!seen.has(name)) {
-        uris.push(name);
-        seen.add(name);
-      }
+      resolutions.push(permanent(name, 'uri'));
+      continue;
+    }
+
+    // The source registry's URI wins over pins, cache and lookup
+    const registered = getSource(name);
+    if (registered?.uri) {
+      resolutions.push(permanent(registered.uri, 'registry'));
       continue;
     }
 
     const key = normalizeKey(name);
     const cached = cache[key];
-    if (cached && cached.uri) {
-      if (!seen.has(cached.uri)) {
-        uris.push(cached.uri);
-        seen.add(cached.uri);
-      }
+    if (cached?.pinned) {
+      resolutions.push(fromCacheEntry(name, cached, 'pin'));
+      continue;
+    }
+    if (cached && !opts.refresh && !isExpired(cached, now)) {
+      resolutions.push(fromCacheEntry(name, cached, 'cache'));
       continue;
     }
 
-    // Not in cache; try to suggest
-    const suggestion = await suggestSource(name, lang);
-    if (suggestion) {
-      cache[key] = {
-        uri: suggestion.uri,
-        title: suggestion.title,
-        updatedAt: new Date().toISOString(),
-      };
-      if (!seen.has(suggestion.uri)) {
-        uris.push(suggestion.uri);
-        seen.add(suggestion.uri);
-      }
+    let suggestions: { uri: string; title: string }[];
+    try {
+      suggestions = await suggestSources(name, lang, opts);
+    } catch (err: any) {
+      // Lookups are best-effort; keep any stale mapping rather than dropping the source
+      logger.warn({ err: err?.message ?? String(err), source: name }, 'suggestSourcesFast lookup failed');
+      resolutions.push(
+        cached?.uri
+          ? fromCacheEntry(name, cached, 'cache')
+          : {
+              name,
+              status: 'failed',
+              uri: null,
+              title: null,
+              confidence: null,
+              via: null,
+              updated_at: null,
+              expires_at: null,
+              candidates: [],
+              reason: `suggestSourcesFast lookup failed: ${err?.message ?? String(err)}`,
+            },
+      );
+      continue;
     }
+
+    const knownNames = [name, ...(registered ? [registered.name, ...registered.aliases] : [])];
+    const candidates = suggestions
+      .map((suggestion) => ({ ...suggestion, confidence: matchConfidence(knownNames, suggestion) }))
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, 5);
+    const [best, runnerUp] = candidates;
+    const tied = Boolean(best && runnerUp && runnerUp.confidence === best.confidence && runnerUp.uri !== best.uri);
+    const accepted = best && best.confidence >= minConfidence && !tied ? best : undefined;
+
+    cache[key] = {
+      uri: accepted?.uri ?? null,
+      title: accepted?.title ?? name,
+      updatedAt: new Date(now).toISOString(),
+      confidence: accepted?.confidence ?? best?.confidence ?? 0,
+      ...(accepted ? {} : { candidates }),
+    };
+    changed = true;
+    resolutions.push(fromCacheEntry(name, cache[key], 'lookup'));
   }
 
   // Persist any new entries
+  if (changed) await saveCache(cache);
+  return resolutions;
+}
+
+/**
+ * URI for each resolved name. Names that did not resolve are logged, since their articles will be missing from
+ * every query that targets them.
+ */
+export async function resolveSourceUriMap(
+  names: string[],
+  opts: { lang?: string; http?: EventRegistryHttp; apiKey?: string } = {},
+): Promise<Map<string, string>> {
+  const resolutions = await resolveSources(names, opts);
+  const unresolved = resolutions.filter((r) => r.status !== 'resolved');
+  if (unresolved.length) {
+    logger.warn(
+      { sources: unresolved.map((r) => `${r.name} (${r.status})`) },
+      `${unresolved.length} of ${resolutions.length} sources have no confident URI and will not be queried; see resolve_sources`,
+    );
+  }
+  return new Map(resolutions.flatMap((r) => (r.uri ? [[r.name, r.uri] as [string, string]] : [])));
+}
+
+/**
+ * URIs for the resolved names, unique and in input order (see resolveSourceUriMap).
+ */
+export async function resolveSourceUris(
+  names: string[],
+  opts: { lang?: string; http?: EventRegistryHttp; apiKey?: string } = {},
+): Promise<string[]> {
+  return [...new Set((await resolveSourceUriMap(names, opts)).values())];
+}
+
+/**
+ * Pin a source name to a URI (manual override that never expires), or remove the pin with `uri: null`.
+ */
+export async function pinSourceUri(name: string, uri: string | null): Promise<void> {
+  const key = normalizeKey(name);
+  if (!key) throw new AnalysisError('Source name is required to pin a URI.', ErrorCode.InvalidParams);
+  const cache = await loadCache();
+  if (uri === null) {
+    if (cache[key]?.pinned) delete cache[key];
+  } else {
+    const trimmed = uri.trim();
+    if (!trimmed) throw new AnalysisError(`Pinned URI for "${name}" must not be empty.`, ErrorCode.InvalidParams);
+    cache[key] = { uri: trimmed, title: name, updatedAt: new Date().toISOString(), confidence: 1, pinned: true };
+  }
   await saveCache(cache);
+}
+
+export interface ResolveSourcesResult {
+  cache: { path: string; ttl_days: number; min_confidence: number };
+  pins_changed: { name: string; uri: string | null }[];
+  summary: { total: number; resolved: number; ambiguous: number; failed: number };
+  sources: SourceResolution[];
+}
+
+/**
+ * resolve_sources: apply any pin changes, then resolve `sources` (default: the registry's active sources) and
+ * report every outcome with its candidates. Pins for sources whose registry entry has a URI are rejected,
+ * since the registry URI would silently win.
+ */
+export async function auditSourceResolution(
+  opts: {
+    sources?: string[];
+    refresh?: boolean;
+    pins?: Record<string, string | null>;
+    http?: EventRegistryHttp;
+    apiKey?: string;
+  } = {},
+): Promise<ResolveSourcesResult> {
+  const pins = Object.entries(opts.pins ?? {});
+  for (const [name, uri] of pins) {
+    const registered = getSource(name);
+    if (uri !== null && registered?.uri) {
+      throw new AnalysisError(
+        `${registered.id} has a registry URI (${registered.uri}) that takes precedence over pins; change it with update_source.`,
+        ErrorCode.InvalidParams,
+      );
+    }
+  }
+  for (const [name, uri] of pins) await pinSourceUri(name, uri);
+
+  const names = opts.sources?.length ? opts.sources : activeSourceIds();
+  const sources = await resolveSources(names, opts);
+  const count = (status: ResolutionStatus) => sources.filter((s) => s.status === status).length;
+  const cfg = getConfig();
+  return {
+    cache: { path: cachePath(), ttl_days: cfg.sourceUriTtlDays, min_confidence: cfg.sourceUriMinConfidence },
+    pins_changed: pins.map(([name, uri]) => ({ name, uri })),
+    summary: { total: sources.length, resolved: count('resolved'), ambiguous: count('ambiguous'), failed: count('failed') },
+    sources,
+  };
+}
+
+/**
+ * Cached URI for each source name or slug, without calling suggestSourcesFast; null when never resolved.
+ * Lets callers audit the mapping and attribute fetched articles (whose ids are URIs) back to curated slugs.
+ */
+export async function cachedSourceUris(names: string[]): Promise<Record<string, string | null>> {
+  const cache = await loadCache();
+  const uris: Record<string, string | null> = {};
+  for (const name of names) {
+    uris[name] = name.includes('.') ? name : cache[normalizeKey(name)]?.uri ?? null;
+  }
   return uris;
 }
 
@@ -0,0 +1,233 @@
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import type { HeadlineRecord, LeaningKey } from '../types.js';
+import { round2 } from '../utils/normalize.js';
+import {
+  AnalysisError,
+  analyzeDailySample,
+  type AnalyzeHeadlinesResult,
+  type DailyAnalysisOptions,
+  type LexiconDiagnostics,
+} from './analysis.js';
+import { getLexiconPack } from './lexicon.js';
+import { tokenize } from './matcher.js';
+import { scoreAttention, scoreGeneral, scoreInvestor } from './scoring.js';
+
+/**
+ * Top stories: the day's relevant, sampled headlines clustered into topics by TF-IDF cosine similarity over
+ * title terms. Each topic carries its own investor/general sentiment, attention, per-leaning coverage and the
+ * headlines closest to its centroid, ranked by volume or attention.
+ */
+
+export type StoryRanking = 'volume' | 'attention';
+
+export const STORY_RANKINGS: readonly StoryRanking[] = ['volume', 'attention'];
+
+export interface StoryHeadline {
+  title: string;
+  source: string;
+  leaning: LeaningKey;
+}
+
+export interface StoryTopic {
+  rank: number;
+  label: string; // top key terms joined, e.g. "fed / rate / cut"
+  key_terms: string[];
+  headlines: number;
+  share: number; // % of clustered headlines
+  sentiment: { investor: number; general: number };
+  attention: number;
+  coverage: Record<LeaningKey, number>;
+  representative_headlines: StoryHeadline[];
+}
+
+export interface TopStoriesResult {
+  date: string;
+  rank_by: StoryRanking;
+  headlines_analyzed: number;
+  unclustered_headlines: number; // headlines that did not join a topic of at least MIN_TOPIC_SIZE
+  topics: StoryTopic[];
+  diagnostics: {
+    token_budget: AnalyzeHeadlinesResult['diagnostics']['token_budget'];
+    store: AnalyzeHeadlinesResult['diagnostics']['store'];
+    lexicon: LexiconDiagnostics;
+    similarity: number;
+  };
+}
+
+export interface TopStoriesOptions extends DailyAnalysisOptions {
+  rankBy?: StoryRanking;
+  limit?: number;
+  similarity?: number; // cosine threshold for joining a topic
+}
+
+export const DEFAULT_STORY_LIMIT = 10;
+export const MAX_STORY_LIMIT = 25;
+const DEFAULT_SIMILARITY = 0.25;
+const MIN_TOPIC_SIZE = 2;
+const KEY_TERMS = 3;
+const REPRESENTATIVES = 3;
+
+// Function words and headline filler that say nothing about the topic
+const STOPWORDS = new Set(
+  (
+    'a an and are as at be by for from has have how in into is it its of on or over says say than that the their ' +
+    'this to up was what when who why will with after amid as new more could would may us u s report live update'
+  )
+    .split(' ')
+    .filter(Boolean),
+);
+
+type Vector = Map<string, number>;
+
+interface Topic {
+  members: number[];
+  centroid: Vector; // sum of member vectors
+}
+
+export async function topStories(date: string, opts: TopStoriesOptions = {}): Promise<TopStoriesResult> {
+  const rankBy = opts.rankBy ?? 'volume';
+  if (!STORY_RANKINGS.includes(rankBy)) {
+    throw new AnalysisError(`rankBy must be one of: ${STORY_RANKINGS.join(', ')}.`, ErrorCode.InvalidParams);
+  }
+  const limit = opts.limit ?? DEFAULT_STORY_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_STORY_LIMIT) {
+    throw new AnalysisError(`limit must be an integer between 1 and ${MAX_STORY_LIMIT}.`, ErrorCode.InvalidParams);
+  }
+  const similarity = opts.similarity ?? DEFAULT_SIMILARITY;
+
+  const { result, headlines: records } = await analyzeDailySample(date, opts);
+  const lexicon = getLexiconPack(opts.lexicon);
+
+  const { vectors, surfaces } = tfidfVectors(records.map((r) => r.title));
+  const topics = clusterVectors(vectors, similarity).filter((t) => t.members.length >= MIN_TOPIC_SIZE);
+  const clustered = topics.reduce((sum, t) => sum + t.members.length, 0);
+
+  const described = topics.map((topic) => {
+    const members = topic.members.map((i) => records[i]);
+    const titles = members.map((r) => r.title);
+    const keyTerms = topTerms(topic.centroid, KEY_TERMS).map((stem) => surfaces.get(stem) ?? stem);
+    return {
+      label: keyTerms.join(' / '),
+      key_terms: keyTerms,
+      headlines: members.length,
+      share: clustered ? round2((members.length / clustered) * 100) : 0,
+      sentiment: { investor: scoreInvestor(titles, lexicon).score, general: scoreGeneral(titles) },
+      attention: scoreAttention(titles),
+      coverage: coverage(members),
+      representative_headlines: topic.members
+        .map((i) => ({ i, score: cosine(vectors[i], topic.centroid) }))
+        .sort((a, b) => b.score - a.score || a.i - b.i)
+        .slice(0, REPRESENTATIVES)
+        .map(({ i }) => ({ title: records[i].title, source: records[i].sourceName, leaning: records[i].leaning })),
+    };
+  });
+
+  described.sort((a, b) =>
+    rankBy === 'attention'
+      ? b.attention - a.attention || b.headlines - a.headlines
+      : b.headlines - a.headlines || b.attention - a.attention,
+  );
+
+  return {
+    date: result.date,
+    rank_by: rankBy,
+    headlines_analyzed: records.length,
+    unclustered_headlines: records.length - clustered,
+    topics: described.slice(0, limit).map((topic, index) => ({ rank: index + 1, ...topic })),
+    diagnostics: {
+      token_budget: result.diagnostics.token_budget,
+      store: result.diagnostics.store,
+      lexicon: result.diagnostics.lexicon,
+      similarity,
+    },
+  };
+}
+
+/**
+ * L2-normalized TF-IDF vectors over stemmed title terms, plus the most common surface form of each stem for labels.
+ */
+function tfidfVectors(titles: string[]): { vectors: Vector[]; surfaces: Map<string, string> } {
+  const docs = titles.map((title) => tokenize(title).filter((t) => !STOPWORDS.has(t.text) && !/^\d+$/.test(t.text)));
+  const df = new Map<string, number>();
+  const surfaceCounts = new Map<string, Map<string, number>>();
+  for (const doc of docs) {
+    for (const stem of new Set(doc.map((t) => t.stem))) df.set(stem, (df.get(stem) ?? 0) + 1);
+    for (const token of doc) {
+      const counts = surfaceCounts.get(token.stem) ?? new Map<string, number>();
+      counts.set(token.text, (counts.get(token.text) ?? 0) + 1);
+      surfaceCounts.set(token.stem, counts);
+    }
+  }
+
+  const vectors = docs.map((doc) => {
+    const vector: Vector = new Map();
+    for (const token of doc) vector.set(token.stem, (vector.get(token.stem) ?? 0) + 1);
+    let norm = 0;
+    for (const [stem, tf] of vector) {
+      // smoothed idf so terms shared by every headline still count a little
+      const weight = tf * Math.log(1 + docs.length / (df.get(stem) ?? 1));
+      vector.set(stem, weight);
+      norm += weight * weight;
+    }
+    norm = Math.sqrt(norm) || 1;
+    for (const [stem, weight] of vector) vector.set(stem, weight / norm);
+    return vector;
+  });
+
+  const surfaces = new Map<string, string>();
+  for (const [stem, counts] of surfaceCounts) {
+    surfaces.set(stem, [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0][0]);
+  }
+  return { vectors, surfaces };
+}
+
+/**
+ * Single-pass leader clustering: each headline joins the topic whose centroid it is most similar to, or starts one.
+ */
+function clusterVectors(vectors: Vector[], threshold: number): Topic[] {
+  const topics: Topic[] = [];
+  vectors.forEach((vector, index) => {
+    let best: Topic | undefined;
+    let bestScore = threshold;
+    for (const topic of topics) {
+      const score = cosine(vector, topic.centroid);
+      if (score >= bestScore) {
+        best = topic;
+        bestScore = score;
+      }
+    }
+    if (!best) {
+      topics.push({ members: [index], centroid: new Map(vector) });
+      return;
+    }
+    best.members.push(index);
+    for (const [term, weight] of vector) best.centroid.set(term, (best.centroid.get(term) ?? 0) + weight);
+  });
+  return topics;
+}
+
+function cosine(a: Vector, b: Vector): number {
+  let dot = 0;
+  let normB = 0;
+  for (const [term, weight] of b) {
+    normB += weight * weight;
+    const other = a.get(term);
+    if (other) dot += other * weight;
+  }
+  let normA = 0;
+  for (const weight of a.values()) normA += weight * weight;
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function topTerms(centroid: Vector, count: number): string[] {
+  return [...centroid.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, count)
+    .map(([term]) => term);
+}
+
+function coverage(members: HeadlineRecord[]): Record<LeaningKey, number> {
+  const counts: Record<LeaningKey, number> = { left: 0, center: 0, right: 0, other: 0 };
+  for (const member of members) counts[member.leaning] += 1;
+  return counts;
+}
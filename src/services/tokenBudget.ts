@@ -1,4 +1,5 @@
 import { getConfig } from '../config.js';
+import { getBudgetStore, type BudgetStore } from './budgetStore.js';
 
 /**
  * Token budgeting for Event Registry (newsapi.ai)
@@ -16,6 +17,14 @@ export interface TokenCheckResult {
   hardCapPct: number;
 }
 
+/**
+ * Tokens held for one workload between reserve and commit/release. Blocked reservations hold nothing.
+ */
+export interface TokenReservation extends TokenCheckResult {
+  monthKey: string;
+  reserved: number; // tokens held by this reservation
+}
+
 export interface ArticleSearchParams {
   startDate: string; // YYYY-MM-DD
   endDate: string;   // YYYY-MM-DD
@@ -23,7 +32,8 @@ export interface ArticleSearchParams {
 }
 
 /**
- * Month-to-date accounting (in-memory). Consider persisting later (e.g., Redis).
+ * Month-to-date accounting kept in the shared budget store (see budgetStore.ts), so spend survives restarts
+ * and is counted once across replicas.
  */
 class TokenBudget {
   private monthlyTokens: number;
@@ -31,10 +41,10 @@ class TokenBudget {
   private hardCapPct: number;
   private allowOverage: boolean;
 
-  private monthKey?: string;
-  private mtdTokens = 0; // tokens used this month (observed)
+  // reservations already committed or released; settling twice is a no-op
+  private settled = new WeakSet<TokenReservation>();
 
-  constructor() {
+  constructor(private readonly resolveStore: () => Promise<BudgetStore> = getBudgetStore) {
     const cfg = getConfig();
     // Defaults per .clinerules
     this.monthlyTokens = cfg.tokenBudget?.monthlyTokens ?? 50000;
@@ -49,19 +59,12 @@ class TokenBudget {
     return `${y}-${m}`;
   }
 
-  private ensureMonth(date = new Date()) {
-    const key = this.getMonthKey(date);
-    if (this.monthKey !== key) {
-      this.monthKey = key;
-      this.mtdTokens = 0;
-    }
-  }
-
-  getState() {
-    this.ensureMonth();
+  async getState(date = new Date()) {
+    const monthKey = this.getMonthKey(date);
+    const store = await this.resolveStore();
     return {
-      monthKey: this.monthKey!,
-      mtdTokens: this.mtdTokens,
+      monthKey,
+      mtdTokens: await store.get(counterKey(monthKey)),
       monthlyTokens: this.monthlyTokens,
       softCapPct: this.softCapPct,
       hardCapPct: this.hardCapPct,
@@ -104,60 +107,70 @@ class TokenBudget {
   }
 
   /**
-   * Check threshold gates and tentatively reserve the estimated tokens.
+   * Check threshold gates and reserve the estimated tokens in one atomic step.
    * If blocked, no reservation occurs.
    * If throttled, reservation still occurs to reflect planned usage.
    */
-  checkAndRecord(estimate: number, opts?: { allowOverage?: boolean }): TokenCheckResult {
-    this.ensureMonth();
-
+  async reserve(estimate: number, opts?: { allowOverage?: boolean }): Promise<TokenReservation> {
+    const monthKey = this.getMonthKey();
     const monthlyTokens = this.monthlyTokens;
     const softCap = (this.softCapPct / 100) * monthlyTokens;
-    const hardCap = (this.hardCapPct / 100) * monthlyTokens;
 
-    const projected = this.mtdTokens + estimate;
+    // Above the hard cap we throttle; beyond the monthly allowance we block unless overage is permitted
+    const permitOverage = opts?.allowOverage ?? this.allowOverage;
+    const store = await this.resolveStore();
+    const update = await store.incrementIf(counterKey(monthKey), estimate, permitOverage ? undefined : monthlyTokens);
 
     let status: BudgetStatus = 'allowed';
-    let allowed = true;
-
-    if (projected > hardCap) {
-      // Hard cap: block unless explicitly allowing overage and staying within monthlyTokens OR allowing true overage
-      const permitOverage = opts?.allowOverage ?? this.allowOverage;
-      if (!permitOverage && projected > monthlyTokens) {
-        status = 'blocked';
-        allowed = false;
-      } else {
-        // Allowed, but mark throttled if over hard cap
-        status = 'throttled';
-      }
-    } else if (projected > softCap) {
+    if (!update.applied) {
+      status = 'blocked';
+    } else if (update.value > softCap) {
+      // Past the soft cap, or past the hard cap with overage permitted
       status = 'throttled';
     }
 
-    if (allowed) {
-      // Tentatively reserve; caller should call recordActual afterwards to reconcile
-      this.mtdTokens += estimate;
-    }
-
     return {
-      allowed,
+      allowed: update.applied,
       status,
-      mtdTokens: this.mtdTokens,
+      mtdTokens: update.value,
       monthlyTokens,
       softCapPct: this.softCapPct,
       hardCapPct: this.hardCapPct,
+      monthKey,
+      reserved: update.applied ? estimate : 0,
     };
   }
 
   /**
-   * Record actual tokens consumed post-operation. This reconciles accounting drift over time.
-   * If actual differs from estimate, we adjust the delta.
+   * Replace a reservation with the tokens actually consumed, reconciling accounting drift over time.
+   * The difference is booked against the month the reservation was made in.
    */
-  recordActual(actual: number, previouslyEstimated: number): void {
-    this.ensureMonth();
-    const delta = actual - previouslyEstimated;
-    this.mtdTokens = Math.max(0, this.mtdTokens + delta);
+  async commit(reservation: TokenReservation, actual: number): Promise<void> {
+    if (!this.settle(reservation)) return;
+    const store = await this.resolveStore();
+    await store.adjust(counterKey(reservation.monthKey), actual - reservation.reserved);
+    if (actual > 0) {
+      // Daily spend for the usage history (budget_status)
+      await store.adjust(`tokens:${new Date().toISOString().slice(0, 10)}`, actual);
+    }
   }
+
+  /**
+   * Give back a reservation whose workload never ran.
+   */
+  async release(reservation: TokenReservation): Promise<void> {
+    await this.commit(reservation, 0);
+  }
+
+  private settle(reservation: TokenReservation): boolean {
+    if (!reservation.allowed || this.settled.has(reservation)) return false;
+    this.settled.add(reservation);
+    return true;
+  }
+}
+
+function counterKey(monthKey: string): string {
+  return `tokens:${monthKey}`;
 }
 
 const shared = new TokenBudget();
@@ -169,14 +182,18 @@ export function estimateTokensForArticleSearch(params: ArticleSearchParams): num
   return shared.estimateArticleSearch(params);
 }
 
-export function checkAndRecord(estimate: number, opts?: { allowOverage?: boolean }): TokenCheckResult {
-  return shared.checkAndRecord(estimate, opts);
+export function reserveTokens(estimate: number, opts?: { allowOverage?: boolean }): Promise<TokenReservation> {
+  return shared.reserve(estimate, opts);
+}
+
+export function commitTokens(reservation: TokenReservation, actual: number): Promise<void> {
+  return shared.commit(reservation, actual);
 }
 
-export function recordActual(actual: number, previouslyEstimated: number): void {
-  shared.recordActual(actual, previouslyEstimated);
+export function releaseTokens(reservation: TokenReservation): Promise<void> {
+  return shared.release(reservation);
 }
 
-export function getBudgetState() {
-  return shared.getState();
+export function getBudgetState(date?: Date) {
+  return shared.getState(date);
 }
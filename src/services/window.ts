@@ -0,0 +1,228 @@
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { getConfig } from '../config.js';
+import type { Article } from '../types.js';
+import { dayRange, parseDateTimeNL, normalizeDate } from '../utils/date.js';
+import { round2 } from '../utils/normalize.js';
+import {
+  AnalysisError,
+  fetchPeriodArticles,
+  type ArticleCacheDiagnostics,
+  type CompletenessDiagnostics,
+  type LexiconDiagnostics,
+  type TokenBudgetDiagnostics,
+} from './analysis.js';
+import { dedupeArticles, type DedupDiagnostics } from './dedup.js';
+import { getLexiconPack, type LexiconPack } from './lexicon.js';
+import type { FetchOptions, NewsApiClient } from './newsapi.js';
+import { evaluateHeadlineRelevance } from './relevance.js';
+import { scoreAttention, scoreGeneral, scoreInvestor } from './scoring.js';
+
+/**
+ * Intraday analysis: sentiment over an arbitrary time window (e.g. the hours around an FOMC release) in hourly
+ * buckets, plus a rolling score over the most recent hours. EventRegistry filters by UTC date only, so the covering
+ * days are searched newest first with the daily page cap for each of them, pagination stops once pages reach back
+ * past the window, and articles are cut to the window by publish time. A search the page cap stops before it
+ * reaches the window start is reported truncated. Syndicated copies are collapsed across the whole window before
+ * bucketing.
+ */
+
+export const MAX_WINDOW_HOURS = 72;
+export const DEFAULT_ROLLING_HOURS = 3;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface Scores {
+  investor: number;
+  general: number;
+}
+
+export interface WindowBucket {
+  hour: string; // ISO start of the UTC hour
+  start: string; // bucket bounds clipped to the window; end exclusive
+  end: string;
+  articles: number;
+  relevant_headlines: number;
+  sentiment: Scores | null; // null when the hour had no relevant headlines
+  attention: number | null;
+}
+
+export interface AnalyzeWindowResult {
+  window: { start: string; end: string; hours: number };
+  series: WindowBucket[];
+  rolling: {
+    hours: number;
+    start: string;
+    end: string;
+    relevant_headlines: number;
+    sentiment: Scores | null;
+  };
+  overall: {
+    articles: number;
+    relevant_headlines: number;
+    sentiment: Scores;
+    attention: number;
+  };
+  diagnostics: {
+    token_budget: TokenBudgetDiagnostics;
+    sampling: {
+      sources_targeted: number;
+      page_cap: number;
+      pages_fetched: number;
+      earliest_article: string | null; // oldest article fetched, including those outside the window
+      truncated: boolean; // the page cap ran out before the search reached window.start
+    };
+    completeness: CompletenessDiagnostics;
+    article_cache: ArticleCacheDiagnostics;
+    lexicon: LexiconDiagnostics;
+    dedup: DedupDiagnostics;
+  };
+}
+
+export interface WindowSpec {
+  start?: string; // ISO time or natural language
+  end?: string; // defaults to now
+  lastHours?: number; // alternative to start/end: the hours up to now
+}
+
+export interface AnalyzeWindowOptions {
+  client?: NewsApiClient;
+  fetch?: FetchOptions;
+  lexicon?: string;
+  rollingHours?: number;
+  now?: Date;
+}
+
+/**
+ * Resolve a window spec to instants. The end is capped at `now`; the span must be positive and at most
+ * MAX_WINDOW_HOURS.
+ */
+export function resolveWindow(spec: WindowSpec, now: Date = new Date()): { start: Date; end: Date } {
+  let start: Date;
+  let end: Date;
+  if (spec.lastHours !== undefined) {
+    if (spec.start || spec.end) {
+      throw new AnalysisError('Provide either lastHours or start/end, not both.', ErrorCode.InvalidParams);
+    }
+    if (!(spec.lastHours > 0) || spec.lastHours > MAX_WINDOW_HOURS) {
+      throw new AnalysisError(`lastHours must be between 0 and ${MAX_WINDOW_HOURS}.`, ErrorCode.InvalidParams);
+    }
+    end = now;
+    start = new Date(now.getTime() - spec.lastHours * HOUR_MS);
+  } else {
+    if (!spec.start) {
+      throw new AnalysisError('Provide lastHours or a start time.', ErrorCode.InvalidParams);
+    }
+    start = parseInstant(spec.start, now);
+    end = spec.end ? parseInstant(spec.end, now) : now;
+    if (end > now) end = now;
+  }
+  if (end <= start) {
+    throw new AnalysisError('The window must end after it starts (and start before now).', ErrorCode.InvalidParams);
+  }
+  if (end.getTime() - start.getTime() > MAX_WINDOW_HOURS * HOUR_MS) {
+    throw new AnalysisError(`The window spans more than ${MAX_WINDOW_HOURS} hours.`, ErrorCode.InvalidParams);
+  }
+  return { start, end };
+}
+
+export async function analyzeWindow(spec: WindowSpec, opts: AnalyzeWindowOptions = {}): Promise<AnalyzeWindowResult> {
+  const now = opts.now ?? new Date();
+  const { start, end } = resolveWindow(spec, now);
+  const rollingHours = opts.rollingHours ?? DEFAULT_ROLLING_HOURS;
+  if (!(rollingHours > 0) || rollingHours > MAX_WINDOW_HOURS) {
+    throw new AnalysisError(`rollingHours must be between 0 and ${MAX_WINDOW_HOURS}.`, ErrorCode.InvalidParams);
+  }
+  const lexicon = getLexiconPack(opts.lexicon);
+
+  // The end is exclusive, so a window ending at midnight does not search the next day
+  const firstDay = normalizeDate(start);
+  const lastDay = normalizeDate(new Date(end.getTime() - 1));
+  // The cap applies per query across all the days searched, so it grows with them
+  const pageCap = opts.fetch?.pageCap ?? getConfig().backfill.pageCapPerDay * dayRange(firstDay, lastDay).length;
+  const fetched = await fetchPeriodArticles(firstDay, lastDay, {
+    client: opts.client,
+    fetch: { ...opts.fetch, pageCap, timeWindow: { start: start.toISOString(), end: end.toISOString() } },
+  });
+  const truncated = fetched.truncated.length > 0;
+
+  const dedup = dedupeArticles(fetched.articles.filter((article) => inRange(article, start, end)));
+  const relevant = dedup.articles.filter((article) => evaluateHeadlineRelevance(article.title, lexicon).relevant);
+
+  const series: WindowBucket[] = [];
+  for (let hour = floorHour(start); hour < end.getTime(); hour += HOUR_MS) {
+    const from = new Date(Math.max(hour, start.getTime()));
+    const to = new Date(Math.min(hour + HOUR_MS, end.getTime()));
+    const titles = headlinesIn(relevant, from, to);
+    series.push({
+      hour: new Date(hour).toISOString(),
+      start: from.toISOString(),
+      end: to.toISOString(),
+      articles: dedup.articles.filter((article) => inRange(article, from, to)).length,
+      relevant_headlines: titles.length,
+      sentiment: titles.length ? score(titles, lexicon) : null,
+      attention: titles.length ? scoreAttention(titles) : null,
+    });
+  }
+
+  const rollingStart = new Date(Math.max(start.getTime(), end.getTime() - rollingHours * HOUR_MS));
+  const rollingTitles = headlinesIn(relevant, rollingStart, end);
+  const allTitles = relevant.map((article) => article.title);
+
+  return {
+    window: { start: start.toISOString(), end: end.toISOString(), hours: round2((end.getTime() - start.getTime()) / HOUR_MS) },
+    series,
+    rolling: {
+      hours: rollingHours,
+      start: rollingStart.toISOString(),
+      end: end.toISOString(),
+      relevant_headlines: rollingTitles.length,
+      sentiment: rollingTitles.length ? score(rollingTitles, lexicon) : null,
+    },
+    overall: {
+      articles: dedup.articles.length,
+      relevant_headlines: allTitles.length,
+      sentiment: score(allTitles, lexicon),
+      attention: scoreAttention(allTitles),
+    },
+    diagnostics: {
+      token_budget: fetched.tokenBudget,
+      sampling: {
+        sources_targeted: fetched.sources.length,
+        page_cap: fetched.pageCap,
+        pages_fetched: fetched.pagesFetched,
+        earliest_article: fetched.earliestPublished,
+        truncated,
+      },
+      completeness: { ...fetched.completeness, complete: fetched.completeness.complete && !truncated },
+      article_cache: fetched.articleCache,
+      lexicon: { id: lexicon.id, version: lexicon.version },
+      dedup: dedup.diagnostics,
+    },
+  };
+}
+
+function parseInstant(input: string, now: Date): Date {
+  try {
+    return parseDateTimeNL(input, now);
+  } catch (err: any) {
+    throw new AnalysisError(err?.message ?? `Invalid time: ${input}`, ErrorCode.InvalidParams);
+  }
+}
+
+function floorHour(instant: Date): number {
+  return Math.floor(instant.getTime() / HOUR_MS) * HOUR_MS;
+}
+
+function inRange(article: Article, from: Date, to: Date): boolean {
+  if (!article.publishedAt) return false;
+  const at = Date.parse(article.publishedAt);
+  return at >= from.getTime() && at < to.getTime();
+}
+
+function headlinesIn(articles: Article[], from: Date, to: Date): string[] {
+  return articles.filter((article) => inRange(article, from, to)).map((article) => article.title);
+}
+
+function score(titles: string[], lexicon: LexiconPack): Scores {
+  return { investor: scoreInvestor(titles, lexicon).score, general: scoreGeneral(titles) };
+}
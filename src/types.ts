@@ -7,12 +7,23 @@ export type SourceId = string; // kebab-case identifier (prefer NewsAPI source.i
 
 export type PoliticalLeaning = 'left' | 'center' | 'right';
 
+// Finer source classification; collapses onto PoliticalLeaning (see spectrumToLeaning)
+export type SpectrumLeaning = 'progressive' | 'center-left' | 'center' | 'center-right' | 'conservative';
+
+// Whether per-leaning results are reported over the three collapsed leanings or the full five-point spectrum
+export type SpectrumMode = 'three' | 'five';
+
+// A per-leaning result key in either spectrum mode
+export type SpectrumBucket = PoliticalLeaning | SpectrumLeaning;
+
 export interface Article {
   id: string | null; // NewsAPI source.id (nullable)
   sourceName: string; // NewsAPI article.source.name
   title: string; // 1..512 chars expected
   publishedAt: string; // ISO-8601 datetime
   url?: string;
+  eventUri?: string | null; // EventRegistry event the article belongs to
+  isDuplicate?: boolean; // EventRegistry marks later copies of an article it has already seen
 }
 
 export interface HeadlineRecord {
@@ -20,7 +31,8 @@ export interface HeadlineRecord {
   sourceId: SourceId;
   sourceName: string;
   publishedDate: string; // YYYY-MM-DD (UTC normalized)
-  leaning: PoliticalLeaning;
+  leaning: LeaningKey; // 'other' for sources outside the registry
+  url?: string;
 }
 
 export interface ScoreDimensions {
@@ -53,11 +65,14 @@ export interface DailyScores {
   distributions: DailyDistributions;
   keyTerms: Record<string, number>; // investor lexicon term frequencies
   sampleHeadlines: string[]; // 0..5
+  sentimentSeries?: number[]; // per-headline general comparative scores; baseline input for volShock
   scores: ScoreDimensions;
   meta: {
     method: 'sourcesOnly' | 'countryCategoryOnly' | 'mixedSafe';
     pageCount: number;
     apiCalls: number;
+    lexicon?: string; // lexicon pack id@version the row was scored with
+    pageCap?: number; // pages per query the day was fetched with; rows stored before it was recorded omit it
   };
 }
 
@@ -65,6 +80,7 @@ export interface UsageStats {
   date: string; // YYYY-MM-DD
   requests: number;
   articlesFetched: number;
+  tokensUsed?: number;
   rateLimitRemaining?: number;
 }
 
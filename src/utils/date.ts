@@ -33,6 +33,24 @@ export function parseDateNL(input: string, now: Date = new Date()): string {
   return normalizeDate(parsed);
 }
 
+/**
+ * Parse an instant. ISO 8601 inputs are taken as given (UTC when they carry no offset); anything else goes through
+ * chrono-node, e.g. "today 2pm", "3 hours ago", "June 12 2:30pm EDT".
+ */
+export function parseDateTimeNL(input: string, now: Date = new Date()): Date {
+  const trimmed = input.trim();
+  const iso = /^(\d{4}-\d{2}-\d{2})(?:[T ](\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)(Z|[+-]\d{2}:?\d{2})?)?$/.exec(trimmed);
+  const parsed = iso
+    ? new Date(iso[2] ? `${iso[1]}T${iso[2]}${iso[3] ?? 'Z'}` : `${iso[1]}T00:00:00Z`)
+    : chrono.parseDate(trimmed, now, { forwardDate: false });
+  if (!parsed || Number.isNaN(parsed.getTime())) {
+    throw new Error(
+      'Could not understand the time input. Try "today 2pm", "3 hours ago", or an ISO time like 2025-06-18T18:00:00Z.'
+    );
+  }
+  return parsed;
+}
+
 /**
  * Generate a list of month ranges between startMonth and endMonth inclusive.
  * Inputs are YYYY-MM strings. Output ranges are in YYYY-MM-DD (UTC) strings.
@@ -74,3 +92,115 @@ export function monthRange(startMonth: string, endMonth: string): { start: strin
 
   return ranges;
 }
+
+/**
+ * Whether a YYYY-MM-DD day is fully in the past (UTC), i.e. its headlines will no longer change.
+ */
+export function isClosedDay(date: string, now: Date = new Date()): boolean {
+  return date < normalizeDate(now);
+}
+
+/**
+ * Shift a YYYY-MM-DD day by N calendar days (UTC).
+ */
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00.000Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return normalizeDate(d);
+}
+
+/**
+ * List every YYYY-MM-DD day between start and end inclusive (UTC). Empty if start > end.
+ */
+export function dayRange(start: string, end: string): string[] {
+  const days: string[] = [];
+  for (let cur = normalizeDate(start); cur <= end; cur = addDays(cur, 1)) {
+    days.push(cur);
+  }
+  return days;
+}
+
+export type PeriodGranularity = 'day' | 'week' | 'month' | 'quarter';
+
+export const PERIOD_GRANULARITIES: readonly PeriodGranularity[] = ['day', 'week', 'month', 'quarter'];
+
+export interface PeriodBucket {
+  key: string; // YYYY-MM-DD, YYYY-Www (ISO week), YYYY-MM or YYYY-Qn
+  start: string;
+  end: string;
+}
+
+/**
+ * Split [start, end] (YYYY-MM-DD, inclusive) into calendar-aligned buckets.
+ * Weeks are ISO weeks (Monday to Sunday). The first and last buckets are clipped to the requested range.
+ */
+export function periodBuckets(start: string, end: string, granularity: PeriodGranularity): PeriodBucket[] {
+  const buckets: PeriodBucket[] = [];
+  let cur = start;
+  while (cur <= end) {
+    const { key, end: bucketEnd } = bucketContaining(cur, granularity);
+    const clippedEnd = bucketEnd < end ? bucketEnd : end;
+    buckets.push({ key, start: cur, end: clippedEnd });
+    cur = addDays(clippedEnd, 1);
+  }
+  return buckets;
+}
+
+function bucketContaining(date: string, granularity: PeriodGranularity): { key: string; end: string } {
+  const d = new Date(`${date}T00:00:00.000Z`);
+  const y = d.getUTCFullYear();
+  const m = d.getUTCMonth();
+  switch (granularity) {
+    case 'day':
+      return { key: date, end: date };
+    case 'week': {
+      const isoDay = d.getUTCDay() || 7; // Monday = 1 .. Sunday = 7
+      const monday = addDays(date, 1 - isoDay);
+      return { key: isoWeekKey(monday), end: addDays(monday, 6) };
+    }
+    case 'month':
+      return {
+        key: `${y}-${String(m + 1).padStart(2, '0')}`,
+        end: normalizeDate(new Date(Date.UTC(y, m + 1, 0))),
+      };
+    case 'quarter': {
+      const q = Math.floor(m / 3);
+      return { key: `${y}-Q${q + 1}`, end: normalizeDate(new Date(Date.UTC(y, q * 3 + 3, 0))) };
+    }
+  }
+}
+
+// ISO week-numbering year and week for the week starting on `monday`
+function isoWeekKey(monday: string): string {
+  const thursday = new Date(`${addDays(monday, 3)}T00:00:00.000Z`);
+  const isoYear = thursday.getUTCFullYear();
+  const jan1 = Date.UTC(isoYear, 0, 1);
+  const week = Math.floor((thursday.getTime() - jan1) / 86400000 / 7) + 1;
+  return `${isoYear}-W${String(week).padStart(2, '0')}`;
+}
+
+/**
+ * Whether `timeZone` is an IANA zone this runtime understands (e.g. "America/New_York").
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Calendar day (YYYY-MM-DD) of an instant as seen in `timeZone`.
+ */
+export function localDate(instant: Date | string, timeZone: string): string {
+  const d = instant instanceof Date ? instant : new Date(instant);
+  // en-CA formats as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(d);
+}
@@ -0,0 +1,53 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+/**
+ * Cross-process helpers for the JSON files under data/ that the server and CLI jobs share on one host.
+ */
+
+const LOCK_RETRY_MS = 20;
+const LOCK_TIMEOUT_MS = 5000;
+const LOCK_STALE_MS = 10_000;
+
+/**
+ * Run `fn` while holding `<filePath>.lock`, created exclusively. Locks older than LOCK_STALE_MS are treated as left
+ * behind by a crashed process and removed.
+ */
+export async function withFileLock<T>(filePath: string, fn: () => Promise<T>): Promise<T> {
+  const lockPath = `${filePath}.lock`;
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const started = Date.now();
+  for (;;) {
+    try {
+      const handle = await fs.open(lockPath, 'wx');
+      await handle.close();
+      break;
+    } catch (err: any) {
+      if (err?.code !== 'EEXIST') throw err;
+      const stat = await fs.stat(lockPath).catch(() => undefined);
+      if (stat && Date.now() - stat.mtimeMs > LOCK_STALE_MS) {
+        await fs.rm(lockPath, { force: true });
+        continue;
+      }
+      if (Date.now() - started > LOCK_TIMEOUT_MS) {
+        throw new Error(`Timed out waiting for lock ${lockPath}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+  try {
+    return await fn();
+  } finally {
+    await fs.rm(lockPath, { force: true });
+  }
+}
+
+/**
+ * Write through a temp file and rename, so readers never see a partial file.
+ */
+export async function writeFileAtomic(filePath: string, contents: string): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tmpPath, contents, 'utf-8');
+  await fs.rename(tmpPath, filePath);
+}
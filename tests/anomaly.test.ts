@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { detectAnomalies } from '../src/services/anomaly.js';
+import type { AnalyzeHeadlinesResult } from '../src/services/analysis.js';
+import { MemoryScoreStore } from '../src/services/scoreStore.js';
+import { scoreInvestor } from '../src/services/scoring.js';
+import type { DailyScores } from '../src/types.js';
+import { dayRange } from '../src/utils/date.js';
+
+function row(date: string, investorSentiment: number, sampleHeadlines: string[] = [], lexicon?: string): DailyScores {
+  return {
+    date,
+    grouping: 'aggregate',
+    counts: { totalHeadlines: 10, relevantHeadlines: 5, sources: 3 },
+    distributions: { bySource: {}, byLeaning: { left: 0, center: 0, right: 0, other: 0 } },
+    keyTerms: {},
+    sampleHeadlines,
+    scores: {
+      attention: 2,
+      investorSentiment,
+      generalSentiment: 5,
+      biasIntensity: 1,
+      novelty: 3,
+      volShock: 5,
+    },
+    meta: { method: 'sourcesOnly', pageCount: 1, apiCalls: 1, lexicon },
+  };
+}
+
+describe('detectAnomalies', () => {
+  it('flags a sharp investor sentiment move with its driving headlines', async () => {
+    const store = new MemoryScoreStore();
+    const history = dayRange('2024-05-01', '2024-05-14');
+    for (const [i, date] of history.entries()) {
+      await store.putDay({
+        date,
+        rows: [row(date, 5 + (i % 2 ? 0.2 : -0.2))],
+        result: {} as AnalyzeHeadlinesResult,
+        storedAt: new Date().toISOString(),
+      });
+    }
+    await store.putDay({
+      date: '2024-05-15',
+      rows: [row('2024-05-15', 8.5, ['Debt warning issued', 'Stocks rally to record high on strong demand'])],
+      result: {} as AnalyzeHeadlinesResult,
+      storedAt: new Date().toISOString(),
+    });
+
+    const result = await detectAnomalies('2024-05-15', '2024-05-16', { store, threshold: 3, windowDays: 14 });
+
+    expect(result.days_missing).toEqual(['2024-05-16']);
+    expect(result.anomalies).toHaveLength(1);
+    const [anomaly] = result.anomalies;
+    expect(anomaly).toMatchObject({ date: '2024-05-15', grouping: 'aggregate', metric: 'investorSentiment', direction: 'positive' });
+    expect(anomaly.zScore).toBeGreaterThan(3);
+    expect(anomaly.sampleHeadlines[0]).toBe('Stocks rally to record high on strong demand');
+  });
+
+  it('ranks driving headlines with the lexicon pack the day was scored with', async () => {
+    const store = new MemoryScoreStore();
+    const headlines = ['Earnings beat expectations as profit jumps', 'Bitcoin ETF approval drives inflows and adoption'];
+    // The built-in lexicon prefers the earnings headline; the crypto pack the ETF one
+    expect(scoreInvestor([headlines[0]]).score).toBeGreaterThan(scoreInvestor([headlines[1]]).score);
+
+    for (const [i, date] of dayRange('2024-05-01', '2024-05-14').entries()) {
+      await store.putDay({
+        date,
+        rows: [row(date, 5 + (i % 2 ? 0.2 : -0.2), [], 'crypto@1.0.0')],
+        result: {} as AnalyzeHeadlinesResult,
+        storedAt: new Date().toISOString(),
+      });
+    }
+    await store.putDay({
+      date: '2024-05-15',
+      rows: [row('2024-05-15', 8.5, headlines, 'crypto@1.0.0')],
+      result: {} as AnalyzeHeadlinesResult,
+      storedAt: new Date().toISOString(),
+    });
+
+    const result = await detectAnomalies('2024-05-15', '2024-05-15', { store, threshold: 3, windowDays: 14 });
+    expect(result.anomalies[0].sampleHeadlines[0]).toBe('Bitcoin ETF approval drives inflows and adoption');
+  });
+});
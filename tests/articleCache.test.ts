@@ -0,0 +1,74 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  articleCacheKey,
+  articleCacheTtl,
+  FileArticleCache,
+  MemoryArticleCache,
+  TieredArticleCache,
+} from '../src/services/articleCache.js';
+
+const page = (title: string) => ({
+  articles: [{ id: 'cnn.com', sourceName: 'CNN', title, publishedAt: '2024-06-03T12:00:00Z' }],
+  last: true,
+});
+
+describe('article cache', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'headline-vibes-article-cache-'));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('keys by normalized body and keeps closed days for good but today only briefly', async () => {
+    const body = { resultType: 'articles', dateStart: '2024-06-03', dateEnd: '2024-06-03', articlesPage: 1 };
+    expect(articleCacheKey('article/getArticles', { ...body, sourceUri: ['cnn.com', 'bbc.com'] })).toBe(
+      articleCacheKey('article/getArticles', { articlesPage: 1, sourceUri: ['bbc.com', 'cnn.com'], ...body }),
+    );
+    expect(articleCacheKey('article/getArticles', body)).not.toBe(
+      articleCacheKey('article/getArticles', { ...body, articlesPage: 2 }),
+    );
+
+    const now = new Date('2024-06-03T15:00:00Z');
+    expect(articleCacheTtl('2024-06-01', now)).toBeUndefined();
+    // closed, but still inside the 24h settle period
+    expect(articleCacheTtl('2024-06-02', now)).toBe(600);
+    expect(articleCacheTtl('2024-06-03', now)).toBe(600);
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(now);
+    const cache = new FileArticleCache(dir);
+    await cache.set('closed', page('closed day'));
+    await cache.set('today', page('today'), 600);
+    vi.setSystemTime(new Date(now.getTime() + 601_000));
+
+    // a fresh instance reads what the first one wrote
+    const reopened = new FileArticleCache(dir);
+    expect(await reopened.get('closed')).toEqual(page('closed day'));
+    expect(await reopened.get('today')).toBeUndefined();
+  });
+
+  it('evicts the least recently used page and refills memory from the shared tier', async () => {
+    const memory = new MemoryArticleCache(2);
+    await memory.set('a', page('a'));
+    await memory.set('b', page('b'));
+    await memory.get('a');
+    await memory.set('c', page('c'));
+    expect(await memory.get('b')).toBeUndefined();
+    expect(await memory.get('a')).toEqual(page('a'));
+
+    const shared = new FileArticleCache(dir);
+    await shared.set('d', page('d'));
+    const tiered = new TieredArticleCache(new MemoryArticleCache(2), shared);
+    expect(await tiered.get('d')).toEqual(page('d'));
+    await rm(dir, { recursive: true, force: true });
+    expect(await tiered.get('d')).toEqual(page('d'));
+  });
+});
@@ -0,0 +1,100 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { estimateBackfill, runBackfill } from '../src/services/backfill.js';
+import { MemoryScoreStore, type StoredDay } from '../src/services/scoreStore.js';
+import type { Article } from '../src/types.js';
+import { FakeNewsApiClient } from './fakeNewsClient.js';
+
+function dayArticles(date: string): Article[] {
+  return [{ id: 'cnn', sourceName: 'CNN', title: `Stocks rally on ${date}`, publishedAt: `${date}T10:00:00Z` }];
+}
+
+describe('backfill', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'headline-vibes-backfill-'));
+    process.env.BACKFILL_PROGRESS_PATH = path.join(dir, 'progress.json');
+  });
+
+  afterEach(async () => {
+    delete process.env.BACKFILL_PROGRESS_PATH;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('resumes from the last finished day after a failure', async () => {
+    const store = new MemoryScoreStore();
+    let failOn: string | undefined = '2024-01-03';
+    const client = new FakeNewsApiClient((date) => {
+      if (date === failOn) throw new Error('socket hang up');
+      return dayArticles(date);
+    });
+    const fetchTopHeadlinesByDate = vi.spyOn(client, 'fetchTopHeadlinesByDate');
+
+    const preview = await estimateBackfill('2024-01-01', '2024-01-04', { mode: 'sampled', store });
+    expect(preview.dry_run).toBe(true);
+    expect(preview.estimate.days_pending).toBe(4);
+    expect(preview.estimate.estimated_tokens).toBeGreaterThan(0);
+
+    const first = await runBackfill('2024-01-01', '2024-01-04', { mode: 'sampled', store, client });
+    expect(first.progress?.status).toBe('failed');
+    expect(first.progress?.last_completed_date).toBe('2024-01-02');
+
+    failOn = undefined;
+    const second = await runBackfill('2024-01-01', '2024-01-04', { mode: 'sampled', store, client });
+    expect(second.progress?.status).toBe('completed');
+    expect(second.run?.days_fetched).toBe(2);
+    expect(fetchTopHeadlinesByDate.mock.calls.map(([d]) => d)).toEqual([
+      '2024-01-01',
+      '2024-01-02',
+      '2024-01-03',
+      '2024-01-03',
+      '2024-01-04',
+    ]);
+    expect(await store.listScores('2024-01-01', '2024-01-04', 'aggregate')).toHaveLength(4);
+  });
+
+  it('stops without checkpointing a day the score store failed to write', async () => {
+    class FlakyStore extends MemoryScoreStore {
+      failOn: string | undefined = '2024-01-02';
+      async putDay(day: StoredDay): Promise<void> {
+        if (day.date === this.failOn) throw new Error('disk full');
+        await super.putDay(day);
+      }
+    }
+    const store = new FlakyStore();
+    const client = new FakeNewsApiClient(dayArticles);
+
+    const first = await runBackfill('2024-01-01', '2024-01-03', { mode: 'sampled', store, client });
+    expect(first.progress).toMatchObject({ status: 'failed', last_completed_date: '2024-01-01' });
+    expect(first.progress?.error).toMatch(/score store write failed/);
+
+    store.failOn = undefined;
+    const second = await runBackfill('2024-01-01', '2024-01-03', { mode: 'sampled', store, client });
+    expect(second.progress?.status).toBe('completed');
+    expect(await store.listScores('2024-01-01', '2024-01-03', 'aggregate')).toHaveLength(3);
+  });
+
+  it('refetches days a sampled run stored when a full run needs them', async () => {
+    const store = new MemoryScoreStore();
+    const client = new FakeNewsApiClient(dayArticles);
+    const pending = async (mode: 'full' | 'sampled') =>
+      (await estimateBackfill('2024-01-01', '2024-01-02', { mode, store })).estimate.days_pending;
+
+    await runBackfill('2024-01-01', '2024-01-02', { mode: 'sampled', store, client });
+    expect(await pending('sampled')).toBe(0);
+    expect(await pending('full')).toBe(2);
+
+    const full = await runBackfill('2024-01-01', '2024-01-02', { mode: 'full', store, client });
+    expect(full.run).toMatchObject({ days_fetched: 2, days_from_store: 0 });
+    expect(await pending('full')).toBe(0);
+  });
+
+  it('rejects a maxDays that is not a positive integer', async () => {
+    const store = new MemoryScoreStore();
+    await expect(runBackfill('2024-01-01', '2024-01-02', { store, maxDays: 0 })).rejects.toThrow(/positive integer/);
+    await expect(runBackfill('2024-01-01', '2024-01-02', { store, maxDays: 1.5 })).rejects.toThrow(/positive integer/);
+  });
+});
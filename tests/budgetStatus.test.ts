@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { BudgetStatusSchema } from '../src/schemas/budget.js';
+import { commitRequests, reserveRequests } from '../src/services/budgetManager.js';
+import { getBudgetStatus } from '../src/services/budgetStatus.js';
+import { commitTokens, reserveTokens } from '../src/services/tokenBudget.js';
+
+describe('budget status', () => {
+  it('projects month-end spend and reports daily usage', async () => {
+    const tokens = await reserveTokens(25_000);
+    await commitTokens(tokens, 20_000);
+    const requests = await reserveRequests(3);
+    await commitRequests(requests, 2, { articlesFetched: 40, quotaRemaining: 9_800 });
+
+    const now = new Date();
+    const result = await getBudgetStatus({ days: 3, now });
+    expect(() => BudgetStatusSchema.parse(result)).not.toThrow();
+
+    expect(result.tokens).toMatchObject({
+      mtd_tokens: 20_000,
+      soft_cap_tokens: 40_000,
+      hard_cap_tokens: 47_500,
+      remaining_tokens: 30_000,
+      status: 'ok',
+    });
+    const day = now.getUTCDate();
+    const monthEnd = Math.round((20_000 / day) * result.projection.days_in_month);
+    expect(result.projection).toMatchObject({ days_elapsed: day, month_end_tokens: monthEnd });
+    expect(result.projection.exceeds_hard_cap).toBe(monthEnd > 47_500);
+    // the hard cap falls within the month only when the burn rate gets there by the last day
+    expect(result.projection.hard_cap_date === null).toBe(20_000 / day * result.projection.days_in_month <= 47_500);
+
+    expect(result.usage).toHaveLength(3);
+    expect(result.usage[2]).toEqual({
+      date: now.toISOString().slice(0, 10),
+      requests: 2,
+      articles_fetched: 40,
+      tokens_used: 20_000,
+      rate_limit_remaining: 9_800,
+    });
+    expect(result.requests.today).toBe(2);
+  });
+});
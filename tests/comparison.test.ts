@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { comparePeriods, MAX_SAMPLED_DAYS, sampleDays } from '../src/services/comparison.js';
+import type { Article } from '../src/types.js';
+import { FakeNewsApiClient } from './fakeNewsClient.js';
+
+// Each outlet runs its own headlines; identical titles would be collapsed as syndicated copies
+const BULLISH = {
+  cnn: [
+    'Stocks rally to record high as earnings beat expectations',
+    'Markets surge on strong demand and dividend growth',
+    'Bullish investors cheer profit growth and expansion',
+    'Stock market rally extends as Fed signals rate cuts',
+  ],
+  fox: [
+    'Dow joins the rally as bank earnings top forecasts',
+    'Tech stocks surge after upbeat guidance',
+    'Investors pile into growth shares on recovery hopes',
+    'Bull market momentum builds for small caps',
+  ],
+};
+
+const BEARISH = {
+  cnn: [
+    'Stocks crash as recession fears deepen',
+    'Bankruptcy wave hits markets amid credit crisis',
+    'Market correction deepens on inflation warning',
+    'Bearish outlook as earnings miss expectations and stocks slide',
+  ],
+  fox: [
+    'Recession warning sends Wall Street lower',
+    'Lenders brace for default risk as debt piles up',
+    'Stock market collapse wipes out weekly gains',
+    'Investors flee equities amid volatility and uncertainty',
+  ],
+};
+
+function articles(titles: { cnn: string[]; fox: string[] }, start: string): Article[] {
+  return [
+    ...titles.cnn.map((title, i) => ({ id: 'cnn', sourceName: 'CNN', title, publishedAt: `${start}T0${i}:00:00Z` })),
+    ...titles.fox.map((title, i) => ({
+      id: 'fox-business',
+      sourceName: 'Fox Business',
+      title,
+      publishedAt: `${start}T1${i}:00:00Z`,
+    })),
+  ];
+}
+
+function fakeClient() {
+  return new FakeNewsApiClient((date) => articles(date < '2024-04-08' ? BULLISH : BEARISH, date));
+}
+
+describe('comparePeriods', () => {
+  it('reports a significant investor drop and the terms behind it', async () => {
+    const periodA = { start: '2024-04-01', end: '2024-04-07' };
+    const periodB = { start: '2024-04-08', end: '2024-04-14' };
+
+    const result = await comparePeriods(periodA, periodB, { client: fakeClient(), store: null, iterations: 500 });
+
+    const investor = result.comparisons.aggregate.investor;
+    expect(investor.delta).toBeLessThan(0);
+    expect(investor.significant).toBe(true);
+    expect(investor.ci_95![1]).toBeLessThan(0);
+    expect(result.period_b.headlines_by_leaning.right).toBeGreaterThan(0);
+    expect(result.key_terms.shrank.map((t) => t.term)).toContain('rally');
+    expect(result.key_terms.grew.map((t) => t.term)).toContain('recession');
+    expect(result.period_a.coverage).toMatchObject({ days_in_period: 7, days_sampled: 7, days_from_store: 0 });
+
+    // Seeded bootstrap: identical inputs give identical intervals
+    const again = await comparePeriods(periodA, periodB, { client: fakeClient(), store: null, iterations: 500 });
+    expect(again.comparisons).toEqual(result.comparisons);
+  });
+
+  it('samples long periods on evenly spaced days and rejects spans over the limit', async () => {
+    expect(sampleDays({ start: '2024-01-01', end: '2024-03-31' })).toHaveLength(MAX_SAMPLED_DAYS);
+    expect(sampleDays({ start: '2024-01-01', end: '2024-03-31' })).toEqual(
+      expect.arrayContaining(['2024-01-01', '2024-03-31']),
+    );
+
+    await expect(
+      comparePeriods({ start: '2024-01-01', end: '2024-04-30' }, { start: '2024-05-01', end: '2024-05-07' }, { store: null }),
+    ).rejects.toThrow(/spans 121 days; the limit is 92/);
+  });
+});
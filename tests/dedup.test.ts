@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { sampleRelevantHeadlines } from '../src/services/analysis.js';
+import { dedupeArticles } from '../src/services/dedup.js';
+import type { Article } from '../src/types.js';
+
+const article = (sourceName: string, title: string, publishedAt: string, extra: Partial<Article> = {}): Article => ({
+  id: null,
+  sourceName,
+  title,
+  publishedAt,
+  ...extra,
+});
+
+describe('dedupeArticles', () => {
+  it('clusters wire copies across outlets and keeps the earliest as representative', () => {
+    const articles = [
+      article('CNN', 'Fed holds interest rates steady, signals two cuts this year - CNN', '2024-03-20T19:00:00Z'),
+      article('Reuters', 'Fed holds interest rates steady, signals two cuts this year', '2024-03-20T18:05:00Z'),
+      article('Fox Business', "(AP) — Fed holds interest rates steady, signals 2 cuts this year", '2024-03-20T18:30:00Z'),
+      article('Fox Business', 'Oil prices slide as demand outlook weakens', '2024-03-20T12:00:00Z'),
+      article('CNN', 'Fed decision lifts stocks', '2024-03-20T20:00:00Z', { eventUri: 'eng-1', isDuplicate: true }),
+    ];
+
+    const result = dedupeArticles(articles, { enabled: true, similarity: 0.6 });
+
+    expect(result.articles.map((a) => a.sourceName)).toEqual(['Reuters', 'Fox Business', 'CNN']);
+    expect(result.diagnostics).toMatchObject({ articles_in: 5, clusters: 3, duplicates_removed: 2, syndicated_clusters: 1 });
+    expect(result.diagnostics.largest_clusters[0]).toEqual({
+      title: 'Fed holds interest rates steady, signals two cuts this year',
+      size: 3,
+      sources: ['Reuters', 'Fox Business', 'CNN'],
+    });
+    // flagged duplicates only join a cluster for the same event
+    const withEvent = dedupeArticles(
+      [article('Reuters', 'Fed holds rates', '2024-03-20T18:00:00Z', { eventUri: 'eng-1' }), articles[4]],
+      { enabled: true, similarity: 0.6 },
+    );
+    expect(withEvent.clusters).toHaveLength(1);
+  });
+
+  it('weights each story once in sampling and distributions', () => {
+    const wire = 'Stocks rally as earnings beat expectations';
+    const articles = [
+      article('CNN', wire, '2024-03-20T12:00:00Z'),
+      article('Fox Business', wire, '2024-03-20T12:10:00Z'),
+      article('Fox Business', 'Bond yields climb on inflation worries', '2024-03-20T13:00:00Z'),
+    ];
+
+    const sample = sampleRelevantHeadlines(articles, 100);
+    expect(sample.sampledHeadlines).toEqual([wire, 'Bond yields climb on inflation worries']);
+    expect(sample.sourceDistribution).toEqual({ CNN: 1, 'Fox Business': 1 });
+    expect(sample.dedup.duplicates_removed).toBe(1);
+  });
+});
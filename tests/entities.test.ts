@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SP500_CONSTITUENTS } from '../src/constants/sp500.js';
+import { analyzeEntitySentiment, extractEntities, resolveEntity } from '../src/services/entities.js';
+import { MemoryScoreStore } from '../src/services/scoreStore.js';
+import { FakeNewsApiClient } from './fakeNewsClient.js';
+
+describe('extractEntities', () => {
+  it('finds names, cashtags, exchange codes and bare tickers without word-level false positives', () => {
+    const ids = (title: string) => extractEntities(title).map((m) => m.entity.id);
+
+    expect(ids('Nvidia shares rally as $AMD and NASDAQ: INTC slip')).toEqual(['NVDA', 'AMD', 'INTC']);
+    expect(ids('Powell says the Fed will hold rates; JPMorgan (JPM.N) beats')).toEqual([
+      'jerome-powell',
+      'federal-reserve',
+      'JPM',
+    ]);
+    expect(ids('TSLA rallies while Tesla rival slips')).toEqual(['TSLA']);
+    expect(ids('FedEx cuts jobs at Target stores')).toEqual(['FDX']);
+    expect(ids('Stocks LOW as CAT falls')).toEqual([]);
+    expect(extractEntities('Traders pile into $XYZ')[0].entity).toMatchObject({ id: 'XYZ', type: 'ticker' });
+  });
+
+  it('covers every S&P 500 constituent, matching everyday-word names only in corporate form', () => {
+    const ids = (title: string) => extractEntities(title).map((m) => m.entity.id);
+
+    expect(new Set(SP500_CONSTITUENTS.map(([ticker]) => ticker)).size).toBe(SP500_CONSTITUENTS.length);
+    expect(SP500_CONSTITUENTS.length).toBeGreaterThanOrEqual(500);
+    for (const [ticker] of SP500_CONSTITUENTS) expect(resolveEntity(ticker)?.type).toBe('company');
+
+    expect(ids('Southern Company and Xcel Energy raise capex; Carrier Global hires')).toEqual(['SO', 'XEL', 'CARR']);
+    expect(ids('Southern storms ground carrier fleets as travelers wait')).toEqual([]);
+    expect(ids('NOW IS THE TIME: DOW HITS A RECORD')).toEqual([]);
+  });
+});
+
+describe('analyzeEntitySentiment', () => {
+  it('scores each entity per range with volume and leaning split, serving stored days without fetching', async () => {
+    const client = new FakeNewsApiClient((date) =>
+      date === '2024-03-01'
+        ? [
+            { id: 'cnn', sourceName: 'CNN', title: 'Nvidia stock surges as earnings beat expectations', publishedAt: '2024-03-01T12:00:00Z' },
+            { id: 'fox-news', sourceName: 'Fox News', title: 'Fed signals rate cut as inflation cools', publishedAt: '2024-03-01T13:00:00Z' },
+          ]
+        : [
+            { id: 'reuters', sourceName: 'Reuters', title: '$NVDA stock slides on weak demand and recession fears', publishedAt: '2024-03-02T12:00:00Z' },
+          ],
+    );
+    const fetchTopHeadlinesByDate = vi.spyOn(client, 'fetchTopHeadlinesByDate');
+    const store = new MemoryScoreStore();
+
+    const result = await analyzeEntitySentiment('2024-03-01', '2024-03-02', { client, store });
+    expect(result.headlines_analyzed).toBe(3);
+    expect(result.days).toEqual({ requested: 2, from_store: 0, fetched: 2 });
+    const [nvda, fed] = result.entities;
+    expect(nvda).toMatchObject({ id: 'NVDA', ticker: 'NVDA', mentions: 2, leaning_split: { left: 1, center: 0, right: 0, other: 1 } });
+    expect(nvda.daily_mentions).toEqual([
+      { date: '2024-03-01', mentions: 1 },
+      { date: '2024-03-02', mentions: 1 },
+    ]);
+    expect(fed).toMatchObject({ id: 'federal-reserve', mentions: 1, leaning_split: { left: 0, center: 0, right: 1, other: 0 } });
+
+    const filtered = await analyzeEntitySentiment('2024-03-01', '2024-03-02', {
+      client,
+      store,
+      entities: ['nvda', 'Apple'],
+    });
+    expect(fetchTopHeadlinesByDate).toHaveBeenCalledTimes(2);
+    expect(filtered.days.from_store).toBe(2);
+    expect(filtered.entities.map((e) => [e.id, e.mentions])).toEqual([
+      ['NVDA', 2],
+      ['AAPL', 0],
+    ]);
+    expect(filtered.entities[0].sentiment).toEqual(nvda.sentiment);
+    expect(filtered.entities[1].sentiment).toEqual({ investor: null, general: null });
+  });
+});
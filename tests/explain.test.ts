@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from 'vitest';
+import { explainHeadlines } from '../src/services/explain.js';
+import { MemoryScoreStore } from '../src/services/scoreStore.js';
+import { FakeNewsApiClient } from './fakeNewsClient.js';
+
+function fakeClient() {
+  const client = new FakeNewsApiClient([
+    { id: 'cnn', sourceName: 'CNN', title: 'Stocks rally as earnings beat expectations', publishedAt: '2024-03-01T12:00:00Z' },
+    { id: 'fox-news', sourceName: 'Fox News', title: 'Economists see no recession this year', publishedAt: '2024-03-01T13:00:00Z' },
+    { id: 'reuters', sourceName: 'Reuters', title: 'Stock market slides on weak demand and rising debt', publishedAt: '2024-03-01T14:00:00Z' },
+  ]);
+  return { client, fetchTopHeadlinesByDate: vi.spyOn(client, 'fetchTopHeadlinesByDate') };
+}
+
+describe('explainHeadlines', () => {
+  it('breaks down every sampled headline, paginated, and replays stored days without fetching', async () => {
+    const store = new MemoryScoreStore();
+    const { client, fetchTopHeadlinesByDate } = fakeClient();
+
+    const first = await explainHeadlines('2024-03-01', { client, store, pageSize: 2 });
+    expect(first.overall.headlines_analyzed).toBe(3);
+    expect(first.total_pages).toBe(2);
+    expect(first.headlines.map((h) => h.index)).toEqual([0, 1]);
+
+    const [rally, noRecession] = first.headlines;
+    expect(rally).toMatchObject({ source: 'CNN', source_id: 'cnn', published_date: '2024-03-01' });
+    expect(rally.relevance.matched_terms).toContain('earnings');
+    expect(rally.investor.hits.map((h) => h.term)).toEqual(['rally', 'earnings', 'beat expectations']);
+    expect(rally.investor.weight).toBe(5);
+    expect(noRecession.investor.hits).toEqual([
+      { term: 'recession', text: 'recession', weight: -2, negated: true, contribution: 2 },
+    ]);
+
+    // the per-headline weights reproduce the day's investor score
+    const second = await explainHeadlines('2024-03-01', { client, store, page: 2, pageSize: 2 });
+    expect(fetchTopHeadlinesByDate).toHaveBeenCalledTimes(1);
+    expect(second.diagnostics.store.hit).toBe(true);
+    expect(second.headlines.map((h) => h.title)).toEqual(['Stock market slides on weak demand and rising debt']);
+    const weights = [...first.headlines, ...second.headlines].map((h) => h.investor.weight);
+    const meanWeight = weights.reduce((a, b) => a + b, 0) / weights.length;
+    expect(second.overall.investor.mean_weight).toBeCloseTo(meanWeight, 2);
+    expect(second.overall.investor.score).toBeCloseTo(((meanWeight + 4) / 8) * 10, 1);
+  });
+});
@@ -0,0 +1,54 @@
+import { NewsApiClient, searchRequestsPlanned, type FetchOptions, type FetchResult } from '../src/services/newsapi.js';
+import type { Article } from '../src/types.js';
+
+/**
+ * Articles a fake search returns for the inclusive UTC range [start, end]. Throw to fail the fetch.
+ */
+export type ArticleFeed = (start: string, end: string, opts: FetchOptions) => Article[] | Promise<Article[]>;
+
+/**
+ * A complete single-page result fetched from EventRegistry (not the article cache).
+ */
+export function fetchResult(articles: Article[], overrides: Partial<FetchResult> = {}): FetchResult {
+  const published = articles.map((article) => article.publishedAt).filter((at): at is string => !!at).sort();
+  return {
+    articles,
+    requestCount: 1,
+    pagesFetched: 1,
+    complete: true,
+    errors: [],
+    truncated: [],
+    earliestPublished: published.length ? new Date(published[0]).toISOString() : null,
+    cache: { hits: 0, misses: 1 },
+    ...overrides,
+  };
+}
+
+/**
+ * NewsApiClient whose searches are answered by `feed` (or a fixed article list) instead of EventRegistry.
+ * The article cache always misses. Spy on the search methods with vi.spyOn to assert calls.
+ */
+export class FakeNewsApiClient extends NewsApiClient {
+  private readonly feed: ArticleFeed;
+
+  constructor(feed: ArticleFeed | Article[]) {
+    super('test-key');
+    this.feed = typeof feed === 'function' ? feed : () => feed;
+  }
+
+  override async fetchTopHeadlinesByDate(date: string, opts: FetchOptions = {}): Promise<FetchResult> {
+    return fetchResult(await this.feed(date, date, opts));
+  }
+
+  override async fetchEverythingRange(start: string, end: string, opts: FetchOptions = {}): Promise<FetchResult> {
+    return fetchResult(await this.feed(start, end, opts));
+  }
+
+  override async fetchCachedRange(): Promise<FetchResult | undefined> {
+    return undefined;
+  }
+
+  override async uncachedPagesPlanned(_start: string, _end: string, opts: FetchOptions = {}): Promise<number> {
+    return searchRequestsPlanned(opts.sources ?? [], opts.pageCap ?? 10, opts.strategy);
+  }
+}
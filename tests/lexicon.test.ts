@@ -0,0 +1,72 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { analyzeDailyHeadlines } from '../src/services/analysis.js';
+import { getLexiconPack, listLexiconPacks, resetLexiconCache } from '../src/services/lexicon.js';
+import { evaluateHeadlineRelevance } from '../src/services/relevance.js';
+import { MemoryScoreStore } from '../src/services/scoreStore.js';
+import { FakeNewsApiClient } from './fakeNewsClient.js';
+
+const CRYPTO_PACK = `
+id: test-crypto
+version: 2.1.0
+relevance:
+  inclusion:
+    bitcoin: 2
+  exclusion:
+    - celebrity
+sentiment:
+  rally: 2
+  Hack: -2
+`;
+
+function fakeClient() {
+  return new FakeNewsApiClient([
+    { id: 'cnn', sourceName: 'CNN', title: 'Bitcoin rally extends to a new record', publishedAt: '2024-03-01T12:00:00Z' },
+    { id: 'cnn', sourceName: 'CNN', title: 'Exchange hack drains bitcoin wallets', publishedAt: '2024-03-01T13:00:00Z' },
+    { id: 'cnn', sourceName: 'CNN', title: 'Fed holds interest rates steady', publishedAt: '2024-03-01T14:00:00Z' },
+  ]);
+}
+
+describe('lexicon packs', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'headline-vibes-lexicons-'));
+    await writeFile(path.join(dir, 'crypto.yaml'), CRYPTO_PACK, 'utf-8');
+    await writeFile(path.join(dir, 'broken.json'), '{"id": "broken"}', 'utf-8');
+    vi.stubEnv('LEXICON_DIR', dir);
+    resetLexiconCache();
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    resetLexiconCache();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('loads YAML packs alongside the built-in default and skips invalid files', () => {
+    expect(listLexiconPacks().map((p) => p.id)).toEqual(['investor-default', 'test-crypto']);
+    const pack = getLexiconPack('test-crypto');
+    expect(pack.sentiment).toEqual({ rally: 2, hack: -2 });
+    expect(evaluateHeadlineRelevance('Bitcoin slides', pack).relevant).toBe(true);
+    expect(evaluateHeadlineRelevance('Bitcoin slides', getLexiconPack()).relevant).toBe(false);
+  });
+
+  it('scores with the selected pack, echoes it in diagnostics and keeps it out of the store', async () => {
+    const store = new MemoryScoreStore();
+    const client = fakeClient();
+
+    const result = await analyzeDailyHeadlines('2024-03-01', { client, store, lexicon: 'test-crypto' });
+
+    expect(result.diagnostics.lexicon).toEqual({ id: 'test-crypto', version: '2.1.0' });
+    expect(result.headlines_analyzed).toBe(2);
+    expect(result.overall_sentiment.investor.key_terms).toEqual({ rally: 1, hack: 1 });
+    expect(result.diagnostics.store.persisted).toBe(false);
+
+    const standard = await analyzeDailyHeadlines('2024-03-01', { client, store });
+    expect(standard.diagnostics.lexicon.id).toBe('investor-default');
+    expect(standard.diagnostics.store.persisted).toBe(true);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { getLexiconPack } from '../src/services/lexicon.js';
+import { compileTerms, findMatches, matchLexicon } from '../src/services/matcher.js';
+import { evaluateHeadlineRelevance } from '../src/services/relevance.js';
+import { scoreInvestor } from '../src/services/scoring.js';
+
+const terms = (text: string, list: string[]) => findMatches(text, compileTerms(list)).map((span) => span.term);
+
+describe('matcher', () => {
+  it('matches whole words, inflections and the longest phrase', () => {
+    expect(terms('FedEx shares jump; Fed holds', ['fed'])).toEqual(['fed']);
+    expect(terms('Second-quarter results', ['sec'])).toEqual([]);
+    expect(terms('Stocks rallied as oil rallies', ['rally'])).toEqual(['rally', 'rally']);
+    expect(terms('Chipmaker posts record profits', ['profit', 'record profit'])).toEqual(['record profit']);
+
+    const [span] = findMatches("The Fed's decision", compileTerms(['fed']));
+    expect(span).toMatchObject({ text: 'Fed', start: 4, end: 7, negated: false });
+  });
+
+  it('keeps on-topic headlines that older substring exclusions dropped', () => {
+    const result = evaluateHeadlineRelevance('Game-changing deal lifts stocks');
+    expect(result.excludedTerm).toBeUndefined();
+    expect(result.relevant).toBe(true);
+    expect(evaluateHeadlineRelevance('Big game tonight').excludedTerm).toBe('game');
+  });
+
+  it('flips the weight of negated sentiment terms', () => {
+    const lexicon = getLexiconPack();
+    const matches = matchLexicon('Economists see no recession as Treasury avoids default', lexicon);
+    expect(matches.sentiment.map((s) => [s.term, s.negated])).toEqual([
+      ['recession', true],
+      ['default', true],
+    ]);
+    // negation does not cross clause punctuation
+    expect(matchLexicon('No deal, recession fears grow', lexicon).sentiment[0].negated).toBe(false);
+
+    // "rule" negates only as "rule out"
+    expect(findMatches('Court rules stocks rally on earnings', compileTerms(['rally']))[0].negated).toBe(false);
+    expect(findMatches('Fed rules out recession', compileTerms(['recession']))[0].negated).toBe(true);
+
+    expect(scoreInvestor(['Economists see no recession']).score).toBeGreaterThan(5);
+    expect(scoreInvestor(['Economists see recession']).score).toBeLessThan(5);
+  });
+});
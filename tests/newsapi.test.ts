@@ -0,0 +1,292 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { analyzeDailyHeadlines } from '../src/services/analysis.js';
+import { resetArticleCache } from '../src/services/articleCache.js';
+import { createEventRegistryHttp, writeFixture, type FixtureResponse } from '../src/services/eventRegistryHttp.js';
+import { getUsageHistory } from '../src/services/budgetManager.js';
+import { NewsApiClient, searchRequestsPlanned } from '../src/services/newsapi.js';
+import { MemoryScoreStore } from '../src/services/scoreStore.js';
+import { resetSourceRegistryCache, updateSource } from '../src/services/sourceRegistry.js';
+import { estimateTokensForArticleSearch, getBudgetState } from '../src/services/tokenBudget.js';
+
+function articlesBody(date: string, page: number, sourceUri?: string[]) {
+  return {
+    resultType: 'articles',
+    dateStart: date,
+    dateEnd: date,
+    lang: 'eng',
+    articlesPage: page,
+    articlesCount: 100,
+    articlesSortBy: 'date',
+    articleBodyLen: 0,
+    ...(sourceUri ? { sourceUri } : {}),
+  };
+}
+
+function articlesPage(count: number, page: number, pages: number, uri = 'cnn.com', title = 'CNN'): FixtureResponse {
+  return {
+    status: 200,
+    data: {
+      articles: {
+        results: Array.from({ length: count }, (_, i) => ({
+          uri: `${page}-${i}`,
+          title: `Stocks rally as earnings beat expectations #${page}-${i}`,
+          dateTime: '2024-06-03T12:00:00Z',
+          source: { uri, title },
+        })),
+        totalResults: (pages - 1) * 100 + count,
+        pages,
+        page,
+      },
+    },
+  };
+}
+
+describe('NewsApiClient with replayed EventRegistry fixtures', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'headline-vibes-fixtures-'));
+    process.env.SOURCE_URI_CACHE_PATH = path.join(dir, 'source-uri-cache.json');
+    process.env.SOURCE_REGISTRY_PATH = path.join(dir, 'source-registry.json');
+    resetSourceRegistryCache();
+  });
+
+  afterEach(async () => {
+    delete process.env.SOURCE_URI_CACHE_PATH;
+    delete process.env.SOURCE_REGISTRY_PATH;
+    vi.unstubAllEnvs();
+    await resetArticleCache();
+    resetSourceRegistryCache();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('follows pagination until a short page', async () => {
+    writeFixture(dir, { method: 'POST', path: 'article/getArticles', params: {}, body: articlesBody('2024-06-03', 1) }, articlesPage(100, 1, 2));
+    writeFixture(dir, { method: 'POST', path: 'article/getArticles', params: {}, body: articlesBody('2024-06-03', 2) }, articlesPage(20, 2, 2));
+
+    const client = new NewsApiClient('test-key', createEventRegistryHttp({ replayDir: dir }));
+    const result = await client.fetchTopHeadlinesByDate('2024-06-03', { pageCap: 5 });
+
+    expect(result.pagesFetched).toBe(2);
+    expect(result.articles).toHaveLength(120);
+    expect(result.articles[0]).toMatchObject({ id: 'cnn.com', sourceName: 'CNN' });
+    expect(result.truncated).toEqual([]);
+
+    const capped = await client.fetchTopHeadlinesByDate('2024-06-03', { pageCap: 1 });
+    expect(capped).toMatchObject({ pagesFetched: 1, complete: true, truncated: [null] });
+  });
+
+  it('retries a failing page and reports the fetch incomplete once retries run out', async () => {
+    vi.stubEnv('NEWS_API_RETRY_BASE_MS', '0');
+    writeFixture(dir, { method: 'POST', path: 'article/getArticles', params: {}, body: articlesBody('2024-06-03', 1) }, articlesPage(100, 1, 3));
+    writeFixture(dir, { method: 'POST', path: 'article/getArticles', params: {}, body: articlesBody('2024-06-03', 2) }, {
+      status: 503,
+      data: { error: 'Service temporarily unavailable' },
+    });
+
+    const client = new NewsApiClient('test-key', createEventRegistryHttp({ replayDir: dir }));
+    const result = await client.fetchTopHeadlinesByDate('2024-06-03', { pageCap: 3 });
+
+    expect(result.pagesFetched).toBe(1);
+    expect(result.articles).toHaveLength(100);
+    expect(result.requestCount).toBe(5);
+    expect(result.complete).toBe(false);
+    expect(result.errors).toEqual([
+      expect.objectContaining({ page: 2, sources: null, status: 503, attempts: 4 }),
+    ]);
+
+    // a partial day is returned but never stored
+    const store = new MemoryScoreStore();
+    const analyzed = await analyzeDailyHeadlines('2024-06-03', { client, store, baselineDays: 0, fetch: { sources: [], pageCap: 3 } });
+    expect(analyzed.diagnostics.completeness.complete).toBe(false);
+    expect(analyzed.diagnostics.store.persisted).toBe(false);
+  });
+
+  it('recovers from a transient failure honoring Retry-After', async () => {
+    writeFixture(dir, { method: 'POST', path: 'article/getArticles', params: {}, body: articlesBody('2024-06-03', 1) }, [
+      { status: 429, headers: { 'retry-after': '0' }, data: { error: 'Too many requests' } },
+      articlesPage(40, 1, 1),
+    ]);
+
+    const client = new NewsApiClient('test-key', createEventRegistryHttp({ replayDir: dir }));
+    const result = await client.fetchTopHeadlinesByDate('2024-06-03', { pageCap: 1 });
+
+    expect(result).toMatchObject({ pagesFetched: 1, requestCount: 2, complete: true, errors: [], cache: { hits: 0, misses: 1 } });
+    expect(result.articles).toHaveLength(40);
+  });
+
+  it('books the tokens and quota EventRegistry reported instead of the estimate', async () => {
+    const charged = (response: FixtureResponse, tokens: string, remaining: string): FixtureResponse => ({
+      ...response,
+      headers: { 'req-tokens': tokens, 'x-ratelimit-remaining': remaining },
+    });
+    writeFixture(dir, { method: 'POST', path: 'article/getArticles', params: {}, body: articlesBody('2024-06-03', 1) }, charged(articlesPage(100, 1, 2), '1', '4999'));
+    writeFixture(dir, { method: 'POST', path: 'article/getArticles', params: {}, body: articlesBody('2024-06-03', 2) }, charged(articlesPage(20, 2, 2), '1', '4998'));
+
+    const client = new NewsApiClient('test-key', createEventRegistryHttp({ replayDir: dir }));
+    const fetched = await client.fetchTopHeadlinesByDate('2024-06-03', { pageCap: 2 });
+    expect(fetched).toMatchObject({ tokensUsed: 2, quotaRemaining: 4998 });
+
+    // a historical day is estimated at 5 tokens per page, but only the reported 2 stay on the ledger
+    const before = (await getBudgetState()).mtdTokens;
+    const [earlier] = await getUsageHistory(1);
+    await analyzeDailyHeadlines('2024-06-03', { client, store: null, baselineDays: 0, fetch: { sources: [], pageCap: 2 } });
+    expect((await getBudgetState()).mtdTokens - before).toBe(2);
+    const [today] = await getUsageHistory(1);
+    expect(today.articlesFetched - earlier.articlesFetched).toBe(120);
+    expect(today.rateLimitRemaining).toBe(4998);
+  });
+
+  it('answers a repeated day from the article cache without reserving budget', async () => {
+    vi.stubEnv('ARTICLE_CACHE', 'memory');
+    await resetArticleCache();
+    writeFixture(dir, { method: 'POST', path: 'article/getArticles', params: {}, body: articlesBody('2024-06-03', 1) }, articlesPage(100, 1, 2));
+    writeFixture(dir, { method: 'POST', path: 'article/getArticles', params: {}, body: articlesBody('2024-06-03', 2) }, articlesPage(20, 2, 2));
+    const opts = { store: null, baselineDays: 0, fetch: { sources: [], pageCap: 2 } };
+
+    const first = await analyzeDailyHeadlines('2024-06-03', {
+      ...opts,
+      client: new NewsApiClient('test-key', createEventRegistryHttp({ replayDir: dir })),
+    });
+    expect(first.diagnostics.article_cache).toEqual({ backend: 'memory', hits: 0, misses: 2 });
+
+    // no fixtures: any request would fail
+    const offline = await mkdtemp(path.join(tmpdir(), 'headline-vibes-empty-'));
+    const tokensBefore = (await getBudgetState()).mtdTokens;
+    const [usageBefore] = await getUsageHistory(1);
+    const second = await analyzeDailyHeadlines('2024-06-03', {
+      ...opts,
+      client: new NewsApiClient('test-key', createEventRegistryHttp({ replayDir: offline })),
+    });
+    await rm(offline, { recursive: true, force: true });
+
+    expect(second.diagnostics.article_cache).toEqual({ backend: 'memory', hits: 2, misses: 0 });
+    expect(second.diagnostics.token_budget).toMatchObject({ estimate_tokens: 0, requests_made: 0 });
+    expect(second.filtering_stats.total_headlines).toBe(120);
+    expect((await getBudgetState()).mtdTokens).toBe(tokensBefore);
+    const [usageAfter] = await getUsageHistory(1);
+    expect(usageAfter.requests).toBe(usageBefore.requests);
+  });
+
+  it('reserves budget only for the pages the article cache does not hold', async () => {
+    vi.stubEnv('ARTICLE_CACHE', 'memory');
+    await resetArticleCache();
+    writeFixture(dir, { method: 'POST', path: 'article/getArticles', params: {}, body: articlesBody('2024-06-03', 1) }, articlesPage(100, 1, 2));
+    writeFixture(dir, { method: 'POST', path: 'article/getArticles', params: {}, body: articlesBody('2024-06-03', 2) }, articlesPage(20, 2, 2));
+    const client = new NewsApiClient('test-key', createEventRegistryHttp({ replayDir: dir }));
+
+    expect(await client.uncachedPagesPlanned('2024-06-03', '2024-06-03', { pageCap: 3 })).toBe(3);
+    await client.fetchTopHeadlinesByDate('2024-06-03', { pageCap: 1 });
+    expect(await client.uncachedPagesPlanned('2024-06-03', '2024-06-03', { pageCap: 3 })).toBe(2);
+
+    const result = await analyzeDailyHeadlines('2024-06-03', { client, store: null, baselineDays: 0, fetch: { sources: [], pageCap: 3 } });
+    expect(result.diagnostics.article_cache).toEqual({ backend: 'memory', hits: 1, misses: 1 });
+    expect(result.diagnostics.token_budget.estimate_tokens).toBe(
+      estimateTokensForArticleSearch({ startDate: '2024-06-03', endDate: '2024-06-03', pagesPlanned: 2 }),
+    );
+    expect(await client.uncachedPagesPlanned('2024-06-03', '2024-06-03', { pageCap: 3 })).toBe(0);
+  });
+
+  it('stops paging once a window is passed and trims articles to it', async () => {
+    // a full page, newest first, two minutes apart from 16:10 back to 12:52
+    const results = Array.from({ length: 100 }, (_, i) => ({
+      uri: `w-${i}`,
+      title: `Stocks rally after Fed decision #${i}`,
+      dateTime: new Date(Date.UTC(2024, 5, 12, 16, 10 - 2 * i)).toISOString(),
+      source: { uri: 'cnn.com', title: 'CNN' },
+    }));
+    // it reaches back past 14:00, so page 2 is never requested (it has no fixture)
+    writeFixture(dir, { method: 'POST', path: 'article/getArticles', params: {}, body: articlesBody('2024-06-12', 1) }, {
+      status: 200,
+      data: { articles: { results, totalResults: 300, pages: 3, page: 1 } },
+    });
+
+    const client = new NewsApiClient('test-key', createEventRegistryHttp({ replayDir: dir }));
+    const result = await client.fetchEverythingRange('2024-06-12', '2024-06-12', {
+      pageCap: 3,
+      timeWindow: { start: '2024-06-12T14:00:00.000Z', end: '2024-06-12T16:00:00.000Z' },
+    });
+
+    expect(result).toMatchObject({ pagesFetched: 1, requestCount: 1, complete: true });
+    expect(result.articles).toHaveLength(60);
+    expect(result.articles[0].publishedAt).toBe('2024-06-12T15:58:00.000Z');
+    expect(result.articles[59].publishedAt).toBe('2024-06-12T14:00:00.000Z');
+  });
+
+  it('resolves sources and analyzes a day end to end without network', async () => {
+    writeFixture(dir, { method: 'GET', path: 'suggestSourcesFast', params: { text: 'cnn', lang: 'eng' }, body: null }, {
+      status: 200,
+      data: [{ uri: 'cnn.com', title: 'CNN' }],
+    });
+    writeFixture(dir, { method: 'GET', path: 'suggestSourcesFast', params: { text: 'fox-business', lang: 'eng' }, body: null }, {
+      status: 200,
+      data: [{ uri: 'foxbusiness.com', title: 'Fox Business' }],
+    });
+    writeFixture(
+      dir,
+      { method: 'POST', path: 'article/getArticles', params: {}, body: articlesBody('2024-06-03', 1, ['cnn.com', 'foxbusiness.com']) },
+      articlesPage(12, 1, 1),
+    );
+
+    const client = new NewsApiClient('test-key', createEventRegistryHttp({ replayDir: dir }));
+    const result = await analyzeDailyHeadlines('2024-06-03', {
+      client,
+      store: null,
+      fetch: { sources: ['cnn', 'fox-business'], pageCap: 1 },
+    });
+
+    expect(result.filtering_stats.total_headlines).toBe(12);
+    // the fixture titles differ only by a counter, so they collapse into one syndicated story
+    expect(result.diagnostics.dedup).toMatchObject({ articles_in: 12, clusters: 1, duplicates_removed: 11 });
+    expect(result.headlines_analyzed).toBe(1);
+    expect(result.overall_sentiment.investor.key_terms).toMatchObject({ rally: 1 });
+  });
+
+  it('reports a search that fell back to all sources as incomplete', async () => {
+    writeFixture(dir, { method: 'GET', path: 'suggestSourcesFast', params: { text: 'no-such-outlet', lang: 'eng' }, body: null }, {
+      status: 200,
+      data: [],
+    });
+    writeFixture(dir, { method: 'POST', path: 'article/getArticles', params: {}, body: articlesBody('2024-06-03', 1) }, articlesPage(12, 1, 1));
+
+    const client = new NewsApiClient('test-key', createEventRegistryHttp({ replayDir: dir }));
+    const result = await client.fetchTopHeadlinesByDate('2024-06-03', { sources: ['no-such-outlet'], pageCap: 1 });
+
+    expect(result.articles).toHaveLength(12);
+    expect(result.complete).toBe(false);
+    expect(result.errors).toEqual([
+      expect.objectContaining({ page: 0, sources: null, code: 'SOURCES_UNRESOLVED', attempts: 0 }),
+    ]);
+  });
+
+  it('gives every leaning its own query and first page before paginating further', async () => {
+    const uris: Record<string, string> = {
+      cnn: 'cnn.com',
+      'fox-news': 'foxnews.com',
+      'breitbart-news': 'breitbart.com',
+      bloomberg: 'bloomberg.com',
+    };
+    for (const [id, uri] of Object.entries(uris)) await updateSource(id, { uri });
+    const sources = Object.keys(uris);
+    const fixture = (page: number, sourceUri: string[], response: FixtureResponse) =>
+      writeFixture(dir, { method: 'POST', path: 'article/getArticles', params: {}, body: articlesBody('2024-06-03', page, sourceUri) }, response);
+    fixture(1, ['cnn.com'], articlesPage(100, 1, 2, 'cnn.com', 'CNN'));
+    fixture(2, ['cnn.com'], articlesPage(20, 2, 2, 'cnn.com', 'CNN'));
+    fixture(1, ['foxnews.com', 'breitbart.com'], articlesPage(10, 1, 1, 'foxnews.com', 'Fox News'));
+    fixture(1, ['bloomberg.com'], articlesPage(5, 1, 1, 'bloomberg.com', 'Bloomberg'));
+
+    const client = new NewsApiClient('test-key', createEventRegistryHttp({ replayDir: dir }));
+    const result = await client.fetchTopHeadlinesByDate('2024-06-03', { sources, pageCap: 2, strategy: 'perLeaning' });
+
+    // a pooled query would have spent both pages on CNN
+    expect(result.requestCount).toBe(4);
+    expect(result.articles.slice(99, 102).map((a) => a.sourceName)).toEqual(['CNN', 'Fox News', 'Fox News']);
+    expect(result.articles.filter((a) => a.sourceName === 'Bloomberg')).toHaveLength(5);
+    expect(searchRequestsPlanned(sources, 2, 'pooled')).toBe(2);
+    expect(searchRequestsPlanned(sources, 2, 'perLeaning')).toBe(6);
+    expect(searchRequestsPlanned(sources, 2, 'perSource')).toBe(8);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from 'vitest';
+import { analyzeDailyHeadlines, analyzePeriodHeadlines } from '../src/services/analysis.js';
+import { periodBuckets } from '../src/utils/date.js';
+import { FakeNewsApiClient, fetchResult } from './fakeNewsClient.js';
+
+describe('period buckets', () => {
+  it('clips ISO weeks and quarters to the requested range', () => {
+    expect(periodBuckets('2024-12-25', '2025-01-08', 'week')).toEqual([
+      { key: '2024-W52', start: '2024-12-25', end: '2024-12-29' },
+      { key: '2025-W01', start: '2024-12-30', end: '2025-01-05' },
+      { key: '2025-W02', start: '2025-01-06', end: '2025-01-08' },
+    ]);
+    expect(periodBuckets('2024-02-10', '2024-04-01', 'quarter').map((b) => b.key)).toEqual(['2024-Q1', '2024-Q2']);
+  });
+
+  it('assigns articles to local-time weeks when a time zone is given', async () => {
+    const client = new FakeNewsApiClient([
+      // Monday 02:00 UTC is still Sunday evening in New York
+      { id: 'cnn', sourceName: 'CNN', title: 'Stocks rally into the weekend', publishedAt: '2024-03-11T02:00:00Z' },
+      { id: 'cnn', sourceName: 'CNN', title: 'Markets open higher', publishedAt: '2024-03-11T15:00:00Z' },
+    ]);
+    const fetchEverythingRange = vi.spyOn(client, 'fetchEverythingRange');
+
+    const result = await analyzePeriodHeadlines('2024-03-04', '2024-03-17', 'week', {
+      client,
+      timeZone: 'America/New_York',
+    });
+
+    expect(fetchEverythingRange.mock.calls[0].slice(0, 2)).toEqual(['2024-03-03', '2024-03-11']);
+    expect(result.buckets['2024-W10'].total_headlines).toBe(1);
+    expect(result.buckets['2024-W11'].total_headlines).toBe(1);
+  });
+
+  it('filters and samples buckets through the same pipeline as daily analysis', async () => {
+    const titles = [
+      'Stocks rally as Fed signals interest rate cuts',
+      'Celebrity wedding photos go viral',
+      'Recession fears grow as earnings miss expectations',
+    ];
+    const articles = titles.map((title, i) => ({
+      id: 'cnn',
+      sourceName: 'CNN',
+      title,
+      publishedAt: `2024-03-0${i + 1}T12:00:00Z`,
+    }));
+    const client = new FakeNewsApiClient(articles);
+
+    const daily = await analyzeDailyHeadlines('2024-03-01', { client, store: null, baselineDays: 0 });
+    const { buckets } = await analyzePeriodHeadlines('2024-03-01', '2024-03-31', 'month', { client });
+    const month = buckets['2024-03'];
+
+    expect(month.filtering_stats).toEqual(daily.filtering_stats);
+    expect(month.headlines_analyzed).toBe(daily.headlines_analyzed);
+    expect(month.overall_sentiment).toEqual(daily.overall_sentiment);
+    expect(month.diagnostics.sampling.per_source_quota).toBe(daily.diagnostics.sampling.per_source_quota);
+  });
+
+  it('scales the page cap with the days a bucket fetches and marks truncated buckets incomplete', async () => {
+    const client = new FakeNewsApiClient([]);
+    const fetchEverythingRange = vi
+      .spyOn(client, 'fetchEverythingRange')
+      .mockImplementation(async (start) => fetchResult([], start === '2024-03-04' ? { truncated: [null] } : {}));
+
+    const { buckets } = await analyzePeriodHeadlines('2024-03-04', '2024-03-12', 'week', { client });
+
+    // BACKFILL_PAGE_CAP_PER_DAY (2) per day: 7 days, then 2 days clipped to the range
+    expect(fetchEverythingRange.mock.calls.map(([, , opts]) => opts?.pageCap)).toEqual([14, 4]);
+    expect(buckets['2024-W10'].diagnostics.completeness.complete).toBe(false);
+    expect(buckets['2024-W11'].diagnostics.completeness.complete).toBe(true);
+  });
+});
@@ -0,0 +1,107 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { analyzeDailyHeadlines } from '../src/services/analysis.js';
+import { FileScoreStore, MemoryScoreStore } from '../src/services/scoreStore.js';
+import { FakeNewsApiClient } from './fakeNewsClient.js';
+
+function fakeClient() {
+  const client = new FakeNewsApiClient([
+    {
+      id: 'cnn',
+      sourceName: 'CNN',
+      title: 'Stocks rally as Fed signals interest rate cuts',
+      publishedAt: '2024-03-01T12:00:00Z',
+    },
+    {
+      id: 'fox-business',
+      sourceName: 'Fox Business',
+      title: 'Recession fears grow as earnings miss expectations',
+      publishedAt: '2024-03-01T13:00:00Z',
+    },
+  ]);
+  return { client, fetchTopHeadlinesByDate: vi.spyOn(client, 'fetchTopHeadlinesByDate') };
+}
+
+describe('daily score store', () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it('persists one row per grouping and serves repeat calls from the store', async () => {
+    const store = new MemoryScoreStore();
+    const { client, fetchTopHeadlinesByDate } = fakeClient();
+
+    const first = await analyzeDailyHeadlines('2024-03-01', { client, store });
+    expect(first.diagnostics.store.persisted).toBe(true);
+
+    const rows = await store.listScores('2024-03-01', '2024-03-01');
+    expect(rows.map((r) => r.grouping).sort()).toEqual(['aggregate', 'center', 'left', 'right']);
+
+    const second = await analyzeDailyHeadlines('2024-03-01', { client, store });
+    expect(fetchTopHeadlinesByDate).toHaveBeenCalledTimes(1);
+    expect(second.diagnostics.store.hit).toBe(true);
+    expect(second.diagnostics.token_budget.estimate_tokens).toBe(0);
+    expect(second.overall_sentiment).toEqual(first.overall_sentiment);
+  });
+
+  it('computes novelty and vol shock against stored baseline days', async () => {
+    const store = new MemoryScoreStore();
+    const { client } = fakeClient();
+
+    await analyzeDailyHeadlines('2024-03-01', { client, store });
+    await analyzeDailyHeadlines('2024-03-02', { client, store });
+    const result = await analyzeDailyHeadlines('2024-03-03', { client, store, baselineDays: 7 });
+
+    expect(result.diagnostics.baseline).toEqual({ days_requested: 7, days_available: 2, days_refetched: 0 });
+    // Identical headlines every day: no novelty versus the baseline
+    expect(result.score_dimensions.novelty).toBe(0);
+    expect(Object.keys(result.score_dimensions).sort()).toEqual([
+      'attention',
+      'biasIntensity',
+      'generalSentiment',
+      'investorSentiment',
+      'novelty',
+      'volShock',
+    ]);
+  });
+
+  it('round-trips days through the file backend', async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'headline-vibes-'));
+    const filePath = path.join(dir, 'scores.json');
+    const { client } = fakeClient();
+
+    await analyzeDailyHeadlines('2024-03-01', { client, store: new FileScoreStore(filePath) });
+
+    const reopened = new FileScoreStore(filePath);
+    const day = await reopened.getDay('2024-03-01');
+    expect(day?.rows).toHaveLength(4);
+    expect(await reopened.listScores('2024-03-02', '2024-03-31')).toEqual([]);
+  });
+
+  it('merges days written by another process and refuses to overwrite a corrupt file', async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'headline-vibes-'));
+    const filePath = path.join(dir, 'scores.json');
+    const { client } = fakeClient();
+    const server = new FileScoreStore(filePath);
+    const backfill = new FileScoreStore(filePath);
+
+    // Both processes load the file before either writes
+    expect(await server.getDay('2024-03-01')).toBeUndefined();
+    expect(await backfill.getDay('2024-03-02')).toBeUndefined();
+    await analyzeDailyHeadlines('2024-03-01', { client, store: server });
+    await analyzeDailyHeadlines('2024-03-02', { client, store: backfill });
+
+    const rows = await new FileScoreStore(filePath).listScores('2024-03-01', '2024-03-02', 'aggregate');
+    expect(rows.map((row) => row.date)).toEqual(['2024-03-01', '2024-03-02']);
+
+    const stored = (await server.getDay('2024-03-01'))!;
+    await writeFile(filePath, '{"days": {', 'utf-8');
+    await expect(new FileScoreStore(filePath).putDay(stored)).rejects.toThrow(/not valid JSON/);
+    expect(await readFile(filePath, 'utf-8')).toBe('{"days": {');
+  });
+});
@@ -0,0 +1,87 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { profileSources } from '../src/services/sourceProfile.js';
+import { FakeNewsApiClient, fetchResult } from './fakeNewsClient.js';
+
+describe('profileSources', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'headline-vibes-sources-'));
+    const cache = path.join(dir, 'source-uri-cache.json');
+    await writeFile(
+      cache,
+      JSON.stringify({
+        cnn: { uri: 'edition.cnn.com', title: 'CNN', updatedAt: '2024-01-01T00:00:00Z' },
+        bloomberg: { uri: 'bloomberg.com', title: 'Bloomberg', updatedAt: '2024-01-01T00:00:00Z' },
+        marketwatch: { uri: 'marketwatch.com', title: 'MarketWatch', updatedAt: '2024-01-01T00:00:00Z' },
+      }),
+    );
+    vi.stubEnv('SOURCE_URI_CACHE_PATH', cache);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('attributes articles to curated sources, scores them against the pool and flags silent sources', async () => {
+    const client = new FakeNewsApiClient([
+      // attributed through the cached URI
+      { id: 'edition.cnn.com', sourceName: 'CNN', title: 'Stocks rally as earnings beat expectations', publishedAt: '2024-03-01T12:00:00Z' },
+      { id: 'edition.cnn.com', sourceName: 'CNN', title: 'Senate debates farm bill', publishedAt: '2024-03-01T13:00:00Z' },
+      // attributed through the outlet name
+      { id: 'foxnews.com', sourceName: 'Fox News', title: 'Stock market slides on recession fears', publishedAt: '2024-03-02T12:00:00Z' },
+      { id: 'blog.example', sourceName: 'Example Blog', title: 'Stocks rally again', publishedAt: '2024-03-02T13:00:00Z' },
+    ]);
+
+    const result = await profileSources('2024-03-01', '2024-03-02', { client, sortBy: 'investor' });
+
+    const [cnn, fox] = result.sources;
+    expect(cnn).toMatchObject({ rank: 1, source_id: 'cnn', uri: 'edition.cnn.com', articles: 2, relevant_headlines: 1, relevance_rate: 50 });
+    expect(fox).toMatchObject({ rank: 2, source_id: 'fox-news', uri: null, articles: 1, relevance_rate: 100 });
+    expect(cnn.sentiment!.investor).toBeGreaterThan(fox.sentiment!.investor);
+    expect(cnn.deviation!.investor).toBeCloseTo(cnn.sentiment!.investor - result.overall.sentiment.investor, 2);
+    expect(cnn.deviation!.investor).toBeGreaterThan(0);
+    expect(fox.deviation!.investor).toBeLessThan(0);
+
+    expect(result.overall).toMatchObject({ articles: 3, relevant_headlines: 2 });
+    expect(result.unattributed).toEqual({ articles: 1, top_sources: [{ name: 'Example Blog', articles: 1 }] });
+    expect(result.zero_article_sources).toContain('bloomberg');
+    expect(result.zero_article_sources).not.toContain('cnn');
+    expect(result.sources.find((s) => s.source_id === 'bloomberg')).toMatchObject({
+      query: 'complete',
+      zero_articles: true,
+      sentiment: null,
+    });
+    expect(result.diagnostics.sources_with_uri).toBe(3);
+  });
+
+  it('searches each source on its own and only flags sources whose search ran to its last page', async () => {
+    const client = new FakeNewsApiClient([]);
+    const search = vi.spyOn(client, 'fetchEverythingRange').mockResolvedValue(
+      fetchResult([], {
+        complete: false,
+        errors: [{ page: 1, sources: ['marketwatch.com'], status: 500, code: null, message: 'boom', attempts: 3 }],
+        truncated: [['bloomberg.com']],
+      }),
+    );
+
+    const result = await profileSources('2024-03-01', '2024-03-03', { client });
+
+    // BACKFILL_PAGE_CAP_PER_DAY (2) for each of the three days
+    expect(search.mock.calls[0][2]).toMatchObject({ strategy: 'perSource', pageCap: 6 });
+    const query = (id: string) => result.sources.find((s) => s.source_id === id)?.query;
+    expect([query('cnn'), query('bloomberg'), query('marketwatch'), query('fox-news')]).toEqual([
+      'complete',
+      'truncated',
+      'failed',
+      'not_run',
+    ]);
+    expect(result.zero_article_sources).toEqual(['cnn']);
+    expect(result.truncated_sources).toEqual(['bloomberg']);
+    await expect(profileSources('2024-01-01', '2024-03-01', { client })).rejects.toThrow(/limit is 31/);
+  });
+});
@@ -0,0 +1,86 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BUILTIN_SOURCES } from '../src/constants/sources.js';
+import { sampleRelevantHeadlines } from '../src/services/analysis.js';
+import { sourceToLeaning } from '../src/services/categorization.js';
+import {
+  activeSourceIds,
+  addSource,
+  lookupSource,
+  resetSourceRegistryCache,
+  sourceRegistryInfo,
+  updateSource,
+} from '../src/services/sourceRegistry.js';
+
+describe('source registry', () => {
+  let dir: string;
+  let registryPath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'headline-vibes-registry-'));
+    registryPath = path.join(dir, 'source-registry.json');
+    vi.stubEnv('SOURCE_REGISTRY_PATH', registryPath);
+    resetSourceRegistryCache();
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    resetSourceRegistryCache();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('serves the built-in sources, resolves outlets by URI or title, and sends unknown outlets to other', async () => {
+    expect(sourceRegistryInfo().origin).toBe('builtin');
+    expect(lookupSource(null, 'Washington Post')).toMatchObject({ id: 'the-washington-post', spectrum: 'center-left', leaning: 'left' });
+    expect(lookupSource('breitbart-news')).toMatchObject({ spectrum: 'conservative', leaning: 'right', category: 'general' });
+    expect(sourceToLeaning('reuters.com', 'Reuters')).toBe('other');
+
+    await updateSource('cnn', { uri: 'edition.cnn.com' });
+    expect(sourceToLeaning('edition.cnn.com', 'CNN International')).toBe('left');
+  });
+
+  it('adds and updates entries in the registry file', async () => {
+    const added = await addSource({
+      id: 'houston-business-journal',
+      name: 'Houston Business Journal',
+      uri: 'bizjournals.com/houston',
+      spectrum: 'center',
+      category: 'business',
+    });
+    expect(added).toMatchObject({ leaning: 'center', country: 'US', weight: 1, enabled: true });
+    await expect(addSource({ id: 'houston-business-journal', name: 'Dup', spectrum: 'center' })).rejects.toThrow(/already exists/);
+    await expect(addSource({ id: 'Bad Id', name: 'Bad', spectrum: 'center' })).rejects.toThrow(/kebab-case/);
+
+    await updateSource('vox', { enabled: false });
+    await updateSource('houston-business-journal', { weight: 2, country: 'us' });
+
+    // the file is now the source of truth and survives a reload
+    resetSourceRegistryCache();
+    expect(sourceRegistryInfo().origin).toBe('file');
+    const file = JSON.parse(await readFile(registryPath, 'utf-8'));
+    expect(file.sources).toHaveLength(BUILTIN_SOURCES.length + 1);
+    expect(lookupSource('houston-business-journal')).toMatchObject({ weight: 2, country: 'US' });
+    expect(activeSourceIds()).not.toContain('vox');
+    expect(lookupSource(null, 'Vox')?.leaning).toBe('left');
+    await expect(updateSource('nope', { weight: 2 })).rejects.toThrow(/Unknown source/);
+  });
+
+  it('splits the sample quota by source weight', async () => {
+    await updateSource('cnn', { weight: 3 });
+    vi.stubEnv('DEDUP_ENABLED', '0'); // the generated titles would otherwise collapse as syndicated copies
+    const titles = (source: string) =>
+      Array.from({ length: 10 }, (_, i) => ({
+        id: source,
+        sourceName: source.toUpperCase(),
+        title: `Stocks rally as ${source} earnings beat expectations in region ${i}`,
+        publishedAt: `2024-03-01T0${i}:00:00Z`,
+      }));
+
+    const sample = sampleRelevantHeadlines([...titles('cnn'), ...titles('cnbc')], 8);
+    expect(sample.sampledRecords.filter((r) => r.sourceId === 'cnn')).toHaveLength(6);
+    expect(sample.sampledRecords.filter((r) => r.sourceId === 'cnbc')).toHaveLength(2);
+    expect(sample.perSourceQuota).toBe(2);
+  });
+});
@@ -0,0 +1,101 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createEventRegistryHttp, writeFixture } from '../src/services/eventRegistryHttp.js';
+import { NewsApiClient, searchRequestsPlanned } from '../src/services/newsapi.js';
+import { resetSourceRegistryCache } from '../src/services/sourceRegistry.js';
+import { __internal, auditSourceResolution, resolveSourceUris, resolveSources } from '../src/services/sourceResolver.js';
+
+function suggest(dir: string, text: string, data: unknown) {
+  writeFixture(dir, { method: 'GET', path: 'suggestSourcesFast', params: { text, lang: 'eng' }, body: null }, { status: 200, data });
+}
+
+describe('source URI resolver', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'headline-vibes-resolver-'));
+    vi.stubEnv('SOURCE_URI_CACHE_PATH', path.join(dir, 'source-uri-cache.json'));
+    vi.stubEnv('SOURCE_REGISTRY_PATH', path.join(dir, 'source-registry.json'));
+    resetSourceRegistryCache();
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    resetSourceRegistryCache();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('only queries confident matches and reports the rest with candidates', async () => {
+    suggest(dir, 'breitbart-news', [{ uri: 'breitbart.com', title: 'Breitbart' }]);
+    suggest(dir, 'the-hill', [
+      { uri: 'hillreporter.com', title: 'Hill Reporter' },
+      { uri: 'thehillstimes.com', title: 'The Hills Times' },
+    ]);
+    suggest(dir, 'newsmax', []);
+    const http = createEventRegistryHttp({ replayDir: dir });
+
+    const uris = await resolveSourceUris(['breitbart-news', 'the-hill', 'newsmax', 'cnn.com'], { http, apiKey: 'k' });
+    expect(uris).toEqual(['breitbart.com', 'cnn.com']);
+
+    // the registry alias "Breitbart" is an exact title match; outcomes are cached, so no further lookups happen
+    const report = await auditSourceResolution({ sources: ['breitbart-news', 'the-hill', 'newsmax'], http, apiKey: 'k' });
+    expect(report.summary).toEqual({ total: 3, resolved: 1, ambiguous: 1, failed: 1 });
+    expect(report.sources[0]).toMatchObject({ status: 'resolved', via: 'cache', confidence: 1 });
+    expect(report.sources[1].status).toBe('ambiguous');
+    expect(report.sources[1].candidates[0]).toMatchObject({ uri: 'hillreporter.com' });
+    expect(report.sources[2]).toMatchObject({ status: 'failed', candidates: [] });
+  });
+
+  it('looks expired entries up again and lets pins override them permanently', async () => {
+    const stale = new Date(Date.now() - 40 * 24 * 60 * 60 * 1000).toISOString();
+    await __internal.saveCache({ cnn: { uri: 'edition.cnn.com', title: 'CNN International', updatedAt: stale } });
+    suggest(dir, 'cnn', [{ uri: 'cnn.com', title: 'CNN' }]);
+    const http = createEventRegistryHttp({ replayDir: dir });
+
+    const [refreshed] = await resolveSources(['cnn'], { http, apiKey: 'k' });
+    expect(refreshed).toMatchObject({ uri: 'cnn.com', via: 'lookup', confidence: 1 });
+
+    const pinned = await auditSourceResolution({ sources: ['cnn'], pins: { cnn: 'us.cnn.com' }, refresh: true, http, apiKey: 'k' });
+    expect(pinned.sources[0]).toMatchObject({ uri: 'us.cnn.com', via: 'pin', expires_at: null });
+
+    const unpinned = await auditSourceResolution({ sources: ['cnn'], pins: { cnn: null }, http, apiKey: 'k' });
+    expect(unpinned.sources[0]).toMatchObject({ uri: 'cnn.com', via: 'lookup' });
+  });
+
+  it('queries every source in batches instead of truncating the list', async () => {
+    const sources = Array.from({ length: 12 }, (_, i) => `outlet${i}.com`);
+    const body = (sourceUri: string[]) => ({
+      resultType: 'articles',
+      dateStart: '2024-06-03',
+      dateEnd: '2024-06-03',
+      lang: 'eng',
+      articlesPage: 1,
+      articlesCount: 100,
+      articlesSortBy: 'date',
+      articleBodyLen: 0,
+      sourceUri,
+    });
+    for (const batch of [sources.slice(0, 10), sources.slice(10)]) {
+      writeFixture(dir, { method: 'POST', path: 'article/getArticles', params: {}, body: body(batch) }, {
+        status: 200,
+        data: {
+          articles: {
+            results: [{ uri: batch[0], title: `Stocks rally at ${batch[0]}`, dateTime: '2024-06-03T12:00:00Z', source: { uri: batch[0], title: batch[0] } }],
+            totalResults: 1,
+            pages: 1,
+            page: 1,
+          },
+        },
+      });
+    }
+
+    const client = new NewsApiClient('test-key', createEventRegistryHttp({ replayDir: dir }));
+    const result = await client.fetchTopHeadlinesByDate('2024-06-03', { sources, pageCap: 2 });
+
+    expect(result.articles.map((a) => a.id)).toEqual(['outlet0.com', 'outlet10.com']);
+    expect(result.requestCount).toBe(2);
+    expect(searchRequestsPlanned(sources, 2)).toBe(4);
+  });
+});
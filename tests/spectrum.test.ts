@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AnalyzeHeadlinesSchema } from '../src/schemas/headlines.js';
+import { analyzeDailyHeadlines } from '../src/services/analysis.js';
+import { scoreBiasIntensity } from '../src/services/scoring.js';
+import { FakeNewsApiClient } from './fakeNewsClient.js';
+
+describe('five-point spectrum', () => {
+  it('measures bias intensity across every leaning and matches the three-point formula', () => {
+    expect(scoreBiasIntensity({ left: 8, center: 5, right: 3 })).toBe(2.5);
+    expect(scoreBiasIntensity({ left: 8, center: 5, right: 3 }, 'three')).toBe(2.5);
+
+    // moderate outlets agreeing with the center halve the spread the extremes show on their own
+    const five = { progressive: 9, 'center-left': 5, center: 5, 'center-right': 5, conservative: 1 };
+    expect(scoreBiasIntensity(five, 'five')).toBe(2);
+    // leanings without headlines are left out instead of scoring as agreement with the center
+    expect(scoreBiasIntensity({ progressive: 9, center: 5 }, 'five')).toBe(4);
+    expect(scoreBiasIntensity({ progressive: 9, 'center-left': 5, center: 5, conservative: 1 }, 'five')).toBe(2.67);
+    expect(scoreBiasIntensity({ center: 5 }, 'five')).toBe(0);
+  });
+
+  it('keeps progressive and center-left outlets apart in daily results', async () => {
+    vi.stubEnv('DEDUP_ENABLED', '0');
+    const articles = [
+      { id: 'mother-jones', sourceName: 'Mother Jones', title: 'Stocks plunge as recession fears deepen', publishedAt: '2024-03-01T10:00:00Z' },
+      { id: 'abc-news', sourceName: 'ABC News', title: 'Stocks rally as earnings beat expectations', publishedAt: '2024-03-01T11:00:00Z' },
+      { id: 'breitbart-news', sourceName: 'Breitbart', title: 'Markets surge as inflation cools', publishedAt: '2024-03-01T12:00:00Z' },
+      { id: 'reuters', sourceName: 'Reuters', title: 'Oil prices climb on supply worries', publishedAt: '2024-03-01T13:00:00Z' },
+    ];
+    const opts = { client: new FakeNewsApiClient(articles), store: null, baselineDays: 0 };
+
+    const three = await analyzeDailyHeadlines('2024-03-01', opts);
+    const five = await analyzeDailyHeadlines('2024-03-01', { ...opts, spectrum: 'five' });
+    vi.unstubAllEnvs();
+
+    expect(three.spectrum).toBe('three');
+    expect(three.political_sentiments.left?.headlines).toBe(2);
+    expect(five.spectrum).toBe('five');
+    expect(Object.keys(five.political_sentiments)).toEqual(['progressive', 'center-left', 'center', 'center-right', 'conservative']);
+    expect(five.political_sentiments.progressive?.headlines).toBe(1);
+    expect(five.political_sentiments['center-left']?.headlines).toBe(1);
+    expect(five.political_distribution).toMatchObject({ progressive: 1, 'center-left': 1, conservative: 1, other: 1 });
+    expect(five.sample_headlines_by_leaning.progressive).toEqual(['Stocks plunge as recession fears deepen']);
+    expect(five.score_dimensions.biasIntensity).not.toBe(three.score_dimensions.biasIntensity);
+    expect(() => AnalyzeHeadlinesSchema.parse(five)).not.toThrow();
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { topStories } from '../src/services/stories.js';
+import { FakeNewsApiClient } from './fakeNewsClient.js';
+
+const HEADLINES: [string, string, string][] = [
+  ['cnn', 'CNN', 'Fed holds interest rates steady, signals cuts later this year'],
+  ['fox-business', 'Fox Business', 'Powell says Fed in no hurry to cut interest rates'],
+  ['reuters', 'Reuters', 'Fed holds rates steady as inflation cools'],
+  ['cnn', 'CNN', 'Oil stocks surge as OPEC extends output cuts'],
+  ['fox-business', 'Fox Business', 'Oil stocks jump after OPEC supply decision'],
+  ['reuters', 'Reuters', 'Chipmaker stock soars on record profit!'],
+];
+
+function fakeClient() {
+  return new FakeNewsApiClient(
+    HEADLINES.map(([id, sourceName, title], i) => ({ id, sourceName, title, publishedAt: `2024-03-20T1${i}:00:00Z` })),
+  );
+}
+
+describe('topStories', () => {
+  it('clusters headlines into topics with coverage and sentiment', async () => {
+    const result = await topStories('2024-03-20', { client: fakeClient(), store: null });
+
+    expect(result.headlines_analyzed).toBe(6);
+    expect(result.topics.map((t) => t.headlines)).toEqual([3, 2]);
+    expect(result.unclustered_headlines).toBe(1);
+
+    const [fed, oil] = result.topics;
+    expect(fed.key_terms).toContain('fed');
+    expect(fed.coverage).toEqual({ left: 1, center: 0, right: 1, other: 1 });
+    expect(fed.representative_headlines).toHaveLength(3);
+    expect(oil.key_terms).toEqual(expect.arrayContaining(['oil', 'opec']));
+    expect(oil.sentiment.investor).toBeGreaterThan(5);
+
+    const byAttention = await topStories('2024-03-20', { client: fakeClient(), store: null, rankBy: 'attention', limit: 1 });
+    expect(byAttention.topics).toHaveLength(1);
+    expect(byAttention.topics[0].rank).toBe(1);
+  });
+});
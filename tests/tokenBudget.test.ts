@@ -1,8 +1,15 @@
-import { describe, expect, it } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BudgetManager } from '../src/services/budgetManager.js';
+import { FileBudgetStore, MemoryBudgetStore, resetBudgetStore } from '../src/services/budgetStore.js';
 import {
   estimateTokensForArticleSearch,
-  checkAndRecord,
-  recordActual,
+  commitTokens,
+  getBudgetState,
+  releaseTokens,
+  reserveTokens,
 } from '../src/services/tokenBudget.js';
 
 describe('token budget estimation', () => {
@@ -16,10 +23,67 @@ describe('token budget estimation', () => {
     expect(estimate).toBe(3);
   });
 
-  it('blocks when exceeding monthly hard cap without overage', () => {
-    const status = checkAndRecord(100_000, { allowOverage: false });
+  it('blocks when exceeding monthly hard cap without overage', async () => {
+    const status = await reserveTokens(100_000, { allowOverage: false });
     expect(status.allowed).toBe(false);
     expect(status.status).toBe('blocked');
-    recordActual(0, 100_000);
+    expect(status.reserved).toBe(0);
+  });
+});
+
+describe('budget store', () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await resetBudgetStore();
+    if (dir) await rm(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it('keeps month-to-date tokens across restarts and reconciles reservations', async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'headline-vibes-budget-'));
+    vi.stubEnv('BUDGET_STORE', 'file');
+    vi.stubEnv('BUDGET_STORE_PATH', path.join(dir, 'budget.json'));
+    await resetBudgetStore();
+
+    const held = await reserveTokens(30_000);
+    expect(held).toMatchObject({ allowed: true, status: 'allowed', mtdTokens: 30_000 });
+    await commitTokens(held, 10_000);
+    await commitTokens(held, 0); // settling twice is a no-op
+
+    const released = await reserveTokens(5_000);
+    await releaseTokens(released);
+
+    // a fresh store instance (as after a redeploy) reads the same ledger
+    await resetBudgetStore();
+    expect((await getBudgetState()).mtdTokens).toBe(10_000);
+    expect((await reserveTokens(35_000)).status).toBe('throttled');
+  });
+
+  it('never lets concurrent writers on one ledger pass the limit together', async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'headline-vibes-budget-'));
+    const file = path.join(dir, 'budget.json');
+    const replicas = [new FileBudgetStore(file), new FileBudgetStore(file)];
+
+    const updates = await Promise.all(
+      Array.from({ length: 10 }, (_, i) => replicas[i % 2].incrementIf('tokens:2025-06', 10, 50)),
+    );
+    expect(updates.filter((u) => u.applied)).toHaveLength(5);
+    expect(await replicas[0].get('tokens:2025-06')).toBe(50);
+  });
+
+  it('reserves planned requests against the daily cap', async () => {
+    const store = new MemoryBudgetStore();
+    const manager = new BudgetManager({ dailyRequestsCap: 3, store: async () => store });
+
+    const first = await manager.reserve(2);
+    expect(first.allowed).toBe(true);
+    const second = await manager.reserve(2);
+    expect(second).toMatchObject({ allowed: false, reserved: 0 });
+
+    await manager.commit(first, 1);
+    expect((await manager.reserve(2)).allowed).toBe(true);
+    expect(await manager.shouldThrottle()).toBe(true);
   });
 });
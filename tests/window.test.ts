@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AnalyzeWindowSchema } from '../src/schemas/window.js';
+import { analyzeWindow, resolveWindow } from '../src/services/window.js';
+import { FakeNewsApiClient, fetchResult } from './fakeNewsClient.js';
+
+const now = new Date('2024-06-12T17:30:00Z');
+
+describe('analyzeWindow', () => {
+  it('buckets a window hourly around a release and scores the latest hours', async () => {
+    const articles = [
+      { id: 'cnn.com', sourceName: 'CNN', title: 'Stocks slide as traders brace for Fed decision', publishedAt: '2024-06-12T13:40:00Z' },
+      { id: 'reuters.com', sourceName: 'Reuters', title: 'Treasury yields climb ahead of Fed decision', publishedAt: '2024-06-12T13:50:00Z' },
+      { id: 'cnbc.com', sourceName: 'CNBC', title: 'Stocks rally as Fed signals rate cuts', publishedAt: '2024-06-12T14:10:00Z' },
+      { id: 'wsj.com', sourceName: 'WSJ', title: 'Markets surge after Fed holds rates steady', publishedAt: '2024-06-12T15:05:00Z' },
+      { id: 'bloomberg.com', sourceName: 'Bloomberg', title: 'Nasdaq gains as investors cheer Fed outlook', publishedAt: '2024-06-12T16:45:00Z' },
+      // before the window
+      { id: 'cnn.com', sourceName: 'CNN', title: 'Stocks plunge in early trading', publishedAt: '2024-06-12T12:00:00Z' },
+    ];
+    const client = new FakeNewsApiClient(articles);
+    const fetchEverythingRange = vi.spyOn(client, 'fetchEverythingRange');
+
+    const result = await analyzeWindow({ lastHours: 4 }, { client, now, rollingHours: 3 });
+    expect(() => AnalyzeWindowSchema.parse(result)).not.toThrow();
+
+    expect(fetchEverythingRange).toHaveBeenCalledWith('2024-06-12', '2024-06-12', expect.objectContaining({
+      pageCap: 2,
+      timeWindow: { start: '2024-06-12T13:30:00.000Z', end: '2024-06-12T17:30:00.000Z' },
+    }));
+    expect(result.window).toEqual({ start: '2024-06-12T13:30:00.000Z', end: '2024-06-12T17:30:00.000Z', hours: 4 });
+    expect(result.series.map((b) => [b.hour.slice(11, 16), b.start.slice(11, 16), b.relevant_headlines])).toEqual([
+      ['13:00', '13:30', 2],
+      ['14:00', '14:00', 1],
+      ['15:00', '15:00', 1],
+      ['16:00', '16:00', 1],
+      ['17:00', '17:00', 0],
+    ]);
+    expect(result.series[4].sentiment).toBeNull();
+    // the mood turns at the 2pm release
+    expect(result.series[1].sentiment!.investor).toBeGreaterThan(result.series[0].sentiment!.investor);
+
+    expect(result.rolling).toMatchObject({ hours: 3, start: '2024-06-12T14:30:00.000Z', relevant_headlines: 2 });
+    expect(result.overall.relevant_headlines).toBe(5);
+    // the oldest article fetched, although it fell before the window
+    expect(result.diagnostics.sampling).toMatchObject({ earliest_article: '2024-06-12T12:00:00.000Z', truncated: false });
+    expect(result.diagnostics.completeness.complete).toBe(true);
+  });
+
+  it('sizes the page cap to the days searched and flags a search the cap stopped before the window start', async () => {
+    const client = new FakeNewsApiClient([]);
+    const fetchEverythingRange = vi.spyOn(client, 'fetchEverythingRange').mockResolvedValue(
+      fetchResult(
+        [{ id: 'cnn.com', sourceName: 'CNN', title: 'Stocks rally as Fed signals rate cuts', publishedAt: '2024-06-12T09:00:00Z' }],
+        { pagesFetched: 4, truncated: [null] },
+      ),
+    );
+
+    const result = await analyzeWindow({ start: '2024-06-11T20:00:00Z', end: '2024-06-12T12:00:00Z' }, { client, now });
+
+    expect(fetchEverythingRange).toHaveBeenCalledWith('2024-06-11', '2024-06-12', expect.objectContaining({ pageCap: 4 }));
+    expect(result.diagnostics.sampling).toMatchObject({ earliest_article: '2024-06-12T09:00:00.000Z', truncated: true });
+    expect(result.diagnostics.completeness).toEqual({ complete: false, errors: [] });
+  });
+
+  it('resolves window specs and rejects bad ones', () => {
+    // no offset means UTC; an end past now (15:00 EDT is 19:00Z) is capped at now
+    expect(resolveWindow({ start: '2024-06-12T13:00', end: '2024-06-12T15:00-04:00' }, now)).toEqual({
+      start: new Date('2024-06-12T13:00:00Z'),
+      end: now,
+    });
+    expect(() => resolveWindow({ lastHours: 100 }, now)).toThrow(/lastHours/);
+    expect(() => resolveWindow({ start: '2024-06-12T16:00:00Z', end: '2024-06-12T15:00:00Z' }, now)).toThrow(/end after/);
+    expect(() => resolveWindow({ start: '2024-06-01T00:00:00Z' }, now)).toThrow(/72 hours/);
+  });
+});
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    // Budget counters stay in memory so test runs never spend from (or write) the local ledger, and fixtures are
+    // never answered from a page cached by an earlier case
+    env: { BUDGET_STORE: 'memory', ARTICLE_CACHE: 'none' },
+  },
+});